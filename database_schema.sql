@@ -164,6 +164,39 @@ CREATE TABLE public.customers (
     email VARCHAR(255) NOT NULL,
     phone VARCHAR(20),
     notes TEXT,
+    locale VARCHAR(35), -- language tag for messages, e.g. 'es' or 'pt-BR'; the business default when null
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Recurring appointment series. Each occurrence is an ordinary appointment
+-- linked back through appointments.series_id.
+CREATE TABLE public.appointment_series (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    staff_id UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+    rrule VARCHAR(255) NOT NULL,
+    first_start_time TIMESTAMP NOT NULL,
+    duration_minutes INTEGER NOT NULL,
+    timezone VARCHAR(50) NOT NULL,
+    notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'canceled')),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Multi-service visits: several appointments booked back to back as one
+-- booking, confirmed and cancelled together
+CREATE TABLE public.visits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    start_time TIMESTAMP NOT NULL,
+    end_time TIMESTAMP NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'canceled')),
+    notes TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -185,18 +218,147 @@ CREATE TABLE public.appointments (
     internal_notes TEXT,
     reminder_sent BOOLEAN DEFAULT FALSE,
     confirmation_sent BOOLEAN DEFAULT FALSE,
+    series_id UUID REFERENCES public.appointment_series(id) ON DELETE SET NULL,
+    series_occurrence INTEGER,
+    visit_id UUID REFERENCES public.visits(id) ON DELETE SET NULL,
+    visit_sequence INTEGER,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Appointment notifications
+-- Appointment notifications. Booking, rescheduling and cancelling queue a
+-- row per message and channel; the notification worker sends the due ones.
+-- notification_type is the delivery channel. Failed sends are retried at
+-- next_attempt_at; rows made pointless by a later change are 'canceled'.
 CREATE TABLE public.appointment_notifications (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
     appointment_id UUID NOT NULL REFERENCES public.appointments(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('confirmation', 'reminder', 'follow_up', 'rescheduled', 'cancellation')),
     notification_type VARCHAR(20) NOT NULL CHECK (notification_type IN ('email', 'sms', 'push')),
-    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'canceled')),
     scheduled_at TIMESTAMP NOT NULL,
+    next_attempt_at TIMESTAMP,
     sent_at TIMESTAMP,
+    recipient VARCHAR(255),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Customer message templates. A business words each kind of message per
+-- channel and locale; messages without a matching template use the built-in
+-- English defaults.
+CREATE TABLE public.message_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('confirmation', 'reminder', 'follow_up', 'rescheduled', 'cancellation')),
+    channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'push')),
+    locale VARCHAR(35) NOT NULL,
+    subject TEXT,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(business_id, kind, channel, locale)
+);
+
+-- iCalendar feeds of a staff member's or a customer's appointments. The feed
+-- URL carries a secret token, stored only as a hash; revoking a feed turns
+-- its URL off.
+CREATE TABLE public.calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    staff_id UUID REFERENCES public.staff(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) NOT NULL UNIQUE,
+    last_accessed_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK ((staff_id IS NULL) <> (customer_id IS NULL))
+);
+
+-- External calendars staff keep elsewhere (e.g. at a second salon), imported
+-- from an iCalendar URL or local file. Their events are stored as busy blocks,
+-- which slot generation and conflict checks treat as taken time; re-importing
+-- replaces a calendar's blocks.
+CREATE TABLE public.external_calendars (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+    name VARCHAR(255),
+    source_type VARCHAR(10) NOT NULL CHECK (source_type IN ('url', 'file')),
+    source TEXT NOT NULL,
+    busy_block_count INTEGER NOT NULL DEFAULT 0,
+    last_synced_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(staff_id, source)
+);
+
+CREATE TABLE public.external_busy_blocks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+    calendar_id UUID NOT NULL REFERENCES public.external_calendars(id) ON DELETE CASCADE,
+    event_uid TEXT,
+    summary TEXT,
+    start_time TIMESTAMP NOT NULL,
+    end_time TIMESTAMP NOT NULL,
+    is_all_day BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (end_time > start_time)
+);
+
+-- Outbound webhooks. Endpoints subscribe to event types ("appointment.*"
+-- for all appointment events; none for every event) and sign requests with
+-- their secret. Events are written to the webhook_events outbox in the same
+-- transaction as the change they describe; the worker fans each one out to
+-- the subscribed endpoints as deliveries, and logs every attempt.
+CREATE TABLE public.webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    description TEXT,
+    event_types TEXT[] NOT NULL DEFAULT '{}',
+    secret VARCHAR(100) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    event_type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL,
+    dispatched_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL REFERENCES public.webhook_events(id) ON DELETE CASCADE,
+    endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    last_status_code INTEGER,
+    last_error TEXT,
+    is_replay BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.webhook_delivery_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    delivery_id UUID NOT NULL REFERENCES public.webhook_deliveries(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    status_code INTEGER,
+    response_body TEXT,
+    error TEXT,
+    duration_ms INTEGER NOT NULL,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
@@ -247,6 +409,7 @@ CREATE TABLE public.business_settings (
     timezone VARCHAR(50) DEFAULT 'UTC',
     contact_email VARCHAR(255),
     contact_phone VARCHAR(20),
+    default_locale VARCHAR(35) DEFAULT 'en',
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(business_id)
@@ -267,6 +430,153 @@ CREATE TABLE public.reviews (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Temporary slot holds taken while an agent collects booking details.
+-- A hold blocks its staff/time slot until it expires, is released or is
+-- converted into an appointment with its hold_token.
+CREATE TABLE public.slot_holds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+    hold_token VARCHAR(64) NOT NULL UNIQUE,
+    start_time TIMESTAMP NOT NULL,
+    end_time TIMESTAMP NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Waitlist for fully booked services. An entry describes when the customer
+-- could come; a freed slot matching it is offered and held until the offer
+-- is accepted or expires.
+CREATE TABLE public.waitlist_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    staff_id UUID REFERENCES public.staff(id) ON DELETE SET NULL,
+    earliest_date DATE,
+    latest_date DATE,
+    window_start TIME,
+    window_end TIME,
+    priority INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'left')),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.waitlist_offers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+    start_time TIMESTAMP NOT NULL,
+    end_time TIMESTAMP NOT NULL,
+    hold_token VARCHAR(64) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired')),
+    appointment_id UUID REFERENCES public.appointments(id) ON DELETE SET NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    responded_at TIMESTAMP
+);
+
+-- Bookable resources (rooms, chairs, equipment). Each row of resources is one
+-- unit of its type; a service that needs a type takes `quantity` units for
+-- the length of every booking, hold and class session of it.
+CREATE TABLE public.resource_types (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(business_id, name)
+);
+
+CREATE TABLE public.resources (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    resource_type_id UUID NOT NULL REFERENCES public.resource_types(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    is_active BOOLEAN DEFAULT TRUE,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.service_resource_requirements (
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    resource_type_id UUID NOT NULL REFERENCES public.resource_types(id) ON DELETE CASCADE,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    PRIMARY KEY (service_id, resource_type_id)
+);
+
+-- Group classes: a session of a service at a fixed time with one instructor
+-- and a number of seats. Customers enroll in the session instead of booking
+-- their own appointment; the instructor is busy for the whole session.
+CREATE TABLE public.class_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+    staff_id UUID NOT NULL REFERENCES public.staff(id) ON DELETE CASCADE,
+    start_time TIMESTAMP NOT NULL,
+    end_time TIMESTAMP NOT NULL,
+    capacity INTEGER NOT NULL CHECK (capacity > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'canceled')),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE public.class_enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'enrolled' CHECK (status IN ('enrolled', 'cancelled')),
+    notes TEXT,
+    enrolled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    cancelled_at TIMESTAMP
+);
+
+-- One-time codes proving a customer's identity to an agent session. Codes are
+-- sent to the email or phone on file and stored only as a salted hash.
+CREATE TABLE public.customer_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'sms')),
+    destination VARCHAR(255) NOT NULL,
+    code_hash VARCHAR(64) NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP NOT NULL,
+    verified_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Failed verify_customer_by_booking checks. Kept per customer rather than per
+-- session so that opening new sessions does not reset the lockout.
+CREATE TABLE public.customer_verification_failures (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Audit trail of customer merges. The merged (deleted) customer is kept as a
+-- JSON snapshot; `moved` counts the rows re-pointed to the survivor per table.
+CREATE TABLE public.customer_merges (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    business_id UUID NOT NULL REFERENCES public.businesses(id) ON DELETE CASCADE,
+    survivor_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+    merged_customer_id UUID NOT NULL,
+    merged_customer JSONB NOT NULL,
+    moved JSONB NOT NULL DEFAULT '{}',
+    reason TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Indexes for performance
 CREATE INDEX idx_businesses_user ON public.businesses(user_id);
 CREATE INDEX idx_businesses_slug ON public.businesses(slug);
@@ -290,11 +600,43 @@ CREATE INDEX idx_appointments_service ON public.appointments(service_id);
 CREATE INDEX idx_appointments_staff ON public.appointments(staff_id);
 CREATE INDEX idx_appointments_start_time ON public.appointments(start_time);
 CREATE INDEX idx_appointments_status ON public.appointments(status);
+CREATE INDEX idx_appointments_series ON public.appointments(series_id);
+CREATE INDEX idx_appointment_series_business ON public.appointment_series(business_id);
+CREATE INDEX idx_appointments_visit ON public.appointments(visit_id);
+CREATE INDEX idx_visits_business ON public.visits(business_id);
+CREATE INDEX idx_appointment_notifications_appointment ON public.appointment_notifications(appointment_id);
+CREATE INDEX idx_appointment_notifications_due ON public.appointment_notifications(status, scheduled_at);
 CREATE INDEX idx_payments_appointment ON public.payments(appointment_id);
 CREATE INDEX idx_payments_subscription ON public.payments(business_subscription_id);
 CREATE INDEX idx_invoices_business ON public.invoices(business_id);
 CREATE INDEX idx_reviews_business ON public.reviews(business_id);
 CREATE INDEX idx_reviews_appointment ON public.reviews(appointment_id);
+CREATE INDEX idx_slot_holds_staff_time ON public.slot_holds(staff_id, start_time);
+CREATE INDEX idx_slot_holds_service_time ON public.slot_holds(service_id, start_time);
+CREATE INDEX idx_slot_holds_expires ON public.slot_holds(expires_at);
+CREATE INDEX idx_waitlist_entries_service ON public.waitlist_entries(business_id, service_id, status);
+CREATE INDEX idx_waitlist_entries_customer ON public.waitlist_entries(customer_id);
+CREATE INDEX idx_waitlist_offers_entry ON public.waitlist_offers(entry_id);
+CREATE INDEX idx_waitlist_offers_pending ON public.waitlist_offers(business_id, status, expires_at);
+CREATE INDEX idx_resources_type ON public.resources(resource_type_id);
+CREATE INDEX idx_service_resource_requirements_type ON public.service_resource_requirements(resource_type_id);
+CREATE INDEX idx_class_sessions_business_time ON public.class_sessions(business_id, start_time);
+CREATE INDEX idx_class_sessions_staff_time ON public.class_sessions(staff_id, start_time);
+CREATE INDEX idx_class_enrollments_session ON public.class_enrollments(session_id, status);
+CREATE UNIQUE INDEX idx_class_enrollments_active ON public.class_enrollments(session_id, customer_id) WHERE status = 'enrolled';
+CREATE INDEX idx_customer_verifications_customer ON public.customer_verifications(customer_id, created_at);
+CREATE INDEX idx_customer_verification_failures_customer ON public.customer_verification_failures(customer_id, created_at);
+CREATE INDEX idx_customer_merges_business ON public.customer_merges(business_id, created_at);
+CREATE INDEX idx_calendar_feeds_business ON public.calendar_feeds(business_id, created_at);
+CREATE INDEX idx_external_calendars_staff ON public.external_calendars(business_id, staff_id);
+CREATE INDEX idx_external_busy_blocks_staff_time ON public.external_busy_blocks(staff_id, start_time);
+CREATE INDEX idx_external_busy_blocks_calendar ON public.external_busy_blocks(calendar_id);
+CREATE INDEX idx_webhook_endpoints_business ON public.webhook_endpoints(business_id);
+CREATE INDEX idx_webhook_events_business ON public.webhook_events(business_id, created_at);
+CREATE INDEX idx_webhook_events_undispatched ON public.webhook_events(created_at) WHERE dispatched_at IS NULL;
+CREATE INDEX idx_webhook_deliveries_event ON public.webhook_deliveries(event_id);
+CREATE INDEX idx_webhook_deliveries_pending ON public.webhook_deliveries(status, next_attempt_at);
+CREATE INDEX idx_webhook_delivery_attempts_delivery ON public.webhook_delivery_attempts(delivery_id, attempt);
 
 -- Functions for updated_at timestamps
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
@@ -312,12 +654,60 @@ CREATE TRIGGER update_business_subscriptions_updated_at BEFORE UPDATE ON public.
 CREATE TRIGGER update_services_updated_at BEFORE UPDATE ON public.services FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_staff_updated_at BEFORE UPDATE ON public.staff FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_customers_updated_at BEFORE UPDATE ON public.customers FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_appointment_series_updated_at BEFORE UPDATE ON public.appointment_series FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_visits_updated_at BEFORE UPDATE ON public.visits FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_appointments_updated_at BEFORE UPDATE ON public.appointments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON public.payments FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_invoices_updated_at BEFORE UPDATE ON public.invoices FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_business_settings_updated_at BEFORE UPDATE ON public.business_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_resource_types_updated_at BEFORE UPDATE ON public.resource_types FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_resources_updated_at BEFORE UPDATE ON public.resources FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_class_sessions_updated_at BEFORE UPDATE ON public.class_sessions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON public.waitlist_entries FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_message_templates_updated_at BEFORE UPDATE ON public.message_templates FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_external_calendars_updated_at BEFORE UPDATE ON public.external_calendars FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_webhook_endpoints_updated_at BEFORE UPDATE ON public.webhook_endpoints FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 CREATE TRIGGER update_reviews_updated_at BEFORE UPDATE ON public.reviews FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
 
+-- Change notifications for MCP resources (businesses, services, staff, hours)
+CREATE OR REPLACE FUNCTION public.notify_resource_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    row_data JSONB;
+    business_id_value TEXT;
+BEGIN
+    row_data := to_jsonb(COALESCE(NEW, OLD));
+
+    IF TG_TABLE_NAME = 'businesses' THEN
+        business_id_value := row_data->>'id';
+    ELSE
+        business_id_value := row_data->>'business_id';
+    END IF;
+
+    IF business_id_value IS NULL AND row_data ? 'staff_id' THEN
+        SELECT s.business_id::text INTO business_id_value FROM public.staff s WHERE s.id = (row_data->>'staff_id')::uuid;
+    END IF;
+
+    PERFORM pg_notify('appointment_resource_changes', json_build_object(
+        'table', TG_TABLE_NAME,
+        'operation', TG_OP,
+        'id', row_data->>'id',
+        'business_id', business_id_value,
+        'staff_id', row_data->>'staff_id',
+        'service_id', row_data->>'service_id'
+    )::text);
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER notify_businesses_change AFTER INSERT OR UPDATE OR DELETE ON public.businesses FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+CREATE TRIGGER notify_services_change AFTER INSERT OR UPDATE OR DELETE ON public.services FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+CREATE TRIGGER notify_staff_change AFTER INSERT OR UPDATE OR DELETE ON public.staff FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+CREATE TRIGGER notify_staff_services_change AFTER INSERT OR UPDATE OR DELETE ON public.staff_services FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+CREATE TRIGGER notify_working_hours_change AFTER INSERT OR UPDATE OR DELETE ON public.working_hours FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+CREATE TRIGGER notify_staff_working_hours_change AFTER INSERT OR UPDATE OR DELETE ON public.staff_working_hours FOR EACH ROW EXECUTE FUNCTION public.notify_resource_change();
+
 -- Row Level Security (RLS) policies
 -- Enable RLS on all tables
 ALTER TABLE public.businesses ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,116 @@
+// Alternatives for a request that cannot be booked: why the requested time
+// does not work, in plain language, and ranked suggestions of what would.
+// The data layer finds the candidates; this module phrases and orders them.
+
+import { getZonedParts } from './timezone.js';
+
+const DAY_NAMES = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+
+export const DEFAULT_ALTERNATIVES = 5;
+export const MAX_ALTERNATIVES = 15;
+
+// Why a staff member cannot take a booking at a time, as found in their schedule
+export type UnavailableReason =
+  | { code: 'BUSINESS_CLOSED'; day_of_week: number }
+  | { code: 'OUTSIDE_BUSINESS_HOURS'; day_of_week: number; open_time: string; close_time: string }
+  | { code: 'STAFF_NOT_WORKING'; day_of_week: number }
+  | { code: 'OUTSIDE_STAFF_HOURS'; day_of_week: number; open_time: string; close_time: string }
+  | { code: 'STAFF_TIME_OFF'; title: string | null }
+  | { code: 'STAFF_BUSY'; kind: 'appointment' | 'hold' | 'class'; start_time: Date; end_time: Date }
+  | { code: 'EXTERNAL_CALENDAR_BUSY'; start_time: Date; end_time: Date }
+  | { code: 'OUTSIDE_SEARCH_RANGE' };
+
+export type AlternativeKind = 'same_staff_other_time' | 'other_staff_same_time' | 'other_time' | 'similar_service';
+
+export interface Alternative {
+  kind: AlternativeKind;
+  service_id: string;
+  service_name: string;
+  staff_id: string;
+  staff_name: string;
+  start_time: Date;
+  end_time: Date;
+  reason: string;
+}
+
+const hhmm = (time: string) => time.slice(0, 5);
+
+/**
+ * A reason as a sentence about the staff member, e.g. "Sarah is on time off"
+ * or "the business is closed on Sundays".
+ */
+export function describeUnavailableReason(reason: UnavailableReason, staffName: string, timeZone: string): string {
+  switch (reason.code) {
+    case 'BUSINESS_CLOSED':
+      return `the business is closed on ${DAY_NAMES[reason.day_of_week]}`;
+    case 'OUTSIDE_BUSINESS_HOURS':
+      return `the business is open ${hhmm(reason.open_time)}-${hhmm(reason.close_time)} on ${DAY_NAMES[reason.day_of_week]}`;
+    case 'STAFF_NOT_WORKING':
+      return `${staffName} does not work on ${DAY_NAMES[reason.day_of_week]}`;
+    case 'OUTSIDE_STAFF_HOURS':
+      return `${staffName} works ${hhmm(reason.open_time)}-${hhmm(reason.close_time)} on ${DAY_NAMES[reason.day_of_week]}`;
+    case 'STAFF_TIME_OFF':
+      return `${staffName} is on time off${reason.title ? ` (${reason.title})` : ''}`;
+    case 'STAFF_BUSY': {
+      const from = getZonedParts(reason.start_time, timeZone).time.slice(0, 5);
+      const until = getZonedParts(reason.end_time, timeZone).time.slice(0, 5);
+      const what = { appointment: 'already booked', hold: 'held for another booking', class: 'teaching a class' }[reason.kind];
+      return `${staffName} is ${what} ${from}-${until}`;
+    }
+    // What the external calendar says they are doing is not for customers
+    case 'EXTERNAL_CALENDAR_BUSY': {
+      const from = getZonedParts(reason.start_time, timeZone).time.slice(0, 5);
+      const until = getZonedParts(reason.end_time, timeZone).time.slice(0, 5);
+      return `${staffName} is busy elsewhere ${from}-${until}`;
+    }
+    case 'OUTSIDE_SEARCH_RANGE':
+      return `${staffName}'s schedule for that day was not checked`;
+  }
+}
+
+// Minutes between two instants, ignoring direction
+function distanceMinutes(a: Date, b: Date): number {
+  return Math.abs(a.getTime() - b.getTime()) / 60000;
+}
+
+// Extra distance, in minutes, charged for changing more than the time
+const KIND_PENALTY: Record<AlternativeKind, number> = {
+  other_staff_same_time: 15,
+  same_staff_other_time: 0,
+  other_time: 0,
+  similar_service: 120,
+};
+
+/**
+ * Order suggestions by how far they move the customer from what they asked
+ * for: minutes away from the requested start, plus a small penalty for another
+ * staff member and a larger one for another service. Duplicates are dropped.
+ */
+export function rankAlternatives(alternatives: Alternative[], requestedStart: Date, limit: number): Alternative[] {
+  const score = (alternative: Alternative) => distanceMinutes(alternative.start_time, requestedStart) + KIND_PENALTY[alternative.kind];
+  const seen = new Set<string>();
+
+  return [...alternatives]
+    .sort((a, b) => score(a) - score(b) || a.start_time.getTime() - b.start_time.getTime())
+    .filter((alternative) => {
+      const key = `${alternative.service_id}|${alternative.staff_id}|${alternative.start_time.getTime()}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+}
+
+// "Sarah is free 30 minutes later" style reasons for time-shifted suggestions
+export function describeTimeShift(staffName: string, start: Date, requestedStart: Date, timeZone: string): string {
+  const minutes = Math.round((start.getTime() - requestedStart.getTime()) / 60000);
+  const sameDay = getZonedParts(start, timeZone).date === getZonedParts(requestedStart, timeZone).date;
+  if (sameDay && Math.abs(minutes) < 24 * 60) {
+    const hours = Math.floor(Math.abs(minutes) / 60);
+    const rest = Math.abs(minutes) % 60;
+    const amount = [hours ? `${hours} hour${hours === 1 ? '' : 's'}` : '', rest ? `${rest} minutes` : ''].filter(Boolean).join(' ');
+    return `${staffName} is free ${amount} ${minutes < 0 ? 'earlier' : 'later'} the same day`;
+  }
+  const local = getZonedParts(start, timeZone);
+  return `${staffName} is free on ${DAY_NAMES[local.dayOfWeek].slice(0, -1)} ${local.date} at ${local.time.slice(0, 5)}`;
+}
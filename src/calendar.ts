@@ -0,0 +1,173 @@
+// iCalendar (RFC 5545) export. A single appointment becomes an .ics file the
+// customer can add to their calendar; staff and customers can also subscribe
+// to a feed of their appointments at a URL carrying a secret token. Times are
+// written in UTC, so no VTIMEZONE definitions are needed.
+
+import { createHash, randomBytes } from 'crypto';
+
+export const CALENDAR_PRODUCT_ID = '-//Appointment MCP//Appointments//EN';
+
+// Minutes before the start the calendar alarm goes off; 0 leaves alarms out
+export const CALENDAR_ALARM_MINUTES = parseInt(process.env.CALENDAR_ALARM_MINUTES || '60', 10);
+// Feeds include appointments from this many days back, and everything ahead
+export const CALENDAR_FEED_PAST_DAYS = 30;
+// Feeds are served over HTTP at /calendar/<token>.ics
+export const CALENDAR_FEED_PATH = '/calendar/';
+
+export type CalendarEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  organizer?: { name: string; email: string } | null;
+  status: CalendarEventStatus;
+  updated_at?: Date | null;
+  // Minutes before the start for a display alarm, or null for none
+  alarm_minutes?: number | null;
+}
+
+// Whose appointments a feed shows: one staff member's or one customer's
+export interface CalendarFeedOwner {
+  staff_id?: string | null;
+  customer_id?: string | null;
+}
+
+// Scheduled appointments are tentative until confirmed
+export function calendarStatus(appointmentStatus: string): CalendarEventStatus {
+  if (appointmentStatus === 'canceled' || appointmentStatus === 'cancelled') return 'CANCELLED';
+  return appointmentStatus === 'scheduled' ? 'TENTATIVE' : 'CONFIRMED';
+}
+
+// The business's postal address on one line, or null when it has none
+export function formatLocation(business: {
+  address_line1?: string | null;
+  address_line2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  postal_code?: string | null;
+  country?: string | null;
+}): string | null {
+  const region = [business.state, business.postal_code].filter(Boolean).join(' ');
+  const parts = [business.address_line1, business.address_line2, business.city, region, business.country]
+    .map((part) => part?.trim())
+    .filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// TEXT values escape backslashes, semicolons, commas and line breaks
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+// 2030-05-03T10:00:00Z -> 20300503T100000Z
+export function formatUtcDateTime(instant: Date): string {
+  return instant.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing on lines that start with a
+ * space. Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to their leading space
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+// Parameter values with separators are quoted; quotes themselves are not allowed
+function paramValue(value: string): string {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+function eventLines(event: CalendarEvent, now: Date): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `DTSTART:${formatUtcDateTime(event.start)}`,
+    `DTEND:${formatUtcDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.organizer?.email) {
+    lines.push(`ORGANIZER;CN=${paramValue(event.organizer.name)}:mailto:${event.organizer.email}`);
+  }
+  lines.push(`STATUS:${event.status}`);
+  if (event.status === 'CANCELLED') lines.push('TRANSP:TRANSPARENT');
+  if (event.updated_at) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.updated_at)}`);
+
+  // Cancelled appointments keep their place in the calendar but raise no alarm
+  if (event.alarm_minutes && event.status !== 'CANCELLED') {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `TRIGGER:-PT${event.alarm_minutes}M`,
+      `DESCRIPTION:${escapeText(`Reminder: ${event.summary}`)}`,
+      'END:VALARM'
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * An iCalendar object with one VEVENT per event, folded and with CRLF line
+ * endings. The name and timezone are shown by clients that support the
+ * X-WR-CALNAME and X-WR-TIMEZONE extensions.
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: { name?: string | null; time_zone?: string | null; now?: Date } = {}
+): string {
+  const now = options.now ?? new Date();
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${CALENDAR_PRODUCT_ID}`, 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH'];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.time_zone) lines.push(`X-WR-TIMEZONE:${options.time_zone}`);
+  for (const event of events) {
+    lines.push(...eventLines(event, now));
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// A feed token: 32 random bytes, URL-safe
+export function generateFeedToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Feed tokens are stored hashed; the token itself is only shown once
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token.trim()).digest('hex');
+}
+
+/**
+ * Where a feed is served: CALENDAR_FEED_BASE_URL (e.g. https://book.example.com)
+ * plus the feed path, or just the path when the base URL is not configured.
+ */
+export function calendarFeedUrl(token: string): string {
+  const base = (process.env.CALENDAR_FEED_BASE_URL || '').replace(/\/+$/, '');
+  return `${base}${CALENDAR_FEED_PATH}${token}.ics`;
+}
@@ -0,0 +1,74 @@
+import { isValidUUID } from './database.js';
+
+/**
+ * Per-connection context. Stdio mode has a single session; in HTTP mode
+ * each SSE session gets its own.
+ */
+export interface SessionContext {
+  // Business the session is bound to, if any
+  businessId?: string;
+  // True when the business came from an API key; tool arguments may not override it
+  businessLocked: boolean;
+  // Customers who proved their identity in this session (see verification.ts)
+  verifiedCustomerIds?: Set<string>;
+}
+
+// Default business used when neither the tool call nor the session names one
+export const DEFAULT_BUSINESS_ID = process.env.BUSINESS_ID;
+
+export function createSessionContext(businessId?: string, businessLocked: boolean = false): SessionContext {
+  return { businessId, businessLocked };
+}
+
+// Parse MCP_API_KEYS ("key1:business-id-1,key2:business-id-2") into a lookup table
+function loadApiKeys(): Map<string, string> {
+  const apiKeys = new Map<string, string>();
+
+  for (const entry of (process.env.MCP_API_KEYS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) continue;
+
+    const key = entry.slice(0, separator).trim();
+    const businessId = entry.slice(separator + 1).trim();
+    if (key && businessId) {
+      apiKeys.set(key, businessId);
+    }
+  }
+
+  return apiKeys;
+}
+
+const API_KEYS = loadApiKeys();
+
+export function isApiKeyAuthEnabled(): boolean {
+  return API_KEYS.size > 0;
+}
+
+export function getBusinessIdForApiKey(apiKey: string): string | undefined {
+  return API_KEYS.get(apiKey);
+}
+
+/**
+ * Resolve the business a tool call operates on. Precedence is the business_id
+ * tool argument, then the session's business, then BUSINESS_ID. A session bound
+ * by API key only ever operates on its own business.
+ */
+export function resolveBusinessId(session: SessionContext, providedBusinessId?: string): string {
+  if (session.businessLocked) {
+    if (providedBusinessId && providedBusinessId !== session.businessId) {
+      throw new Error('This session is not authorized for the requested business.');
+    }
+    return session.businessId!;
+  }
+
+  const businessId = providedBusinessId || session.businessId || DEFAULT_BUSINESS_ID;
+  if (!businessId) {
+    throw new Error('Business ID is required. Either provide business_id parameter or set BUSINESS_ID environment variable.');
+  }
+
+  if (!isValidUUID(businessId)) {
+    throw new Error(`Invalid business ID format: ${businessId}`);
+  }
+
+  return businessId;
+}
@@ -1,16 +1,145 @@
-import { Pool, PoolClient } from 'pg';
+import pg, { Pool, PoolClient } from 'pg';
 import { randomUUID } from 'crypto';
+import {
+  DEFAULT_TIMEZONE,
+  normalizeTimeZone,
+  getDayOfWeek,
+  getZonedParts,
+  getLocalDayRange,
+  parseDateTime,
+  zonedTimeToInstant,
+  isExistingLocalTime,
+  formatInTimeZone,
+  addDays,
+} from './timezone.js';
+import { DomainError, PolicyViolationError, SlotTakenError, isDomainError } from './errors.js';
+import {
+  BookingPolicy,
+  PolicyViolation,
+  policyFromSettings,
+  checkBookingWindow,
+  checkChangeAllowed,
+} from './policy.js';
+import {
+  ResourceRequirement,
+  ResourceUse,
+  findResourceShortages,
+  resourceCapacity,
+  describeResourceShortage,
+} from './inventory.js';
+import {
+  MAX_VISIT_SERVICES,
+  StaffAvailabilityCheck,
+  VisitSegmentPlan,
+  VisitService,
+  planVisit,
+  visitLengthMinutes,
+} from './visits.js';
+import {
+  DEFAULT_SEARCH_DAYS,
+  MAX_SEARCH_DAYS,
+  MAX_SEARCH_RESULTS,
+  SlotCandidate,
+  SlotOrder,
+  TimeOfDay,
+  Weekday,
+  matchesTimeOfDay,
+  matchesWeekday,
+  rankSlots,
+  timeOfDay,
+} from './slotSearch.js';
+import {
+  Alternative,
+  DEFAULT_ALTERNATIVES,
+  MAX_ALTERNATIVES,
+  UnavailableReason,
+  describeTimeShift,
+  describeUnavailableReason,
+  rankAlternatives,
+} from './alternatives.js';
+import { RecurrenceRule, expandOccurrenceDates, formatRecurrenceRule } from './recurrence.js';
+import {
+  MAX_VERIFICATION_ATTEMPTS,
+  VERIFICATION_CODE_TTL_MINUTES,
+  VERIFICATION_LOCKOUT_MINUTES,
+  VERIFICATION_RESEND_SECONDS,
+  generateVerificationCode,
+  hashVerificationCode,
+  verificationCodeMatches,
+  VerificationChannel,
+} from './verification.js';
+import { DEFAULT_DUPLICATE_SCORE, MAX_DUPLICATE_RESULTS, findDuplicatePairs } from './duplicates.js';
+import { DeliveryChannel, deliverMessage } from './delivery.js';
+import {
+  MAX_NOTIFICATION_ATTEMPTS,
+  NOTIFICATION_BATCH_SIZE,
+  NOTIFICATION_LEASE_MINUTES,
+  NotificationContact,
+  NotificationEvent,
+  NotificationKind,
+  NotificationStatus,
+  notificationRecipient,
+  notificationRetryDelayMinutes,
+  notificationSkipReason,
+  planNotifications,
+  reachableChannels,
+} from './notifications.js';
+import {
+  DEFAULT_LOCALE,
+  MessageContext,
+  MessageTemplate,
+  RenderedMessage,
+  localeFallbacks,
+  normalizeLocale,
+  renderMessage,
+  validateTemplate,
+} from './templates.js';
+import {
+  CALENDAR_ALARM_MINUTES,
+  CALENDAR_FEED_PAST_DAYS,
+  CalendarEvent,
+  CalendarFeedOwner,
+  buildCalendar,
+  calendarStatus,
+  formatLocation,
+  generateFeedToken,
+  hashFeedToken,
+} from './calendar.js';
+import {
+  EXTERNAL_CALENDAR_DAYS,
+  ExternalCalendarSource,
+  ParsedCalendar,
+  parseExternalCalendar,
+  readExternalCalendar,
+} from './externalCalendar.js';
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_BATCH_SIZE,
+  WEBHOOK_LEASE_MINUTES,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  appointmentEventData,
+  customerEventData,
+  generateWebhookSecret,
+  isWebhookEventPattern,
+  reviewEventData,
+  sendWebhook,
+  webhookRetryDelayMinutes,
+  webhookSubscribes,
+  webhookUrlProblem,
+} from './webhooks.js';
 
 const databaseUrl = process.env.DATABASE_URL!;
-const BUSINESS_ID = process.env.BUSINESS_ID!;
 
 if (!databaseUrl) {
   throw new Error('Missing DATABASE_URL environment variable. Please check your MCP server configuration.');
 }
 
-if (!BUSINESS_ID) {
-  throw new Error('Missing BUSINESS_ID environment variable. Please check your MCP server configuration.');
-}
+// Appointment timestamps are stored as UTC in TIMESTAMP (without time zone)
+// columns. Read them back as UTC and send Date parameters as UTC, so nothing
+// depends on the server's local timezone.
+pg.types.setTypeParser(pg.types.builtins.TIMESTAMP, (value: string) => new Date(`${value.replace(' ', 'T')}Z`));
+pg.defaults.parseInputDatesAsUTC = true;
 
 // Create PostgreSQL connection pool
 export const pool = new Pool({
@@ -29,24 +158,40 @@ async function query(text: string, params?: any[]): Promise<any> {
   }
 }
 
+// Helper function to run queries in a single transaction, rolled back on error
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 // Function to verify database connection and ensure business exists
-export async function ensureBusinessExists(): Promise<void> {
+export async function ensureBusinessExists(business_id: string): Promise<void> {
   try {
     // Check if business exists
     const result = await query(
       'SELECT * FROM businesses WHERE id = $1',
-      [BUSINESS_ID]
+      [business_id]
     );
 
     // If business doesn't exist, create it
     if (result.rows.length === 0) {
       await query(
         'INSERT INTO businesses (id, name, created_at, updated_at) VALUES ($1, $2, $3, $4)',
-        [BUSINESS_ID, `Business ${BUSINESS_ID}`, new Date().toISOString(), new Date().toISOString()]
+        [business_id, `Business ${business_id}`, new Date().toISOString(), new Date().toISOString()]
       );
-      console.log(`Created business with ID: ${BUSINESS_ID}`);
+      console.log(`Created business with ID: ${business_id}`);
     } else {
-      console.log(`Business exists with ID: ${BUSINESS_ID}`);
+      console.log(`Business exists with ID: ${business_id}`);
     }
   } catch (error) {
     console.error('Error ensuring business exists:', error);
@@ -65,15 +210,55 @@ export function isValidUUID(uuid: string): boolean {
   return uuidRegex.test(uuid);
 }
 
-export async function getBusinessDetails() {
+// Tables whose rows are referenced by ID from the SQL functions below. Those
+// functions are not business-scoped themselves, so ownership is checked first.
+const BUSINESS_SCOPED_TABLES = {
+  appointments: 'Appointment',
+  customers: 'Customer',
+  services: 'Service',
+  staff: 'Staff member',
+} as const;
+
+// Helper function to ensure a record belongs to the given business
+async function assertBelongsToBusiness(
+  business_id: string,
+  table: keyof typeof BUSINESS_SCOPED_TABLES,
+  id: string
+): Promise<void> {
+  const result = await query(
+    `SELECT 1 FROM ${table} WHERE id = $1 AND business_id = $2`,
+    [id, business_id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error(`${BUSINESS_SCOPED_TABLES[table]} not found: ${id}`);
+  }
+}
+
+// Helper function to drop services of other businesses from SQL function results
+async function filterServicesByBusiness<T extends { id?: string; service_id?: string }>(
+  business_id: string,
+  services: T[]
+): Promise<T[]> {
+  if (!Array.isArray(services) || services.length === 0) {
+    return services;
+  }
+
+  const result = await query('SELECT id FROM services WHERE business_id = $1', [business_id]);
+  const serviceIds = new Set(result.rows.map((row: any) => row.id));
+
+  return services.filter((service) => serviceIds.has(service.id ?? service.service_id));
+}
+
+export async function getBusinessDetails(business_id: string) {
   try {
     const result = await query(
       'SELECT * FROM businesses WHERE id = $1',
-      [BUSINESS_ID]
+      [business_id]
     );
 
     if (result.rows.length === 0) {
-      throw new Error(`Business not found: ${BUSINESS_ID}`);
+      throw new Error(`Business not found: ${business_id}`);
     }
 
     return result.rows[0];
@@ -82,8 +267,59 @@ export async function getBusinessDetails() {
   }
 }
 
+/**
+ * The business's IANA timezone. An explicit business_settings.timezone wins;
+ * its column default ('UTC') does not mask businesses.timezone.
+ */
+export async function getBusinessTimezone(business_id: string): Promise<string> {
+  try {
+    const result = await query(
+      `SELECT COALESCE(NULLIF(bs.timezone, $2), b.timezone) AS timezone
+       FROM businesses b
+       LEFT JOIN business_settings bs ON bs.business_id = b.id
+       WHERE b.id = $1`,
+      [business_id, DEFAULT_TIMEZONE]
+    );
+
+    return normalizeTimeZone(result.rows[0]?.timezone);
+  } catch (error: any) {
+    throw new Error(`Failed to get business timezone: ${error.message}`);
+  }
+}
+
+/**
+ * The business's booking policy from business_settings. Without a settings
+ * row the business is unrestricted.
+ */
+export async function getBookingPolicy(business_id: string): Promise<BookingPolicy> {
+  try {
+    const result = await query(
+      `SELECT min_booking_notice_hours, booking_window_days, max_booking_notice_days, allow_same_day_bookings,
+              allow_rescheduling, allow_cancellation, cancellation_notice_hours
+       FROM business_settings WHERE business_id = $1`,
+      [business_id]
+    );
+
+    return policyFromSettings(result.rows[0]);
+  } catch (error: any) {
+    throw new Error(`Failed to get booking policy: ${error.message}`);
+  }
+}
+
+// Helper function to reject a request that breaks the booking policy
+function assertPolicy(violations: PolicyViolation[]): void {
+  if (violations.length > 0) {
+    throw new PolicyViolationError(violations);
+  }
+}
+
+// Convert a date-time argument to a UTC ISO string for the TIMESTAMP columns
+function toUtcTimestamp(value: string, timeZone: string): string {
+  return parseDateTime(value, timeZone).toISOString();
+}
+
 // Customer management functions
-export async function createCustomer(customerData: {
+export async function createCustomer(business_id: string, customerData: {
   first_name?: string | null;
   last_name?: string | null;
   email?: string | null;
@@ -91,33 +327,35 @@ export async function createCustomer(customerData: {
   notes?: string | null;
 }) {
   try {
-    const result = await query(
-      `INSERT INTO customers (business_id, first_name, last_name, email, phone_number, notes, created_at, updated_at)
-   VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-   RETURNING *`,
-      [
-        BUSINESS_ID,
-        customerData.first_name || null,
-        customerData.last_name || null,
-        customerData.email || null,
-        customerData.phone,
-        customerData.notes || null,
-        new Date().toISOString(),
-        new Date().toISOString()
-      ]
-    );
-
-    return result.rows[0];
+    return await withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO customers (business_id, first_name, last_name, email, phone_number, notes, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          business_id,
+          customerData.first_name || null,
+          customerData.last_name || null,
+          customerData.email || null,
+          customerData.phone,
+          customerData.notes || null,
+          new Date().toISOString(),
+          new Date().toISOString()
+        ]
+      );
+      await publishEvent(client, business_id, 'customer.created', customerEventData(result.rows[0]));
+      return result.rows[0];
+    });
   } catch (error: any) {
     throw new Error(`Failed to create customer: ${error.message}`);
   }
 }
 
-export async function getCustomer(customer_id: string) {
+export async function getCustomer(business_id: string, customer_id: string) {
   try {
     const result = await query(
       'SELECT * FROM customers WHERE id = $1 AND business_id = $2',
-      [customer_id, BUSINESS_ID]
+      [customer_id, business_id]
     );
 
     if (result.rows.length === 0) {
@@ -130,7 +368,7 @@ export async function getCustomer(customer_id: string) {
   }
 }
 
-export async function searchCustomers(searchTerm: string) {
+export async function searchCustomers(business_id: string, searchTerm: string) {
   try {
     const result = await query(
       `SELECT * FROM customers 
@@ -142,7 +380,7 @@ export async function searchCustomers(searchTerm: string) {
          OR phone_number ILIKE $2
        )
        ORDER BY created_at DESC`,
-      [BUSINESS_ID, `%${searchTerm}%`]
+      [business_id, `%${searchTerm}%`]
     );
 
     return result.rows;
@@ -151,13 +389,14 @@ export async function searchCustomers(searchTerm: string) {
   }
 }
 
-export async function updateCustomer(customer_id: string, updates: {
+export async function updateCustomer(business_id: string, customer_id: string, updates: {
   first_name?: string;
   last_name?: string;
   email?: string;
   phone?: string;
   phone_number?: string;
   notes?: string;
+  locale?: string;
 }) {
   try {
     const setClause = [];
@@ -185,7 +424,7 @@ export async function updateCustomer(customer_id: string, updates: {
     // Add customer_id and business_id for WHERE clause
     const customerIdParam = paramIndex;
     const businessIdParam = paramIndex + 1;
-    values.push(customer_id, BUSINESS_ID);
+    values.push(customer_id, business_id);
 
     const result = await query(
       `UPDATE customers SET ${setClause.join(', ')} 
@@ -205,7 +444,7 @@ export async function updateCustomer(customer_id: string, updates: {
 }
 
 // Service inquiry functions
-export async function getServices() {
+export async function getServices(business_id: string) {
   try {
     const result = await query(
       `SELECT s.*, sc.name as category_name, sc.description as category_description
@@ -213,7 +452,7 @@ export async function getServices() {
        LEFT JOIN service_categories sc ON s.category_id = sc.id
        WHERE s.business_id = $1 AND s.is_active = true
        ORDER BY s.name`,
-      [BUSINESS_ID]
+      [business_id]
     );
 
     return result.rows;
@@ -222,14 +461,14 @@ export async function getServices() {
   }
 }
 
-export async function getService(service_id: string) {
+export async function getService(business_id: string, service_id: string) {
   try {
     const result = await query(
       `SELECT s.*, sc.name as category_name, sc.description as category_description
        FROM services s
        LEFT JOIN service_categories sc ON s.category_id = sc.id
        WHERE s.id = $1 AND s.business_id = $2`,
-      [service_id, BUSINESS_ID]
+      [service_id, business_id]
     );
 
     if (result.rows.length === 0) {
@@ -244,7 +483,7 @@ export async function getService(service_id: string) {
        FROM staff st
        JOIN staff_services ss ON st.id = ss.staff_id
        WHERE ss.service_id = $1 AND st.business_id = $2`,
-      [service_id, BUSINESS_ID]
+      [service_id, business_id]
     );
 
     service.staff = staffResult.rows;
@@ -255,7 +494,7 @@ export async function getService(service_id: string) {
   }
 }
 
-export async function getServiceByName(service_name: string) {
+export async function getServiceByName(business_id: string, service_name: string) {
   try {
     const result = await query(
       `SELECT s.*, sc.name as category_name, sc.description as category_description
@@ -263,7 +502,7 @@ export async function getServiceByName(service_name: string) {
        LEFT JOIN service_categories sc ON s.category_id = sc.id
        WHERE LOWER(s.name) LIKE LOWER($1) AND s.business_id = $2 AND s.is_active = true
        ORDER BY s.name`,
-      [`%${service_name}%`, BUSINESS_ID]
+      [`%${service_name}%`, business_id]
     );
 
     if (result.rows.length === 0) {
@@ -279,7 +518,7 @@ export async function getServiceByName(service_name: string) {
            JOIN staff_services ss ON st.id = ss.staff_id
            WHERE ss.service_id = $1 AND st.business_id = $2 AND st.is_active = true
            ORDER BY st.first_name, st.last_name`,
-          [service.id, BUSINESS_ID]
+          [service.id, business_id]
         );
 
         return {
@@ -296,7 +535,7 @@ export async function getServiceByName(service_name: string) {
   }
 }
 
-export async function searchServicesFuzzy(service_name: string, similarity_threshold: number = 0.3) {
+export async function searchServicesFuzzy(business_id: string, service_name: string, similarity_threshold: number = 0.3) {
   try {
     const result = await query(
       `SELECT * FROM search_services_fuzzy($1, $2)`,
@@ -307,13 +546,13 @@ export async function searchServicesFuzzy(service_name: string, similarity_thres
       return [];
     }
 
-    return result.rows[0].search_services_fuzzy;
+    return filterServicesByBusiness(business_id, result.rows[0].search_services_fuzzy);
   } catch (error: any) {
     throw new Error(`Failed to search services with fuzzy matching: ${error.message}`);
   }
 }
 
-export async function searchServicesComprehensive(search_term: string, similarity_threshold: number = 0.3) {
+export async function searchServicesComprehensive(business_id: string, search_term: string, similarity_threshold: number = 0.3) {
   try {
     const result = await query(
       `SELECT * FROM search_services_comprehensive($1, $2)`,
@@ -324,14 +563,14 @@ export async function searchServicesComprehensive(search_term: string, similarit
       return [];
     }
 
-    return result.rows[0].search_services_comprehensive;
+    return filterServicesByBusiness(business_id, result.rows[0].search_services_comprehensive);
   } catch (error: any) {
     throw new Error(`Failed to search services comprehensively: ${error.message}`);
   }
 }
 
 // Customer appointment history
-export async function getCustomerAppointments(customer_id: string, limit?: number) {
+export async function getCustomerAppointments(business_id: string, customer_id: string, limit?: number) {
   try {
     let queryText = `
       SELECT a.*, 
@@ -346,7 +585,7 @@ export async function getCustomerAppointments(customer_id: string, limit?: numbe
       ORDER BY a.start_time DESC
     `;
 
-    const params = [BUSINESS_ID, customer_id];
+    const params = [business_id, customer_id];
 
     if (limit) {
       queryText += ` LIMIT $3`;
@@ -361,11 +600,11 @@ export async function getCustomerAppointments(customer_id: string, limit?: numbe
 }
 
 // Business hours and availability
-export async function getBusinessHours() {
+export async function getBusinessHours(business_id: string) {
   try {
     const result = await query(
       'SELECT * FROM get_business_hours($1)',
-      [BUSINESS_ID]
+      [business_id]
     );
 
     return result.rows[0].get_business_hours;
@@ -375,7 +614,7 @@ export async function getBusinessHours() {
 }
 
 // Staff information
-export async function getStaff() {
+export async function getStaff(business_id: string) {
   try {
     const result = await query(
       `SELECT st.*,
@@ -391,7 +630,7 @@ export async function getStaff() {
        WHERE st.business_id = $1 AND st.is_active = true
        GROUP BY st.id
        ORDER BY st.first_name`,
-      [BUSINESS_ID]
+      [business_id]
     );
 
     return result.rows;
@@ -401,7 +640,7 @@ export async function getStaff() {
 }
 
 // Customer reviews
-export async function getCustomerReviews(customer_id: string) {
+export async function getCustomerReviews(business_id: string, customer_id: string) {
   try {
     const result = await query(
       `SELECT r.*,
@@ -414,7 +653,7 @@ export async function getCustomerReviews(customer_id: string) {
        LEFT JOIN staff st ON r.staff_id = st.id
        WHERE r.business_id = $1 AND r.customer_id = $2
        ORDER BY r.created_at DESC`,
-      [BUSINESS_ID, customer_id]
+      [business_id, customer_id]
     );
 
     return result.rows;
@@ -423,7 +662,7 @@ export async function getCustomerReviews(customer_id: string) {
   }
 }
 
-export async function createReview(reviewData: {
+export async function createReview(business_id: string, reviewData: {
   appointment_id: string;
   customer_id: string;
   service_id: string;
@@ -432,24 +671,33 @@ export async function createReview(reviewData: {
   review_text?: string;
 }) {
   try {
-    const result = await query(
-      `INSERT INTO reviews (business_id, appointment_id, customer_id, service_id, staff_id, rating, review_text, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-       RETURNING *`,
-      [
-        BUSINESS_ID,
-        reviewData.appointment_id,
-        reviewData.customer_id,
-        reviewData.service_id,
-        reviewData.staff_id || null,
-        reviewData.rating,
-        reviewData.review_text || null,
-        new Date().toISOString(),
-        new Date().toISOString()
-      ]
-    );
+    await assertBelongsToBusiness(business_id, 'appointments', reviewData.appointment_id);
+    await assertBelongsToBusiness(business_id, 'customers', reviewData.customer_id);
+    await assertBelongsToBusiness(business_id, 'services', reviewData.service_id);
+    if (reviewData.staff_id) {
+      await assertBelongsToBusiness(business_id, 'staff', reviewData.staff_id);
+    }
 
-    return result.rows[0];
+    return await withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO reviews (business_id, appointment_id, customer_id, service_id, staff_id, rating, review_text, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          business_id,
+          reviewData.appointment_id,
+          reviewData.customer_id,
+          reviewData.service_id,
+          reviewData.staff_id || null,
+          reviewData.rating,
+          reviewData.review_text || null,
+          new Date().toISOString(),
+          new Date().toISOString()
+        ]
+      );
+      await publishEvent(client, business_id, 'review.created', reviewEventData(result.rows[0]));
+      return result.rows[0];
+    });
   } catch (error: any) {
     throw new Error(`Failed to create review: ${error.message}`);
   }
@@ -488,14 +736,14 @@ async function getStatusConstraintValues(): Promise<string[]> {
   }
 }
 
-// Helper function to create customer if they don't exist
-export async function createCustomerIfNotExists(customerName: string, email?: string, phone?: string) {
+// Helper function to create customer if they don't exist; created tells the caller which happened
+export async function createCustomerIfNotExists(business_id: string, customerName: string, email?: string, phone?: string) {
   try {
     // First try to find existing customer
-    const existingCustomers = await searchCustomers(customerName);
+    const existingCustomers = await searchCustomers(business_id, customerName);
     
     if (existingCustomers.length > 0) {
-      return existingCustomers[0];
+      return { customer: existingCustomers[0], created: false };
     }
     
     // If no customer found, create a new one
@@ -511,15 +759,267 @@ export async function createCustomerIfNotExists(customerName: string, email?: st
       notes: `Auto-created from appointment booking`
     };
     
-    const newCustomer = await createCustomer(customerData);
+    const newCustomer = await createCustomer(business_id, customerData);
     console.log(`Created new customer: ${firstName} ${lastName} (ID: ${newCustomer.id})`);
-    return newCustomer;
+    return { customer: newCustomer, created: true };
   } catch (error: any) {
     throw new Error(`Failed to create customer: ${error.message}`);
   }
 }
 
-export async function createAppointment(appointmentData: {
+// Statuses that occupy a slot
+const ACTIVE_APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'pending'];
+
+/**
+ * Throw SLOT_TAKEN unless the staff member is free: no active appointment, no
+ * unexpired hold, no class they teach and no busy time imported from their
+ * external calendars overlaps the time. Callers hold the staff member's
+ * advisory lock.
+ */
+async function assertStaffFree(
+  client: PoolClient,
+  business_id: string,
+  staff_id: string,
+  start_time: Date,
+  end_time: Date,
+  exclude: { appointment_id?: string | null; hold_token?: string | null; session_id?: string | null } = {}
+): Promise<void> {
+  const staffResult = await client.query(
+    `SELECT id, start_time, end_time FROM appointments
+     WHERE business_id = $1 AND staff_id = $2 AND status = ANY($3)
+       AND start_time < $5 AND end_time > $4
+       AND ($6::uuid IS NULL OR id != $6::uuid)
+     LIMIT 1`,
+    [business_id, staff_id, ACTIVE_APPOINTMENT_STATUSES, start_time, end_time, exclude.appointment_id ?? null]
+  );
+  if (staffResult.rows.length > 0) {
+    throw new SlotTakenError('The staff member is already booked for this time', {
+      staff_id,
+      conflicting_appointment_id: staffResult.rows[0].id,
+    });
+  }
+
+  const staffHolds = await client.query(
+    `SELECT expires_at FROM slot_holds
+     WHERE business_id = $1 AND staff_id = $2 AND expires_at > $3
+       AND start_time < $5 AND end_time > $4
+       AND ($6::text IS NULL OR hold_token != $6::text)
+     LIMIT 1`,
+    [business_id, staff_id, new Date(), start_time, end_time, exclude.hold_token ?? null]
+  );
+  if (staffHolds.rows.length > 0) {
+    throw new SlotTakenError('The staff member is held for another booking at this time', {
+      staff_id,
+      held_until: staffHolds.rows[0].expires_at.toISOString(),
+    });
+  }
+
+  const sessionResult = await client.query(
+    `SELECT id FROM class_sessions
+     WHERE business_id = $1 AND staff_id = $2 AND status = 'scheduled'
+       AND start_time < $4 AND end_time > $3
+       AND ($5::uuid IS NULL OR id != $5::uuid)
+     LIMIT 1`,
+    [business_id, staff_id, start_time, end_time, exclude.session_id ?? null]
+  );
+  if (sessionResult.rows.length > 0) {
+    throw new SlotTakenError('The staff member is teaching a class at this time', {
+      staff_id,
+      class_session_id: sessionResult.rows[0].id,
+    });
+  }
+
+  // As in checkAppointmentConflict, the event's own title stays private
+  const externalResult = await client.query(
+    `SELECT calendar_id FROM external_busy_blocks
+     WHERE business_id = $1 AND staff_id = $2
+       AND start_time < $4 AND end_time > $3
+     LIMIT 1`,
+    [business_id, staff_id, start_time, end_time]
+  );
+  if (externalResult.rows.length > 0) {
+    throw new SlotTakenError('The staff member is busy in their external calendar at this time', {
+      staff_id,
+      external_calendar_id: externalResult.rows[0].calendar_id,
+    });
+  }
+}
+
+type QueryRunner = (text: string, params?: any[]) => Promise<any>;
+
+/**
+ * A service's resource requirements and the uses of those resource types
+ * overlapping a time range: active appointments, unexpired holds and
+ * scheduled class sessions of any service needing the same types. Inside a
+ * transaction pass the client's query so the uses are read under its locks.
+ */
+async function loadResourceUsage(
+  run: QueryRunner,
+  business_id: string,
+  service_id: string,
+  from: Date,
+  to: Date,
+  exclude: { appointment_id?: string | null; hold_token?: string | null; session_id?: string | null } = {}
+): Promise<{ requirements: ResourceRequirement[]; uses: ResourceUse[] }> {
+  const requirementResult = await run(
+    `SELECT req.resource_type_id, rt.name AS resource_type_name, req.quantity,
+            (SELECT COUNT(*) FROM resources r WHERE r.resource_type_id = req.resource_type_id AND r.is_active = true) AS available
+     FROM service_resource_requirements req
+     JOIN resource_types rt ON req.resource_type_id = rt.id
+     WHERE req.service_id = $1 AND rt.business_id = $2`,
+    [service_id, business_id]
+  );
+  const requirements: ResourceRequirement[] = requirementResult.rows.map((row: any) => ({
+    resource_type_id: row.resource_type_id,
+    resource_type_name: row.resource_type_name,
+    quantity: row.quantity,
+    available: parseInt(row.available),
+  }));
+  if (requirements.length === 0) {
+    return { requirements, uses: [] };
+  }
+
+  const useResult = await run(
+    `SELECT req.resource_type_id, req.quantity, b.start_time, b.end_time
+     FROM (
+       SELECT service_id, start_time, end_time FROM appointments
+       WHERE business_id = $1 AND status = ANY($2) AND start_time < $4 AND end_time > $3
+         AND ($5::uuid IS NULL OR id != $5::uuid)
+       UNION ALL
+       SELECT service_id, start_time, end_time FROM slot_holds
+       WHERE business_id = $1 AND expires_at > $6 AND start_time < $4 AND end_time > $3
+         AND ($7::text IS NULL OR hold_token != $7::text)
+       UNION ALL
+       SELECT service_id, start_time, end_time FROM class_sessions
+       WHERE business_id = $1 AND status = 'scheduled' AND start_time < $4 AND end_time > $3
+         AND ($8::uuid IS NULL OR id != $8::uuid)
+     ) b
+     JOIN service_resource_requirements req ON req.service_id = b.service_id
+     WHERE req.resource_type_id = ANY($9)`,
+    [
+      business_id,
+      ACTIVE_APPOINTMENT_STATUSES,
+      from,
+      to,
+      exclude.appointment_id ?? null,
+      new Date(),
+      exclude.hold_token ?? null,
+      exclude.session_id ?? null,
+      requirements.map((requirement) => requirement.resource_type_id),
+    ]
+  );
+
+  return { requirements, uses: useResult.rows };
+}
+
+// Advisory lock keys for the resource types a service needs
+async function resourceLockKeys(run: QueryRunner, service_id: string): Promise<string[]> {
+  const result = await run(
+    'SELECT resource_type_id FROM service_resource_requirements WHERE service_id = $1',
+    [service_id]
+  );
+  return result.rows.map((row: any) => `booking:resource:${row.resource_type_id}`);
+}
+
+// Throw SLOT_TAKEN when a resource type the service needs has no free unit
+async function assertResourcesFree(
+  client: PoolClient,
+  business_id: string,
+  service_id: string,
+  start_time: Date,
+  end_time: Date,
+  exclude: { appointment_id?: string | null; hold_token?: string | null; session_id?: string | null } = {}
+): Promise<void> {
+  const usage = await loadResourceUsage(
+    (text, params) => client.query(text, params), business_id, service_id, start_time, end_time, exclude
+  );
+  const shortages = findResourceShortages(usage.requirements, usage.uses, start_time, end_time);
+  if (shortages.length > 0) {
+    throw new SlotTakenError(describeResourceShortage(shortages[0]), {
+      service_id,
+      resource_type_id: shortages[0].resource_type_id,
+    });
+  }
+}
+
+/**
+ * Serialize bookings of the same staff member or service and check the slot is
+ * still free. Must run inside a transaction: the advisory locks are held until
+ * it commits, so a concurrent booking of the same slot waits, then sees this
+ * one's row and fails with SLOT_TAKEN. Unexpired slot holds count as bookings,
+ * except the hold identified by hold_token (the caller's own).
+ */
+async function reserveBookingSlot(
+  client: PoolClient,
+  business_id: string,
+  slot: {
+    service_id: string;
+    staff_id?: string | null;
+    start_time: Date;
+    end_time: Date;
+    exclude_appointment_id?: string;
+    hold_token?: string;
+  }
+): Promise<void> {
+  // Lock in a fixed order so two bookings never wait on each other
+  const lockKeys = [
+    `booking:service:${slot.service_id}`,
+    ...await resourceLockKeys((text, params) => client.query(text, params), slot.service_id),
+  ];
+  if (slot.staff_id) {
+    lockKeys.push(`booking:staff:${slot.staff_id}`);
+  }
+  for (const key of lockKeys.sort()) {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+  }
+
+  const serviceResult = await client.query(
+    'SELECT name, max_bookings_per_slot FROM services WHERE id = $1 AND business_id = $2',
+    [slot.service_id, business_id]
+  );
+  if (serviceResult.rows.length === 0) {
+    throw new Error(`Service not found: ${slot.service_id}`);
+  }
+  const service = serviceResult.rows[0];
+  const maxBookings = service.max_bookings_per_slot || 1;
+  const excludeId = slot.exclude_appointment_id || null;
+  const holdToken = slot.hold_token || null;
+
+  if (slot.staff_id) {
+    await assertStaffFree(client, business_id, slot.staff_id, slot.start_time, slot.end_time, {
+      appointment_id: excludeId,
+      hold_token: holdToken,
+    });
+  }
+
+  const serviceCount = await client.query(
+    `SELECT
+       (SELECT COUNT(*) FROM appointments
+        WHERE business_id = $1 AND service_id = $2 AND status = ANY($3)
+          AND start_time < $5 AND end_time > $4
+          AND ($6::uuid IS NULL OR id != $6::uuid))
+       +
+       (SELECT COUNT(*) FROM slot_holds
+        WHERE business_id = $1 AND service_id = $2 AND expires_at > $7
+          AND start_time < $5 AND end_time > $4
+          AND ($8::text IS NULL OR hold_token != $8::text)) AS appointment_count`,
+    [business_id, slot.service_id, ACTIVE_APPOINTMENT_STATUSES, slot.start_time, slot.end_time, excludeId, new Date(), holdToken]
+  );
+  const existingBookings = parseInt(serviceCount.rows[0].appointment_count);
+  if (existingBookings >= maxBookings) {
+    throw new SlotTakenError(`${service.name} is fully booked for this time (${existingBookings}/${maxBookings} slots taken)`, {
+      service_id: slot.service_id,
+      max_bookings_per_slot: maxBookings,
+    });
+  }
+
+  await assertResourcesFree(client, business_id, slot.service_id, slot.start_time, slot.end_time, {
+    appointment_id: excludeId,
+    hold_token: holdToken,
+  });
+}
+
+export async function createAppointment(business_id: string, appointmentData: {
   customer_id: string;
   service_id: string;
   staff_id?: string;
@@ -536,14 +1036,14 @@ export async function createAppointment(appointmentData: {
       console.log(`Customer ID "${customerId}" is not a valid UUID, searching by name...`);
       
       // Search for customer by name
-      const customers = await searchCustomers(customerId);
+      const customers = await searchCustomers(business_id, customerId);
       if (customers.length === 0) {
         // Try to create customer if they don't exist
         console.log(`No customer found, attempting to create customer: ${customerId}`);
-        const newCustomer = await createCustomerIfNotExists(customerId);
+        const { customer: newCustomer } = await createCustomerIfNotExists(business_id, customerId);
         customerId = newCustomer.id;
       } else if (customers.length > 1) {
-        throw new Error(`Multiple customers found with name "${customerId}". Please use a specific customer ID.`);
+        throw new Error(`Multiple customers found with name "${customerId}". Please use a specific customer ID, or combine duplicate records with find_duplicate_customers and merge_customers.`);
       } else {
         customerId = customers[0].id;
         console.log(`Found customer: ${customers[0].first_name} ${customers[0].last_name} (ID: ${customerId})`);
@@ -560,10 +1060,16 @@ export async function createAppointment(appointmentData: {
       throw new Error(`Invalid staff ID format: ${appointmentData.staff_id}`);
     }
 
+    // A customer ID or staff ID given directly may belong to another business
+    await assertBelongsToBusiness(business_id, 'customers', customerId);
+    if (appointmentData.staff_id) {
+      await assertBelongsToBusiness(business_id, 'staff', appointmentData.staff_id);
+    }
+
     // Get service details to calculate duration and price
     const serviceResult = await query(
       'SELECT duration_minutes, price_cents FROM services WHERE id = $1 AND business_id = $2',
-      [appointmentData.service_id, BUSINESS_ID]
+      [appointmentData.service_id, business_id]
     );
     
     if (serviceResult.rows.length === 0) {
@@ -572,9 +1078,13 @@ export async function createAppointment(appointmentData: {
     
     const service = serviceResult.rows[0];
     
+    // Zone-less times are wall-clock times in the business's timezone
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(appointmentData.start_time, timeZone);
+    const endTime = parseDateTime(appointmentData.end_time, timeZone);
+    assertPolicy(checkBookingWindow(await getBookingPolicy(business_id), startTime, new Date(), timeZone));
+
     // Calculate duration from start and end times
-    const startTime = new Date(appointmentData.start_time);
-    const endTime = new Date(appointmentData.end_time);
     const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
 
     // Get the actual status constraint values from the database
@@ -599,28 +1109,45 @@ export async function createAppointment(appointmentData: {
       console.log('Could not check status constraints:', constraintError);
     }
 
-    const result = await query(
-      `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, duration_minutes, price_cents, status, notes, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
-       RETURNING *`,
-      [
-        BUSINESS_ID,
-        customerId,
-        appointmentData.service_id,
-        appointmentData.staff_id || null,
-        appointmentData.start_time,
-        appointmentData.end_time,
-        durationMinutes,
-        service.price_cents,
-        defaultStatus,
-        appointmentData.notes || null,
-        new Date().toISOString(),
-        new Date().toISOString()
-      ]
-    );
+    // Check and insert atomically so concurrent bookings cannot both take the slot
+    const result = await withTransaction(async (client) => {
+      await reserveBookingSlot(client, business_id, {
+        service_id: appointmentData.service_id,
+        staff_id: appointmentData.staff_id,
+        start_time: startTime,
+        end_time: endTime,
+      });
+
+      const inserted = await client.query(
+        `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, duration_minutes, price_cents, status, notes, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         RETURNING *`,
+        [
+          business_id,
+          customerId,
+          appointmentData.service_id,
+          appointmentData.staff_id || null,
+          startTime.toISOString(),
+          endTime.toISOString(),
+          durationMinutes,
+          service.price_cents,
+          defaultStatus,
+          appointmentData.notes || null,
+          new Date().toISOString(),
+          new Date().toISOString()
+        ]
+      );
+      await publishAppointmentEvents(client, business_id, 'appointment.created', [inserted.rows[0].id]);
+      return inserted;
+    });
 
+    await queueAppointmentNotifications(business_id, [result.rows[0].id], 'created');
     return result.rows[0];
   } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+
     // Enhanced error logging
     console.error('Appointment creation error details:', {
       error: error.message,
@@ -640,7 +1167,7 @@ export async function createAppointment(appointmentData: {
   }
 }
 
-export async function getAppointments(filters?: {
+export async function getAppointments(business_id: string, filters?: {
   customer_id?: string;
   service_id?: string;
   staff_id?: string;
@@ -650,7 +1177,7 @@ export async function getAppointments(filters?: {
 }) {
   try {
     let whereClause = 'WHERE a.business_id = $1';
-    const params = [BUSINESS_ID];
+    const params = [business_id];
     let paramIndex = 2;
 
     if (filters?.customer_id) {
@@ -673,14 +1200,24 @@ export async function getAppointments(filters?: {
       params.push(filters.status);
       paramIndex++;
     }
+    // Plain dates cover whole business-local days; date-times are exact bounds
+    const timeZone = filters?.start_date || filters?.end_date ? await getBusinessTimezone(business_id) : DEFAULT_TIMEZONE;
+    const isPlainDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
     if (filters?.start_date) {
       whereClause += ` AND a.start_time >= $${paramIndex}`;
-      params.push(filters.start_date);
+      params.push(isPlainDate(filters.start_date)
+        ? getLocalDayRange(filters.start_date, timeZone).start.toISOString()
+        : toUtcTimestamp(filters.start_date, timeZone));
       paramIndex++;
     }
     if (filters?.end_date) {
-      whereClause += ` AND a.start_time <= $${paramIndex}`;
-      params.push(filters.end_date);
+      if (isPlainDate(filters.end_date)) {
+        whereClause += ` AND a.start_time < $${paramIndex}`;
+        params.push(getLocalDayRange(filters.end_date, timeZone).end.toISOString());
+      } else {
+        whereClause += ` AND a.start_time <= $${paramIndex}`;
+        params.push(toUtcTimestamp(filters.end_date, timeZone));
+      }
       paramIndex++;
     }
 
@@ -704,7 +1241,7 @@ export async function getAppointments(filters?: {
   }
 }
 
-export async function getAppointment(appointment_id: string) {
+export async function getAppointment(business_id: string, appointment_id: string) {
   try {
     const result = await query(
       `SELECT a.*,
@@ -716,7 +1253,7 @@ export async function getAppointment(appointment_id: string) {
        LEFT JOIN services s ON a.service_id = s.id
        LEFT JOIN staff st ON a.staff_id = st.id
        WHERE a.id = $1 AND a.business_id = $2`,
-      [appointment_id, BUSINESS_ID]
+      [appointment_id, business_id]
     );
 
     if (result.rows.length === 0) {
@@ -729,11 +1266,11 @@ export async function getAppointment(appointment_id: string) {
   }
 }
 
-export async function deleteAppointment(appointment_id: string) {
+export async function deleteAppointment(business_id: string, appointment_id: string) {
   try {
     const result = await query(
       'DELETE FROM appointments WHERE id = $1 AND business_id = $2 RETURNING *',
-      [appointment_id, BUSINESS_ID]
+      [appointment_id, business_id]
     );
 
     if (result.rows.length === 0) {
@@ -757,27 +1294,90 @@ export async function verifyDatabaseConnection(): Promise<void> {
   }
 }
 
+// Row change notifications published by the notify_resource_change() trigger
+const RESOURCE_CHANGE_CHANNEL = 'appointment_resource_changes';
+
+export interface ResourceChange {
+  table: string;
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string | null;
+  business_id: string | null;
+  staff_id: string | null;
+  service_id: string | null;
+}
+
+/**
+ * Listen for business, service, staff and working hours row changes. LISTEN is
+ * bound to a connection, so a dedicated client is held until shutdown.
+ */
+export async function listenForResourceChanges(onChange: (change: ResourceChange) => void): Promise<void> {
+  const client = await pool.connect();
+
+  client.on('notification', (message) => {
+    if (message.channel !== RESOURCE_CHANGE_CHANNEL || !message.payload) return;
+
+    try {
+      onChange(JSON.parse(message.payload));
+    } catch (error) {
+      console.error('Invalid resource change notification:', error);
+    }
+  });
+
+  client.on('error', (error) => {
+    console.error('Resource change listener error:', error);
+  });
+
+  await client.query(`LISTEN ${RESOURCE_CHANGE_CHANNEL}`);
+
+  onShutdown(async () => {
+    try {
+      await client.query(`UNLISTEN ${RESOURCE_CHANGE_CHANNEL}`);
+    } finally {
+      client.release();
+    }
+  });
+}
+
 // Graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('Closing database pool...');
-  await pool.end();
-  process.exit(0);
-});
+const shutdownHooks: Array<() => Promise<void> | void> = [];
+
+/**
+ * Register a hook that runs before the database pool is closed on SIGINT/SIGTERM
+ */
+export function onShutdown(hook: () => Promise<void> | void): void {
+  shutdownHooks.push(hook);
+}
+
+let shuttingDown = false;
+
+async function shutdown() {
+  if (shuttingDown) return;
+  shuttingDown = true;
+
+  for (const hook of shutdownHooks) {
+    try {
+      await hook();
+    } catch (error) {
+      console.error('Error during shutdown:', error);
+    }
+  }
 
-process.on('SIGTERM', async () => {
   console.log('Closing database pool...');
   await pool.end();
   process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // Availability and Staff Management Functions
 
 /**
  * Get staff availability for a specific date
  */
-export async function getStaffAvailability(date: string) {
+export async function getStaffAvailability(business_id: string, date: string) {
   try {
-    const dayOfWeek = new Date(date).getDay();
+    const dayOfWeek = getDayOfWeek(date);
     
     const result = await query(
       `SELECT 
@@ -811,7 +1411,7 @@ export async function getStaffAvailability(date: string) {
       WHERE s.business_id = $1
         AND s.is_active = true
       ORDER BY s.first_name, s.last_name`,
-      [BUSINESS_ID, date, dayOfWeek]
+      [business_id, date, dayOfWeek]
     );
 
     return result.rows;
@@ -823,14 +1423,15 @@ export async function getStaffAvailability(date: string) {
 /**
  * Get available time slots for a specific service and date
  */
-export async function getAvailableTimeSlots(service_id: string, date: string) {
+export async function getAvailableTimeSlots(business_id: string, service_id: string, date: string) {
   try {
-    const dayOfWeek = new Date(date).getDay();
+    const dayOfWeek = getDayOfWeek(date);
+    const timeZone = await getBusinessTimezone(business_id);
     
     // First get the service details
     const serviceResult = await query(
       'SELECT id, name, duration_minutes, buffer_time_minutes, max_bookings_per_slot FROM services WHERE id = $1 AND business_id = $2',
-      [service_id, BUSINESS_ID]
+      [service_id, business_id]
     );
 
     if (serviceResult.rows.length === 0) {
@@ -845,7 +1446,7 @@ export async function getAvailableTimeSlots(service_id: string, date: string) {
     // Get business hours for this day
     const businessHoursResult = await query(
       'SELECT open_time, close_time FROM working_hours WHERE business_id = $1 AND day_of_week = $2 AND (is_closed = false OR is_closed IS NULL)',
-      [BUSINESS_ID, dayOfWeek]
+      [business_id, dayOfWeek]
     );
 
     if (businessHoursResult.rows.length === 0) {
@@ -862,23 +1463,51 @@ export async function getAvailableTimeSlots(service_id: string, date: string) {
        FROM staff s
        JOIN staff_services ss ON s.id = ss.staff_id
        WHERE ss.service_id = $1 AND s.business_id = $2 AND s.is_active = true`,
-      [service_id, BUSINESS_ID]
+      [service_id, business_id]
     );
 
     if (staffResult.rows.length === 0) {
       return []; // No staff available for this service
     }
 
-    // Get existing appointments for this date
+    // Get existing appointments overlapping this business-local day
+    const { start: dayStart, end: dayEnd } = getLocalDayRange(date, timeZone);
     const appointmentsResult = await query(
       `SELECT staff_id, start_time, end_time
        FROM appointments
-       WHERE business_id = $1 AND service_id = $2 AND DATE(start_time) = $3 AND status != 'cancelled'
+       WHERE business_id = $1 AND service_id = $2 AND start_time < $4 AND end_time > $3 AND status != 'cancelled'
        ORDER BY start_time`,
-      [BUSINESS_ID, service_id, date]
+      [business_id, service_id, dayStart, dayEnd]
+    );
+
+    // Unexpired slot holds keep their staff member busy like appointments
+    const holdsResult = await query(
+      `SELECT staff_id, start_time, end_time
+       FROM slot_holds
+       WHERE business_id = $1 AND staff_id = ANY($2) AND expires_at > $3 AND start_time < $5 AND end_time > $4`,
+      [business_id, staffResult.rows.map((staff: any) => staff.id), new Date(), dayStart, dayEnd]
+    );
+
+    // So do the classes they teach
+    const sessionsResult = await query(
+      `SELECT staff_id, start_time, end_time
+       FROM class_sessions
+       WHERE business_id = $1 AND staff_id = ANY($2) AND status = 'scheduled' AND start_time < $4 AND end_time > $3`,
+      [business_id, staffResult.rows.map((staff: any) => staff.id), dayStart, dayEnd]
+    );
+
+    // And busy times imported from the external calendars they keep
+    const externalResult = await query(
+      `SELECT staff_id, start_time, end_time
+       FROM external_busy_blocks
+       WHERE business_id = $1 AND staff_id = ANY($2) AND start_time < $4 AND end_time > $3`,
+      [business_id, staffResult.rows.map((staff: any) => staff.id), dayStart, dayEnd]
     );
 
-    const existingAppointments = appointmentsResult.rows;
+    const existingAppointments = [...appointmentsResult.rows, ...holdsResult.rows, ...sessionsResult.rows, ...externalResult.rows];
+
+    // Rooms and equipment the service shares with other services
+    const resourceUsage = await loadResourceUsage(query, business_id, service_id, dayStart, dayEnd);
 
     // Generate time slots
     const timeSlots = [];
@@ -888,9 +1517,17 @@ export async function getAvailableTimeSlots(service_id: string, date: string) {
     const openMinutes = timeToMinutes(openTime);
     const closeMinutes = timeToMinutes(closeTime);
     
+    const closeInstant = zonedTimeToInstant(date, minutesToTime(closeMinutes), timeZone);
+    const bufferMs = bufferTime * 60000;
+    
     for (let currentMinutes = openMinutes; currentMinutes + serviceDuration <= closeMinutes; currentMinutes += slotInterval) {
-      const slotStartTime = minutesToTime(currentMinutes);
-      const slotEndTime = minutesToTime(currentMinutes + serviceDuration);
+      // Skip wall-clock times that do not exist on a spring-forward day
+      if (!isExistingLocalTime(date, minutesToTime(currentMinutes), timeZone)) continue;
+
+      // Slots are real instants, so a DST change inside a slot is accounted for
+      const slotStart = zonedTimeToInstant(date, minutesToTime(currentMinutes), timeZone);
+      const slotEnd = new Date(slotStart.getTime() + serviceDuration * 60000);
+      if (slotEnd > closeInstant) continue;
       
       // Check availability for each staff member
       const availableStaff = [];
@@ -899,13 +1536,13 @@ export async function getAvailableTimeSlots(service_id: string, date: string) {
         const isStaffAvailable = !existingAppointments.some((appointment: any) => {
           if (appointment.staff_id !== staff.id) return false;
           
-          const appointmentStart = timeToMinutes(appointment.start_time.split('T')[1].substring(0, 5));
-          const appointmentEnd = timeToMinutes(appointment.end_time.split('T')[1].substring(0, 5));
+          const appointmentStart = new Date(appointment.start_time).getTime();
+          const appointmentEnd = new Date(appointment.end_time).getTime();
           
           // Check for overlap (including buffer time)
           return (
-            (currentMinutes < appointmentEnd + bufferTime) &&
-            (currentMinutes + serviceDuration + bufferTime > appointmentStart)
+            (slotStart.getTime() < appointmentEnd + bufferMs) &&
+            (slotEnd.getTime() + bufferMs > appointmentStart)
           );
         });
         
@@ -917,12 +1554,14 @@ export async function getAvailableTimeSlots(service_id: string, date: string) {
         }
       }
       
-      if (availableStaff.length > 0) {
+      const resourceSlots = resourceCapacity(resourceUsage.requirements, resourceUsage.uses, slotStart, slotEnd);
+
+      if (availableStaff.length > 0 && resourceSlots > 0) {
         timeSlots.push({
-          start_time: slotStartTime,
-          end_time: slotEndTime,
+          start_time: formatInTimeZone(slotStart, timeZone),
+          end_time: formatInTimeZone(slotEnd, timeZone),
           available_staff: availableStaff,
-          available_slots: Math.min(availableStaff.length, maxBookingsPerSlot)
+          available_slots: Math.min(availableStaff.length, maxBookingsPerSlot, resourceSlots)
         });
       }
     }
@@ -948,7 +1587,7 @@ function minutesToTime(minutes: number): string {
 /**
  * Get all staff information with their services and working hours
  */
-export async function getAllStaffInfo() {
+export async function getAllStaffInfo(business_id: string) {
   try {
     const result = await query(
       `SELECT 
@@ -989,7 +1628,7 @@ export async function getAllStaffInfo() {
       WHERE s.business_id = $1
       GROUP BY s.id, s.first_name, s.last_name, s.email, s.phone_number, s.avatar_url, s.bio, s.is_active
       ORDER BY s.first_name, s.last_name`,
-      [BUSINESS_ID]
+      [business_id]
     );
 
     return result.rows;
@@ -1001,7 +1640,7 @@ export async function getAllStaffInfo() {
 /**
  * Get staff member by ID with detailed information
  */
-export async function getStaffMember(staff_id: string) {
+export async function getStaffMember(business_id: string, staff_id: string) {
   try {
     const result = await query(
       `SELECT 
@@ -1052,7 +1691,7 @@ export async function getStaffMember(staff_id: string) {
       LEFT JOIN appointments a ON s.id = a.staff_id
       WHERE s.business_id = $1 AND s.id = $2
       GROUP BY s.id, s.first_name, s.last_name, s.email, s.phone_number, s.avatar_url, s.bio, s.is_active`,
-      [BUSINESS_ID, staff_id]
+      [business_id, staff_id]
     );
 
     if (result.rows.length === 0) {
@@ -1068,10 +1707,10 @@ export async function getStaffMember(staff_id: string) {
 /**
  * Get staff time off for a specific date range
  */
-export async function getStaffTimeOff(start_date?: string, end_date?: string) {
+export async function getStaffTimeOff(business_id: string, start_date?: string, end_date?: string) {
   try {
     let whereClause = 'WHERE sto.business_id = $1';
-    const params = [BUSINESS_ID];
+    const params = [business_id];
     let paramIndex = 2;
 
     if (start_date) {
@@ -1114,14 +1753,15 @@ export async function getStaffTimeOff(start_date?: string, end_date?: string) {
 /**
  * Check if a service is available on a specific date and time
  */
-export async function checkServiceAvailability(service_name: string, date: string, time?: string) {
+export async function checkServiceAvailability(business_id: string, service_name: string, date: string, time?: string) {
   try {
-    const dayOfWeek = new Date(date).getDay();
+    const dayOfWeek = getDayOfWeek(date);
+    const timeZone = await getBusinessTimezone(business_id);
     
     // First, find the service by name
     const serviceResult = await query(
       'SELECT id, name, duration_minutes, buffer_time_minutes, max_bookings_per_slot FROM services WHERE LOWER(name) LIKE LOWER($1) AND business_id = $2 AND is_active = true',
-      [`%${service_name}%`, BUSINESS_ID]
+      [`%${service_name}%`, business_id]
     );
 
     if (serviceResult.rows.length === 0) {
@@ -1163,7 +1803,7 @@ export async function checkServiceAvailability(service_name: string, date: strin
         AND swh.is_available = true
         AND (sto.id IS NULL OR sto.is_all_day = false)
       ORDER BY s.first_name, s.last_name`,
-      [BUSINESS_ID, service.id, date, dayOfWeek]
+      [business_id, service.id, date, dayOfWeek]
     );
 
     if (staffResult.rows.length === 0) {
@@ -1182,11 +1822,8 @@ export async function checkServiceAvailability(service_name: string, date: strin
         if (staff.has_time_off) return false;
         if (!staff.open_time || !staff.close_time) return false;
         
-        const requestedTime = new Date(`2000-01-01T${time}`);
-        const openTime = new Date(`2000-01-01T${staff.open_time}`);
-        const closeTime = new Date(`2000-01-01T${staff.close_time}`);
-        
-        return requestedTime >= openTime && requestedTime < closeTime;
+        const requestedMinutes = timeToMinutes(time);
+        return requestedMinutes >= timeToMinutes(staff.open_time) && requestedMinutes < timeToMinutes(staff.close_time);
       });
 
       if (availableStaff.length === 0) {
@@ -1199,37 +1836,37 @@ export async function checkServiceAvailability(service_name: string, date: strin
       }
     }
 
-    // Check existing appointments for this service and date at the specific time slot
+    // Check existing appointments for this service and date at the specific time slot.
+    // The requested date and time are business-local; appointments are compared as UTC instants.
     let appointmentsQuery = '';
-    let appointmentParams = [BUSINESS_ID, service.id, date];
+    let appointmentParams: any[] = [business_id, service.id];
     
     if (time) {
       // If specific time is requested, check appointments that overlap with the requested time slot
-      const requestedTime = new Date(`2000-01-01T${time}`);
-      const slotEndTime = new Date(requestedTime.getTime() + service.duration_minutes * 60000);
+      const slotStart = zonedTimeToInstant(date, time, timeZone);
+      const slotEnd = new Date(slotStart.getTime() + service.duration_minutes * 60000);
       
       appointmentsQuery = `
         SELECT COUNT(*) as appointment_count
         FROM appointments
         WHERE business_id = $1 
           AND service_id = $2
-          AND DATE(start_time) = $3::date
           AND status IN ('confirmed', 'pending', 'scheduled')
-          AND (
-            (start_time::time >= $4::time AND start_time::time < $5::time) OR
-            (end_time::time > $4::time AND end_time::time <= $5::time) OR
-            (start_time::time <= $4::time AND end_time::time >= $5::time)
-          )`;
-      appointmentParams.push(time, slotEndTime.toTimeString().slice(0, 8));
+          AND start_time < $4
+          AND end_time > $3`;
+      appointmentParams.push(slotStart, slotEnd);
     } else {
       // If no specific time, check total appointments for the day
+      const { start: dayStart, end: dayEnd } = getLocalDayRange(date, timeZone);
       appointmentsQuery = `
         SELECT COUNT(*) as appointment_count
         FROM appointments
         WHERE business_id = $1 
           AND service_id = $2
-          AND DATE(start_time) = $3::date
+          AND start_time >= $3
+          AND start_time < $4
           AND status IN ('confirmed', 'pending', 'scheduled')`;
+      appointmentParams.push(dayStart, dayEnd);
     }
 
     const appointmentsResult = await query(appointmentsQuery, appointmentParams);
@@ -1264,9 +1901,9 @@ export async function checkServiceAvailability(service_name: string, date: strin
 /**
  * Get available time slots for a service on a specific date
  */
-export async function getServiceTimeSlots(service_name: string, date: string) {
+export async function getServiceTimeSlots(business_id: string, service_name: string, date: string) {
   try {
-    const availability = await checkServiceAvailability(service_name, date);
+    const availability = await checkServiceAvailability(business_id, service_name, date);
     
     if (!availability.available) {
       return {
@@ -1279,44 +1916,45 @@ export async function getServiceTimeSlots(service_name: string, date: string) {
     const service = availability.service;
     const availableStaff = availability.staff;
     const timeSlots: any[] = [];
+    const timeZone = await getBusinessTimezone(business_id);
+    const { start: dayStart, end: dayEnd } = getLocalDayRange(date, timeZone);
+    const resourceUsage = await loadResourceUsage(query, business_id, service.id, dayStart, dayEnd);
 
-    // Generate time slots for each available staff member
+    // Generate time slots for each available staff member. Working hours are
+    // business-local wall-clock times.
     for (const staff of availableStaff) {
       if (!staff.open_time || !staff.close_time) continue;
 
-      const startTime = new Date(`2000-01-01T${staff.open_time}`);
-      const endTime = new Date(`2000-01-01T${staff.close_time}`);
-      const slotDuration = service.duration_minutes + service.buffer_time_minutes;
+      const openMinutes = timeToMinutes(staff.open_time);
+      const closeMinutes = timeToMinutes(staff.close_time);
 
-      let currentTime = new Date(startTime);
-      while (currentTime < endTime) {
-        const slotEnd = new Date(currentTime.getTime() + service.duration_minutes * 60000);
+      for (let currentMinutes = openMinutes; currentMinutes < closeMinutes; currentMinutes += 30) {
+        const slotStartTime = minutesToTime(currentMinutes);
         
-        if (slotEnd <= endTime) {
-          const slotStartTime = currentTime.toTimeString().slice(0, 8);
-          const slotEndTime = slotEnd.toTimeString().slice(0, 8);
+        if (currentMinutes + service.duration_minutes <= closeMinutes && isExistingLocalTime(date, slotStartTime, timeZone)) {
+          const slotStart = zonedTimeToInstant(date, slotStartTime, timeZone);
+          const slotEnd = new Date(slotStart.getTime() + service.duration_minutes * 60000);
           
           // Check if this specific time slot has availability
-          const slotAvailability = await checkServiceAvailability(service_name, date, slotStartTime);
+          const slotAvailability = await checkServiceAvailability(business_id, service_name, date, slotStartTime);
+          const resourceSlots = resourceCapacity(resourceUsage.requirements, resourceUsage.uses, slotStart, slotEnd);
           
-          if (slotAvailability.available) {
+          if (slotAvailability.available && resourceSlots > 0) {
             timeSlots.push({
               staff_id: staff.staff_id,
               staff_name: `${staff.first_name} ${staff.last_name}`,
               service_id: service.id,
               service_name: service.name,
               duration_minutes: service.duration_minutes,
-              start_time: slotStartTime,
-              end_time: slotEndTime,
+              start_time: formatInTimeZone(slotStart, timeZone),
+              end_time: formatInTimeZone(slotEnd, timeZone),
               date: date,
-              remaining_slots: slotAvailability.remainingSlots,
+              remaining_slots: Math.min(slotAvailability.remainingSlots ?? 0, resourceSlots),
               total_slots: slotAvailability.maxBookings,
               existing_appointments: slotAvailability.existingAppointments
             });
           }
         }
-        
-        currentTime = new Date(currentTime.getTime() + 30 * 60000); // Add 30 minutes
       }
     }
 
@@ -1326,7 +1964,8 @@ export async function getServiceTimeSlots(service_name: string, date: string) {
         ? `${service.name} has ${timeSlots.length} available time slots on ${date}` 
         : `${service.name} is fully booked on ${date}`,
       timeSlots: timeSlots,
-      service: service
+      service: service,
+      timeZone: timeZone
     };
   } catch (error: any) {
     throw new Error(`Failed to get service time slots: ${error.message}`);
@@ -1336,9 +1975,10 @@ export async function getServiceTimeSlots(service_name: string, date: string) {
 /**
  * Check business hours for a specific date
  */
-export async function checkBusinessHours(date: string) {
+export async function checkBusinessHours(business_id: string, date: string) {
   try {
-    const dayOfWeek = new Date(date).getDay();
+    const dayOfWeek = getDayOfWeek(date);
+    const timeZone = await getBusinessTimezone(business_id);
     
     const result = await query(
       `SELECT 
@@ -1348,14 +1988,15 @@ export async function checkBusinessHours(date: string) {
         is_closed
       FROM working_hours
       WHERE business_id = $1 AND day_of_week = $2`,
-      [BUSINESS_ID, dayOfWeek]
+      [business_id, dayOfWeek]
     );
 
     if (result.rows.length === 0) {
       return {
         isOpen: false,
         reason: `No business hours set for this day`,
-        hours: null
+        hours: null,
+        timeZone
       };
     }
 
@@ -1365,14 +2006,19 @@ export async function checkBusinessHours(date: string) {
       return {
         isOpen: false,
         reason: `Business is closed on ${date}`,
-        hours: hours
+        hours: hours,
+        timeZone
       };
     }
 
+    // Opening and closing as instants; the UTC offset can differ between them on a DST day
     return {
       isOpen: true,
-      reason: `Business is open from ${hours.open_time} to ${hours.close_time} on ${date}`,
-      hours: hours
+      reason: `Business is open from ${hours.open_time} to ${hours.close_time} (${timeZone}) on ${date}`,
+      hours: hours,
+      timeZone,
+      opensAt: formatInTimeZone(zonedTimeToInstant(date, hours.open_time, timeZone), timeZone),
+      closesAt: formatInTimeZone(zonedTimeToInstant(date, hours.close_time, timeZone), timeZone)
     };
   } catch (error: any) {
     throw new Error(`Failed to check business hours: ${error.message}`);
@@ -1384,6 +2030,7 @@ export async function checkBusinessHours(date: string) {
  */
 // Appointment Lifecycle Management Functions
 export async function updateAppointment(
+  business_id: string,
   appointment_id: string,
   customer_id: string,
   service_id: string,
@@ -1394,77 +2041,239 @@ export async function updateAppointment(
   notes?: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM update_appointment($1, $2, $3, $4, $5, $6, $7, $8)',
-      [appointment_id, customer_id, service_id, staff_id, start_time, end_time, status, notes || '']
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+    await assertBelongsToBusiness(business_id, 'services', service_id);
+    await assertBelongsToBusiness(business_id, 'staff', staff_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(start_time, timeZone);
+    const endTime = parseDateTime(end_time, timeZone);
+
+    // Moving or cancelling through an update follows the same policy as the dedicated operations
+    const current = (await query(
+      'SELECT service_id, staff_id, start_time, end_time, status, visit_id FROM appointments WHERE id = $1',
+      [appointment_id]
+    )).rows[0];
+    if (current.visit_id && ACTIVE_APPOINTMENT_STATUSES.includes(current.status) && ['canceled', 'cancelled'].includes(status)) {
+      throw new DomainError('PART_OF_VISIT', 'The appointment is part of a multi-service visit; cancel the whole visit with cancel_visit', {
+        visit_id: current.visit_id,
+      });
+    }
+    if (ACTIVE_APPOINTMENT_STATUSES.includes(current.status)) {
+      const policy = await getBookingPolicy(business_id);
+      const now = new Date();
+      if (['canceled', 'cancelled'].includes(status)) {
+        assertPolicy(checkChangeAllowed(policy, 'cancel', current.start_time, now));
+      } else if (startTime.getTime() !== current.start_time.getTime()) {
+        assertPolicy([
+          ...checkChangeAllowed(policy, 'reschedule', current.start_time, now),
+          ...checkBookingWindow(policy, startTime, now, timeZone),
+        ]);
+      }
+    }
+
+    // A new staff member, service or time, or reactivating the appointment, books a slot
+    const takesSlot = ACTIVE_APPOINTMENT_STATUSES.includes(status) && (
+      !ACTIVE_APPOINTMENT_STATUSES.includes(current.status) ||
+      service_id !== current.service_id ||
+      staff_id !== current.staff_id ||
+      startTime.getTime() !== current.start_time.getTime() ||
+      endTime.getTime() !== current.end_time.getTime()
     );
 
-    if (!result.rows[0] || !result.rows[0].update_appointment.success) {
-      throw new Error(result.rows[0]?.update_appointment?.error || 'Failed to update appointment');
+    const result = await withTransaction(async (client) => {
+      if (takesSlot) {
+        await reserveBookingSlot(client, business_id, {
+          service_id,
+          staff_id,
+          start_time: startTime,
+          end_time: endTime,
+          exclude_appointment_id: appointment_id,
+        });
+      }
+
+      const updated = await client.query(
+        'SELECT * FROM update_appointment($1, $2, $3, $4, $5, $6, $7, $8)',
+        [appointment_id, customer_id, service_id, staff_id, startTime.toISOString(), endTime.toISOString(), status, notes || '']
+      );
+
+      if (!updated.rows[0] || !updated.rows[0].update_appointment.success) {
+        throw new Error(updated.rows[0]?.update_appointment?.error || 'Failed to update appointment');
+      }
+
+      // A new status is reported as such; otherwise a new start time is a reschedule
+      if (status !== current.status && STATUS_EVENTS[status]) {
+        await publishAppointmentEvents(client, business_id, STATUS_EVENTS[status], [appointment_id]);
+      } else if (startTime.getTime() !== current.start_time.getTime()) {
+        await publishAppointmentEvents(client, business_id, 'appointment.rescheduled', [appointment_id], {
+          previous: { start_time: current.start_time.toISOString(), end_time: current.end_time.toISOString() },
+        });
+      }
+      return updated;
+    });
+
+    if (ACTIVE_APPOINTMENT_STATUSES.includes(current.status)) {
+      if (['canceled', 'cancelled'].includes(status)) {
+        await queueAppointmentNotifications(business_id, [appointment_id], 'canceled');
+      } else if (startTime.getTime() !== current.start_time.getTime()) {
+        await queueAppointmentNotifications(business_id, [appointment_id], 'rescheduled');
+      }
     }
 
     return result.rows[0].update_appointment;
   } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
     throw new Error(`Failed to update appointment: ${error.message}`);
   }
 }
 
 export async function cancelAppointment(
+  business_id: string,
   appointment_id: string,
   cancellation_reason: string,
   cancelled_by: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM cancel_appointment($1, $2, $3)',
-      [appointment_id, cancellation_reason, cancelled_by]
-    );
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
+    const appointment = (await query(
+      'SELECT customer_id, service_id, staff_id, start_time, end_time, status, visit_id FROM appointments WHERE id = $1',
+      [appointment_id]
+    )).rows[0];
+    // A visit is cancelled as a whole, never one service at a time
+    if (appointment.visit_id && ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      throw new DomainError('PART_OF_VISIT', 'The appointment is part of a multi-service visit; cancel the whole visit with cancel_visit', {
+        visit_id: appointment.visit_id,
+      });
+    }
+    if (ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+      assertPolicy(checkChangeAllowed(await getBookingPolicy(business_id), 'cancel', appointment.start_time, new Date()));
+    }
+
+    const wasActive = ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status);
+    const result = await withTransaction(async (client) => {
+      const cancelled = await client.query(
+        'SELECT * FROM cancel_appointment($1, $2, $3)',
+        [appointment_id, cancellation_reason, cancelled_by]
+      );
+
+      if (!cancelled.rows[0] || !cancelled.rows[0].cancel_appointment.success) {
+        throw new Error(cancelled.rows[0]?.cancel_appointment?.error || 'Failed to cancel appointment');
+      }
+      if (wasActive) {
+        await publishAppointmentEvents(client, business_id, 'appointment.cancelled', [appointment_id], {
+          cancellation_reason: cancellation_reason || null,
+          cancelled_by: cancelled_by || null,
+        });
+      }
+      return cancelled;
+    });
 
-    if (!result.rows[0] || !result.rows[0].cancel_appointment.success) {
-      throw new Error(result.rows[0]?.cancel_appointment?.error || 'Failed to cancel appointment');
+    // The freed slot goes to the first matching customer on the waitlist
+    const waitlistOffer = wasActive ? await offerFreedSlot(business_id, appointment, appointment.customer_id) : null;
+    if (wasActive) {
+      await queueAppointmentNotifications(business_id, [appointment_id], 'canceled');
     }
 
-    return result.rows[0].cancel_appointment;
+    return { ...result.rows[0].cancel_appointment, waitlist_offer: waitlistOffer };
   } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
     throw new Error(`Failed to cancel appointment: ${error.message}`);
   }
 }
 
 export async function rescheduleAppointment(
+  business_id: string,
   appointment_id: string,
   new_start_time: string,
   new_end_time: string,
   rescheduled_by: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM reschedule_appointment($1, $2, $3, $4)',
-      [appointment_id, new_start_time, new_end_time, rescheduled_by]
-    );
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(new_start_time, timeZone);
+    const endTime = parseDateTime(new_end_time, timeZone);
+
+    const policy = await getBookingPolicy(business_id);
+
+    // Moving into a slot is a booking too, so it takes the same locks
+    let previous: any;
+    const result = await withTransaction(async (client) => {
+      const current = await client.query(
+        'SELECT customer_id, service_id, staff_id, start_time, end_time, status FROM appointments WHERE id = $1 AND business_id = $2',
+        [appointment_id, business_id]
+      );
+      previous = current.rows[0];
+
+      const now = new Date();
+      assertPolicy([
+        ...checkChangeAllowed(policy, 'reschedule', previous.start_time, now),
+        ...checkBookingWindow(policy, startTime, now, timeZone),
+      ]);
+      await reserveBookingSlot(client, business_id, {
+        service_id: current.rows[0].service_id,
+        staff_id: current.rows[0].staff_id,
+        start_time: startTime,
+        end_time: endTime,
+        exclude_appointment_id: appointment_id,
+      });
+
+      const rescheduled = await client.query(
+        'SELECT * FROM reschedule_appointment($1, $2, $3, $4)',
+        [appointment_id, startTime.toISOString(), endTime.toISOString(), rescheduled_by]
+      );
+
+      if (!rescheduled.rows[0] || !rescheduled.rows[0].reschedule_appointment.success) {
+        throw new Error(rescheduled.rows[0]?.reschedule_appointment?.error || 'Failed to reschedule appointment');
+      }
+      await publishAppointmentEvents(client, business_id, 'appointment.rescheduled', [appointment_id], {
+        previous: { start_time: previous.start_time.toISOString(), end_time: previous.end_time.toISOString() },
+        rescheduled_by: rescheduled_by || null,
+      });
+      return rescheduled;
+    });
 
-    if (!result.rows[0] || !result.rows[0].reschedule_appointment.success) {
-      throw new Error(result.rows[0]?.reschedule_appointment?.error || 'Failed to reschedule appointment');
+    // The old slot is free now unless the new one overlaps it
+    const freedOldSlot = ACTIVE_APPOINTMENT_STATUSES.includes(previous.status) &&
+      (startTime >= previous.end_time || endTime <= previous.start_time);
+    const waitlistOffer = freedOldSlot ? await offerFreedSlot(business_id, previous, previous.customer_id) : null;
+    if (ACTIVE_APPOINTMENT_STATUSES.includes(previous.status)) {
+      await queueAppointmentNotifications(business_id, [appointment_id], 'rescheduled');
     }
 
-    return result.rows[0].reschedule_appointment;
+    return { ...result.rows[0].reschedule_appointment, waitlist_offer: waitlistOffer };
   } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
     throw new Error(`Failed to reschedule appointment: ${error.message}`);
   }
 }
 
 export async function confirmAppointment(
+  business_id: string,
   appointment_id: string,
   confirmed_by: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM confirm_appointment($1, $2)',
-      [appointment_id, confirmed_by]
-    );
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
 
-    if (!result.rows[0] || !result.rows[0].confirm_appointment.success) {
-      throw new Error(result.rows[0]?.confirm_appointment?.error || 'Failed to confirm appointment');
-    }
+    const result = await withTransaction(async (client) => {
+      const confirmed = await client.query(
+        'SELECT * FROM confirm_appointment($1, $2)',
+        [appointment_id, confirmed_by]
+      );
+
+      if (!confirmed.rows[0] || !confirmed.rows[0].confirm_appointment.success) {
+        throw new Error(confirmed.rows[0]?.confirm_appointment?.error || 'Failed to confirm appointment');
+      }
+      await publishAppointmentEvents(client, business_id, 'appointment.confirmed', [appointment_id], { confirmed_by: confirmed_by || null });
+      return confirmed;
+    });
 
     return result.rows[0].confirm_appointment;
   } catch (error: any) {
@@ -1473,19 +2282,26 @@ export async function confirmAppointment(
 }
 
 export async function completeAppointment(
+  business_id: string,
   appointment_id: string,
   completed_by: string,
   completion_notes?: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM complete_appointment($1, $2, $3)',
-      [appointment_id, completed_by, completion_notes || '']
-    );
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
 
-    if (!result.rows[0] || !result.rows[0].complete_appointment.success) {
-      throw new Error(result.rows[0]?.complete_appointment?.error || 'Failed to complete appointment');
-    }
+    const result = await withTransaction(async (client) => {
+      const completed = await client.query(
+        'SELECT * FROM complete_appointment($1, $2, $3)',
+        [appointment_id, completed_by, completion_notes || '']
+      );
+
+      if (!completed.rows[0] || !completed.rows[0].complete_appointment.success) {
+        throw new Error(completed.rows[0]?.complete_appointment?.error || 'Failed to complete appointment');
+      }
+      await publishAppointmentEvents(client, business_id, 'appointment.completed', [appointment_id], { completed_by: completed_by || null });
+      return completed;
+    });
 
     return result.rows[0].complete_appointment;
   } catch (error: any) {
@@ -1496,11 +2312,14 @@ export async function completeAppointment(
 
 
 export async function getStaffAvailabilityCalendar(
+  business_id: string,
   staff_id: string,
   start_date: string,
   end_date: string
 ) {
   try {
+    await assertBelongsToBusiness(business_id, 'staff', staff_id);
+
     const result = await query(
       'SELECT * FROM get_staff_availability_calendar($1, $2, $3)',
       [staff_id, start_date, end_date]
@@ -1517,11 +2336,14 @@ export async function getStaffAvailabilityCalendar(
 }
 
 export async function checkRealTimeAvailability(
+  business_id: string,
   service_id: string,
   date: string,
   time: string
 ) {
   try {
+    await assertBelongsToBusiness(business_id, 'services', service_id);
+
     const result = await query(
       'SELECT * FROM check_real_time_availability($1, $2, $3)',
       [service_id, date, time]
@@ -1541,6 +2363,7 @@ export async function checkRealTimeAvailability(
 
 // Customer Management Functions (Customer-Focused)
 export async function createCustomerValidated(
+  business_id: string,
   first_name: string,
   last_name: string,
   email: string,
@@ -1548,22 +2371,41 @@ export async function createCustomerValidated(
   notes?: string
 ) {
   try {
-    const result = await query(
-      'SELECT * FROM create_customer_validated($1, $2, $3, $4, $5)',
-      [first_name, last_name, email, phone, notes || null]
-    );
+    return await withTransaction(async (client) => {
+      const result = await client.query(
+        'SELECT * FROM create_customer_validated($1, $2, $3, $4, $5)',
+        [first_name, last_name, email, phone, notes || null]
+      );
 
-    if (!result.rows[0] || !result.rows[0].create_customer_validated.success) {
-      throw new Error(result.rows[0]?.create_customer_validated?.error || 'Failed to create customer');
-    }
+      if (!result.rows[0] || !result.rows[0].create_customer_validated.success) {
+        throw new Error(result.rows[0]?.create_customer_validated?.error || 'Failed to create customer');
+      }
+
+      const created = result.rows[0].create_customer_validated;
+
+      // create_customer_validated is not business-scoped, so attach the new customer to this business
+      const scopedResult = await client.query(
+        `UPDATE customers SET business_id = $1
+         WHERE id = $2 AND (business_id IS NULL OR business_id = $1)
+         RETURNING *`,
+        [business_id, created.customer.id]
+      );
 
-    return result.rows[0].create_customer_validated;
+      if (scopedResult.rows.length === 0) {
+        throw new Error('Customer could not be created for this business');
+      }
+
+      created.customer = { ...created.customer, ...scopedResult.rows[0] };
+      await publishEvent(client, business_id, 'customer.created', customerEventData(scopedResult.rows[0]));
+      return created;
+    });
   } catch (error: any) {
     throw new Error(`Failed to create customer: ${error.message}`);
   }
 }
 
 export async function updateCustomerProfile(
+  business_id: string,
   customer_id: string,
   first_name: string,
   last_name: string,
@@ -1572,6 +2414,8 @@ export async function updateCustomerProfile(
   notes?: string
 ) {
   try {
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+
     const result = await query(
       'SELECT * FROM update_customer_profile($1, $2, $3, $4, $5, $6)',
       [customer_id, first_name, last_name, email, phone, notes || null]
@@ -1587,8 +2431,10 @@ export async function updateCustomerProfile(
   }
 }
 
-export async function getCustomerPreferences(customer_id: string) {
+export async function getCustomerPreferences(business_id: string, customer_id: string) {
   try {
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+
     const result = await query(
       'SELECT * FROM get_customer_preferences($1)',
       [customer_id]
@@ -1604,8 +2450,10 @@ export async function getCustomerPreferences(customer_id: string) {
   }
 }
 
-export async function getCustomerStatistics(customer_id: string) {
+export async function getCustomerStatistics(business_id: string, customer_id: string) {
   try {
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+
     const result = await query(
       'SELECT * FROM get_customer_statistics($1)',
       [customer_id]
@@ -1621,32 +2469,3503 @@ export async function getCustomerStatistics(customer_id: string) {
   }
 }
 
-// Booking & Scheduling Functions (Customer-Focused)
-export async function createBookingValidated(
-  customer_id: string,
-  service_id: string,
-  staff_id: string,
-  start_time: string,
-  notes?: string
+// Duplicate customers: detection, and merging a duplicate into the record that survives
+
+/**
+ * Pairs of customers that are probably the same person, scored by normalized
+ * email, phone and name similarity (see duplicates.ts), with both customers'
+ * rows and appointment counts.
+ */
+export async function findDuplicateCustomers(business_id: string, options: {
+  customer_id?: string;
+  min_score?: number;
+  limit?: number;
+} = {}) {
+  try {
+    if (options.customer_id) {
+      await assertBelongsToBusiness(business_id, 'customers', options.customer_id);
+    }
+
+    const result = await query(
+      `SELECT c.*,
+              (SELECT COUNT(*) FROM appointments a WHERE a.customer_id = c.id) AS appointment_count
+       FROM customers c
+       WHERE c.business_id = $1`,
+      [business_id]
+    );
+    const customers = new Map<string, any>(result.rows.map((row: any) => [String(row.id), row]));
+    const pairs = findDuplicatePairs(
+      result.rows.map((row: any) => ({
+        id: String(row.id),
+        first_name: row.first_name,
+        last_name: row.last_name,
+        email: row.email,
+        phone: row.phone_number ?? row.phone,
+      })),
+      options.min_score ?? DEFAULT_DUPLICATE_SCORE,
+      options.customer_id
+    );
+
+    return pairs.slice(0, Math.min(options.limit ?? MAX_DUPLICATE_RESULTS, MAX_DUPLICATE_RESULTS)).map((pair) => ({
+      ...pair,
+      customers: pair.customer_ids.map((id) => customers.get(id)),
+    }));
+  } catch (error: any) {
+    throw new Error(`Failed to find duplicate customers: ${error.message}`);
+  }
+}
+
+// Tables whose rows move to the surviving customer, in the order they are moved
+const CUSTOMER_OWNED_TABLES = [
+  'appointments',
+  'reviews',
+  'visits',
+  'appointment_series',
+  'waitlist_entries',
+  'class_enrollments',
+  'customer_verifications',
+  'customer_verification_failures',
+  'calendar_feeds',
+] as const;
+
+/**
+ * Merge a duplicate customer into the surviving one in a single transaction.
+ * Appointments, reviews, visits, series, waitlist entries, class enrollments,
+ * verifications, failed verification checks and calendar feeds move to the
+ * survivor; payments follow their appointments.
+ * Contact details the survivor lacks are copied over and notes are combined.
+ * The duplicate is deleted and a customer_merges row records what moved, with
+ * a snapshot of the deleted record.
+ */
+export async function mergeCustomers(business_id: string, survivor_id: string, duplicate_id: string, reason?: string) {
+  try {
+    if (survivor_id === duplicate_id) {
+      throw new DomainError('MERGE_SAME_CUSTOMER', 'A customer cannot be merged into itself', { customer_id: survivor_id });
+    }
+
+    return await withTransaction(async (client) => {
+      // Lock both rows in a fixed order so concurrent merges cannot deadlock
+      const locked = await client.query(
+        'SELECT * FROM customers WHERE id = ANY($1) AND business_id = $2 ORDER BY id FOR UPDATE',
+        [[survivor_id, duplicate_id], business_id]
+      );
+      const survivor = locked.rows.find((row: any) => row.id === survivor_id);
+      const duplicate = locked.rows.find((row: any) => row.id === duplicate_id);
+      if (!survivor || !duplicate) {
+        throw new Error(`Customer not found: ${!survivor ? survivor_id : duplicate_id}`);
+      }
+
+      const moved: Record<string, number> = {};
+      const payments = await client.query(
+        `SELECT COUNT(*) AS count FROM payments p JOIN appointments a ON p.appointment_id = a.id
+         WHERE a.customer_id = $1 AND a.business_id = $2`,
+        [duplicate_id, business_id]
+      );
+      moved.payments = Number(payments.rows[0].count);
+
+      // One active enrollment per session and customer: drop the duplicate's where the survivor has one
+      const doubleEnrolled = await client.query(
+        `UPDATE class_enrollments d SET status = 'cancelled', cancelled_at = $3
+         WHERE d.customer_id = $2 AND d.status = 'enrolled'
+         AND EXISTS (SELECT 1 FROM class_enrollments s WHERE s.session_id = d.session_id AND s.customer_id = $1 AND s.status = 'enrolled')`,
+        [survivor_id, duplicate_id, new Date()]
+      );
+      moved.class_enrollments_cancelled = doubleEnrolled.rowCount ?? 0;
+
+      for (const table of CUSTOMER_OWNED_TABLES) {
+        const updated = await client.query(
+          `UPDATE ${table} SET customer_id = $1 WHERE customer_id = $2 AND business_id = $3`,
+          [survivor_id, duplicate_id, business_id]
+        );
+        moved[table] = updated.rowCount ?? 0;
+      }
+
+      const notes = [survivor.notes, duplicate.notes].filter(Boolean).join('\n');
+      const merged = await client.query(
+        `UPDATE customers SET
+           first_name = COALESCE(NULLIF(first_name, ''), $2),
+           last_name = COALESCE(NULLIF(last_name, ''), $3),
+           email = COALESCE(NULLIF(email, ''), $4),
+           phone_number = CASE WHEN COALESCE(phone_number, '') ~ '^[0-]*$' THEN $5 ELSE phone_number END,
+           notes = $6,
+           updated_at = $7
+         WHERE id = $1
+         RETURNING *`,
+        [survivor_id, duplicate.first_name, duplicate.last_name, duplicate.email, duplicate.phone_number ?? duplicate.phone, notes || null, new Date()]
+      );
+
+      await client.query('DELETE FROM customers WHERE id = $1', [duplicate_id]);
+      const audit = await client.query(
+        `INSERT INTO customer_merges (business_id, survivor_id, merged_customer_id, merged_customer, moved, reason, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [business_id, survivor_id, duplicate_id, JSON.stringify(duplicate), JSON.stringify(moved), reason || null, new Date()]
+      );
+
+      return { customer: merged.rows[0], merge: audit.rows[0] };
+    });
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to merge customers: ${error.message}`);
+  }
+}
+
+// Past merges into or of a customer, newest first
+export async function getCustomerMerges(business_id: string, customer_id?: string) {
+  try {
+    const result = await query(
+      `SELECT * FROM customer_merges
+       WHERE business_id = $1 AND ($2::uuid IS NULL OR survivor_id = $2 OR merged_customer_id = $2)
+       ORDER BY created_at DESC`,
+      [business_id, customer_id || null]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to get customer merges: ${error.message}`);
+  }
+}
+
+// Booking & Scheduling Functions (Customer-Focused)
+export async function createBookingValidated(
+  business_id: string,
+  customer_id: string,
+  service_id: string,
+  staff_id: string,
+  start_time: string,
+  notes?: string,
+  hold_token?: string
+) {
+  try {
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+    await assertBelongsToBusiness(business_id, 'services', service_id);
+    await assertBelongsToBusiness(business_id, 'staff', staff_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(start_time, timeZone);
+    assertPolicy(checkBookingWindow(await getBookingPolicy(business_id), startTime, new Date(), timeZone));
+
+    const serviceResult = await query('SELECT duration_minutes FROM services WHERE id = $1', [service_id]);
+    const endTime = new Date(startTime.getTime() + serviceResult.rows[0].duration_minutes * 60000);
+
+    // Validate and book in one transaction, serialized with other bookings of the slot
+    const booking = await withTransaction(async (client) => {
+      if (hold_token) {
+        await claimSlotHold(client, business_id, hold_token, { service_id, staff_id, start_time: startTime });
+      }
+
+      await reserveBookingSlot(client, business_id, {
+        service_id,
+        staff_id,
+        start_time: startTime,
+        end_time: endTime,
+        hold_token,
+      });
+
+      const result = await client.query(
+        'SELECT * FROM create_booking_validated($1, $2, $3, $4, $5)',
+        [customer_id, service_id, staff_id, startTime.toISOString(), notes || null]
+      );
+
+      if (!result.rows[0] || !result.rows[0].create_booking_validated.success) {
+        throw new Error(result.rows[0]?.create_booking_validated?.error || 'Failed to create booking');
+      }
+
+      // The hold has served its purpose once the appointment exists
+      if (hold_token) {
+        await client.query('DELETE FROM slot_holds WHERE hold_token = $1 AND business_id = $2', [hold_token, business_id]);
+      }
+
+      const appointmentId = result.rows[0].create_booking_validated.booking?.appointment_id;
+      if (appointmentId) {
+        await publishAppointmentEvents(client, business_id, 'appointment.created', [appointmentId]);
+      }
+      return result.rows[0].create_booking_validated;
+    });
+
+    if (booking.booking?.appointment_id) {
+      await queueAppointmentNotifications(business_id, [booking.booking.appointment_id], 'created');
+    }
+    return booking;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to create booking: ${error.message}`);
+  }
+}
+
+// Slot holds: a short reservation of a staff/service/time slot while booking details are collected
+export const DEFAULT_HOLD_TTL_MINUTES = parseInt(process.env.SLOT_HOLD_TTL_MINUTES || '10', 10);
+export const MAX_HOLD_TTL_MINUTES = 60;
+
+/**
+ * Lock the hold row and check it is for the slot being booked. A hold that has
+ * expired no longer protects the slot, but the booking still goes ahead if the
+ * slot is free.
+ */
+async function claimSlotHold(
+  client: PoolClient,
+  business_id: string,
+  hold_token: string,
+  slot: { service_id: string; staff_id: string; start_time: Date }
+): Promise<void> {
+  const result = await client.query(
+    'SELECT * FROM slot_holds WHERE hold_token = $1 AND business_id = $2 FOR UPDATE',
+    [hold_token, business_id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new DomainError('HOLD_NOT_FOUND', 'Slot hold not found. It may have been released or already used.', { hold_token });
+  }
+
+  const hold = result.rows[0];
+  if (
+    hold.service_id !== slot.service_id ||
+    hold.staff_id !== slot.staff_id ||
+    new Date(hold.start_time).getTime() !== slot.start_time.getTime()
+  ) {
+    throw new DomainError('HOLD_MISMATCH', 'The slot hold is for a different service, staff member or start time', {
+      hold_token,
+      service_id: hold.service_id,
+      staff_id: hold.staff_id,
+      start_time: new Date(hold.start_time).toISOString(),
+    });
+  }
+}
+
+export async function holdSlot(business_id: string, holdData: {
+  service_id: string;
+  staff_id: string;
+  start_time: string;
+  ttl_minutes?: number;
+}) {
+  try {
+    await assertBelongsToBusiness(business_id, 'services', holdData.service_id);
+    await assertBelongsToBusiness(business_id, 'staff', holdData.staff_id);
+
+    const staffServiceResult = await query(
+      'SELECT 1 FROM staff_services WHERE staff_id = $1 AND service_id = $2',
+      [holdData.staff_id, holdData.service_id]
+    );
+    if (staffServiceResult.rows.length === 0) {
+      throw new Error('Staff member does not provide this service');
+    }
+
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(holdData.start_time, timeZone);
+    const now = new Date();
+    if (startTime <= now) {
+      throw new Error('Cannot hold a slot in the past');
+    }
+    assertPolicy(checkBookingWindow(await getBookingPolicy(business_id), startTime, now, timeZone));
+
+    const serviceResult = await query('SELECT duration_minutes FROM services WHERE id = $1', [holdData.service_id]);
+    const endTime = new Date(startTime.getTime() + serviceResult.rows[0].duration_minutes * 60000);
+    const ttlMinutes = Math.min(Math.max(holdData.ttl_minutes ?? DEFAULT_HOLD_TTL_MINUTES, 1), MAX_HOLD_TTL_MINUTES);
+    const expiresAt = new Date(now.getTime() + ttlMinutes * 60000);
+
+    return await withTransaction(async (client) => {
+      // Expired holds no longer block anything; clear them out while we hold the locks
+      await client.query('DELETE FROM slot_holds WHERE business_id = $1 AND expires_at <= $2', [business_id, now]);
+
+      await reserveBookingSlot(client, business_id, {
+        service_id: holdData.service_id,
+        staff_id: holdData.staff_id,
+        start_time: startTime,
+        end_time: endTime,
+      });
+
+      const result = await client.query(
+        `INSERT INTO slot_holds (business_id, service_id, staff_id, hold_token, start_time, end_time, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [business_id, holdData.service_id, holdData.staff_id, randomUUID(), startTime, endTime, expiresAt, now]
+      );
+
+      return result.rows[0];
+    });
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to hold slot: ${error.message}`);
+  }
+}
+
+export async function releaseHold(business_id: string, hold_token: string) {
+  try {
+    const result = await query(
+      'DELETE FROM slot_holds WHERE hold_token = $1 AND business_id = $2 RETURNING *',
+      [hold_token, business_id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new DomainError('HOLD_NOT_FOUND', 'Slot hold not found. It may have expired, been released or already used.', { hold_token });
+    }
+
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to release hold: ${error.message}`);
+  }
+}
+
+// Recurring appointment series: linked appointments generated from an RRULE-style rule
+
+type ConflictCheck = Awaited<ReturnType<typeof checkAppointmentConflict>>;
+
+// Conflicts that block an occurrence, without the conflicting rows
+function blockingConflicts(check: ConflictCheck) {
+  return check.conflicts
+    .filter((conflict: any) => conflict.severity === 'ERROR')
+    .map(({ type, severity, message }: any) => ({ type, severity, message }));
+}
+
+/**
+ * Create a series and book each occurrence at the same business-local time.
+ * Every occurrence is checked with checkAppointmentConflict and then booked
+ * under the slot locks; occurrences that fail are reported, not fatal, unless
+ * none could be booked at all.
+ */
+export async function createAppointmentSeries(business_id: string, seriesData: {
+  customer_id: string;
+  service_id: string;
+  staff_id: string;
+  start_time: string;
+  end_time?: string;
+  rule: RecurrenceRule;
+  notes?: string;
+}) {
+  let series: any = null;
+  const booked: any[] = [];
+  try {
+    await assertBelongsToBusiness(business_id, 'customers', seriesData.customer_id);
+    await assertBelongsToBusiness(business_id, 'services', seriesData.service_id);
+    await assertBelongsToBusiness(business_id, 'staff', seriesData.staff_id);
+
+    const timeZone = await getBusinessTimezone(business_id);
+    const firstStart = parseDateTime(seriesData.start_time, timeZone);
+    const serviceResult = await query('SELECT duration_minutes, price_cents FROM services WHERE id = $1', [seriesData.service_id]);
+    const service = serviceResult.rows[0];
+    const durationMinutes = seriesData.end_time
+      ? Math.round((parseDateTime(seriesData.end_time, timeZone).getTime() - firstStart.getTime()) / 60000)
+      : service.duration_minutes;
+    if (durationMinutes <= 0) {
+      throw new Error('End time must be after start time');
+    }
+
+    const localStart = getZonedParts(firstStart, timeZone);
+    const dates = expandOccurrenceDates(localStart.date, seriesData.rule);
+    const validStatusValues = await getStatusConstraintValues();
+    const defaultStatus = validStatusValues[0] || 'scheduled';
+
+    const seriesResult = await query(
+      `INSERT INTO appointment_series (business_id, customer_id, service_id, staff_id, rrule, first_start_time, duration_minutes, timezone, notes, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'active')
+       RETURNING *`,
+      [
+        business_id,
+        seriesData.customer_id,
+        seriesData.service_id,
+        seriesData.staff_id,
+        formatRecurrenceRule(seriesData.rule),
+        firstStart,
+        durationMinutes,
+        timeZone,
+        seriesData.notes || null,
+      ]
+    );
+    series = seriesResult.rows[0];
+
+    const failed: Array<{ occurrence: number; date: string; start_time: string; conflicts: Array<{ type: string; severity: 'ERROR' | 'WARNING'; message: string }> }> = [];
+
+    for (const [index, date] of dates.entries()) {
+      const startTime = zonedTimeToInstant(date, localStart.time, timeZone);
+      const endTime = new Date(startTime.getTime() + durationMinutes * 60000);
+      const failure = { occurrence: index + 1, date, start_time: formatInTimeZone(startTime, timeZone) };
+
+      const check = await checkAppointmentConflict(
+        business_id,
+        seriesData.service_id,
+        seriesData.staff_id,
+        seriesData.customer_id,
+        startTime.toISOString(),
+        endTime.toISOString()
+      );
+      const conflicts = blockingConflicts(check);
+      if (conflicts.length > 0) {
+        failed.push({ ...failure, conflicts });
+        continue;
+      }
+
+      try {
+        const result = await withTransaction(async (client) => {
+          await reserveBookingSlot(client, business_id, {
+            service_id: seriesData.service_id,
+            staff_id: seriesData.staff_id,
+            start_time: startTime,
+            end_time: endTime,
+          });
+
+          const inserted = await client.query(
+            `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, duration_minutes, price_cents, status, notes, series_id, series_occurrence, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $13)
+             RETURNING *`,
+            [
+              business_id,
+              seriesData.customer_id,
+              seriesData.service_id,
+              seriesData.staff_id,
+              startTime,
+              endTime,
+              durationMinutes,
+              service.price_cents,
+              defaultStatus,
+              seriesData.notes || null,
+              series.id,
+              index + 1,
+              new Date(),
+            ]
+          );
+          await publishAppointmentEvents(client, business_id, 'appointment.created', [inserted.rows[0].id]);
+          return inserted;
+        });
+        booked.push(result.rows[0]);
+      } catch (error: any) {
+        if (!(error instanceof SlotTakenError)) {
+          throw error;
+        }
+        failed.push({ ...failure, conflicts: [{ type: error.code, severity: 'ERROR', message: error.message }] });
+      }
+    }
+
+    if (booked.length === 0) {
+      throw new DomainError('SERIES_NOT_BOOKED', `None of the ${dates.length} occurrences could be booked`, { failed });
+    }
+
+    await queueAppointmentNotifications(business_id, booked.map((appointment: any) => appointment.id), 'created');
+    return { series, booked, failed };
+  } catch (error: any) {
+    // Occurrences commit one by one; a series that ended up with none is removed
+    if (series && booked.length === 0) {
+      await query('DELETE FROM appointment_series WHERE id = $1', [series.id]).catch(() => undefined);
+    }
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to create appointment series: ${error.message}`);
+  }
+}
+
+async function getSeriesRow(business_id: string, series_id: string) {
+  const result = await query(
+    'SELECT * FROM appointment_series WHERE id = $1 AND business_id = $2',
+    [series_id, business_id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new DomainError('SERIES_NOT_FOUND', `Appointment series not found: ${series_id}`, { series_id });
+  }
+
+  return result.rows[0];
+}
+
+export async function getAppointmentSeries(business_id: string, series_id: string) {
+  try {
+    const series = await getSeriesRow(business_id, series_id);
+    const occurrences = await query(
+      `SELECT a.*, c.first_name AS customer_first_name, c.last_name AS customer_last_name,
+              s.name AS service_name, st.first_name AS staff_first_name, st.last_name AS staff_last_name
+       FROM appointments a
+       JOIN customers c ON a.customer_id = c.id
+       JOIN services s ON a.service_id = s.id
+       LEFT JOIN staff st ON a.staff_id = st.id
+       WHERE a.series_id = $1 AND a.business_id = $2
+       ORDER BY a.start_time`,
+      [series_id, business_id]
+    );
+
+    return { series, occurrences: occurrences.rows };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to get appointment series: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel every active occurrence starting on or after from_date (a
+ * business-local YYYY-MM-DD day, or an exact date-time). The series itself is
+ * marked canceled once no active occurrences remain.
+ */
+export async function cancelSeriesFrom(
+  business_id: string,
+  series_id: string,
+  from_date: string,
+  cancellation_reason: string,
+  cancelled_by: string
+) {
+  try {
+    await getSeriesRow(business_id, series_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const policy = await getBookingPolicy(business_id);
+    const from = /^\d{4}-\d{2}-\d{2}$/.test(from_date)
+      ? getLocalDayRange(from_date, timeZone).start
+      : parseDateTime(from_date, timeZone);
+
+    const result = await withTransaction(async (client) => {
+      const following = await client.query(
+        `SELECT id, customer_id, service_id, staff_id, start_time, end_time FROM appointments
+         WHERE series_id = $1 AND business_id = $2 AND start_time >= $3 AND status = ANY($4)
+         ORDER BY start_time`,
+        [series_id, business_id, from, ACTIVE_APPOINTMENT_STATUSES]
+      );
+
+      // All or nothing: one occurrence inside the notice period stops the whole cancellation
+      const now = new Date();
+      for (const row of following.rows) {
+        assertPolicy(checkChangeAllowed(policy, 'cancel', row.start_time, now));
+      }
+
+      const cancelled = [];
+      for (const row of following.rows) {
+        const result = await client.query(
+          'SELECT * FROM cancel_appointment($1, $2, $3)',
+          [row.id, cancellation_reason, cancelled_by]
+        );
+        if (!result.rows[0] || !result.rows[0].cancel_appointment.success) {
+          throw new Error(result.rows[0]?.cancel_appointment?.error || `Failed to cancel appointment ${row.id}`);
+        }
+        cancelled.push(result.rows[0].cancel_appointment);
+      }
+      await publishAppointmentEvents(client, business_id, 'appointment.cancelled', following.rows.map((row: any) => row.id), {
+        cancellation_reason: cancellation_reason || null,
+        cancelled_by: cancelled_by || null,
+      });
+
+      const remaining = await client.query(
+        'SELECT COUNT(*) AS count FROM appointments WHERE series_id = $1 AND status = ANY($2)',
+        [series_id, ACTIVE_APPOINTMENT_STATUSES]
+      );
+      const seriesResult = await client.query(
+        `UPDATE appointment_series SET status = CASE WHEN $2::int = 0 THEN 'canceled' ELSE status END
+         WHERE id = $1
+         RETURNING *`,
+        [series_id, parseInt(remaining.rows[0].count)]
+      );
+
+      return { series: seriesResult.rows[0], cancelled, freed: following.rows };
+    });
+
+    const waitlistOffers = [];
+    for (const slot of result.freed) {
+      const offer = await offerFreedSlot(business_id, slot, slot.customer_id);
+      if (offer) waitlistOffers.push(offer);
+    }
+    await queueAppointmentNotifications(business_id, result.freed.map((slot: any) => slot.id), 'canceled');
+
+    return { series: result.series, cancelled: result.cancelled, waitlist_offers: waitlistOffers };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to cancel appointment series: ${error.message}`);
+  }
+}
+
+/**
+ * Move the single occurrence booked on occurrence_date (business-local) to a
+ * new time. The rest of the series is left as it is. Without new_end_time the
+ * occurrence keeps its length.
+ */
+export async function rescheduleSeriesOccurrence(
+  business_id: string,
+  series_id: string,
+  occurrence_date: string,
+  new_start_time: string,
+  new_end_time: string | undefined,
+  rescheduled_by: string
+) {
+  try {
+    await getSeriesRow(business_id, series_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const day = getLocalDayRange(occurrence_date, timeZone);
+
+    const occurrenceResult = await query(
+      `SELECT * FROM appointments
+       WHERE series_id = $1 AND business_id = $2 AND start_time >= $3 AND start_time < $4 AND status = ANY($5)
+       ORDER BY start_time
+       LIMIT 1`,
+      [series_id, business_id, day.start, day.end, ACTIVE_APPOINTMENT_STATUSES]
+    );
+    if (occurrenceResult.rows.length === 0) {
+      throw new DomainError('OCCURRENCE_NOT_FOUND', `The series has no active occurrence on ${occurrence_date}`, { series_id, occurrence_date });
+    }
+    const occurrence = occurrenceResult.rows[0];
+
+    const startTime = parseDateTime(new_start_time, timeZone);
+    const endTime = new_end_time
+      ? parseDateTime(new_end_time, timeZone)
+      : new Date(startTime.getTime() + (occurrence.end_time.getTime() - occurrence.start_time.getTime()));
+
+    const check = await checkAppointmentConflict(
+      business_id,
+      occurrence.service_id,
+      occurrence.staff_id,
+      occurrence.customer_id,
+      startTime.toISOString(),
+      endTime.toISOString(),
+      occurrence.id
+    );
+    const conflicts = blockingConflicts(check);
+    if (conflicts.length > 0) {
+      throw new DomainError('SCHEDULING_CONFLICT', conflicts.map((conflict: any) => conflict.message).join('; '), { conflicts });
+    }
+
+    const reschedule = await rescheduleAppointment(
+      business_id,
+      occurrence.id,
+      startTime.toISOString(),
+      endTime.toISOString(),
+      rescheduled_by
+    );
+
+    return { occurrence, reschedule };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to reschedule series occurrence: ${error.message}`);
+  }
+}
+
+// Staff schedules over a range of days, and the searches built on them: first available slots and alternatives
+
+interface StaffSchedule {
+  // Business opening hours on a business-local date, or null when closed
+  openingHours(date: string): { open_time: string; close_time: string } | null;
+  isStaffFree(staff_id: string, start: Date, end: Date, buffer_minutes: number): boolean;
+  // Why the staff member is not free, or null when they are
+  unavailableReason(staff_id: string, start: Date, end: Date, buffer_minutes: number): UnavailableReason | null;
+  // Minutes between the staff member's previous booking (or the start of their day) and start
+  idleMinutesBefore(staff_id: string, start: Date): number;
+}
+
+/**
+ * Load what decides whether the given staff members are free on the
+ * business-local dates from start_date to end_date: business and staff hours,
+ * time off, their appointments, holds and classes, and busy times imported
+ * from external calendars. Checks against it need no further queries.
+ */
+async function loadStaffSchedule(
+  business_id: string,
+  start_date: string,
+  end_date: string,
+  staff_ids: string[],
+  timeZone: string
+): Promise<StaffSchedule> {
+  const rangeStart = getLocalDayRange(start_date, timeZone).start;
+  const rangeEnd = getLocalDayRange(end_date, timeZone).end;
+
+  const businessHours = (await query(
+    'SELECT day_of_week, open_time, close_time, is_closed FROM working_hours WHERE business_id = $1',
+    [business_id]
+  )).rows;
+  const staffHours = (await query(
+    'SELECT staff_id, day_of_week, open_time, close_time, is_available FROM staff_working_hours WHERE staff_id = ANY($1)',
+    [staff_ids]
+  )).rows;
+  const timeOff = (await query(
+    `SELECT staff_id, to_char(date, 'YYYY-MM-DD') AS date, title, is_all_day, start_time, end_time
+     FROM staff_time_off WHERE staff_id = ANY($1) AND date BETWEEN $2::date AND $3::date`,
+    [staff_ids, start_date, end_date]
+  )).rows;
+  const busy = (await query(
+    `SELECT staff_id, start_time, end_time, 'appointment' AS kind FROM appointments
+     WHERE business_id = $1 AND staff_id = ANY($2) AND status = ANY($3) AND start_time < $5 AND end_time > $4
+     UNION ALL
+     SELECT staff_id, start_time, end_time, 'hold' AS kind FROM slot_holds
+     WHERE business_id = $1 AND staff_id = ANY($2) AND expires_at > $6 AND start_time < $5 AND end_time > $4
+     UNION ALL
+     SELECT staff_id, start_time, end_time, 'class' AS kind FROM class_sessions
+     WHERE business_id = $1 AND staff_id = ANY($2) AND status = 'scheduled' AND start_time < $5 AND end_time > $4
+     UNION ALL
+     SELECT staff_id, start_time, end_time, 'external' AS kind FROM external_busy_blocks
+     WHERE business_id = $1 AND staff_id = ANY($2) AND start_time < $5 AND end_time > $4`,
+    [business_id, staff_ids, ACTIVE_APPOINTMENT_STATUSES, rangeStart, rangeEnd, new Date()]
+  )).rows;
+
+  // Business-local date and opening of the staff member's day, or why they are not working
+  const workingDay = (staff_id: string, start: Date) => {
+    const local = getZonedParts(start, timeZone);
+    if (local.date < start_date || local.date > end_date) {
+      return { reason: { code: 'OUTSIDE_SEARCH_RANGE' } as UnavailableReason };
+    }
+
+    const business = businessHours.find((row: any) => row.day_of_week === local.dayOfWeek);
+    if (!business || business.is_closed) {
+      return { reason: { code: 'BUSINESS_CLOSED', day_of_week: local.dayOfWeek } as UnavailableReason };
+    }
+    const hours = staffHours.find((row: any) => row.staff_id === staff_id && row.day_of_week === local.dayOfWeek);
+    if (!hours || !hours.is_available) {
+      return { reason: { code: 'STAFF_NOT_WORKING', day_of_week: local.dayOfWeek } as UnavailableReason };
+    }
+
+    return { local, business, hours };
+  };
+
+  const schedule: StaffSchedule = {
+    openingHours(date) {
+      const business = businessHours.find((row: any) => row.day_of_week === getDayOfWeek(date));
+      return business && !business.is_closed ? { open_time: business.open_time, close_time: business.close_time } : null;
+    },
+
+    isStaffFree(staff_id, start, end, buffer_minutes) {
+      return schedule.unavailableReason(staff_id, start, end, buffer_minutes) === null;
+    },
+
+    unavailableReason(staff_id, start, end, buffer_minutes) {
+      const day = workingDay(staff_id, start);
+      if (!day.local) return day.reason;
+      const { local, business, hours } = day;
+
+      const localEnd = getZonedParts(end, timeZone);
+      const startTimeOnly = local.time;
+      const endTimeOnly = localEnd.date > local.date && localEnd.time === '00:00:00' ? '24:00:00' : localEnd.time;
+      const crossesMidnight = localEnd.date > local.date && endTimeOnly !== '24:00:00';
+      if (crossesMidnight || startTimeOnly < business.open_time || endTimeOnly > business.close_time) {
+        return { code: 'OUTSIDE_BUSINESS_HOURS', day_of_week: local.dayOfWeek, open_time: business.open_time, close_time: business.close_time };
+      }
+      if (startTimeOnly < hours.open_time || endTimeOnly > hours.close_time) {
+        return { code: 'OUTSIDE_STAFF_HOURS', day_of_week: local.dayOfWeek, open_time: hours.open_time, close_time: hours.close_time };
+      }
+
+      const off = timeOff.find((row: any) => row.staff_id === staff_id && row.date === local.date && (
+        row.is_all_day || (row.start_time && row.end_time && startTimeOnly < row.end_time && endTimeOnly > row.start_time)
+      ));
+      if (off) {
+        return { code: 'STAFF_TIME_OFF', title: off.title ?? null };
+      }
+
+      const bufferMs = buffer_minutes * 60000;
+      const clash = busy.find((row: any) =>
+        row.staff_id === staff_id &&
+        start.getTime() < row.end_time.getTime() + bufferMs &&
+        end.getTime() + bufferMs > row.start_time.getTime()
+      );
+      if (clash?.kind === 'external') {
+        return { code: 'EXTERNAL_CALENDAR_BUSY', start_time: clash.start_time, end_time: clash.end_time };
+      }
+      return clash ? { code: 'STAFF_BUSY', kind: clash.kind, start_time: clash.start_time, end_time: clash.end_time } : null;
+    },
+
+    idleMinutesBefore(staff_id, start) {
+      const day = workingDay(staff_id, start);
+      if (!day.local) return 0;
+
+      const opens = day.business.open_time > day.hours.open_time ? day.business.open_time : day.hours.open_time;
+      let previousEnd = zonedTimeToInstant(day.local.date, opens, timeZone).getTime();
+      for (const row of busy) {
+        const rowEnd = row.end_time.getTime();
+        if (row.staff_id === staff_id && rowEnd <= start.getTime() && rowEnd > previousEnd) {
+          previousEnd = rowEnd;
+        }
+      }
+      return Math.max(0, Math.round((start.getTime() - previousEnd) / 60000));
+    },
+  };
+  return schedule;
+}
+
+/**
+ * The earliest (or best-fitting) slots for a service across its staff and a
+ * range of business-local dates, optionally limited to times of day and
+ * weekdays. Schedules, bookings and resource use for the whole range are
+ * loaded once; slots the booking policy would refuse are skipped.
+ */
+export async function findAvailableSlots(business_id: string, search: {
+  service_id: string;
+  staff_id?: string;
+  start_date?: string;
+  end_date?: string;
+  times_of_day?: TimeOfDay[];
+  weekdays?: Weekday[];
+  limit?: number;
+  order?: SlotOrder;
+}) {
+  try {
+    const timeZone = await getBusinessTimezone(business_id);
+    const policy = await getBookingPolicy(business_id);
+    const now = new Date();
+
+    const serviceResult = await query(
+      'SELECT id, name, duration_minutes, buffer_time_minutes, max_bookings_per_slot, is_active FROM services WHERE id = $1 AND business_id = $2',
+      [search.service_id, business_id]
+    );
+    if (serviceResult.rows.length === 0) {
+      throw new Error(`Service not found: ${search.service_id}`);
+    }
+    const service = serviceResult.rows[0];
+    if (!service.is_active) {
+      throw new Error(`Service "${service.name}" is not active`);
+    }
+
+    const startDate = search.start_date ?? getZonedParts(now, timeZone).date;
+    const endDate = search.end_date ?? addDays(startDate, DEFAULT_SEARCH_DAYS - 1);
+    if (endDate < startDate) {
+      throw new Error('end_date must not be before start_date');
+    }
+    if (endDate > addDays(startDate, MAX_SEARCH_DAYS - 1)) {
+      throw new Error(`Searches cover at most ${MAX_SEARCH_DAYS} days`);
+    }
+
+    const staffResult = await query(
+      `SELECT s.id, s.first_name, s.last_name FROM staff s
+       JOIN staff_services ss ON s.id = ss.staff_id
+       WHERE ss.service_id = $1 AND s.business_id = $2 AND s.is_active = true
+       ORDER BY s.first_name, s.last_name`,
+      [search.service_id, business_id]
+    );
+    let staff = staffResult.rows;
+    if (search.staff_id) {
+      staff = staff.filter((member: any) => member.id === search.staff_id);
+      if (staff.length === 0) {
+        throw new Error(`Staff member ${search.staff_id} does not provide "${service.name}"`);
+      }
+    }
+
+    const filters = { times_of_day: search.times_of_day, weekdays: search.weekdays };
+    const order = search.order ?? 'earliest';
+    const limit = Math.min(search.limit ?? 5, MAX_SEARCH_RESULTS);
+    const result = { service, start_date: startDate, end_date: endDate, timeZone, slots: [] as SlotCandidate[] };
+    if (staff.length === 0) {
+      return result;
+    }
+
+    const schedule = await loadStaffSchedule(business_id, startDate, endDate, staff.map((member: any) => member.id), timeZone);
+    const resourceUsage = await loadResourceUsage(
+      query, business_id, search.service_id, getLocalDayRange(startDate, timeZone).start, getLocalDayRange(endDate, timeZone).end
+    );
+
+    const duration = service.duration_minutes;
+    const buffer = service.buffer_time_minutes || 0;
+    const maxBookingsPerSlot = service.max_bookings_per_slot || 1;
+    const slotInterval = 30;
+    const candidates: SlotCandidate[] = [];
+
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      // Chronological scanning can stop as soon as enough slots are found
+      if (order === 'earliest' && candidates.length >= limit) break;
+      if (!matchesWeekday(getDayOfWeek(date), filters)) continue;
+      const hours = schedule.openingHours(date);
+      if (!hours) continue;
+
+      for (let minutes = timeToMinutes(hours.open_time); minutes + duration <= timeToMinutes(hours.close_time); minutes += slotInterval) {
+        const localTime = minutesToTime(minutes);
+        if (!matchesTimeOfDay(`${localTime}:00`, filters)) continue;
+        if (!isExistingLocalTime(date, localTime, timeZone)) continue;
+
+        const start = zonedTimeToInstant(date, localTime, timeZone);
+        const end = new Date(start.getTime() + duration * 60000);
+        if (start <= now || checkBookingWindow(policy, start, now, timeZone).length > 0) continue;
+
+        const availableStaff = staff
+          .filter((member: any) => schedule.isStaffFree(member.id, start, end, buffer))
+          .map((member: any) => ({
+            id: member.id,
+            name: `${member.first_name} ${member.last_name}`,
+            idle_minutes: schedule.idleMinutesBefore(member.id, start),
+          }));
+        const resourceSlots = resourceCapacity(resourceUsage.requirements, resourceUsage.uses, start, end);
+
+        if (availableStaff.length > 0 && resourceSlots > 0) {
+          candidates.push({
+            date,
+            start_time: start,
+            end_time: end,
+            time_of_day: timeOfDay(`${localTime}:00`),
+            available_staff: availableStaff,
+            available_slots: Math.min(availableStaff.length, maxBookingsPerSlot, resourceSlots),
+          });
+        }
+      }
+    }
+
+    result.slots = rankSlots(candidates, order, limit);
+    return result;
+  } catch (error: any) {
+    throw new Error(`Failed to find available slots: ${error.message}`);
+  }
+}
+
+// Days before and after the requested date searched for time-shifted alternatives
+const ALTERNATIVE_DAYS_BEFORE = 2;
+const ALTERNATIVE_DAYS_AFTER = 7;
+const SIMILAR_SERVICE_LIMIT = 3;
+
+/**
+ * Explain why a request cannot be booked and suggest what can: the nearest
+ * free times with the same staff member (or any, when none was asked for),
+ * other qualified staff at the same time, and similar services found with
+ * searchServicesComprehensive at the same time. Suggestions are ranked by how
+ * far they move the customer from the request, and each carries a reason.
+ */
+export async function findAlternatives(business_id: string, request: {
+  service_id: string;
+  staff_id?: string;
+  start_time: string;
+  end_time?: string;
+  limit?: number;
+}) {
+  try {
+    const timeZone = await getBusinessTimezone(business_id);
+    const policy = await getBookingPolicy(business_id);
+    const now = new Date();
+
+    const serviceResult = await query(
+      'SELECT id, name, duration_minutes, buffer_time_minutes, is_active FROM services WHERE id = $1 AND business_id = $2',
+      [request.service_id, business_id]
+    );
+    if (serviceResult.rows.length === 0) {
+      throw new Error(`Service not found: ${request.service_id}`);
+    }
+    const service = serviceResult.rows[0];
+    const start = parseDateTime(request.start_time, timeZone);
+    const end = request.end_time
+      ? parseDateTime(request.end_time, timeZone)
+      : new Date(start.getTime() + service.duration_minutes * 60000);
+    const limit = Math.min(request.limit ?? DEFAULT_ALTERNATIVES, MAX_ALTERNATIVES);
+
+    // Similar services, then every candidate service's qualified staff
+    const matches = await searchServicesComprehensive(business_id, service.name);
+    const similarIds = matches
+      .filter((match: any) => match.is_active !== false)
+      .map((match: any) => String(match.service_id ?? match.id))
+      .filter((id: string) => id !== service.id)
+      .slice(0, SIMILAR_SERVICE_LIMIT);
+    const similarServices = similarIds.length === 0 ? [] : (await query(
+      'SELECT id, name, duration_minutes, buffer_time_minutes FROM services WHERE id = ANY($1) AND business_id = $2 AND is_active = true',
+      [similarIds, business_id]
+    )).rows;
+
+    const staffResult = await query(
+      `SELECT ss.service_id, s.id, s.first_name, s.last_name
+       FROM staff s
+       JOIN staff_services ss ON s.id = ss.staff_id
+       WHERE ss.service_id = ANY($1) AND s.business_id = $2 AND s.is_active = true
+       ORDER BY s.first_name, s.last_name`,
+      [[service.id, ...similarServices.map((similar: any) => similar.id)], business_id]
+    );
+    const staffFor = (service_id: string) => staffResult.rows.filter((row: any) => row.service_id === service_id);
+    const staffName = (member: any) => `${member.first_name} ${member.last_name}`;
+    const qualified = staffFor(service.id);
+
+    let requestedStaff: any = null;
+    const reasons: string[] = [];
+    if (request.staff_id) {
+      requestedStaff = qualified.find((member: any) => member.id === request.staff_id) ?? null;
+      if (!requestedStaff) {
+        const other = (await query(
+          'SELECT first_name, last_name FROM staff WHERE id = $1 AND business_id = $2',
+          [request.staff_id, business_id]
+        )).rows[0];
+        reasons.push(other ? `${staffName(other)} does not provide ${service.name}` : 'The staff member was not found');
+      }
+    }
+
+    // Schedules from the requested day (or today, for past requests) to a week after it
+    const requestedDate = getZonedParts(start, timeZone).date;
+    const today = getZonedParts(now, timeZone).date;
+    const earliest = addDays(requestedDate, -ALTERNATIVE_DAYS_BEFORE);
+    const searchStart = earliest > today ? earliest : today;
+    const searchEnd = addDays(requestedDate > today ? requestedDate : today, ALTERNATIVE_DAYS_AFTER);
+    const scheduleStart = requestedDate < searchStart ? requestedDate : searchStart;
+    const staffIds = [...new Set<string>(staffResult.rows.map((row: any) => row.id))];
+    const schedule = await loadStaffSchedule(business_id, scheduleStart, searchEnd, staffIds, timeZone);
+
+    const rangeStart = getLocalDayRange(scheduleStart, timeZone).start;
+    const rangeEnd = getLocalDayRange(searchEnd, timeZone).end;
+    const resourceUsage = new Map<string, Awaited<ReturnType<typeof loadResourceUsage>>>();
+    for (const candidate of [service, ...similarServices]) {
+      resourceUsage.set(candidate.id, await loadResourceUsage(query, business_id, candidate.id, rangeStart, rangeEnd));
+    }
+
+    const policyAllows = (slotStart: Date) => slotStart > now && checkBookingWindow(policy, slotStart, now, timeZone).length === 0;
+    const resourcesFree = (service_id: string, slotStart: Date, slotEnd: Date) => {
+      const usage = resourceUsage.get(service_id)!;
+      return resourceCapacity(usage.requirements, usage.uses, slotStart, slotEnd) > 0;
+    };
+    const canBook = (candidate: any, staff_id: string, slotStart: Date, slotEnd: Date) =>
+      policyAllows(slotStart) &&
+      resourcesFree(candidate.id, slotStart, slotEnd) &&
+      schedule.isStaffFree(staff_id, slotStart, slotEnd, candidate.buffer_time_minutes || 0);
+
+    // Why the requested time does not work
+    if (start <= now) {
+      reasons.push('The requested time has already passed');
+    }
+    reasons.push(...checkBookingWindow(policy, start, now, timeZone).map((violation) => violation.message));
+    const usage = resourceUsage.get(service.id)!;
+    reasons.push(...findResourceShortages(usage.requirements, usage.uses, start, end).map(describeResourceShortage));
+
+    const buffer = service.buffer_time_minutes || 0;
+    const requestedPool = requestedStaff ? [requestedStaff] : request.staff_id ? [] : qualified;
+    if (!request.staff_id && qualified.length === 0) {
+      reasons.push(`Nobody currently provides ${service.name}`);
+    }
+    if (!requestedPool.some((member: any) => schedule.isStaffFree(member.id, start, end, buffer))) {
+      for (const member of requestedPool) {
+        const reason = schedule.unavailableReason(member.id, start, end, buffer);
+        if (reason) reasons.push(describeUnavailableReason(reason, staffName(member), timeZone));
+      }
+    }
+    const uniqueReasons = [...new Set(reasons)].map((reason) => reason.charAt(0).toUpperCase() + reason.slice(1));
+
+    const available = uniqueReasons.length === 0;
+    const result = { service, start_time: start, end_time: end, available, reasons: uniqueReasons, alternatives: [] as Alternative[], timeZone };
+    if (available) {
+      return result;
+    }
+
+    const suggestions: Alternative[] = [];
+    const suggest = (kind: Alternative['kind'], candidate: any, member: any, slotStart: Date, slotEnd: Date, reason: string) => {
+      suggestions.push({
+        kind,
+        service_id: candidate.id,
+        service_name: candidate.name,
+        staff_id: member.id,
+        staff_name: staffName(member),
+        start_time: slotStart,
+        end_time: slotEnd,
+        reason,
+      });
+    };
+
+    // Other qualified staff at the requested time
+    if (requestedStaff || request.staff_id) {
+      for (const member of qualified) {
+        if (member.id !== request.staff_id && canBook(service, member.id, start, end)) {
+          suggest('other_staff_same_time', service, member, start, end, `${staffName(member)} also provides ${service.name} and is free at the requested time`);
+        }
+      }
+    }
+
+    // The nearest free times with the same staff member, or with anyone when none was asked for
+    const durationMs = end.getTime() - start.getTime();
+    const shiftKind = requestedStaff ? 'same_staff_other_time' : 'other_time';
+    for (let date = searchStart; date <= searchEnd; date = addDays(date, 1)) {
+      const hours = schedule.openingHours(date);
+      if (!hours) continue;
+
+      for (let minutes = timeToMinutes(hours.open_time); minutes < timeToMinutes(hours.close_time); minutes += 30) {
+        if (!isExistingLocalTime(date, minutesToTime(minutes), timeZone)) continue;
+        const slotStart = zonedTimeToInstant(date, minutesToTime(minutes), timeZone);
+        const slotEnd = new Date(slotStart.getTime() + durationMs);
+        if (slotStart.getTime() === start.getTime()) continue;
+
+        for (const member of requestedPool) {
+          if (canBook(service, member.id, slotStart, slotEnd)) {
+            suggest(shiftKind, service, member, slotStart, slotEnd, describeTimeShift(staffName(member), slotStart, start, timeZone));
+          }
+        }
+      }
+    }
+
+    // Similar services at the requested time
+    for (const similar of similarServices) {
+      const similarEnd = new Date(start.getTime() + similar.duration_minutes * 60000);
+      for (const member of staffFor(similar.id)) {
+        if (canBook(similar, member.id, start, similarEnd)) {
+          suggest('similar_service', similar, member, start, similarEnd, `${similar.name} is similar to ${service.name} and ${staffName(member)} is free at the requested time`);
+        }
+      }
+    }
+
+    result.alternatives = rankAlternatives(suggestions, start, limit);
+    return result;
+  } catch (error: any) {
+    throw new Error(`Failed to find alternatives: ${error.message}`);
+  }
+}
+
+// Multi-service visits: services booked back to back as one visit
+
+// The services of a visit in order, each with the staff who may do it
+async function loadVisitServices(business_id: string, service_ids: string[], staff_ids?: Array<string | null>): Promise<VisitService[]> {
+  if (service_ids.length === 0 || service_ids.length > MAX_VISIT_SERVICES) {
+    throw new Error(`A visit needs between 1 and ${MAX_VISIT_SERVICES} services`);
+  }
+  if (staff_ids && staff_ids.length > service_ids.length) {
+    throw new Error('staff_ids must not have more entries than service_ids');
+  }
+
+  const services: VisitService[] = [];
+  for (const [index, service_id] of service_ids.entries()) {
+    const serviceResult = await query(
+      'SELECT id, name, duration_minutes, buffer_time_minutes, is_active FROM services WHERE id = $1 AND business_id = $2',
+      [service_id, business_id]
+    );
+    if (serviceResult.rows.length === 0) {
+      throw new Error(`Service not found: ${service_id}`);
+    }
+    const service = serviceResult.rows[0];
+    if (!service.is_active) {
+      throw new Error(`Service "${service.name}" is not active`);
+    }
+
+    const staffResult = await query(
+      `SELECT s.id FROM staff s
+       JOIN staff_services ss ON s.id = ss.staff_id
+       WHERE ss.service_id = $1 AND s.business_id = $2 AND s.is_active = true
+       ORDER BY s.first_name, s.last_name`,
+      [service_id, business_id]
+    );
+    let candidates = staffResult.rows.map((row: any) => row.id);
+
+    const preferred = staff_ids?.[index];
+    if (preferred) {
+      if (!candidates.includes(preferred)) {
+        throw new Error(`Staff member ${preferred} does not provide "${service.name}"`);
+      }
+      candidates = [preferred];
+    }
+
+    services.push({
+      service_id,
+      service_name: service.name,
+      duration_minutes: service.duration_minutes,
+      buffer_minutes: service.buffer_time_minutes || 0,
+      staff_ids: candidates,
+    });
+  }
+  return services;
+}
+
+// Availability check for planVisit: staff hours and bookings, plus the service's shared resources
+async function visitAvailabilityCheck(
+  business_id: string,
+  date: string,
+  services: VisitService[],
+  timeZone: string
+): Promise<StaffAvailabilityCheck> {
+  const staffIds = [...new Set(services.flatMap((service) => service.staff_ids))];
+  const schedule = await loadStaffSchedule(business_id, date, date, staffIds, timeZone);
+  const { start: dayStart, end: dayEnd } = getLocalDayRange(date, timeZone);
+
+  const resourceUsage = new Map<string, Awaited<ReturnType<typeof loadResourceUsage>>>();
+  for (const service of services) {
+    if (!resourceUsage.has(service.service_id)) {
+      resourceUsage.set(service.service_id, await loadResourceUsage(query, business_id, service.service_id, dayStart, dayEnd));
+    }
+  }
+
+  return (staff_id, service, start, end) => {
+    if (!schedule.isStaffFree(staff_id, start, end, service.buffer_minutes)) return false;
+    const usage = resourceUsage.get(service.service_id)!;
+    return findResourceShortages(usage.requirements, usage.uses, start, end).length === 0;
+  };
+}
+
+/**
+ * Start times on a business-local date at which the services can be done back
+ * to back, with the staff member for each. staff_ids pins the staff member of
+ * the service at the same position; null or a missing entry means anyone.
+ */
+export async function findVisitTimes(business_id: string, request: {
+  service_ids: string[];
+  staff_ids?: Array<string | null>;
+  date: string;
+  limit?: number;
+}) {
+  try {
+    const timeZone = await getBusinessTimezone(business_id);
+    const services = await loadVisitServices(business_id, request.service_ids, request.staff_ids);
+    const isStaffFree = await visitAvailabilityCheck(business_id, request.date, services, timeZone);
+
+    const hours = (await query(
+      'SELECT open_time, close_time FROM working_hours WHERE business_id = $1 AND day_of_week = $2 AND (is_closed = false OR is_closed IS NULL)',
+      [business_id, getDayOfWeek(request.date)]
+    )).rows[0];
+    const options: VisitSegmentPlan[][] = [];
+    if (!hours) {
+      return { services, options, total_minutes: visitLengthMinutes(services), timeZone };
+    }
+
+    const limit = request.limit ?? 5;
+    const slotInterval = 30;
+    const totalMinutes = visitLengthMinutes(services);
+    const now = new Date();
+    for (
+      let minutes = timeToMinutes(hours.open_time);
+      minutes + totalMinutes <= timeToMinutes(hours.close_time) && options.length < limit;
+      minutes += slotInterval
+    ) {
+      if (!isExistingLocalTime(request.date, minutesToTime(minutes), timeZone)) continue;
+      const start = zonedTimeToInstant(request.date, minutesToTime(minutes), timeZone);
+      if (start <= now) continue;
+
+      const plan = planVisit(services, start, isStaffFree);
+      if (plan) options.push(plan);
+    }
+
+    return { services, options, total_minutes: totalMinutes, timeZone };
+  } catch (error: any) {
+    throw new Error(`Failed to find visit times: ${error.message}`);
+  }
+}
+
+/**
+ * Book the services back to back from start_time as one visit. Every segment
+ * is conflict-checked first, then all are booked in one transaction under the
+ * usual slot locks: either the whole visit is booked or nothing is.
+ */
+export async function createVisit(business_id: string, visitData: {
+  customer_id: string;
+  service_ids: string[];
+  staff_ids?: Array<string | null>;
+  start_time: string;
+  notes?: string;
+}) {
+  try {
+    await assertBelongsToBusiness(business_id, 'customers', visitData.customer_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const start = parseDateTime(visitData.start_time, timeZone);
+    const date = getZonedParts(start, timeZone).date;
+
+    const services = await loadVisitServices(business_id, visitData.service_ids, visitData.staff_ids);
+    const plan = planVisit(services, start, await visitAvailabilityCheck(business_id, date, services, timeZone));
+    if (!plan) {
+      throw new DomainError('VISIT_UNAVAILABLE', 'The services cannot be booked back to back from this time', {
+        start_time: formatInTimeZone(start, timeZone),
+      });
+    }
+
+    const failed = [];
+    for (const segment of plan) {
+      const check = await checkAppointmentConflict(
+        business_id,
+        segment.service_id,
+        segment.staff_id,
+        visitData.customer_id,
+        segment.start_time.toISOString(),
+        segment.end_time.toISOString()
+      );
+      const conflicts = blockingConflicts(check);
+      if (conflicts.length > 0) {
+        failed.push({ sequence: segment.sequence, service_id: segment.service_id, conflicts });
+      }
+    }
+    if (failed.length > 0) {
+      throw new DomainError('VISIT_UNAVAILABLE', 'Some services of the visit cannot be booked at this time', { failed });
+    }
+
+    const validStatusValues = await getStatusConstraintValues();
+    const defaultStatus = validStatusValues[0] || 'scheduled';
+
+    const visit = await withTransaction(async (client) => {
+      const visitResult = await client.query(
+        `INSERT INTO visits (business_id, customer_id, start_time, end_time, notes, status)
+         VALUES ($1, $2, $3, $4, $5, 'booked')
+         RETURNING *`,
+        [business_id, visitData.customer_id, plan[0].start_time, plan[plan.length - 1].end_time, visitData.notes || null]
+      );
+      const visit = visitResult.rows[0];
+
+      for (const segment of plan) {
+        await reserveBookingSlot(client, business_id, {
+          service_id: segment.service_id,
+          staff_id: segment.staff_id,
+          start_time: segment.start_time,
+          end_time: segment.end_time,
+        });
+
+        await client.query(
+          `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, duration_minutes, price_cents, status, notes, visit_id, visit_sequence, created_at, updated_at)
+           SELECT $1, $2, $3, $4, $5, $6, $7, price_cents, $8, $9, $10, $11, $12, $12 FROM services WHERE id = $3`,
+          [
+            business_id,
+            visitData.customer_id,
+            segment.service_id,
+            segment.staff_id,
+            segment.start_time,
+            segment.end_time,
+            Math.round((segment.end_time.getTime() - segment.start_time.getTime()) / 60000),
+            defaultStatus,
+            visitData.notes || null,
+            visit.id,
+            segment.sequence,
+            new Date(),
+          ]
+        );
+      }
+
+      const segments = await client.query('SELECT id FROM appointments WHERE visit_id = $1', [visit.id]);
+      await publishAppointmentEvents(client, business_id, 'appointment.created', segments.rows.map((row: any) => row.id));
+      return visit;
+    });
+
+    const booked = await getVisit(business_id, visit.id);
+    await queueAppointmentNotifications(business_id, booked.segments.map((segment: any) => segment.id), 'created');
+    return booked;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to create visit: ${error.message}`);
+  }
+}
+
+// The visit with its segments in order, for the combined confirmation
+export async function getVisit(business_id: string, visit_id: string) {
+  try {
+    const visitResult = await query(
+      `SELECT v.*, c.first_name AS customer_first_name, c.last_name AS customer_last_name
+       FROM visits v
+       JOIN customers c ON v.customer_id = c.id
+       WHERE v.id = $1 AND v.business_id = $2`,
+      [visit_id, business_id]
+    );
+    if (visitResult.rows.length === 0) {
+      throw new DomainError('VISIT_NOT_FOUND', `Visit not found: ${visit_id}`, { visit_id });
+    }
+
+    const segments = await query(
+      `SELECT a.*, sv.name AS service_name, st.first_name AS staff_first_name, st.last_name AS staff_last_name
+       FROM appointments a
+       JOIN services sv ON a.service_id = sv.id
+       LEFT JOIN staff st ON a.staff_id = st.id
+       WHERE a.visit_id = $1
+       ORDER BY a.visit_sequence`,
+      [visit_id]
+    );
+
+    return { visit: visitResult.rows[0], segments: segments.rows };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to get visit: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel every segment of a visit in one transaction. If the policy forbids
+ * cancelling any segment, nothing is cancelled.
+ */
+export async function cancelVisit(business_id: string, visit_id: string, cancellation_reason: string, cancelled_by: string) {
+  try {
+    await getVisit(business_id, visit_id);
+    const policy = await getBookingPolicy(business_id);
+
+    const result = await withTransaction(async (client) => {
+      const segments = await client.query(
+        `SELECT id, customer_id, service_id, staff_id, start_time, end_time FROM appointments
+         WHERE visit_id = $1 AND business_id = $2 AND status = ANY($3)
+         ORDER BY visit_sequence`,
+        [visit_id, business_id, ACTIVE_APPOINTMENT_STATUSES]
+      );
+      if (segments.rows.length === 0) {
+        throw new DomainError('VISIT_NOT_ACTIVE', 'The visit has no active appointments to cancel', { visit_id });
+      }
+
+      const now = new Date();
+      for (const row of segments.rows) {
+        assertPolicy(checkChangeAllowed(policy, 'cancel', row.start_time, now));
+      }
+
+      const cancelled = [];
+      for (const row of segments.rows) {
+        const result = await client.query(
+          'SELECT * FROM cancel_appointment($1, $2, $3)',
+          [row.id, cancellation_reason, cancelled_by]
+        );
+        if (!result.rows[0] || !result.rows[0].cancel_appointment.success) {
+          throw new Error(result.rows[0]?.cancel_appointment?.error || `Failed to cancel appointment ${row.id}`);
+        }
+        cancelled.push(result.rows[0].cancel_appointment);
+      }
+
+      await publishAppointmentEvents(client, business_id, 'appointment.cancelled', segments.rows.map((row: any) => row.id), {
+        cancellation_reason: cancellation_reason || null,
+        cancelled_by: cancelled_by || null,
+      });
+      await client.query("UPDATE visits SET status = 'canceled' WHERE id = $1", [visit_id]);
+      return { cancelled, freed: segments.rows };
+    });
+
+    const waitlistOffers = [];
+    for (const slot of result.freed) {
+      const offer = await offerFreedSlot(business_id, slot, slot.customer_id);
+      if (offer) waitlistOffers.push(offer);
+    }
+    await queueAppointmentNotifications(business_id, result.freed.map((slot: any) => slot.id), 'canceled');
+
+    const { visit, segments } = await getVisit(business_id, visit_id);
+    return { visit, segments, cancelled: result.cancelled, waitlist_offers: waitlistOffers };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to cancel visit: ${error.message}`);
+  }
+}
+
+// Waitlist: customers waiting for a fully booked service are offered slots freed by cancellations and reschedules
+export const WAITLIST_OFFER_TTL_MINUTES = parseInt(process.env.WAITLIST_OFFER_TTL_MINUTES || '30', 10);
+
+interface FreedSlot {
+  service_id: string;
+  staff_id: string | null;
+  start_time: Date;
+  end_time: Date;
+}
+
+export async function joinWaitlist(business_id: string, entryData: {
+  customer_id: string;
+  service_id: string;
+  staff_id?: string;
+  earliest_date?: string;
+  latest_date?: string;
+  window_start?: string;
+  window_end?: string;
+  priority?: number;
+  notes?: string;
+}) {
+  try {
+    await assertBelongsToBusiness(business_id, 'customers', entryData.customer_id);
+    await assertBelongsToBusiness(business_id, 'services', entryData.service_id);
+    if (entryData.staff_id) {
+      await assertBelongsToBusiness(business_id, 'staff', entryData.staff_id);
+      const staffServiceResult = await query(
+        'SELECT 1 FROM staff_services WHERE staff_id = $1 AND service_id = $2',
+        [entryData.staff_id, entryData.service_id]
+      );
+      if (staffServiceResult.rows.length === 0) {
+        throw new Error('Staff member does not provide this service');
+      }
+    }
+
+    if (entryData.earliest_date && entryData.latest_date && entryData.earliest_date > entryData.latest_date) {
+      throw new Error('earliest_date must not be after latest_date');
+    }
+    if (entryData.window_start && entryData.window_end && timeToMinutes(entryData.window_start) >= timeToMinutes(entryData.window_end)) {
+      throw new Error('window_start must be before window_end');
+    }
+
+    const existing = await query(
+      `SELECT id FROM waitlist_entries
+       WHERE business_id = $1 AND customer_id = $2 AND service_id = $3 AND status IN ('waiting', 'offered')`,
+      [business_id, entryData.customer_id, entryData.service_id]
+    );
+    if (existing.rows.length > 0) {
+      throw new DomainError('ALREADY_WAITLISTED', 'The customer is already on the waitlist for this service', {
+        entry_id: existing.rows[0].id,
+      });
+    }
+
+    const result = await query(
+      `INSERT INTO waitlist_entries (business_id, customer_id, service_id, staff_id, earliest_date, latest_date, window_start, window_end, priority, notes, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'waiting')
+       RETURNING *`,
+      [
+        business_id,
+        entryData.customer_id,
+        entryData.service_id,
+        entryData.staff_id || null,
+        entryData.earliest_date || null,
+        entryData.latest_date || null,
+        entryData.window_start || null,
+        entryData.window_end || null,
+        entryData.priority ?? 0,
+        entryData.notes || null,
+      ]
+    );
+
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to join waitlist: ${error.message}`);
+  }
+}
+
+/**
+ * Offer a freed slot to the first matching waitlist entry (highest priority,
+ * then longest waiting). The slot is held for the offer's lifetime so nobody
+ * else books it first. Entries already offered this exact slot are skipped.
+ */
+async function offerSlotToWaitlist(
+  business_id: string,
+  slot: FreedSlot,
+  exclude_customer_id?: string
+) {
+  const now = new Date();
+  if (!slot.staff_id || slot.start_time <= now) {
+    return null;
+  }
+
+  // A slot too close (or too far) to book under the policy is not worth offering
+  const timeZone = await getBusinessTimezone(business_id);
+  if (checkBookingWindow(await getBookingPolicy(business_id), slot.start_time, now, timeZone).length > 0) {
+    return null;
+  }
+
+  const localStart = getZonedParts(slot.start_time, timeZone);
+  const localEnd = getZonedParts(slot.end_time, timeZone);
+  const endTimeOnly = localEnd.date > localStart.date && localEnd.time === '00:00:00' ? '24:00:00' : localEnd.time;
+
+  const candidates = await query(
+    `SELECT e.* FROM waitlist_entries e
+     WHERE e.business_id = $1 AND e.service_id = $2 AND e.status = 'waiting'
+       AND (e.staff_id IS NULL OR e.staff_id = $3)
+       AND (e.earliest_date IS NULL OR e.earliest_date <= $4::date)
+       AND (e.latest_date IS NULL OR e.latest_date >= $4::date)
+       AND (e.window_start IS NULL OR e.window_start <= $5::time)
+       AND (e.window_end IS NULL OR e.window_end >= $6::time)
+       AND ($7::uuid IS NULL OR e.customer_id != $7::uuid)
+       AND NOT EXISTS (
+         SELECT 1 FROM waitlist_offers o
+         WHERE o.entry_id = e.id AND o.staff_id = $3 AND o.start_time = $8
+       )
+     ORDER BY e.priority DESC, e.created_at ASC
+     LIMIT 1`,
+    [business_id, slot.service_id, slot.staff_id, localStart.date, localStart.time, endTimeOnly, exclude_customer_id || null, slot.start_time]
+  );
+  if (candidates.rows.length === 0) {
+    return null;
+  }
+  const entry = candidates.rows[0];
+  const expiresAt = new Date(now.getTime() + WAITLIST_OFFER_TTL_MINUTES * 60000);
+
+  try {
+    return await withTransaction(async (client) => {
+      const locked = await client.query(
+        "SELECT status FROM waitlist_entries WHERE id = $1 AND status = 'waiting' FOR UPDATE",
+        [entry.id]
+      );
+      if (locked.rows.length === 0) {
+        return null;
+      }
+
+      await reserveBookingSlot(client, business_id, {
+        service_id: slot.service_id,
+        staff_id: slot.staff_id,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+      });
+
+      const holdToken = randomUUID();
+      await client.query(
+        `INSERT INTO slot_holds (business_id, service_id, staff_id, hold_token, start_time, end_time, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [business_id, slot.service_id, slot.staff_id, holdToken, slot.start_time, slot.end_time, expiresAt, now]
+      );
+      const offer = await client.query(
+        `INSERT INTO waitlist_offers (business_id, entry_id, service_id, staff_id, start_time, end_time, hold_token, expires_at, status, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', $9)
+         RETURNING *`,
+        [business_id, entry.id, slot.service_id, slot.staff_id, slot.start_time, slot.end_time, holdToken, expiresAt, now]
+      );
+      await client.query("UPDATE waitlist_entries SET status = 'offered' WHERE id = $1", [entry.id]);
+
+      return { ...offer.rows[0], customer_id: entry.customer_id };
+    });
+  } catch (error) {
+    // Someone booked the slot in the meantime; there is nothing to offer
+    if (error instanceof SlotTakenError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expire pending offers past their deadline, put their entries back in the
+ * queue and offer each slot to the next matching entry.
+ */
+async function expireWaitlistOffers(business_id: string): Promise<void> {
+  const expired = await query(
+    `UPDATE waitlist_offers SET status = 'expired', responded_at = $2
+     WHERE business_id = $1 AND status = 'pending' AND expires_at <= $2
+     RETURNING *`,
+    [business_id, new Date()]
+  );
+
+  for (const offer of expired.rows) {
+    await query("UPDATE waitlist_entries SET status = 'waiting' WHERE id = $1 AND status = 'offered'", [offer.entry_id]);
+    await query('DELETE FROM slot_holds WHERE hold_token = $1', [offer.hold_token]);
+    await offerSlotToWaitlist(business_id, offer);
+  }
+}
+
+// Offer a slot freed by a cancellation or reschedule. Never fails the change that freed it.
+async function offerFreedSlot(business_id: string, slot: FreedSlot, exclude_customer_id?: string) {
+  try {
+    await expireWaitlistOffers(business_id);
+    return await offerSlotToWaitlist(business_id, slot, exclude_customer_id);
+  } catch (error: any) {
+    console.error('Failed to offer freed slot to the waitlist:', error.message);
+    return null;
+  }
+}
+
+export async function listWaitlist(business_id: string, filters?: {
+  service_id?: string;
+  customer_id?: string;
+  status?: string;
+}) {
+  try {
+    await expireWaitlistOffers(business_id);
+
+    const conditions = ['e.business_id = $1'];
+    const params: any[] = [business_id];
+    if (filters?.service_id) {
+      params.push(filters.service_id);
+      conditions.push(`e.service_id = $${params.length}`);
+    }
+    if (filters?.customer_id) {
+      params.push(filters.customer_id);
+      conditions.push(`e.customer_id = $${params.length}`);
+    }
+    if (filters?.status) {
+      params.push(filters.status);
+      conditions.push(`e.status = $${params.length}`);
+    } else {
+      conditions.push("e.status IN ('waiting', 'offered')");
+    }
+
+    const result = await query(
+      `SELECT e.*,
+              c.first_name AS customer_first_name, c.last_name AS customer_last_name,
+              s.name AS service_name,
+              st.first_name AS staff_first_name, st.last_name AS staff_last_name,
+              o.id AS offer_id, o.staff_id AS offer_staff_id, o.start_time AS offer_start_time,
+              o.end_time AS offer_end_time, o.expires_at AS offer_expires_at, o.status AS offer_status
+       FROM waitlist_entries e
+       JOIN customers c ON e.customer_id = c.id
+       JOIN services s ON e.service_id = s.id
+       LEFT JOIN staff st ON e.staff_id = st.id
+       LEFT JOIN LATERAL (
+         SELECT * FROM waitlist_offers
+         WHERE entry_id = e.id AND status = 'pending'
+         ORDER BY created_at DESC
+         LIMIT 1
+       ) o ON true
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY e.priority DESC, e.created_at ASC`,
+      params
+    );
+
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list waitlist: ${error.message}`);
+  }
+}
+
+/**
+ * Take a customer off the waitlist. A pending offer is declined and its slot
+ * goes to the next matching entry.
+ */
+export async function leaveWaitlist(business_id: string, entry_id: string) {
+  try {
+    const result = await query(
+      `UPDATE waitlist_entries SET status = 'left'
+       WHERE id = $1 AND business_id = $2 AND status IN ('waiting', 'offered')
+       RETURNING *`,
+      [entry_id, business_id]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('WAITLIST_ENTRY_NOT_FOUND', `No active waitlist entry found: ${entry_id}`, { entry_id });
+    }
+    const entry = result.rows[0];
+
+    const declined = await query(
+      `UPDATE waitlist_offers SET status = 'declined', responded_at = $2
+       WHERE entry_id = $1 AND status = 'pending'
+       RETURNING *`,
+      [entry_id, new Date()]
+    );
+    for (const offer of declined.rows) {
+      await query('DELETE FROM slot_holds WHERE hold_token = $1', [offer.hold_token]);
+      await offerFreedSlot(business_id, offer, entry.customer_id);
+    }
+
+    return entry;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to leave waitlist: ${error.message}`);
+  }
+}
+
+/**
+ * Book the offered slot for the waitlisted customer, using the offer's hold.
+ */
+export async function acceptWaitlistOffer(business_id: string, offer_id: string, notes?: string) {
+  try {
+    const result = await query(
+      `SELECT o.*, e.customer_id, e.notes AS entry_notes
+       FROM waitlist_offers o
+       JOIN waitlist_entries e ON o.entry_id = e.id
+       WHERE o.id = $1 AND o.business_id = $2`,
+      [offer_id, business_id]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('OFFER_NOT_FOUND', `Waitlist offer not found: ${offer_id}`, { offer_id });
+    }
+    const offer = result.rows[0];
+
+    if (offer.status === 'pending' && offer.expires_at <= new Date()) {
+      await expireWaitlistOffers(business_id);
+      offer.status = 'expired';
+    }
+    if (offer.status !== 'pending') {
+      throw new DomainError(
+        offer.status === 'expired' ? 'OFFER_EXPIRED' : 'OFFER_NOT_PENDING',
+        `The waitlist offer is ${offer.status}`,
+        { offer_id, status: offer.status }
+      );
+    }
+
+    const booking = await createBookingValidated(
+      business_id,
+      offer.customer_id,
+      offer.service_id,
+      offer.staff_id,
+      offer.start_time.toISOString(),
+      notes ?? offer.entry_notes ?? undefined,
+      offer.hold_token
+    );
+
+    const accepted = await query(
+      `UPDATE waitlist_offers SET status = 'accepted', responded_at = $2, appointment_id = $3
+       WHERE id = $1
+       RETURNING *`,
+      [offer_id, new Date(), booking.booking?.appointment_id ?? null]
+    );
+    await query("UPDATE waitlist_entries SET status = 'booked' WHERE id = $1", [offer.entry_id]);
+
+    return { offer: { ...accepted.rows[0], customer_id: offer.customer_id }, booking: booking.booking };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to accept waitlist offer: ${error.message}`);
+  }
+}
+
+// Bookable resources: resource types, the units of each and what services need
+
+// Resource types with their units and the services that need them
+export async function listResources(business_id: string) {
+  try {
+    const types = await query(
+      'SELECT * FROM resource_types WHERE business_id = $1 ORDER BY name',
+      [business_id]
+    );
+    const units = await query(
+      'SELECT * FROM resources WHERE business_id = $1 ORDER BY name',
+      [business_id]
+    );
+    const requirements = await query(
+      `SELECT req.*, sv.name AS service_name
+       FROM service_resource_requirements req
+       JOIN services sv ON req.service_id = sv.id
+       WHERE sv.business_id = $1
+       ORDER BY sv.name`,
+      [business_id]
+    );
+
+    return types.rows.map((type: any) => ({
+      ...type,
+      resources: units.rows.filter((unit: any) => unit.resource_type_id === type.id),
+      required_by: requirements.rows.filter((requirement: any) => requirement.resource_type_id === type.id),
+    }));
+  } catch (error: any) {
+    throw new Error(`Failed to list resources: ${error.message}`);
+  }
+}
+
+// Find a resource type by name, creating it on first use
+async function ensureResourceType(business_id: string, name: string) {
+  const result = await query(
+    `INSERT INTO resource_types (business_id, name)
+     VALUES ($1, $2)
+     ON CONFLICT (business_id, name) DO UPDATE SET name = EXCLUDED.name
+     RETURNING *`,
+    [business_id, name.trim()]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Add one unit to the inventory, e.g. "Treatment Room 2" of type
+ * "Treatment Room". The type is created if the business does not have it yet.
+ */
+export async function addResource(business_id: string, resourceData: {
+  resource_type: string;
+  name: string;
+  notes?: string;
+}) {
+  try {
+    if (!resourceData.resource_type.trim() || !resourceData.name.trim()) {
+      throw new Error('Resource type and name are required');
+    }
+    const type = await ensureResourceType(business_id, resourceData.resource_type);
+    const result = await query(
+      `INSERT INTO resources (business_id, resource_type_id, name, notes, is_active)
+       VALUES ($1, $2, $3, $4, true)
+       RETURNING *`,
+      [business_id, type.id, resourceData.name.trim(), resourceData.notes || null]
+    );
+
+    return { ...result.rows[0], resource_type_name: type.name };
+  } catch (error: any) {
+    throw new Error(`Failed to add resource: ${error.message}`);
+  }
+}
+
+// Set how many units of a resource type each booking of a service takes; 0 removes the requirement
+export async function setServiceResourceRequirement(
+  business_id: string,
+  service_id: string,
+  resource_type: string,
+  quantity: number
+) {
+  try {
+    await assertBelongsToBusiness(business_id, 'services', service_id);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error('Quantity must be a whole number of units (0 to remove the requirement)');
+    }
+
+    const type = await ensureResourceType(business_id, resource_type);
+    if (quantity === 0) {
+      await query(
+        'DELETE FROM service_resource_requirements WHERE service_id = $1 AND resource_type_id = $2',
+        [service_id, type.id]
+      );
+    } else {
+      await query(
+        `INSERT INTO service_resource_requirements (service_id, resource_type_id, quantity)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (service_id, resource_type_id) DO UPDATE SET quantity = EXCLUDED.quantity`,
+        [service_id, type.id, quantity]
+      );
+    }
+
+    return { service_id, resource_type_id: type.id, resource_type_name: type.name, quantity };
+  } catch (error: any) {
+    throw new Error(`Failed to set service resource requirement: ${error.message}`);
+  }
+}
+
+// Group classes: sessions with a fixed time, an instructor and a number of seats
+
+// Session columns with instructor and service names and the number of enrolled customers
+const CLASS_SESSION_COLUMNS = `
+  cs.*,
+  sv.name AS service_name,
+  st.first_name AS staff_first_name,
+  st.last_name AS staff_last_name,
+  (SELECT COUNT(*) FROM class_enrollments ce WHERE ce.session_id = cs.id AND ce.status = 'enrolled') AS enrolled_count`;
+
+async function getClassSessionRow(business_id: string, session_id: string) {
+  const result = await query(
+    `SELECT ${CLASS_SESSION_COLUMNS}
+     FROM class_sessions cs
+     JOIN services sv ON cs.service_id = sv.id
+     JOIN staff st ON cs.staff_id = st.id
+     WHERE cs.id = $1 AND cs.business_id = $2`,
+    [session_id, business_id]
+  );
+  if (result.rows.length === 0) {
+    throw new DomainError('CLASS_SESSION_NOT_FOUND', `Class session not found: ${session_id}`, { session_id });
+  }
+  return result.rows[0];
+}
+
+/**
+ * Schedule a class session. The instructor must teach the service and be free
+ * for the whole session; capacity defaults to the service's max_bookings_per_slot.
+ */
+export async function createClassSession(business_id: string, sessionData: {
+  service_id: string;
+  staff_id: string;
+  start_time: string;
+  end_time?: string;
+  capacity?: number;
+  notes?: string;
+}) {
+  try {
+    await assertBelongsToBusiness(business_id, 'services', sessionData.service_id);
+    await assertBelongsToBusiness(business_id, 'staff', sessionData.staff_id);
+    const staffServiceResult = await query(
+      'SELECT 1 FROM staff_services WHERE staff_id = $1 AND service_id = $2',
+      [sessionData.staff_id, sessionData.service_id]
+    );
+    if (staffServiceResult.rows.length === 0) {
+      throw new Error('Staff member does not provide this service');
+    }
+
+    const service = (await query(
+      'SELECT duration_minutes, max_bookings_per_slot FROM services WHERE id = $1',
+      [sessionData.service_id]
+    )).rows[0];
+    const timeZone = await getBusinessTimezone(business_id);
+    const startTime = parseDateTime(sessionData.start_time, timeZone);
+    const endTime = sessionData.end_time
+      ? parseDateTime(sessionData.end_time, timeZone)
+      : new Date(startTime.getTime() + service.duration_minutes * 60000);
+    if (endTime <= startTime) {
+      throw new Error('End time must be after start time');
+    }
+
+    const capacity = sessionData.capacity ?? service.max_bookings_per_slot ?? 1;
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error('Capacity must be a positive whole number');
+    }
+
+    const session = await withTransaction(async (client) => {
+      const lockKeys = [
+        `booking:staff:${sessionData.staff_id}`,
+        ...await resourceLockKeys((text, params) => client.query(text, params), sessionData.service_id),
+      ];
+      for (const key of lockKeys.sort()) {
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+      }
+      await assertStaffFree(client, business_id, sessionData.staff_id, startTime, endTime);
+      await assertResourcesFree(client, business_id, sessionData.service_id, startTime, endTime);
+
+      const inserted = await client.query(
+        `INSERT INTO class_sessions (business_id, service_id, staff_id, start_time, end_time, capacity, notes, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, 'scheduled')
+         RETURNING id`,
+        [business_id, sessionData.service_id, sessionData.staff_id, startTime, endTime, capacity, sessionData.notes || null]
+      );
+      return inserted.rows[0];
+    });
+
+    return await getClassSessionRow(business_id, session.id);
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to create class session: ${error.message}`);
+  }
+}
+
+// Upcoming scheduled sessions by default, soonest first
+export async function listClassSessions(business_id: string, filters?: {
+  service_id?: string;
+  staff_id?: string;
+  start_date?: string;
+  end_date?: string;
+  available_only?: boolean;
+}) {
+  try {
+    const timeZone = await getBusinessTimezone(business_id);
+    const from = filters?.start_date ? getLocalDayRange(filters.start_date, timeZone).start : new Date();
+    const to = filters?.end_date ? getLocalDayRange(filters.end_date, timeZone).end : null;
+
+    const result = await query(
+      `SELECT * FROM (
+         SELECT ${CLASS_SESSION_COLUMNS}
+         FROM class_sessions cs
+         JOIN services sv ON cs.service_id = sv.id
+         JOIN staff st ON cs.staff_id = st.id
+         WHERE cs.business_id = $1 AND cs.status = 'scheduled'
+           AND cs.start_time >= $2
+           AND ($3::timestamp IS NULL OR cs.start_time < $3::timestamp)
+           AND ($4::uuid IS NULL OR cs.service_id = $4::uuid)
+           AND ($5::uuid IS NULL OR cs.staff_id = $5::uuid)
+       ) sessions
+       WHERE NOT $6 OR enrolled_count < capacity
+       ORDER BY start_time
+       LIMIT 100`,
+      [business_id, from, to, filters?.service_id || null, filters?.staff_id || null, filters?.available_only ?? false]
+    );
+
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list class sessions: ${error.message}`);
+  }
+}
+
+/**
+ * Enroll a customer in a session. The session row is locked while the seats
+ * are counted, so two customers cannot take the last seat at once. Enrolling
+ * is a booking, so the booking window of the business's policy applies.
+ */
+export async function enrollInClass(business_id: string, session_id: string, customer_id: string, notes?: string) {
+  try {
+    await assertBelongsToBusiness(business_id, 'customers', customer_id);
+    const timeZone = await getBusinessTimezone(business_id);
+    const policy = await getBookingPolicy(business_id);
+
+    const enrollment = await withTransaction(async (client) => {
+      const sessionResult = await client.query(
+        'SELECT * FROM class_sessions WHERE id = $1 AND business_id = $2 FOR UPDATE',
+        [session_id, business_id]
+      );
+      if (sessionResult.rows.length === 0) {
+        throw new DomainError('CLASS_SESSION_NOT_FOUND', `Class session not found: ${session_id}`, { session_id });
+      }
+      const session = sessionResult.rows[0];
+
+      const now = new Date();
+      if (session.status !== 'scheduled') {
+        throw new DomainError('CLASS_SESSION_CANCELED', 'The class session has been canceled', { session_id });
+      }
+      if (session.start_time <= now) {
+        throw new DomainError('CLASS_SESSION_STARTED', 'The class session has already started', { session_id });
+      }
+      assertPolicy(checkBookingWindow(policy, session.start_time, now, timeZone));
+
+      const enrolled = await client.query(
+        "SELECT customer_id FROM class_enrollments WHERE session_id = $1 AND status = 'enrolled'",
+        [session_id]
+      );
+      if (enrolled.rows.some((row: any) => row.customer_id === customer_id)) {
+        throw new DomainError('ALREADY_ENROLLED', 'The customer is already enrolled in this class session', { session_id, customer_id });
+      }
+      if (enrolled.rows.length >= session.capacity) {
+        throw new DomainError('CLASS_FULL', `The class session is full (${session.capacity} seats)`, {
+          session_id,
+          capacity: session.capacity,
+        });
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO class_enrollments (business_id, session_id, customer_id, notes, status, enrolled_at)
+         VALUES ($1, $2, $3, $4, 'enrolled', $5)
+         RETURNING *`,
+        [business_id, session_id, customer_id, notes || null, now]
+      );
+      return inserted.rows[0];
+    });
+
+    return { enrollment, session: await getClassSessionRow(business_id, session_id) };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to enroll in class: ${error.message}`);
+  }
+}
+
+// Unenrolling is a cancellation, so the policy's cancellation rules apply
+export async function unenrollFromClass(business_id: string, session_id: string, customer_id: string) {
+  try {
+    const session = await getClassSessionRow(business_id, session_id);
+    const existing = await query(
+      "SELECT id FROM class_enrollments WHERE session_id = $1 AND customer_id = $2 AND status = 'enrolled'",
+      [session_id, customer_id]
+    );
+    if (existing.rows.length === 0) {
+      throw new DomainError('ENROLLMENT_NOT_FOUND', 'The customer is not enrolled in this class session', { session_id, customer_id });
+    }
+
+    const now = new Date();
+    assertPolicy(checkChangeAllowed(await getBookingPolicy(business_id), 'cancel', session.start_time, now));
+
+    const result = await query(
+      `UPDATE class_enrollments SET status = 'cancelled', cancelled_at = $2
+       WHERE id = $1
+       RETURNING *`,
+      [existing.rows[0].id, now]
+    );
+
+    return { enrollment: result.rows[0], session: await getClassSessionRow(business_id, session_id) };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to unenroll from class: ${error.message}`);
+  }
+}
+
+// The session with its enrolled customers, in enrollment order
+export async function getClassRoster(business_id: string, session_id: string) {
+  try {
+    const session = await getClassSessionRow(business_id, session_id);
+    const result = await query(
+      `SELECT ce.*, c.first_name AS customer_first_name, c.last_name AS customer_last_name,
+              c.email AS customer_email, c.phone_number AS customer_phone
+       FROM class_enrollments ce
+       JOIN customers c ON ce.customer_id = c.id
+       WHERE ce.session_id = $1 AND ce.status = 'enrolled'
+       ORDER BY ce.enrolled_at`,
+      [session_id]
+    );
+
+    return { session, enrollments: result.rows };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to get class roster: ${error.message}`);
+  }
+}
+
+// Customer identity verification: one-time codes sent to the email or phone on file
+
+/**
+ * Issue a one-time code for the customer, replacing any code still pending.
+ * The code goes to the customer's own email or phone, never to an address
+ * given in the request. Returns the plain code for delivery; only its hash is
+ * stored.
+ */
+export async function createVerificationCode(business_id: string, customer_id: string, channel: VerificationChannel) {
+  try {
+    const customerResult = await query(
+      `SELECT c.*, b.name AS business_name
+       FROM customers c
+       JOIN businesses b ON c.business_id = b.id
+       WHERE c.id = $1 AND c.business_id = $2`,
+      [customer_id, business_id]
+    );
+    if (customerResult.rows.length === 0) {
+      throw new Error(`Customer not found: ${customer_id}`);
+    }
+    const customer = customerResult.rows[0];
+    const destination = channel === 'email' ? customer.email : customer.phone_number ?? customer.phone;
+    if (!destination) {
+      throw new DomainError('NO_CONTACT_ON_FILE', `The customer has no ${channel === 'email' ? 'email address' : 'phone number'} on file`, { customer_id, channel });
+    }
+
+    const now = new Date();
+    const recent = await query(
+      `SELECT created_at FROM customer_verifications
+       WHERE customer_id = $1 AND business_id = $2 AND created_at > $3
+       ORDER BY created_at DESC LIMIT 1`,
+      [customer_id, business_id, new Date(now.getTime() - VERIFICATION_RESEND_SECONDS * 1000)]
+    );
+    if (recent.rows.length > 0) {
+      throw new DomainError('VERIFICATION_RECENTLY_SENT', `A code was sent less than ${VERIFICATION_RESEND_SECONDS} seconds ago; ask the customer to check for it`, { customer_id });
+    }
+
+    const id = randomUUID();
+    const code = generateVerificationCode();
+    const expiresAt = new Date(now.getTime() + VERIFICATION_CODE_TTL_MINUTES * 60000);
+
+    const verification = await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE customer_verifications SET expires_at = $3
+         WHERE customer_id = $1 AND business_id = $2 AND verified_at IS NULL AND expires_at > $3`,
+        [customer_id, business_id, now]
+      );
+      const inserted = await client.query(
+        `INSERT INTO customer_verifications (id, business_id, customer_id, channel, destination, code_hash, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [id, business_id, customer_id, channel, destination, hashVerificationCode(id, code), expiresAt, now]
+      );
+      return inserted.rows[0];
+    });
+
+    return { verification, customer, code };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to create verification code: ${error.message}`);
+  }
+}
+
+/**
+ * Check a code against the customer's pending verification. A wrong code uses
+ * up one of MAX_VERIFICATION_ATTEMPTS; a right one is consumed. Returns the
+ * verification row on success.
+ */
+export async function checkVerificationCode(business_id: string, customer_id: string, code: string) {
+  try {
+    const now = new Date();
+    // Decided inside the transaction, thrown after it so failed attempts are still counted
+    const outcome = await withTransaction(async (client) => {
+      const pending = await client.query(
+        `SELECT * FROM customer_verifications
+         WHERE customer_id = $1 AND business_id = $2 AND verified_at IS NULL AND expires_at > $3
+         ORDER BY created_at DESC LIMIT 1
+         FOR UPDATE`,
+        [customer_id, business_id, now]
+      );
+      const verification = pending.rows[0];
+      if (!verification) {
+        return { error: new DomainError('VERIFICATION_CODE_EXPIRED', 'No code is pending for this customer; it may have expired. Send a new one.', { customer_id }) };
+      }
+      if (verification.attempts >= MAX_VERIFICATION_ATTEMPTS) {
+        return { error: new DomainError('VERIFICATION_LOCKED', 'Too many wrong codes; send a new one.', { customer_id }) };
+      }
+
+      if (!verificationCodeMatches(verification.id, code, verification.code_hash)) {
+        const updated = await client.query(
+          'UPDATE customer_verifications SET attempts = attempts + 1 WHERE id = $1 RETURNING attempts',
+          [verification.id]
+        );
+        const attemptsLeft = Math.max(MAX_VERIFICATION_ATTEMPTS - updated.rows[0].attempts, 0);
+        return { error: new DomainError('VERIFICATION_CODE_INVALID', `The code is not correct (${attemptsLeft} attempt(s) left)`, { customer_id, attempts_left: attemptsLeft }) };
+      }
+
+      const verified = await client.query(
+        'UPDATE customer_verifications SET verified_at = $2 WHERE id = $1 RETURNING *',
+        [verification.id, now]
+      );
+      return { verification: verified.rows[0] };
+    });
+
+    if (outcome.error) {
+      throw outcome.error;
+    }
+    return outcome.verification;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to check verification code: ${error.message}`);
+  }
+}
+
+/**
+ * Check that the customer has a booking matching what they told us: their
+ * last name, the business-local date of an appointment and its service (names
+ * compared case-insensitively). Failures are stored per customer, so opening a
+ * new session does not reset them; MAX_VERIFICATION_ATTEMPTS of them within
+ * VERIFICATION_LOCKOUT_MINUTES lock this method. A match clears them.
+ */
+export async function checkBookingDetails(
+  business_id: string,
+  customer_id: string,
+  details: { last_name: string; appointment_date: string; service_name: string }
+): Promise<void> {
+  try {
+    const timeZone = await getBusinessTimezone(business_id);
+    const { start, end } = getLocalDayRange(details.appointment_date, timeZone);
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - VERIFICATION_LOCKOUT_MINUTES * 60000);
+
+    // Decided inside the transaction, thrown after it so failed attempts are still counted
+    const error = await withTransaction(async (client) => {
+      // Parallel guesses for one customer are counted one at a time
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`verification:booking:${customer_id}`]);
+
+      const failures = await client.query(
+        `SELECT COUNT(*) AS failures, MIN(created_at) AS first_failure
+         FROM customer_verification_failures
+         WHERE customer_id = $1 AND business_id = $2 AND created_at > $3`,
+        [customer_id, business_id, windowStart]
+      );
+      const failureCount = parseInt(failures.rows[0].failures);
+      if (failureCount >= MAX_VERIFICATION_ATTEMPTS) {
+        const lockedUntil = new Date(new Date(failures.rows[0].first_failure).getTime() + VERIFICATION_LOCKOUT_MINUTES * 60000);
+        return new DomainError('VERIFICATION_LOCKED', 'Too many failed attempts; verify with a one-time code instead', {
+          customer_id,
+          locked_until: lockedUntil.toISOString(),
+        });
+      }
+
+      const match = await client.query(
+        `SELECT 1
+         FROM appointments a
+         JOIN customers c ON a.customer_id = c.id
+         JOIN services s ON a.service_id = s.id
+         WHERE a.business_id = $1 AND a.customer_id = $2
+         AND LOWER(TRIM(c.last_name)) = LOWER(TRIM($3))
+         AND LOWER(TRIM(s.name)) = LOWER(TRIM($4))
+         AND a.start_time >= $5 AND a.start_time < $6
+         LIMIT 1`,
+        [business_id, customer_id, details.last_name, details.service_name, start, end]
+      );
+      if (match.rows.length > 0) {
+        await client.query(
+          'DELETE FROM customer_verification_failures WHERE customer_id = $1 AND business_id = $2',
+          [customer_id, business_id]
+        );
+        return null;
+      }
+
+      await client.query(
+        'INSERT INTO customer_verification_failures (business_id, customer_id, created_at) VALUES ($1, $2, $3)',
+        [business_id, customer_id, now]
+      );
+      const attemptsLeft = Math.max(MAX_VERIFICATION_ATTEMPTS - failureCount - 1, 0);
+      return new DomainError('VERIFICATION_FAILED', `The booking details do not match (${attemptsLeft} attempt(s) left)`, {
+        customer_id,
+        attempts_left: attemptsLeft,
+      });
+    });
+
+    if (error) {
+      throw error;
+    }
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to check booking details: ${error.message}`);
+  }
+}
+
+// Customer message templates per business, kind, channel and locale
+
+/**
+ * Appointments with everything a customer message about them may mention,
+ * plus the customer's contact details, locale and the business's default
+ * locale. Keyed by appointment ID.
+ */
+async function getMessageAppointments(appointment_ids: string[]): Promise<Map<string, any>> {
+  const result = await query(
+    `SELECT a.id, a.business_id, a.status, a.start_time, a.end_time, a.notes, a.price_cents, a.currency,
+            s.name AS service_name, s.duration_minutes AS service_duration_minutes, s.price_cents AS service_price_cents,
+            st.first_name AS staff_first_name, st.last_name AS staff_last_name,
+            b.name AS business_name, b.phone AS business_phone, b.email AS business_email, b.timezone,
+            bs.default_locale, to_jsonb(c) AS customer
+     FROM appointments a
+     JOIN customers c ON a.customer_id = c.id
+     JOIN services s ON a.service_id = s.id
+     JOIN businesses b ON a.business_id = b.id
+     LEFT JOIN business_settings bs ON bs.business_id = a.business_id
+     LEFT JOIN staff st ON a.staff_id = st.id
+     WHERE a.id = ANY($1)`,
+    [appointment_ids]
+  );
+  return new Map<string, any>(result.rows.map((row: any) => [row.id, row]));
+}
+
+// Locales to try for a message to the appointment's customer
+function messageLocales(appointment: any): string[] {
+  return localeFallbacks(appointment.customer.locale, appointment.default_locale, DEFAULT_LOCALE);
+}
+
+function messageContext(appointment: any): MessageContext {
+  const customer = appointment.customer;
+  const priceCents = appointment.price_cents ?? appointment.service_price_cents;
+  const locale = messageLocales(appointment)[0];
+  const price = priceCents === null || priceCents === undefined
+    ? null
+    : new Intl.NumberFormat(locale, { style: 'currency', currency: appointment.currency || 'USD' }).format(priceCents / 100);
+
+  return {
+    customer: {
+      first_name: customer.first_name ?? null,
+      last_name: customer.last_name ?? null,
+      name: [customer.first_name, customer.last_name].filter(Boolean).join(' ') || null,
+    },
+    service: { name: appointment.service_name, duration_minutes: appointment.service_duration_minutes ?? null, price },
+    staff: {
+      name: appointment.staff_first_name ? [appointment.staff_first_name, appointment.staff_last_name].filter(Boolean).join(' ') : null,
+      first_name: appointment.staff_first_name ?? null,
+    },
+    business: { name: appointment.business_name, phone: appointment.business_phone ?? null, email: appointment.business_email ?? null },
+    appointment: { id: appointment.id, status: appointment.status, notes: appointment.notes ?? null },
+    start_time: appointment.start_time,
+    end_time: appointment.end_time,
+    time_zone: normalizeTimeZone(appointment.timezone),
+  };
+}
+
+// Templates of the given businesses, as MessageTemplates
+async function getBusinessTemplates(business_ids: string[]): Promise<Map<string, MessageTemplate[]>> {
+  const result = await query('SELECT * FROM message_templates WHERE business_id = ANY($1)', [business_ids]);
+  const templates = new Map<string, MessageTemplate[]>();
+  for (const row of result.rows) {
+    templates.set(row.business_id, [...(templates.get(row.business_id) ?? []), row]);
+  }
+  return templates;
+}
+
+// Throw TEMPLATE_INVALID unless the subject and body only use known variables and filters
+function assertValidTemplate(subject: string | null | undefined, body: string): void {
+  const errors = [...(subject ? validateTemplate(subject).map((error) => `Subject: ${error}`) : []), ...validateTemplate(body)];
+  if (errors.length > 0) {
+    throw new DomainError('TEMPLATE_INVALID', errors.join('; '), { errors });
+  }
+}
+
+function assertLocale(locale: string): string {
+  const normalized = normalizeLocale(locale);
+  if (!normalized) {
+    throw new DomainError('INVALID_LOCALE', `Not a valid locale: ${locale}. Use a language tag such as en, es or pt-BR.`, { locale });
+  }
+  return normalized;
+}
+
+export async function listMessageTemplates(business_id: string, filters?: {
+  kind?: NotificationKind;
+  channel?: DeliveryChannel;
+  locale?: string;
+}) {
+  try {
+    const result = await query(
+      `SELECT * FROM message_templates
+       WHERE business_id = $1
+         AND ($2::text IS NULL OR kind = $2::text)
+         AND ($3::text IS NULL OR channel = $3::text)
+         AND ($4::text IS NULL OR LOWER(locale) = LOWER($4::text))
+       ORDER BY kind, channel, locale`,
+      [business_id, filters?.kind || null, filters?.channel || null, filters?.locale || null]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list message templates: ${error.message}`);
+  }
+}
+
+/**
+ * Create the business's template for a kind, channel and locale, or replace
+ * the one it has.
+ */
+export async function saveMessageTemplate(business_id: string, templateData: {
+  kind: NotificationKind;
+  channel: DeliveryChannel;
+  locale: string;
+  subject?: string | null;
+  body: string;
+}) {
+  try {
+    const locale = assertLocale(templateData.locale);
+    assertValidTemplate(templateData.subject, templateData.body);
+
+    const now = new Date();
+    const result = await query(
+      `INSERT INTO message_templates (business_id, kind, channel, locale, subject, body, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $7)
+       ON CONFLICT (business_id, kind, channel, locale)
+       DO UPDATE SET subject = EXCLUDED.subject, body = EXCLUDED.body, updated_at = EXCLUDED.updated_at
+       RETURNING *`,
+      [business_id, templateData.kind, templateData.channel, locale, templateData.subject || null, templateData.body, now]
+    );
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to save message template: ${error.message}`);
+  }
+}
+
+export async function deleteMessageTemplate(business_id: string, template_id: string) {
+  try {
+    const result = await query(
+      'DELETE FROM message_templates WHERE id = $1 AND business_id = $2 RETURNING *',
+      [template_id, business_id]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('TEMPLATE_NOT_FOUND', `Message template not found: ${template_id}`, { template_id });
+    }
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to delete message template: ${error.message}`);
+  }
+}
+
+/**
+ * Render the message a customer would get about an appointment, from the
+ * business's template for the customer's locale or the built-in default. A
+ * draft subject and body are rendered instead, for previewing a template
+ * before saving it. A locale replaces the customer's.
+ */
+export async function renderAppointmentMessage(
+  business_id: string,
+  appointment_id: string,
+  kind: NotificationKind,
+  channel: DeliveryChannel,
+  options: { locale?: string; draft?: { subject?: string | null; body: string } } = {}
+): Promise<RenderedMessage> {
+  try {
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
+    const appointment = (await getMessageAppointments([appointment_id])).get(appointment_id);
+    const context = messageContext(appointment);
+    const locales = options.locale
+      ? localeFallbacks(assertLocale(options.locale), DEFAULT_LOCALE)
+      : messageLocales(appointment);
+
+    if (options.draft) {
+      assertValidTemplate(options.draft.subject, options.draft.body);
+      return renderMessage(kind, channel, context, {
+        templates: [{ kind, channel, locale: locales[0], subject: options.draft.subject ?? null, body: options.draft.body }],
+        locales,
+      });
+    }
+
+    const templates = (await getBusinessTemplates([business_id])).get(business_id) ?? [];
+    return renderMessage(kind, channel, context, { templates, locales });
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to render message: ${error.message}`);
+  }
+}
+
+// Appointment notifications: confirmations, reminders, follow-ups and change notices
+
+// The customer's contact details from a to_jsonb(customers) column
+function notificationContact(customer: any): NotificationContact {
+  return {
+    email: customer.email ?? null,
+    phone: customer.phone_number ?? customer.phone ?? null,
+    user_id: customer.user_id ?? null,
+  };
+}
+
+/**
+ * Queue the notifications an appointment change calls for, on every
+ * configured channel the customer can be reached on. Notifications still
+ * pending for a rescheduled or cancelled appointment are cancelled first,
+ * since their times no longer hold. A multi-service visit is notified through
+ * its first appointment. Never fails the change that triggered it.
+ */
+async function queueAppointmentNotifications(business_id: string, appointment_ids: string[], event: NotificationEvent): Promise<void> {
+  if (appointment_ids.length === 0) {
+    return;
+  }
+
+  try {
+    const now = new Date();
+    await withTransaction(async (client) => {
+      if (event !== 'created') {
+        await client.query(
+          `UPDATE appointment_notifications SET status = 'canceled', last_error = $3
+           WHERE business_id = $1 AND appointment_id = ANY($2) AND status = 'pending'`,
+          [business_id, appointment_ids, `The appointment was ${event}`]
+        );
+      }
+      if (event === 'rescheduled') {
+        await client.query(
+          'UPDATE appointments SET reminder_sent = false WHERE business_id = $1 AND id = ANY($2)',
+          [business_id, appointment_ids]
+        );
+      }
+
+      const appointments = await client.query(
+        `SELECT a.id, a.start_time, a.end_time, a.visit_sequence, to_jsonb(c) AS customer
+         FROM appointments a
+         JOIN customers c ON a.customer_id = c.id
+         WHERE a.business_id = $1 AND a.id = ANY($2)`,
+        [business_id, appointment_ids]
+      );
+
+      for (const appointment of appointments.rows) {
+        if (appointment.visit_sequence > 1) {
+          continue;
+        }
+        const channels = reachableChannels(notificationContact(appointment.customer));
+        for (const planned of planNotifications(event, appointment, now)) {
+          for (const channel of channels) {
+            await client.query(
+              `INSERT INTO appointment_notifications (business_id, appointment_id, kind, notification_type, status, scheduled_at, created_at)
+               VALUES ($1, $2, $3, $4, 'pending', $5, $6)`,
+              [business_id, appointment.id, planned.kind, channel, planned.scheduled_at, now]
+            );
+          }
+        }
+      }
+    });
+  } catch (error: any) {
+    console.error('Failed to queue appointment notifications:', error.message);
+  }
+}
+
+/**
+ * Send the notifications that are due, oldest first: for one business, or
+ * for every business when business_id is null (the background worker). Each
+ * row is claimed with a short lease so two workers never send it twice. A
+ * failed send is retried later with a growing delay, and marked failed after
+ * MAX_NOTIFICATION_ATTEMPTS. Returns the processed rows.
+ */
+export async function deliverDueNotifications(business_id: string | null, limit: number = NOTIFICATION_BATCH_SIZE) {
+  try {
+    const now = new Date();
+    const claimed = await query(
+      `UPDATE appointment_notifications SET attempts = attempts + 1, next_attempt_at = $4
+       WHERE id IN (
+         SELECT id FROM appointment_notifications
+         WHERE status = 'pending' AND COALESCE(next_attempt_at, scheduled_at) <= $1
+           AND ($2::uuid IS NULL OR business_id = $2::uuid)
+         ORDER BY scheduled_at
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [now, business_id, limit, new Date(now.getTime() + NOTIFICATION_LEASE_MINUTES * 60000)]
+    );
+    if (claimed.rows.length === 0) {
+      return [];
+    }
+
+    const appointments = await getMessageAppointments(claimed.rows.map((row: any) => row.appointment_id));
+    const templates = await getBusinessTemplates([...new Set<string>(claimed.rows.map((row: any) => row.business_id))]);
+
+    const processed = [];
+    for (const notification of claimed.rows) {
+      const appointment = appointments.get(notification.appointment_id);
+      const channel: DeliveryChannel = notification.notification_type;
+      const kind: NotificationKind = notification.kind;
+      const recipient = notificationRecipient(channel, notificationContact(appointment.customer));
+      const skipReason = notificationSkipReason(kind, appointment.status);
+
+      let outcome: { status: NotificationStatus; error: string | null; next_attempt_at: Date | null };
+      if (skipReason) {
+        outcome = { status: 'canceled', error: skipReason, next_attempt_at: null };
+      } else if (!recipient) {
+        outcome = { status: 'failed', error: `The customer has no ${channel} contact on file`, next_attempt_at: null };
+      } else {
+        try {
+          const { subject, body } = renderMessage(kind, channel, messageContext(appointment), {
+            templates: templates.get(notification.business_id),
+            locales: messageLocales(appointment),
+          });
+          await deliverMessage({
+            subject,
+            body,
+            channel,
+            to: recipient,
+            business_id: notification.business_id,
+            customer_id: appointment.customer.id,
+          });
+          outcome = { status: 'sent', error: null, next_attempt_at: null };
+        } catch (error: any) {
+          outcome = notification.attempts >= MAX_NOTIFICATION_ATTEMPTS
+            ? { status: 'failed', error: error.message, next_attempt_at: null }
+            : {
+                status: 'pending',
+                error: error.message,
+                next_attempt_at: new Date(Date.now() + notificationRetryDelayMinutes(notification.attempts) * 60000),
+              };
+        }
+      }
+
+      const updated = await withTransaction(async (client) => {
+        const result = await client.query(
+          `UPDATE appointment_notifications
+           SET status = $2, sent_at = $3, recipient = $4, last_error = $5, next_attempt_at = $6
+           WHERE id = $1
+           RETURNING *`,
+          [
+            notification.id,
+            outcome.status,
+            outcome.status === 'sent' ? new Date() : null,
+            recipient,
+            outcome.error,
+            outcome.next_attempt_at,
+          ]
+        );
+        if (outcome.status === 'sent' && (kind === 'confirmation' || kind === 'rescheduled')) {
+          await client.query('UPDATE appointments SET confirmation_sent = true WHERE id = $1', [notification.appointment_id]);
+        } else if (outcome.status === 'sent' && kind === 'reminder') {
+          await client.query('UPDATE appointments SET reminder_sent = true WHERE id = $1', [notification.appointment_id]);
+        }
+        return result.rows[0];
+      });
+      processed.push(updated);
+    }
+
+    return processed;
+  } catch (error: any) {
+    throw new Error(`Failed to deliver notifications: ${error.message}`);
+  }
+}
+
+// Notifications newest first, for one appointment or the whole business
+export async function listAppointmentNotifications(business_id: string, filters?: {
+  appointment_id?: string;
+  status?: NotificationStatus;
+  limit?: number;
+}) {
+  try {
+    if (filters?.appointment_id) {
+      await assertBelongsToBusiness(business_id, 'appointments', filters.appointment_id);
+    }
+
+    const result = await query(
+      `SELECT * FROM appointment_notifications
+       WHERE business_id = $1
+         AND ($2::uuid IS NULL OR appointment_id = $2::uuid)
+         AND ($3::text IS NULL OR status = $3::text)
+       ORDER BY scheduled_at DESC
+       LIMIT $4`,
+      [business_id, filters?.appointment_id || null, filters?.status || null, filters?.limit ?? 100]
+    );
+    return result.rows;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to list notifications: ${error.message}`);
+  }
+}
+
+// Calendar export: iCalendar files for appointments, and per-staff and per-customer feeds
+
+// The business with its address and effective timezone, for calendar events
+async function getCalendarBusiness(business_id: string) {
+  const result = await query('SELECT * FROM businesses WHERE id = $1', [business_id]);
+  if (result.rows.length === 0) {
+    throw new Error(`Business not found: ${business_id}`);
+  }
+  return { ...result.rows[0], timezone: await getBusinessTimezone(business_id) };
+}
+
+// The feed owner's name, checking they belong to the business
+async function getCalendarOwnerName(business_id: string, owner: CalendarFeedOwner): Promise<string> {
+  const table = owner.staff_id ? 'staff' : 'customers';
+  const id = owner.staff_id || owner.customer_id;
+  const result = await query(
+    `SELECT first_name, last_name FROM ${table} WHERE id = $1 AND business_id = $2`,
+    [id, business_id]
+  );
+  if (result.rows.length === 0) {
+    throw new Error(`${BUSINESS_SCOPED_TABLES[table]} not found: ${id}`);
+  }
+  return [result.rows[0].first_name, result.rows[0].last_name].filter(Boolean).join(' ');
+}
+
+/**
+ * A getAppointment(s) row as a calendar event. Customers see the service, who
+ * they are seeing and how to reach the business; staff see the customer and
+ * the appointment notes.
+ */
+function appointmentEvent(appointment: any, business: any, audience: 'customer' | 'staff', alarm_minutes: number): CalendarEvent {
+  const service = appointment.service_name || 'Appointment';
+  const staffName = [appointment.staff_first_name, appointment.staff_last_name].filter(Boolean).join(' ');
+  const customerName = [appointment.customer_first_name, appointment.customer_last_name].filter(Boolean).join(' ');
+  const details = audience === 'customer'
+    ? [staffName && `${service} with ${staffName}`, business.phone && `Phone: ${business.phone}`]
+    : [customerName && `Customer: ${customerName}`, appointment.notes && `Notes: ${appointment.notes}`];
+
+  return {
+    uid: `${appointment.id}@appointment-mcp`,
+    start: new Date(appointment.start_time),
+    end: new Date(appointment.end_time),
+    summary: audience === 'customer' ? `${service} at ${business.name}` : `${service}${customerName ? ` - ${customerName}` : ''}`,
+    description: [...details, `Appointment ID: ${appointment.id}`].filter(Boolean).join('\n'),
+    location: formatLocation(business),
+    organizer: business.email ? { name: business.name, email: business.email } : null,
+    status: calendarStatus(appointment.status),
+    updated_at: appointment.updated_at ? new Date(appointment.updated_at) : null,
+    alarm_minutes: alarm_minutes > 0 ? alarm_minutes : null,
+  };
+}
+
+/**
+ * An .ics file with one appointment, as the customer would add it to their
+ * calendar. A cancelled appointment is exported with STATUS:CANCELLED.
+ */
+export async function exportAppointmentCalendar(
+  business_id: string,
+  appointment_id: string,
+  options: { alarm_minutes?: number } = {}
+) {
+  try {
+    const appointment = await getAppointment(business_id, appointment_id);
+    const business = await getCalendarBusiness(business_id);
+    const event = appointmentEvent(appointment, business, 'customer', options.alarm_minutes ?? CALENDAR_ALARM_MINUTES);
+
+    return {
+      filename: `appointment-${appointment.id}.ics`,
+      content: buildCalendar([event], { name: business.name, time_zone: business.timezone }),
+      appointment,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to export appointment calendar: ${error.message}`);
+  }
+}
+
+/**
+ * The calendar of a staff member's or a customer's appointments, from
+ * CALENDAR_FEED_PAST_DAYS ago onwards, cancelled ones included.
+ */
+export async function exportCalendarFeed(business_id: string, owner: CalendarFeedOwner) {
+  try {
+    const ownerName = await getCalendarOwnerName(business_id, owner);
+    const business = await getCalendarBusiness(business_id);
+    const from = getZonedParts(new Date(Date.now() - CALENDAR_FEED_PAST_DAYS * 86400000), business.timezone).date;
+    const appointments = await getAppointments(business_id, {
+      staff_id: owner.staff_id || undefined,
+      customer_id: owner.customer_id || undefined,
+      start_date: from,
+    });
+    const audience = owner.staff_id ? 'staff' : 'customer';
+    const events = appointments.map((appointment: any) => appointmentEvent(appointment, business, audience, CALENDAR_ALARM_MINUTES));
+    const name = owner.staff_id ? `${ownerName} - ${business.name}` : `${business.name} appointments`;
+
+    return {
+      filename: `${owner.staff_id ? 'staff' : 'customer'}-${owner.staff_id || owner.customer_id}.ics`,
+      content: buildCalendar(events, { name, time_zone: business.timezone }),
+      event_count: events.length,
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to export calendar: ${error.message}`);
+  }
+}
+
+/**
+ * Create a feed of a staff member's or customer's appointments. The returned
+ * token is not stored and cannot be shown again; only its hash is kept.
+ */
+export async function createCalendarFeed(business_id: string, owner: CalendarFeedOwner) {
+  try {
+    await getCalendarOwnerName(business_id, owner);
+    const token = generateFeedToken();
+    const result = await query(
+      `INSERT INTO calendar_feeds (business_id, staff_id, customer_id, token_hash, created_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [business_id, owner.staff_id || null, owner.staff_id ? null : owner.customer_id || null, hashFeedToken(token), new Date()]
+    );
+    return { ...result.rows[0], token };
+  } catch (error: any) {
+    throw new Error(`Failed to create calendar feed: ${error.message}`);
+  }
+}
+
+// Feeds newest first, optionally only a staff member's or a customer's
+export async function listCalendarFeeds(business_id: string, owner: CalendarFeedOwner = {}) {
+  try {
+    const result = await query(
+      `SELECT * FROM calendar_feeds
+       WHERE business_id = $1
+         AND ($2::uuid IS NULL OR staff_id = $2::uuid)
+         AND ($3::uuid IS NULL OR customer_id = $3::uuid)
+       ORDER BY created_at DESC`,
+      [business_id, owner.staff_id || null, owner.customer_id || null]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list calendar feeds: ${error.message}`);
+  }
+}
+
+export async function revokeCalendarFeed(business_id: string, feed_id: string) {
+  try {
+    const result = await query(
+      `UPDATE calendar_feeds SET revoked_at = COALESCE(revoked_at, $3)
+       WHERE id = $1 AND business_id = $2
+       RETURNING *`,
+      [feed_id, business_id, new Date()]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('CALENDAR_FEED_NOT_FOUND', `Calendar feed not found: ${feed_id}`, { feed_id });
+    }
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to revoke calendar feed: ${error.message}`);
+  }
+}
+
+/**
+ * The calendar a feed token opens, or null when the token is unknown or its
+ * feed was revoked. The token is the credential, so this is not scoped to a
+ * business by the caller.
+ */
+export async function getCalendarFeedByToken(token: string) {
+  try {
+    const result = await query(
+      `UPDATE calendar_feeds SET last_accessed_at = $2
+       WHERE token_hash = $1 AND revoked_at IS NULL
+       RETURNING *`,
+      [hashFeedToken(token), new Date()]
+    );
+    const feed = result.rows[0];
+    return feed ? await exportCalendarFeed(feed.business_id, { staff_id: feed.staff_id, customer_id: feed.customer_id }) : null;
+  } catch (error: any) {
+    throw new Error(`Failed to open calendar feed: ${error.message}`);
+  }
+}
+
+// External calendars: busy times staff import from calendars they keep elsewhere
+
+/**
+ * Read and parse an external calendar over the import window: from the start
+ * of the business-local day to EXTERNAL_CALENDAR_DAYS ahead.
+ */
+async function loadExternalCalendar(business_id: string, source_type: ExternalCalendarSource, source: string): Promise<ParsedCalendar> {
+  let text: string;
+  try {
+    text = await readExternalCalendar(source_type, source);
+  } catch (error: any) {
+    throw new DomainError('EXTERNAL_CALENDAR_UNAVAILABLE', `Could not read the calendar: ${error.message}`, { source_type, source });
+  }
+
+  const timeZone = await getBusinessTimezone(business_id);
+  const today = getZonedParts(new Date(), timeZone).date;
+  try {
+    return parseExternalCalendar(text, {
+      timeZone,
+      from: getLocalDayRange(today, timeZone).start,
+      to: getLocalDayRange(addDays(today, EXTERNAL_CALENDAR_DAYS), timeZone).start,
+    });
+  } catch (error: any) {
+    throw new DomainError('EXTERNAL_CALENDAR_INVALID', error.message, { source_type, source });
+  }
+}
+
+// Replace the calendar's busy blocks with the parsed ones and mark it synced
+async function storeExternalBusyBlocks(client: PoolClient, calendar: any, parsed: ParsedCalendar) {
+  await client.query('DELETE FROM external_busy_blocks WHERE calendar_id = $1', [calendar.id]);
+  const { blocks } = parsed;
+  if (blocks.length > 0) {
+    await client.query(
+      `INSERT INTO external_busy_blocks (business_id, staff_id, calendar_id, event_uid, summary, start_time, end_time, is_all_day, created_at)
+       SELECT $1, $2, $3, b.event_uid, b.summary, b.start_time, b.end_time, b.is_all_day, $8
+       FROM unnest($4::text[], $5::text[], $6::timestamp[], $7::timestamp[], $9::boolean[])
+         AS b(event_uid, summary, start_time, end_time, is_all_day)`,
+      [
+        calendar.business_id,
+        calendar.staff_id,
+        calendar.id,
+        blocks.map((block) => block.uid),
+        blocks.map((block) => block.summary),
+        blocks.map((block) => block.start.toISOString()),
+        blocks.map((block) => block.end.toISOString()),
+        new Date(),
+        blocks.map((block) => block.all_day),
+      ]
+    );
+  }
+  const result = await client.query(
+    `UPDATE external_calendars
+     SET busy_block_count = $2, last_synced_at = $3, last_error = NULL, name = COALESCE(name, $4)
+     WHERE id = $1
+     RETURNING *`,
+    [calendar.id, blocks.length, new Date(), parsed.name]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Import a staff member's external calendar from a URL or a local file, or
+ * re-import it when the staff member already has it. Nothing is saved when
+ * the calendar cannot be read or parsed.
+ */
+export async function importExternalCalendar(
+  business_id: string,
+  staff_id: string,
+  input: { source_type: ExternalCalendarSource; source: string; name?: string | null }
+) {
+  try {
+    await assertBelongsToBusiness(business_id, 'staff', staff_id);
+    const source = input.source.trim();
+    const parsed = await loadExternalCalendar(business_id, input.source_type, source);
+
+    const calendar = await withTransaction(async (client) => {
+      const now = new Date();
+      const saved = (await client.query(
+        `INSERT INTO external_calendars (business_id, staff_id, name, source_type, source, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $6)
+         ON CONFLICT (staff_id, source) DO UPDATE SET name = COALESCE(EXCLUDED.name, external_calendars.name)
+         RETURNING *`,
+        [business_id, staff_id, input.name?.trim() || null, input.source_type, source, now]
+      )).rows[0];
+      return storeExternalBusyBlocks(client, saved, parsed);
+    });
+    return { calendar, warnings: parsed.warnings };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to import external calendar: ${error.message}`);
+  }
+}
+
+async function getExternalCalendar(business_id: string, calendar_id: string) {
+  const result = await query('SELECT * FROM external_calendars WHERE id = $1 AND business_id = $2', [calendar_id, business_id]);
+  if (result.rows.length === 0) {
+    throw new DomainError('EXTERNAL_CALENDAR_NOT_FOUND', `External calendar not found: ${calendar_id}`, { calendar_id });
+  }
+  return result.rows[0];
+}
+
+/**
+ * Re-read an external calendar and replace its busy blocks. When it cannot
+ * be read or parsed the old blocks are kept and the error is recorded on the
+ * calendar.
+ */
+export async function syncExternalCalendar(business_id: string, calendar_id: string) {
+  try {
+    const calendar = await getExternalCalendar(business_id, calendar_id);
+    let parsed: ParsedCalendar;
+    try {
+      parsed = await loadExternalCalendar(business_id, calendar.source_type, calendar.source);
+    } catch (error: any) {
+      await query('UPDATE external_calendars SET last_error = $2 WHERE id = $1', [calendar.id, error.message]);
+      throw error;
+    }
+
+    const synced = await withTransaction((client) => storeExternalBusyBlocks(client, calendar, parsed));
+    return { calendar: synced, warnings: parsed.warnings };
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to sync external calendar: ${error.message}`);
+  }
+}
+
+// External calendars by staff member, then oldest first
+export async function listExternalCalendars(business_id: string, filters: { staff_id?: string } = {}) {
+  try {
+    const result = await query(
+      `SELECT ec.*, s.first_name AS staff_first_name, s.last_name AS staff_last_name
+       FROM external_calendars ec
+       JOIN staff s ON ec.staff_id = s.id
+       WHERE ec.business_id = $1 AND ($2::uuid IS NULL OR ec.staff_id = $2::uuid)
+       ORDER BY s.first_name, s.last_name, ec.created_at`,
+      [business_id, filters.staff_id || null]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list external calendars: ${error.message}`);
+  }
+}
+
+// Remove an external calendar; its busy blocks go with it
+export async function removeExternalCalendar(business_id: string, calendar_id: string) {
+  try {
+    const result = await query(
+      'DELETE FROM external_calendars WHERE id = $1 AND business_id = $2 RETURNING *',
+      [calendar_id, business_id]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('EXTERNAL_CALENDAR_NOT_FOUND', `External calendar not found: ${calendar_id}`, { calendar_id });
+    }
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to remove external calendar: ${error.message}`);
+  }
+}
+
+// Imported busy times overlapping the business-local dates, soonest first
+export async function listExternalBusyBlocks(
+  business_id: string,
+  filters: { staff_id?: string; calendar_id?: string; start_date: string; end_date: string }
 ) {
   try {
+    const timeZone = await getBusinessTimezone(business_id);
     const result = await query(
-      'SELECT * FROM create_booking_validated($1, $2, $3, $4, $5)',
-      [customer_id, service_id, staff_id, start_time, notes || null]
+      `SELECT * FROM external_busy_blocks
+       WHERE business_id = $1
+         AND ($2::uuid IS NULL OR staff_id = $2::uuid)
+         AND ($3::uuid IS NULL OR calendar_id = $3::uuid)
+         AND start_time < $5 AND end_time > $4
+       ORDER BY start_time`,
+      [
+        business_id,
+        filters.staff_id || null,
+        filters.calendar_id || null,
+        getLocalDayRange(filters.start_date, timeZone).start,
+        getLocalDayRange(filters.end_date, timeZone).end,
+      ]
     );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list external busy blocks: ${error.message}`);
+  }
+}
+
+// Outbound webhooks: events written to an outbox with the change they describe, and their delivery to registered endpoints
+
+/**
+ * Write an event to the outbox on the caller's transaction, so it is
+ * committed, or rolled back, with the change it describes.
+ */
+async function publishEvent(client: PoolClient, business_id: string, event_type: WebhookEventType, payload: Record<string, unknown>) {
+  await client.query(
+    'INSERT INTO webhook_events (business_id, event_type, payload, created_at) VALUES ($1, $2, $3, $4)',
+    [business_id, event_type, JSON.stringify(payload), new Date()]
+  );
+}
+
+// One event per appointment, with the appointment as it now stands
+async function publishAppointmentEvents(
+  client: PoolClient,
+  business_id: string,
+  event_type: WebhookEventType,
+  appointment_ids: string[],
+  extra: Record<string, unknown> = {}
+) {
+  if (appointment_ids.length === 0) {
+    return;
+  }
+  const result = await client.query(
+    'SELECT * FROM appointments WHERE business_id = $1 AND id = ANY($2) ORDER BY start_time',
+    [business_id, appointment_ids]
+  );
+  for (const appointment of result.rows) {
+    await publishEvent(client, business_id, event_type, appointmentEventData(appointment, extra));
+  }
+}
 
-    if (!result.rows[0] || !result.rows[0].create_booking_validated.success) {
-      throw new Error(result.rows[0]?.create_booking_validated?.error || 'Failed to create booking');
+// The webhook event for a change of status, if the new status has one
+const STATUS_EVENTS: Record<string, WebhookEventType> = {
+  confirmed: 'appointment.confirmed',
+  completed: 'appointment.completed',
+  no_show: 'appointment.no_show',
+  canceled: 'appointment.cancelled',
+  cancelled: 'appointment.cancelled',
+};
+
+// Throw WEBHOOK_URL_INVALID or WEBHOOK_EVENT_TYPE_INVALID for a bad endpoint
+function assertWebhookEndpoint(input: { url?: string; event_types?: string[] }) {
+  const problem = input.url === undefined ? null : webhookUrlProblem(input.url);
+  if (problem) {
+    throw new DomainError('WEBHOOK_URL_INVALID', problem, { url: input.url });
+  }
+  const unknown = (input.event_types ?? []).filter((type) => !isWebhookEventPattern(type));
+  if (unknown.length > 0) {
+    throw new DomainError('WEBHOOK_EVENT_TYPE_INVALID', `Unknown event type(s): ${unknown.join(', ')}`, { event_types: unknown });
+  }
+}
+
+/**
+ * Register an endpoint for the business's events. The returned row carries
+ * the signing secret, which is not shown again.
+ */
+export async function createWebhookEndpoint(
+  business_id: string,
+  input: { url: string; event_types?: string[]; description?: string | null }
+) {
+  try {
+    assertWebhookEndpoint(input);
+    const now = new Date();
+    const result = await query(
+      `INSERT INTO webhook_endpoints (business_id, url, description, event_types, secret, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $6)
+       RETURNING *`,
+      [business_id, input.url.trim(), input.description?.trim() || null, [...new Set(input.event_types ?? [])], generateWebhookSecret(), now]
+    );
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
     }
+    throw new Error(`Failed to create webhook endpoint: ${error.message}`);
+  }
+}
 
-    return result.rows[0].create_booking_validated;
+export async function listWebhookEndpoints(business_id: string) {
+  try {
+    const result = await query(
+      'SELECT * FROM webhook_endpoints WHERE business_id = $1 ORDER BY created_at',
+      [business_id]
+    );
+    return result.rows;
   } catch (error: any) {
-    throw new Error(`Failed to create booking: ${error.message}`);
+    throw new Error(`Failed to list webhook endpoints: ${error.message}`);
+  }
+}
+
+// Change an endpoint's URL, event types, description or active flag; omitted fields stay as they are
+export async function updateWebhookEndpoint(
+  business_id: string,
+  endpoint_id: string,
+  changes: { url?: string; event_types?: string[]; description?: string | null; is_active?: boolean }
+) {
+  try {
+    assertWebhookEndpoint(changes);
+    const result = await query(
+      `UPDATE webhook_endpoints
+       SET url = COALESCE($3, url),
+           event_types = COALESCE($4, event_types),
+           description = CASE WHEN $5::boolean THEN $6 ELSE description END,
+           is_active = COALESCE($7, is_active)
+       WHERE id = $1 AND business_id = $2
+       RETURNING *`,
+      [
+        endpoint_id,
+        business_id,
+        changes.url?.trim() ?? null,
+        changes.event_types ? [...new Set(changes.event_types)] : null,
+        changes.description !== undefined,
+        changes.description?.trim() || null,
+        changes.is_active ?? null,
+      ]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('WEBHOOK_ENDPOINT_NOT_FOUND', `Webhook endpoint not found: ${endpoint_id}`, { endpoint_id });
+    }
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to update webhook endpoint: ${error.message}`);
+  }
+}
+
+// Delete an endpoint with its deliveries and their logs; the events stay for other endpoints
+export async function deleteWebhookEndpoint(business_id: string, endpoint_id: string) {
+  try {
+    const result = await query(
+      'DELETE FROM webhook_endpoints WHERE id = $1 AND business_id = $2 RETURNING *',
+      [endpoint_id, business_id]
+    );
+    if (result.rows.length === 0) {
+      throw new DomainError('WEBHOOK_ENDPOINT_NOT_FOUND', `Webhook endpoint not found: ${endpoint_id}`, { endpoint_id });
+    }
+    return result.rows[0];
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to delete webhook endpoint: ${error.message}`);
+  }
+}
+
+/**
+ * Fan events not yet dispatched out to the active endpoints subscribed to
+ * them, oldest first: for one business, or for every business when
+ * business_id is null (the background worker). Returns the new deliveries.
+ */
+export async function dispatchWebhookEvents(business_id: string | null, limit: number = WEBHOOK_BATCH_SIZE) {
+  try {
+    return await withTransaction(async (client) => {
+      const events = await client.query(
+        `SELECT * FROM webhook_events
+         WHERE dispatched_at IS NULL AND ($1::uuid IS NULL OR business_id = $1::uuid)
+         ORDER BY created_at
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED`,
+        [business_id, limit]
+      );
+      if (events.rows.length === 0) {
+        return [];
+      }
+
+      const endpoints = await client.query(
+        'SELECT id, business_id, event_types FROM webhook_endpoints WHERE is_active = true AND business_id = ANY($1)',
+        [[...new Set(events.rows.map((event: any) => event.business_id))]]
+      );
+      const now = new Date();
+      const deliveries = [];
+      for (const event of events.rows) {
+        for (const endpoint of endpoints.rows) {
+          if (endpoint.business_id !== event.business_id || !webhookSubscribes(endpoint.event_types, event.event_type)) {
+            continue;
+          }
+          const delivery = await client.query(
+            `INSERT INTO webhook_deliveries (business_id, event_id, endpoint_id, next_attempt_at, created_at)
+             VALUES ($1, $2, $3, $4, $4)
+             RETURNING *`,
+            [event.business_id, event.id, endpoint.id, now]
+          );
+          deliveries.push(delivery.rows[0]);
+        }
+      }
+      await client.query('UPDATE webhook_events SET dispatched_at = $2 WHERE id = ANY($1)', [events.rows.map((event: any) => event.id), now]);
+      return deliveries;
+    });
+  } catch (error: any) {
+    throw new Error(`Failed to dispatch webhook events: ${error.message}`);
+  }
+}
+
+/**
+ * Send the deliveries that are due, oldest first: for one business, or for
+ * every business when business_id is null. Each is claimed with a short lease
+ * so two workers never send it at once. Every attempt is logged; a failed one
+ * is retried later with a growing delay, and the delivery is marked failed
+ * after MAX_WEBHOOK_ATTEMPTS or when its endpoint has been turned off.
+ * Returns the processed deliveries.
+ */
+export async function deliverDueWebhooks(business_id: string | null, limit: number = WEBHOOK_BATCH_SIZE) {
+  try {
+    const now = new Date();
+    const claimed = await query(
+      `UPDATE webhook_deliveries SET attempts = attempts + 1, next_attempt_at = $4
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= $1
+           AND ($2::uuid IS NULL OR business_id = $2::uuid)
+         ORDER BY next_attempt_at
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [now, business_id, limit, new Date(now.getTime() + WEBHOOK_LEASE_MINUTES * 60000)]
+    );
+    if (claimed.rows.length === 0) {
+      return [];
+    }
+
+    const details = await query(
+      `SELECT d.id, e.id AS event_id, e.business_id, e.event_type, e.payload, e.created_at,
+              w.url, w.secret, w.is_active
+       FROM webhook_deliveries d
+       JOIN webhook_events e ON d.event_id = e.id
+       JOIN webhook_endpoints w ON d.endpoint_id = w.id
+       WHERE d.id = ANY($1)`,
+      [claimed.rows.map((delivery: any) => delivery.id)]
+    );
+    const byId = new Map<string, any>(details.rows.map((row: any) => [row.id, row]));
+
+    const processed = [];
+    for (const delivery of claimed.rows) {
+      const detail = byId.get(delivery.id);
+      let status: WebhookDeliveryStatus;
+      let next_attempt_at: Date | null = null;
+      let attempt = null;
+      if (!detail.is_active) {
+        status = 'failed';
+      } else {
+        attempt = await sendWebhook(detail.url, detail.secret, {
+          id: detail.event_id,
+          business_id: detail.business_id,
+          event_type: detail.event_type,
+          payload: detail.payload,
+          created_at: detail.created_at,
+        });
+        if (attempt.ok) {
+          status = 'delivered';
+        } else if (delivery.attempts >= MAX_WEBHOOK_ATTEMPTS) {
+          status = 'failed';
+        } else {
+          status = 'pending';
+          next_attempt_at = new Date(Date.now() + webhookRetryDelayMinutes(delivery.attempts) * 60000);
+        }
+      }
+
+      const updated = await withTransaction(async (client) => {
+        if (attempt) {
+          await client.query(
+            `INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, response_body, error, duration_ms, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+            [delivery.id, delivery.attempts, attempt.status_code, attempt.response_body, attempt.error, attempt.duration_ms, new Date()]
+          );
+        }
+        const result = await client.query(
+          `UPDATE webhook_deliveries
+           SET status = $2, next_attempt_at = $3, delivered_at = $4, last_status_code = COALESCE($5, last_status_code), last_error = $6
+           WHERE id = $1
+           RETURNING *`,
+          [
+            delivery.id,
+            status,
+            next_attempt_at,
+            status === 'delivered' ? new Date() : null,
+            attempt?.status_code ?? null,
+            attempt ? attempt.error : 'The endpoint is turned off',
+          ]
+        );
+        return result.rows[0];
+      });
+      processed.push(updated);
+    }
+
+    return processed;
+  } catch (error: any) {
+    throw new Error(`Failed to deliver webhooks: ${error.message}`);
+  }
+}
+
+// Events newest first, optionally of one type
+export async function listWebhookEvents(business_id: string, filters: { event_type?: string; limit?: number } = {}) {
+  try {
+    const result = await query(
+      `SELECT e.*, (SELECT count(*)::int FROM webhook_deliveries d WHERE d.event_id = e.id) AS delivery_count
+       FROM webhook_events e
+       WHERE e.business_id = $1 AND ($2::text IS NULL OR e.event_type = $2::text)
+       ORDER BY e.created_at DESC
+       LIMIT $3`,
+      [business_id, filters.event_type || null, filters.limit ?? 50]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list webhook events: ${error.message}`);
+  }
+}
+
+// Deliveries newest first, each with its log of attempts in order
+export async function listWebhookDeliveries(business_id: string, filters: {
+  endpoint_id?: string;
+  event_id?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+} = {}) {
+  try {
+    const result = await query(
+      `SELECT d.*, e.event_type, w.url,
+              COALESCE((
+                SELECT jsonb_agg(to_jsonb(a) ORDER BY a.attempt)
+                FROM webhook_delivery_attempts a WHERE a.delivery_id = d.id
+              ), '[]'::jsonb) AS attempt_log
+       FROM webhook_deliveries d
+       JOIN webhook_events e ON d.event_id = e.id
+       JOIN webhook_endpoints w ON d.endpoint_id = w.id
+       WHERE d.business_id = $1
+         AND ($2::uuid IS NULL OR d.endpoint_id = $2::uuid)
+         AND ($3::uuid IS NULL OR d.event_id = $3::uuid)
+         AND ($4::text IS NULL OR d.status = $4::text)
+       ORDER BY d.created_at DESC
+       LIMIT $5`,
+      [business_id, filters.endpoint_id || null, filters.event_id || null, filters.status || null, filters.limit ?? 50]
+    );
+    return result.rows;
+  } catch (error: any) {
+    throw new Error(`Failed to list webhook deliveries: ${error.message}`);
+  }
+}
+
+/**
+ * Send an event again as new deliveries: to one endpoint, whatever it
+ * subscribes to, or to every active endpoint subscribed to the event. Earlier
+ * deliveries and their logs are kept. Returns the new deliveries.
+ */
+export async function replayWebhookEvent(business_id: string, event_id: string, endpoint_id?: string) {
+  try {
+    const event = (await query('SELECT * FROM webhook_events WHERE id = $1 AND business_id = $2', [event_id, business_id])).rows[0];
+    if (!event) {
+      throw new DomainError('WEBHOOK_EVENT_NOT_FOUND', `Webhook event not found: ${event_id}`, { event_id });
+    }
+
+    const endpoints = (await query(
+      `SELECT * FROM webhook_endpoints
+       WHERE business_id = $1 AND ($2::uuid IS NULL OR id = $2::uuid)`,
+      [business_id, endpoint_id || null]
+    )).rows.filter((endpoint: any) => endpoint_id || (endpoint.is_active && webhookSubscribes(endpoint.event_types, event.event_type)));
+    if (endpoint_id && endpoints.length === 0) {
+      throw new DomainError('WEBHOOK_ENDPOINT_NOT_FOUND', `Webhook endpoint not found: ${endpoint_id}`, { endpoint_id });
+    }
+
+    const now = new Date();
+    const deliveries = [];
+    for (const endpoint of endpoints) {
+      const result = await query(
+        `INSERT INTO webhook_deliveries (business_id, event_id, endpoint_id, next_attempt_at, is_replay, created_at)
+         VALUES ($1, $2, $3, $4, true, $4)
+         RETURNING *`,
+        [business_id, event.id, endpoint.id, now]
+      );
+      deliveries.push({ ...result.rows[0], event_type: event.event_type, url: endpoint.url, attempt_log: [] });
+    }
+    return deliveries;
+  } catch (error: any) {
+    if (isDomainError(error)) {
+      throw error;
+    }
+    throw new Error(`Failed to replay webhook event: ${error.message}`);
   }
 }
 
-export async function getBookingConfirmation(appointment_id: string) {
+export async function getBookingConfirmation(business_id: string, appointment_id: string) {
   try {
+    await assertBelongsToBusiness(business_id, 'appointments', appointment_id);
+
     const result = await query(
       'SELECT * FROM get_booking_confirmation($1)',
       [appointment_id]
@@ -1663,11 +5982,17 @@ export async function getBookingConfirmation(appointment_id: string) {
 }
 
 export async function getAvailableBookingSlots(
+  business_id: string,
   service_id: string,
   date: string,
   staff_id?: string
 ) {
   try {
+    await assertBelongsToBusiness(business_id, 'services', service_id);
+    if (staff_id) {
+      await assertBelongsToBusiness(business_id, 'staff', staff_id);
+    }
+
     const result = await query(
       'SELECT * FROM get_available_booking_slots($1, $2, $3)',
       [service_id, date, staff_id || null]
@@ -1687,6 +6012,7 @@ export async function getAvailableBookingSlots(
 
 // Additional Customer-Focused Service Discovery Functions
 export async function getServicesByPriceRange(
+  business_id: string,
   min_price_cents: number = 0,
   max_price_cents?: number
 ) {
@@ -1700,13 +6026,17 @@ export async function getServicesByPriceRange(
       throw new Error(result.rows[0]?.get_services_by_price_range?.error || 'Failed to get services by price range');
     }
 
-    return result.rows[0].get_services_by_price_range;
+    const scoped = result.rows[0].get_services_by_price_range;
+    scoped.services = await filterServicesByBusiness(business_id, scoped.services);
+
+    return scoped;
   } catch (error: any) {
     throw new Error(`Failed to get services by price range: ${error.message}`);
   }
 }
 
 export async function getServicesByDuration(
+  business_id: string,
   min_duration_minutes: number = 0,
   max_duration_minutes?: number
 ) {
@@ -1720,14 +6050,19 @@ export async function getServicesByDuration(
       throw new Error(result.rows[0]?.get_services_by_duration?.error || 'Failed to get services by duration');
     }
 
-    return result.rows[0].get_services_by_duration;
+    const scoped = result.rows[0].get_services_by_duration;
+    scoped.services = await filterServicesByBusiness(business_id, scoped.services);
+
+    return scoped;
   } catch (error: any) {
     throw new Error(`Failed to get services by duration: ${error.message}`);
   }
 }
 
-export async function getServicesByStaff(staff_id: string) {
+export async function getServicesByStaff(business_id: string, staff_id: string) {
   try {
+    await assertBelongsToBusiness(business_id, 'staff', staff_id);
+
     const result = await query(
       'SELECT * FROM get_services_by_staff($1)',
       [staff_id]
@@ -1744,6 +6079,7 @@ export async function getServicesByStaff(staff_id: string) {
 }
 
 export async function getServicesByTimeAvailability(
+  business_id: string,
   date: string,
   time?: string
 ) {
@@ -1757,13 +6093,16 @@ export async function getServicesByTimeAvailability(
       throw new Error(result.rows[0]?.get_services_by_time_availability?.error || 'Failed to get services by time availability');
     }
 
-    return result.rows[0].get_services_by_time_availability;
+    const scoped = result.rows[0].get_services_by_time_availability;
+    scoped.services = await filterServicesByBusiness(business_id, scoped.services);
+
+    return scoped;
   } catch (error: any) {
     throw new Error(`Failed to get services by time availability: ${error.message}`);
   }
 }
 
-export async function getPopularServices(limit_count: number = 10) {
+export async function getPopularServices(business_id: string, limit_count: number = 10) {
   try {
     const result = await query(
       'SELECT * FROM get_popular_services($1)',
@@ -1774,34 +6113,47 @@ export async function getPopularServices(limit_count: number = 10) {
       throw new Error(result.rows[0]?.get_popular_services?.error || 'Failed to get popular services');
     }
 
-    return result.rows[0].get_popular_services;
+    const scoped = result.rows[0].get_popular_services;
+    scoped.services = await filterServicesByBusiness(business_id, scoped.services);
+
+    return scoped;
   } catch (error: any) {
     throw new Error(`Failed to get popular services: ${error.message}`);
   }
 }
 
 export async function checkAppointmentConflict(
+  business_id: string,
   service_id: string,
   staff_id: string,
   customer_id: string,
   start_time: string,
   end_time: string,
-  appointment_id?: string // Optional: exclude current appointment when updating
+  appointment_id?: string, // Optional: exclude current appointment when updating
+  hold_token?: string // Optional: ignore the caller's own slot hold
 ) {
   try {
-    const startDate = new Date(start_time);
-    const endDate = new Date(end_time);
-    const dayOfWeek = startDate.getDay();
-    const dateOnly = startDate.toISOString().split('T')[0];
-    const startTimeOnly = startDate.toTimeString().slice(0, 8);
-    const endTimeOnly = endDate.toTimeString().slice(0, 8);
+    // Hours and time off are business-local, so compare against the local
+    // wall-clock date and times of the requested instants
+    const timeZone = await getBusinessTimezone(business_id);
+    const startDate = parseDateTime(start_time, timeZone);
+    const endDate = parseDateTime(end_time, timeZone);
+    const localStart = getZonedParts(startDate, timeZone);
+    const localEnd = getZonedParts(endDate, timeZone);
+    const dayOfWeek = localStart.dayOfWeek;
+    const dateOnly = localStart.date;
+    const startTimeOnly = localStart.time;
+    // An appointment ending exactly at local midnight ends at 24:00 of its start day
+    const endTimeOnly = localEnd.date > localStart.date && localEnd.time === '00:00:00' ? '24:00:00' : localEnd.time;
+    start_time = startDate.toISOString();
+    end_time = endDate.toISOString();
 
     const conflicts: any[] = [];
 
     // 1. Check if the service exists and is active
     const serviceResult = await query(
       'SELECT id, name, duration_minutes, max_bookings_per_slot, is_active FROM services WHERE id = $1 AND business_id = $2',
-      [service_id, BUSINESS_ID]
+      [service_id, business_id]
     );
 
     if (serviceResult.rows.length === 0) {
@@ -1825,7 +6177,7 @@ export async function checkAppointmentConflict(
     // 2. Check if staff exists and is active
     const staffResult = await query(
       'SELECT id, first_name, last_name, is_active FROM staff WHERE id = $1 AND business_id = $2',
-      [staff_id, BUSINESS_ID]
+      [staff_id, business_id]
     );
 
     if (staffResult.rows.length === 0) {
@@ -1849,7 +6201,7 @@ export async function checkAppointmentConflict(
     // 3. Check if customer exists
     const customerResult = await query(
       'SELECT id, first_name, last_name FROM customers WHERE id = $1 AND business_id = $2',
-      [customer_id, BUSINESS_ID]
+      [customer_id, business_id]
     );
 
     if (customerResult.rows.length === 0) {
@@ -1878,7 +6230,7 @@ export async function checkAppointmentConflict(
     // 5. Check business hours
     const businessHoursResult = await query(
       'SELECT open_time, close_time, is_closed FROM working_hours WHERE business_id = $1 AND day_of_week = $2',
-      [BUSINESS_ID, dayOfWeek]
+      [business_id, dayOfWeek]
     );
 
     if (businessHoursResult.rows.length === 0) {
@@ -1985,7 +6337,7 @@ export async function checkAppointmentConflict(
           (a.start_time <= $3 AND a.end_time >= $4)
         )`;
 
-    const staffConflictParams = [staff_id, BUSINESS_ID, start_time, end_time];
+    const staffConflictParams = [staff_id, business_id, start_time, end_time];
     
     if (appointment_id) {
       staffConflictQuery += ' AND a.id != $5';
@@ -1999,11 +6351,72 @@ export async function checkAppointmentConflict(
       conflicts.push({
         type: 'STAFF_DOUBLE_BOOKING',
         severity: 'ERROR',
-        message: `Staff member "${staff.first_name} ${staff.last_name}" is already booked for ${conflict.service_name} with ${conflict.customer_first_name} ${conflict.customer_last_name} (${conflict.start_time}-${conflict.end_time})`,
+        message: `Staff member "${staff.first_name} ${staff.last_name}" is already booked for ${conflict.service_name} with ${conflict.customer_first_name} ${conflict.customer_last_name} (${formatInTimeZone(conflict.start_time, timeZone)} to ${formatInTimeZone(conflict.end_time, timeZone)})`,
         conflictingAppointment: conflict
       });
     }
 
+    // 8b. Check for slot holds taken by other conversations
+    const holdResult = await query(
+      `SELECT expires_at FROM slot_holds
+       WHERE business_id = $1 AND staff_id = $2 AND expires_at > $3
+         AND start_time < $5 AND end_time > $4
+         AND ($6::text IS NULL OR hold_token != $6::text)
+       ORDER BY expires_at DESC
+       LIMIT 1`,
+      [business_id, staff_id, new Date(), start_time, end_time, hold_token || null]
+    );
+
+    if (holdResult.rows.length > 0) {
+      conflicts.push({
+        type: 'SLOT_HELD',
+        severity: 'ERROR',
+        message: `Staff member "${staff.first_name} ${staff.last_name}" is held for another booking until ${formatInTimeZone(holdResult.rows[0].expires_at, timeZone)}`
+      });
+    }
+
+    // 8c. Check for classes the staff member teaches
+    const sessionConflictResult = await query(
+      `SELECT cs.start_time, cs.end_time, sv.name AS service_name
+       FROM class_sessions cs
+       JOIN services sv ON cs.service_id = sv.id
+       WHERE cs.business_id = $1 AND cs.staff_id = $2 AND cs.status = 'scheduled'
+         AND cs.start_time < $4 AND cs.end_time > $3
+       LIMIT 1`,
+      [business_id, staff_id, start_time, end_time]
+    );
+
+    if (sessionConflictResult.rows.length > 0) {
+      const session = sessionConflictResult.rows[0];
+      conflicts.push({
+        type: 'STAFF_TEACHING_CLASS',
+        severity: 'ERROR',
+        message: `Staff member "${staff.first_name} ${staff.last_name}" is teaching ${session.service_name} (${formatInTimeZone(session.start_time, timeZone)} to ${formatInTimeZone(session.end_time, timeZone)})`
+      });
+    }
+
+    // 8d. Check busy times imported from the staff member's external calendars.
+    // The event's own title stays private; only the calendar is named.
+    const externalConflictResult = await query(
+      `SELECT b.start_time, b.end_time, ec.name AS calendar_name
+       FROM external_busy_blocks b
+       JOIN external_calendars ec ON b.calendar_id = ec.id
+       WHERE b.business_id = $1 AND b.staff_id = $2
+         AND b.start_time < $4 AND b.end_time > $3
+       ORDER BY b.start_time
+       LIMIT 1`,
+      [business_id, staff_id, start_time, end_time]
+    );
+
+    if (externalConflictResult.rows.length > 0) {
+      const block = externalConflictResult.rows[0];
+      conflicts.push({
+        type: 'EXTERNAL_CALENDAR_BUSY',
+        severity: 'ERROR',
+        message: `Staff member "${staff.first_name} ${staff.last_name}" is busy in their external calendar${block.calendar_name ? ` "${block.calendar_name}"` : ''} (${formatInTimeZone(block.start_time, timeZone)} to ${formatInTimeZone(block.end_time, timeZone)})`
+      });
+    }
+
     // 9. Check for customer double-booking
     let customerConflictQuery = `
       SELECT 
@@ -2026,7 +6439,7 @@ export async function checkAppointmentConflict(
           (a.start_time <= $3 AND a.end_time >= $4)
         )`;
 
-    const customerConflictParams = [customer_id, BUSINESS_ID, start_time, end_time];
+    const customerConflictParams = [customer_id, business_id, start_time, end_time];
     
     if (appointment_id) {
       customerConflictQuery += ' AND a.id != $5';
@@ -2040,44 +6453,72 @@ export async function checkAppointmentConflict(
       conflicts.push({
         type: 'CUSTOMER_DOUBLE_BOOKING',
         severity: 'ERROR',
-        message: `Customer "${customerResult.rows[0].first_name} ${customerResult.rows[0].last_name}" is already booked for ${conflict.service_name} with ${conflict.staff_first_name} ${conflict.staff_last_name} (${conflict.start_time}-${conflict.end_time})`,
+        message: `Customer "${customerResult.rows[0].first_name} ${customerResult.rows[0].last_name}" is already booked for ${conflict.service_name} with ${conflict.staff_first_name} ${conflict.staff_last_name} (${formatInTimeZone(conflict.start_time, timeZone)} to ${formatInTimeZone(conflict.end_time, timeZone)})`,
         conflictingAppointment: conflict
       });
     }
 
-    // 10. Check service booking capacity
-    let serviceConflictQuery = `
-      SELECT COUNT(*) as appointment_count
-      FROM appointments
-      WHERE business_id = $1
-        AND service_id = $2
-        AND DATE(start_time) = $3::date
-        AND status IN ('confirmed', 'pending', 'scheduled')
-        AND (
-          (start_time >= $4 AND start_time < $5) OR
-          (end_time > $4 AND end_time <= $5) OR
-          (start_time <= $4 AND end_time >= $5)
-        )`;
+    // 10. Check service booking capacity; unexpired holds other than the caller's take a slot too
+    const serviceConflictResult = await query(
+      `SELECT
+         (SELECT COUNT(*) FROM appointments
+          WHERE business_id = $1 AND service_id = $2 AND status = ANY($3)
+            AND start_time < $5 AND end_time > $4
+            AND ($6::uuid IS NULL OR id != $6::uuid))
+         +
+         (SELECT COUNT(*) FROM slot_holds
+          WHERE business_id = $1 AND service_id = $2 AND expires_at > $7
+            AND start_time < $5 AND end_time > $4
+            AND ($8::text IS NULL OR hold_token != $8::text)) AS appointment_count`,
+      [business_id, service_id, ACTIVE_APPOINTMENT_STATUSES, startDate, endDate, appointment_id || null, new Date(), hold_token || null]
+    );
+    const existingAppointments = parseInt(serviceConflictResult.rows[0].appointment_count);
 
-    const serviceConflictParams = [BUSINESS_ID, service_id, dateOnly, start_time, end_time];
-    
-    if (appointment_id) {
-      serviceConflictQuery += ' AND id != $6';
-      serviceConflictParams.push(appointment_id);
+    if (existingAppointments >= (service.max_bookings_per_slot || 1)) {
+      conflicts.push({
+        type: 'SERVICE_CAPACITY_EXCEEDED',
+        severity: 'ERROR',
+        message: `Service "${service.name}" has reached maximum booking capacity (${service.max_bookings_per_slot || 1} slots) for this time slot`
+      });
     }
 
-    const serviceConflictResult = await query(serviceConflictQuery, serviceConflictParams);
-    const existingAppointments = parseInt(serviceConflictResult.rows[0].appointment_count);
+    // 10b. Check shared resources (rooms, equipment)
+    const resourceUsage = await loadResourceUsage(query, business_id, service_id, startDate, endDate, {
+      appointment_id,
+      hold_token,
+    });
+    for (const shortage of findResourceShortages(resourceUsage.requirements, resourceUsage.uses, startDate, endDate)) {
+      conflicts.push({
+        type: 'RESOURCE_UNAVAILABLE',
+        severity: 'ERROR',
+        message: describeResourceShortage(shortage),
+        resource: shortage
+      });
+    }
 
-    if (existingAppointments >= service.max_bookings_per_slot) {
+    // 11. Check booking policies (notice, booking window, same-day, rescheduling)
+    const policy = await getBookingPolicy(business_id);
+    const now = new Date();
+    const policyViolations = checkBookingWindow(policy, startDate, now, timeZone);
+    if (appointment_id) {
+      const current = await query(
+        'SELECT start_time, status FROM appointments WHERE id = $1 AND business_id = $2',
+        [appointment_id, business_id]
+      );
+      const existing = current.rows[0];
+      if (existing && ACTIVE_APPOINTMENT_STATUSES.includes(existing.status) && existing.start_time.getTime() !== startDate.getTime()) {
+        policyViolations.push(...checkChangeAllowed(policy, 'reschedule', existing.start_time, now));
+      }
+    }
+    for (const violation of policyViolations) {
       conflicts.push({
-        type: 'SERVICE_CAPACITY_EXCEEDED',
+        type: violation.code,
         severity: 'ERROR',
-        message: `Service "${service.name}" has reached maximum booking capacity (${service.max_bookings_per_slot} slots) for this time slot`
+        message: violation.message
       });
     }
 
-    // 11. Check for logical time issues
+    // 12. Check for logical time issues
     if (startDate >= endDate) {
       conflicts.push({
         type: 'INVALID_TIME_RANGE',
@@ -2097,6 +6538,9 @@ export async function checkAppointmentConflict(
     return {
       hasConflicts: conflicts.length > 0,
       conflicts: conflicts,
+      timeZone: timeZone,
+      localStartTime: formatInTimeZone(startDate, timeZone),
+      localEndTime: formatInTimeZone(endDate, timeZone),
       summary: {
         totalConflicts: conflicts.length,
         errorCount: conflicts.filter(c => c.severity === 'ERROR').length,
@@ -0,0 +1,109 @@
+// Outbound messages to customers, such as verification codes and appointment
+// notifications. Every message goes through the process's delivery adapter,
+// chosen with MESSAGE_DELIVERY: "console" (the default) writes messages to
+// stderr, "file" appends them as JSON lines to MESSAGE_OUTBOX_FILE, and any
+// other value is loaded like a tool plugin, as a module exporting a
+// DeliveryAdapter. MESSAGE_DELIVERY_EMAIL, MESSAGE_DELIVERY_SMS and
+// MESSAGE_DELIVERY_PUSH choose a different adapter for one channel.
+
+import { appendFile } from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import path from 'node:path';
+
+export const DELIVERY_CHANNELS = ['email', 'sms', 'push'] as const;
+export type DeliveryChannel = typeof DELIVERY_CHANNELS[number];
+
+export interface OutboundMessage {
+  channel: DeliveryChannel;
+  to: string; // email address, phone number or, for push, the customer's user ID
+  subject: string | null;
+  body: string;
+  business_id: string;
+  customer_id: string | null;
+}
+
+export interface DeliveryAdapter {
+  name: string;
+  send(message: OutboundMessage): Promise<void>;
+}
+
+// Local stub: nothing leaves the machine. Stdout carries the stdio protocol, so use stderr.
+export const consoleDelivery: DeliveryAdapter = {
+  name: 'console',
+  async send(message) {
+    console.error(`[${message.channel} to ${message.to}]${message.subject ? ` ${message.subject}:` : ''} ${message.body}`);
+  },
+};
+
+// Local stub that keeps every message in a file, one JSON object per line
+export function fileDelivery(filePath: string): DeliveryAdapter {
+  return {
+    name: 'file',
+    async send(message) {
+      await appendFile(filePath, `${JSON.stringify({ ...message, sent_at: new Date().toISOString() })}\n`);
+    },
+  };
+}
+
+let adapter: DeliveryAdapter = consoleDelivery;
+// Adapters that replace the default for one channel
+const channelAdapters = new Map<DeliveryChannel, DeliveryAdapter>();
+
+export function getDeliveryAdapter(channel?: DeliveryChannel): DeliveryAdapter {
+  return (channel && channelAdapters.get(channel)) || adapter;
+}
+
+// Without a channel this replaces the default adapter and any per-channel ones
+export function setDeliveryAdapter(deliveryAdapter: DeliveryAdapter, channel?: DeliveryChannel): void {
+  if (channel) {
+    channelAdapters.set(channel, deliveryAdapter);
+  } else {
+    adapter = deliveryAdapter;
+    channelAdapters.clear();
+  }
+}
+
+// Send a message through the adapter for its channel
+export async function deliverMessage(message: OutboundMessage): Promise<void> {
+  await getDeliveryAdapter(message.channel).send(message);
+}
+
+async function resolveAdapter(specifier: string): Promise<DeliveryAdapter> {
+  if (specifier === 'console') {
+    return consoleDelivery;
+  }
+  if (specifier === 'file') {
+    return fileDelivery(process.env.MESSAGE_OUTBOX_FILE || 'message-outbox.jsonl');
+  }
+
+  const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+  const moduleUrl = isPath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+  const plugin = await import(moduleUrl);
+  const loaded = plugin.adapter ?? plugin.default;
+
+  if (!loaded || typeof loaded.send !== 'function') {
+    throw new Error(`Delivery adapter ${specifier} does not export an adapter with a send() method`);
+  }
+  return { name: loaded.name || specifier, send: loaded.send.bind(loaded) };
+}
+
+/**
+ * Select the delivery adapters. "console" and "file" are built in; anything
+ * else is a package name or a path (relative to the working directory) of an
+ * ES module whose `adapter` or default export is a DeliveryAdapter. Channels
+ * with their own MESSAGE_DELIVERY_<CHANNEL> setting get that adapter instead.
+ */
+export async function loadDeliveryAdapter(specifier: string = process.env.MESSAGE_DELIVERY || 'console'): Promise<DeliveryAdapter> {
+  setDeliveryAdapter(await resolveAdapter(specifier));
+  console.error(`Delivering customer messages with the ${adapter.name} adapter`);
+
+  for (const channel of DELIVERY_CHANNELS) {
+    const channelSpecifier = process.env[`MESSAGE_DELIVERY_${channel.toUpperCase()}`];
+    if (channelSpecifier) {
+      setDeliveryAdapter(await resolveAdapter(channelSpecifier), channel);
+      console.error(`Delivering ${channel} messages with the ${channelAdapters.get(channel)!.name} adapter`);
+    }
+  }
+
+  return adapter;
+}
@@ -0,0 +1,182 @@
+// Duplicate customer detection. Customers auto-created from a bare name, or
+// entered twice with slightly different details, are paired up and scored by
+// normalized email, normalized phone and fuzzy name similarity. The data layer
+// loads the customers and merges the pairs an operator confirms.
+
+export const DEFAULT_DUPLICATE_SCORE = 0.4;
+export const MAX_DUPLICATE_RESULTS = 50;
+
+// What each signal adds to a pair's score (capped at 1)
+const EMAIL_WEIGHT = 0.5;
+const PHONE_WEIGHT = 0.4;
+const NAME_WEIGHT = 0.4;
+// Names less similar than this do not count at all
+const NAME_THRESHOLD = 0.85;
+// Two different real email addresses make a match less likely
+const DIFFERENT_EMAIL_PENALTY = 0.15;
+
+export interface DuplicateCustomer {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface DuplicatePair {
+  customer_ids: [string, string];
+  score: number;
+  reasons: string[];
+}
+
+// Lower case, without a "+tag", so "Jane+spa@Example.com" matches "jane@example.com"
+export function normalizeEmail(email: string | null): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  if (!trimmed || !trimmed.includes('@')) return null;
+  const [local, domain] = [trimmed.slice(0, trimmed.lastIndexOf('@')), trimmed.slice(trimmed.lastIndexOf('@') + 1)];
+  return `${local.split('+')[0]}@${domain}`;
+}
+
+// The last 10 digits; placeholders such as 000-000-0000 count as no phone
+export function normalizePhone(phone: string | null): string | null {
+  const digits = phone?.replace(/\D/g, '') ?? '';
+  if (digits.length < 7 || /^(\d)\1+$/.test(digits)) return null;
+  return digits.slice(-10);
+}
+
+// Lower case letters only, accents removed
+export function normalizeName(name: string | null): string {
+  return (name ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+// Jaro-Winkler similarity between 0 (nothing in common) and 1 (identical)
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Full-name similarity, also trying first and last name swapped
+function fullNameSimilarity(a: DuplicateCustomer, b: DuplicateCustomer): number {
+  const aName = normalizeName(a.first_name) + normalizeName(a.last_name);
+  const bName = normalizeName(b.first_name) + normalizeName(b.last_name);
+  const bSwapped = normalizeName(b.last_name) + normalizeName(b.first_name);
+  return Math.max(nameSimilarity(aName, bName), nameSimilarity(aName, bSwapped));
+}
+
+/**
+ * Score how likely two customers are the same person, with the reasons in
+ * plain words. Returns null when nothing matches.
+ */
+export function scoreDuplicatePair(a: DuplicateCustomer, b: DuplicateCustomer): DuplicatePair | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const aEmail = normalizeEmail(a.email);
+  const bEmail = normalizeEmail(b.email);
+  if (aEmail && aEmail === bEmail) {
+    score += EMAIL_WEIGHT;
+    reasons.push('same email address');
+  } else if (aEmail && bEmail) {
+    score -= DIFFERENT_EMAIL_PENALTY;
+  }
+
+  const aPhone = normalizePhone(a.phone);
+  if (aPhone && aPhone === normalizePhone(b.phone)) {
+    score += PHONE_WEIGHT;
+    reasons.push('same phone number');
+  }
+
+  const similarity = fullNameSimilarity(a, b);
+  if (similarity >= NAME_THRESHOLD) {
+    score += NAME_WEIGHT * similarity;
+    reasons.push(similarity === 1 ? 'same name' : `similar name (${Math.round(similarity * 100)}% alike)`);
+  }
+
+  if (reasons.length === 0) return null;
+  return {
+    customer_ids: [a.id, b.id],
+    score: Math.round(Math.min(Math.max(score, 0), 1) * 100) / 100,
+    reasons,
+  };
+}
+
+// Keys that put possible duplicates in the same bucket, so not every pair is compared
+function blockingKeys(customer: DuplicateCustomer): string[] {
+  const keys: string[] = [];
+  const email = normalizeEmail(customer.email);
+  const phone = normalizePhone(customer.phone);
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+  // Fuzzy names usually keep their first letters; either name may come first
+  for (const name of [customer.first_name, customer.last_name]) {
+    const normalized = normalizeName(name);
+    if (normalized.length >= 2) keys.push(`name:${normalized.slice(0, 2)}`);
+  }
+  return keys;
+}
+
+/**
+ * Candidate duplicate pairs scoring at least `minScore`, best first. With a
+ * customer ID, only pairs including that customer are returned.
+ */
+export function findDuplicatePairs(customers: DuplicateCustomer[], minScore: number, customer_id?: string): DuplicatePair[] {
+  const buckets = new Map<string, DuplicateCustomer[]>();
+  for (const customer of customers) {
+    for (const key of blockingKeys(customer)) {
+      const bucket = buckets.get(key) ?? [];
+      bucket.push(customer);
+      buckets.set(key, bucket);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = bucket[i].id < bucket[j].id ? [bucket[i], bucket[j]] : [bucket[j], bucket[i]];
+        if (customer_id && a.id !== customer_id && b.id !== customer_id) continue;
+        const key = `${a.id}|${b.id}`;
+        if (a.id === b.id || seen.has(key)) continue;
+        seen.add(key);
+
+        const pair = scoreDuplicatePair(a, b);
+        if (pair && pair.score >= minScore) pairs.push(pair);
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,56 @@
+// Errors with a machine-readable code. They pass through the data layer's
+// "Failed to ..." wrapping unchanged and are reported to MCP clients as
+// { error: { code, message, details } } next to the error text.
+
+export class DomainError extends Error {
+  readonly code: string;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'DomainError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * The requested slot was taken by another booking, possibly one committed
+ * moments earlier by a concurrent request.
+ */
+export class SlotTakenError extends DomainError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('SLOT_TAKEN', message, details);
+    this.name = 'SlotTakenError';
+  }
+}
+
+/**
+ * The request breaks one of the business's booking policies. The code is that
+ * of the first violation; details.violations lists all of them.
+ */
+export class PolicyViolationError extends DomainError {
+  constructor(violations: Array<{ code: string; message: string }>) {
+    super(violations[0].code, violations.map((violation) => violation.message).join('; '), { violations });
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * The tool would disclose a customer's personal data to a session that has not
+ * verified it is talking to that customer.
+ */
+export class CustomerNotVerifiedError extends DomainError {
+  constructor(customer_id: string) {
+    super(
+      'CUSTOMER_NOT_VERIFIED',
+      "Verify the customer's identity first, with send_verification_code and verify_customer_code or with verify_customer_by_booking",
+      { customer_id }
+    );
+    this.name = 'CustomerNotVerifiedError';
+  }
+}
+
+export function isDomainError(error: unknown): error is DomainError {
+  return error instanceof DomainError;
+}
@@ -0,0 +1,454 @@
+// External calendar import. Staff who also work elsewhere keep that schedule
+// in another calendar; its iCalendar (.ics) file is read from a URL, or from
+// a local file for offline use, and its events become external busy blocks
+// that slot generation and conflict checks treat as taken time.
+//
+// Recurring events (RRULE with FREQ=DAILY, WEEKLY, MONTHLY or YEARLY and
+// INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH), RDATE, EXDATE and
+// moved or cancelled occurrences (RECURRENCE-ID) are expanded over the import
+// window. Cancelled and transparent ("free") events block nothing.
+
+import { readFile, stat } from 'fs/promises';
+import path from 'path';
+import { addDays, getDayOfWeek, isValidTimeZone, zonedTimeToInstant } from './timezone.js';
+
+export const EXTERNAL_CALENDAR_SOURCES = ['url', 'file'] as const;
+export type ExternalCalendarSource = typeof EXTERNAL_CALENDAR_SOURCES[number];
+
+// Days ahead that events are imported for; re-import to move the window on
+export const EXTERNAL_CALENDAR_DAYS = parseInt(process.env.EXTERNAL_CALENDAR_DAYS || '180', 10);
+// Directory local .ics files may be read from; the local-file mode is off without it
+export const EXTERNAL_CALENDAR_DIR = process.env.EXTERNAL_CALENDAR_DIR || null;
+export const MAX_EXTERNAL_CALENDAR_BYTES = 5 * 1024 * 1024;
+export const MAX_BUSY_BLOCKS = 5000;
+const FETCH_TIMEOUT_MS = 15000;
+
+export interface BusyBlock {
+  uid: string | null;
+  summary: string | null;
+  start: Date;
+  end: Date;
+  all_day: boolean;
+}
+
+export interface ParsedCalendar {
+  name: string | null;
+  blocks: BusyBlock[];
+  // Events that could not be imported in full, in plain words
+  warnings: string[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A DATE or DATE-TIME value: business-local wall-clock parts and their zone
+interface CalendarTime {
+  date: string;
+  time: string;
+  zone: string;
+  all_day: boolean;
+}
+
+interface ByDay {
+  // 1 = first, -1 = last, 0 = every such weekday of the period
+  ordinal: number;
+  weekday: number;
+}
+
+interface ExternalRule {
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count: number | null;
+  until: CalendarTime | null;
+  by_day: ByDay[];
+  by_month_day: number[];
+  by_month: number[];
+  week_start: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const RULE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+// Guards against rules that never produce a date in the window
+const MAX_RULE_PERIODS = 100000;
+
+// Undo line folding and split into content lines
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim() !== '');
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const match = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:])*)*):(.*)$/.exec(line);
+  if (!match) return null;
+  const params: Record<string, string> = {};
+  for (const [, key, value] of match[2].matchAll(/;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:])*)/g)) {
+    params[key.toUpperCase()] = value.replace(/"/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * The IANA zone for a TZID, or the fallback. Exporters sometimes prefix the
+ * zone name ("/mozilla.org/20050126_1/Europe/Berlin"); the last segments are
+ * tried too.
+ */
+function resolveZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const segments = tzid.trim().split('/').filter(Boolean);
+  for (let take = Math.min(segments.length, 3); take >= 1; take--) {
+    const candidate = segments.slice(-take).join('/');
+    if (isValidTimeZone(candidate) && (take > 1 || candidate === 'UTC')) return candidate;
+  }
+  return fallback;
+}
+
+function parseTimeValue(value: string, params: Record<string, string>, fallbackZone: string): CalendarTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (hours === undefined) {
+    return { date, time: '00:00:00', zone: fallbackZone, all_day: true };
+  }
+  return { date, time: `${hours}:${minutes}:${seconds}`, zone: utc ? 'UTC' : resolveZone(params.TZID, fallbackZone), all_day: false };
+}
+
+function toInstant(time: CalendarTime): Date {
+  return zonedTimeToInstant(time.date, time.time, time.zone);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// An event's length as whole local days plus exact milliseconds, so all-day events keep their days across DST
+interface EventLength {
+  days: number;
+  ms: number;
+}
+
+function parseDuration(value: string): EventLength | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match || match[1] === '-') return null;
+  const [, , weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  return {
+    days: Number(weeks) * 7 + Number(days),
+    ms: ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000,
+  };
+}
+
+function parseRule(value: string, zone: string): { rule: ExternalRule | null; unsupported: string | null } {
+  const parts = new Map<string, string>();
+  for (const part of value.split(';').filter(Boolean)) {
+    const [key, ...rest] = part.split('=');
+    parts.set(key.trim().toUpperCase(), rest.join('=').trim().toUpperCase());
+  }
+  const unsupported = [...parts.keys()].find((key) => !RULE_PARTS.includes(key));
+  if (unsupported) {
+    return { rule: null, unsupported };
+  }
+  const frequency = parts.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY' && frequency !== 'YEARLY') {
+    return { rule: null, unsupported: `FREQ=${frequency ?? ''}` };
+  }
+
+  const by_day: ByDay[] = [];
+  for (const item of (parts.get('BYDAY') || '').split(',').filter(Boolean)) {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(item);
+    if (!match) return { rule: null, unsupported: `BYDAY=${item}` };
+    by_day.push({ ordinal: Number(match[1] ?? 0), weekday: WEEKDAYS.indexOf(match[2]) });
+  }
+  const numbers = (key: string) => (parts.get(key) || '').split(',').filter(Boolean).map(Number);
+  const rule: ExternalRule = {
+    frequency,
+    interval: Math.max(parseInt(parts.get('INTERVAL') || '1', 10) || 1, 1),
+    count: parts.has('COUNT') ? parseInt(parts.get('COUNT')!, 10) : null,
+    until: parts.has('UNTIL') ? parseTimeValue(parts.get('UNTIL')!, {}, zone) : null,
+    by_day,
+    by_month_day: numbers('BYMONTHDAY'),
+    by_month: numbers('BYMONTH'),
+    week_start: Math.max(WEEKDAYS.indexOf(parts.get('WKST') || 'MO'), 0),
+  };
+  // Ordinal weekdays of a whole year are rare; only "nth weekday of a month" is supported
+  if (frequency === 'YEARLY' && rule.by_month.length === 0 && by_day.some((day) => day.ordinal !== 0)) {
+    return { rule: null, unsupported: 'BYDAY with an ordinal in a YEARLY rule without BYMONTH' };
+  }
+  return { rule, unsupported: null };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+const isoDate = (year: number, month: number, day: number) =>
+  `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// The dates in a month picked by BYMONTHDAY and BYDAY, or the start's day of the month
+function monthDates(year: number, month: number, rule: ExternalRule, startDay: number): string[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+  if (rule.by_month_day.length === 0 && rule.by_day.length === 0) {
+    days = startDay <= length ? [startDay] : [];
+  } else {
+    days = Array.from({ length }, (_unused, index) => index + 1);
+    if (rule.by_month_day.length > 0) {
+      days = days.filter((day) => rule.by_month_day.some((wanted) => (wanted > 0 ? wanted : length + wanted + 1) === day));
+    }
+    if (rule.by_day.length > 0) {
+      days = days.filter((day) => {
+        const weekday = getDayOfWeek(isoDate(year, month, day));
+        return rule.by_day.some((wanted) => {
+          if (wanted.weekday !== weekday) return false;
+          if (wanted.ordinal === 0) return true;
+          const nth = wanted.ordinal > 0 ? Math.ceil(day / 7) : -Math.ceil((length - day + 1) / 7);
+          return nth === wanted.ordinal;
+        });
+      });
+    }
+  }
+  return days.map((day) => isoDate(year, month, day));
+}
+
+/**
+ * The local dates a rule produces from the start date on, in order, up to
+ * and including lastDate. COUNT counts from the start, so occurrences before
+ * the window still use it up.
+ */
+function ruleDates(start: CalendarTime, rule: ExternalRule, lastDate: string): string[] {
+  const [startYear, startMonth, startDay] = start.date.split('-').map(Number);
+  const dates: string[] = [];
+  const inMonths = (date: string) => rule.by_month.length === 0 || rule.by_month.includes(Number(date.slice(5, 7)));
+
+  for (let period = 0; period < MAX_RULE_PERIODS; period++) {
+    let candidates: string[];
+    switch (rule.frequency) {
+      case 'DAILY': {
+        const date = addDays(start.date, period * rule.interval);
+        const weekday = getDayOfWeek(date);
+        const dayOk = rule.by_day.length === 0 || rule.by_day.some((wanted) => wanted.weekday === weekday);
+        const monthDayOk = rule.by_month_day.length === 0 || rule.by_month_day.includes(Number(date.slice(8)));
+        candidates = dayOk && monthDayOk ? [date] : [];
+        if (date > lastDate) return dates;
+        break;
+      }
+      case 'WEEKLY': {
+        const weekStart = addDays(start.date, -((getDayOfWeek(start.date) - rule.week_start + 7) % 7) + period * rule.interval * 7);
+        if (weekStart > lastDate) return dates;
+        const weekdays = rule.by_day.length > 0 ? rule.by_day.map((wanted) => wanted.weekday) : [getDayOfWeek(start.date)];
+        candidates = [...new Set(weekdays)]
+          .map((weekday) => addDays(weekStart, (weekday - rule.week_start + 7) % 7))
+          .sort();
+        break;
+      }
+      case 'MONTHLY': {
+        const monthIndex = startMonth - 1 + period * rule.interval;
+        const year = startYear + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        if (isoDate(year, month, 1) > lastDate) return dates;
+        candidates = monthDates(year, month, rule, startDay);
+        break;
+      }
+      case 'YEARLY': {
+        const year = startYear + period * rule.interval;
+        if (isoDate(year, 1, 1) > lastDate) return dates;
+        const months = rule.by_month.length > 0 ? [...rule.by_month].sort((a, b) => a - b) : [startMonth];
+        candidates = months.flatMap((month) => monthDates(year, month, rule, startDay));
+        break;
+      }
+    }
+
+    for (const date of candidates) {
+      if (date < start.date || !inMonths(date)) continue;
+      if (date > lastDate) return dates;
+      if (rule.until) {
+        const past = rule.until.all_day
+          ? date > rule.until.date
+          : zonedTimeToInstant(date, start.time, start.zone) > toInstant(rule.until);
+        if (past) return dates;
+      }
+      dates.push(date);
+      if (rule.count !== null && dates.length >= rule.count) return dates;
+    }
+  }
+  return dates;
+}
+
+// The values of a date-list property such as EXDATE or RDATE
+function timeList(lines: ContentLine[], fallbackZone: string): CalendarTime[] {
+  return lines.flatMap((line) =>
+    line.value.split(',').map((value) => parseTimeValue(value, line.params, fallbackZone)).filter((time): time is CalendarTime => time !== null)
+  );
+}
+
+// Key of an occurrence, matching EXDATE and RECURRENCE-ID values
+function occurrenceKey(time: CalendarTime): string {
+  return time.all_day ? time.date : String(toInstant(time).getTime());
+}
+
+/**
+ * Parse an iCalendar file into the busy blocks between from and to. Times
+ * without a zone, and zone names that are not IANA names, are taken in the
+ * calendar's X-WR-TIMEZONE or else the given timezone; all-day events cover
+ * whole local days.
+ */
+export function parseExternalCalendar(text: string, options: { timeZone: string; from: Date; to: Date }): ParsedCalendar {
+  const lines = unfoldLines(text);
+  if (!lines[0] || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('Not an iCalendar file: it must start with BEGIN:VCALENDAR');
+  }
+
+  let name: string | null = null;
+  let zone = options.timeZone;
+  const events: Array<Map<string, ContentLine[]>> = [];
+  const stack: string[] = [];
+  let current: Map<string, ContentLine[]> | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    if (line.name === 'BEGIN') {
+      stack.push(line.value.trim().toUpperCase());
+      if (stack.join('/') === 'VCALENDAR/VEVENT') current = new Map();
+      continue;
+    }
+    if (line.name === 'END') {
+      if (stack.join('/') === 'VCALENDAR/VEVENT' && current) {
+        events.push(current);
+        current = null;
+      }
+      stack.pop();
+      continue;
+    }
+    if (stack.join('/') === 'VCALENDAR') {
+      if (line.name === 'X-WR-CALNAME') name = unescapeText(line.value);
+      if (line.name === 'X-WR-TIMEZONE' && isValidTimeZone(line.value.trim())) zone = line.value.trim();
+    } else if (current && stack.join('/') === 'VCALENDAR/VEVENT') {
+      current.set(line.name, [...(current.get(line.name) ?? []), line]);
+    }
+  }
+
+  const warnings: string[] = [];
+  const first = (event: Map<string, ContentLine[]>, property: string) => event.get(property)?.[0];
+  const label = (event: Map<string, ContentLine[]>) => {
+    const summary = first(event, 'SUMMARY');
+    return summary ? `"${unescapeText(summary.value)}"` : first(event, 'UID')?.value ?? 'an event';
+  };
+
+  // Occurrences moved or cancelled by a RECURRENCE-ID event, per UID
+  const overridden = new Map<string, Set<string>>();
+  for (const event of events) {
+    const uid = first(event, 'UID')?.value;
+    const recurrenceId = first(event, 'RECURRENCE-ID');
+    const time = recurrenceId ? parseTimeValue(recurrenceId.value, recurrenceId.params, zone) : null;
+    if (uid && time) {
+      overridden.set(uid, (overridden.get(uid) ?? new Set()).add(occurrenceKey(time)));
+    }
+  }
+
+  const blocks: BusyBlock[] = [];
+  const lastDate = addDays(options.to.toISOString().slice(0, 10), 1);
+  for (const event of events) {
+    const dtstart = first(event, 'DTSTART');
+    const start = dtstart ? parseTimeValue(dtstart.value, dtstart.params, zone) : null;
+    if (!start) {
+      warnings.push(`Skipped ${label(event)}: it has no valid DTSTART`);
+      continue;
+    }
+    const status = first(event, 'STATUS')?.value.trim().toUpperCase();
+    const transparency = first(event, 'TRANSP')?.value.trim().toUpperCase();
+    if (status === 'CANCELLED' || transparency === 'TRANSPARENT') continue;
+
+    const dtend = first(event, 'DTEND');
+    const end = dtend ? parseTimeValue(dtend.value, dtend.params, zone) : null;
+    const duration = first(event, 'DURATION');
+    let length: EventLength;
+    if (end) {
+      length = start.all_day ? { days: daysBetween(start.date, end.date), ms: 0 } : { days: 0, ms: toInstant(end).getTime() - toInstant(start).getTime() };
+    } else if (duration && parseDuration(duration.value)) {
+      length = parseDuration(duration.value)!;
+    } else {
+      length = start.all_day ? { days: 1, ms: 0 } : { days: 0, ms: 0 };
+    }
+
+    const uid = first(event, 'UID')?.value ?? null;
+    const summary = first(event, 'SUMMARY') ? unescapeText(first(event, 'SUMMARY')!.value) : null;
+    let dates = [start.date];
+    const rrule = first(event, 'RRULE');
+    if (rrule && !first(event, 'RECURRENCE-ID')) {
+      const { rule, unsupported } = parseRule(rrule.value, start.zone);
+      if (rule) {
+        dates = ruleDates(start, rule, lastDate);
+      } else {
+        warnings.push(`Only the first occurrence of ${label(event)} was imported: its RRULE uses ${unsupported}, which is not supported`);
+      }
+    }
+    dates = [...new Set([...dates, ...timeList(event.get('RDATE') ?? [], start.zone).map((time) => time.date)])].sort();
+
+    const excluded = new Set(timeList(event.get('EXDATE') ?? [], start.zone).map(occurrenceKey));
+    const moved = first(event, 'RECURRENCE-ID') ? new Set<string>() : overridden.get(uid ?? '') ?? new Set<string>();
+
+    for (const date of dates) {
+      const occurrence: CalendarTime = { ...start, date };
+      const key = occurrenceKey(occurrence);
+      if (excluded.has(key) || moved.has(key)) continue;
+
+      const occurrenceStart = toInstant(occurrence);
+      const occurrenceEnd = new Date(zonedTimeToInstant(addDays(date, length.days), start.time, start.zone).getTime() + length.ms);
+      if (occurrenceEnd <= occurrenceStart || occurrenceEnd <= options.from || occurrenceStart >= options.to) continue;
+      blocks.push({ uid, summary, start: occurrenceStart, end: occurrenceEnd, all_day: start.all_day });
+    }
+  }
+
+  blocks.sort((a, b) => a.start.getTime() - b.start.getTime());
+  if (blocks.length > MAX_BUSY_BLOCKS) {
+    warnings.push(`Only the first ${MAX_BUSY_BLOCKS} busy times were imported`);
+    blocks.length = MAX_BUSY_BLOCKS;
+  }
+  return { name, blocks, warnings };
+}
+
+/**
+ * The text of an external calendar: fetched from an http(s) or webcal URL, or
+ * read from a file inside EXTERNAL_CALENDAR_DIR for offline use.
+ */
+export async function readExternalCalendar(source_type: ExternalCalendarSource, source: string): Promise<string> {
+  if (source_type === 'file') {
+    if (!EXTERNAL_CALENDAR_DIR) {
+      throw new Error('Importing local calendar files is turned off; set EXTERNAL_CALENDAR_DIR to the directory holding them');
+    }
+    const root = path.resolve(EXTERNAL_CALENDAR_DIR);
+    const file = path.resolve(root, source);
+    const relative = path.relative(root, file);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Calendar files must be inside EXTERNAL_CALENDAR_DIR: ${source}`);
+    }
+    if ((await stat(file)).size > MAX_EXTERNAL_CALENDAR_BYTES) {
+      throw new Error(`Calendar file is larger than ${MAX_EXTERNAL_CALENDAR_BYTES / 1024 / 1024} MB`);
+    }
+    return readFile(file, 'utf8');
+  }
+
+  const url = new URL(source.trim().replace(/^webcals?:\/\//i, 'https://'));
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Unsupported calendar URL: ${url.protocol} URLs cannot be imported`);
+  }
+  const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS), headers: { Accept: 'text/calendar' } });
+  if (!response.ok) {
+    throw new Error(`Calendar URL returned ${response.status} ${response.statusText}`);
+  }
+  const text = await response.text();
+  if (Buffer.byteLength(text) > MAX_EXTERNAL_CALENDAR_BYTES) {
+    throw new Error(`Calendar is larger than ${MAX_EXTERNAL_CALENDAR_BYTES / 1024 / 1024} MB`);
+  }
+  return text;
+}
@@ -0,0 +1,173 @@
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { verifyDatabaseConnection, onShutdown, isValidUUID, getCalendarFeedByToken } from './database.js';
+import { CALENDAR_FEED_PATH } from './calendar.js';
+import {
+  SessionContext,
+  DEFAULT_BUSINESS_ID,
+  createSessionContext,
+  isApiKeyAuthEnabled,
+  getBusinessIdForApiKey,
+} from './context.js';
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/healthz';
+
+interface Session {
+  server: Server;
+  context: SessionContext;
+  transport: SSEServerTransport;
+  createdAt: Date;
+}
+
+// Resolve the session ID from the query string or the Mcp-Session-Id header
+function getSessionId(req: IncomingMessage, url: URL): string | undefined {
+  return url.searchParams.get('sessionId') || getHeader(req, 'mcp-session-id') || undefined;
+}
+
+function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Build the business context for a new session. When MCP_API_KEYS is set the
+ * bearer token decides the business and the session is locked to it; otherwise
+ * an X-Business-Id header or business_id query parameter sets the default.
+ */
+function authenticateSession(req: IncomingMessage, url: URL): SessionContext | null {
+  if (isApiKeyAuthEnabled()) {
+    const authorization = getHeader(req, 'authorization') || '';
+    const apiKey = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+    const businessId = apiKey ? getBusinessIdForApiKey(apiKey) : undefined;
+    return businessId ? createSessionContext(businessId, true) : null;
+  }
+
+  const businessId = getHeader(req, 'x-business-id') || url.searchParams.get('business_id') || DEFAULT_BUSINESS_ID;
+  if (businessId && !isValidUUID(businessId)) {
+    return null;
+  }
+  return createSessionContext(businessId);
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Start the long-running HTTP transport. Each client opens an SSE stream on
+ * /sse and receives its own server instance and business context, bound to a
+ * session ID that subsequent POST /messages requests must carry. All sessions
+ * share the process-wide database pool.
+ */
+export async function startHttpServer(
+  createServer: (context: SessionContext) => Server,
+  options: { port: number; host: string }
+): Promise<http.Server> {
+  const sessions = new Map<string, Session>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    try {
+      if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+        try {
+          await verifyDatabaseConnection();
+          sendJson(res, 200, { status: 'ok', database: 'connected', sessions: sessions.size });
+        } catch (error) {
+          sendJson(res, 503, {
+            status: 'error',
+            database: 'unavailable',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+        return;
+      }
+
+      // Calendar feeds are opened by their secret token, without MCP credentials
+      if (req.method === 'GET' && url.pathname.startsWith(CALENDAR_FEED_PATH) && url.pathname.endsWith('.ics')) {
+        const token = url.pathname.slice(CALENDAR_FEED_PATH.length, -'.ics'.length);
+        const feed = token ? await getCalendarFeedByToken(token) : null;
+        if (!feed) {
+          sendJson(res, 404, { error: 'Unknown or revoked calendar feed' });
+          return;
+        }
+        res.writeHead(200, {
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': `inline; filename="${feed.filename}"`,
+          'Cache-Control': 'private, max-age=300',
+        }).end(feed.content);
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === SSE_PATH) {
+        const context = authenticateSession(req, url);
+        if (!context) {
+          sendJson(res, 401, { error: 'Missing or invalid credentials' });
+          return;
+        }
+
+        const transport = new SSEServerTransport(MESSAGES_PATH, res);
+        const server = createServer(context);
+        const sessionId = transport.sessionId;
+
+        sessions.set(sessionId, { server, context, transport, createdAt: new Date() });
+        const previousOnClose = server.onclose;
+        server.onclose = () => {
+          sessions.delete(sessionId);
+          console.error(`Session closed: ${sessionId}`);
+          previousOnClose?.();
+        };
+
+        res.setHeader('Mcp-Session-Id', sessionId);
+        await server.connect(transport);
+        console.error(`Session opened: ${sessionId}`);
+        return;
+      }
+
+      if (url.pathname === MESSAGES_PATH) {
+        const sessionId = getSessionId(req, url);
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+
+        if (!session) {
+          sendJson(res, 404, { error: `Unknown or expired session: ${sessionId || 'missing session ID'}` });
+          return;
+        }
+
+        if (req.method === 'POST') {
+          await session.transport.handlePostMessage(req, res);
+          return;
+        }
+
+        if (req.method === 'DELETE') {
+          await session.server.close();
+          res.writeHead(204).end();
+          return;
+        }
+      }
+
+      sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+    } catch (error) {
+      console.error('HTTP transport error:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+  });
+
+  // Close open sessions and stop accepting connections before the pool is torn down
+  onShutdown(async () => {
+    console.error(`Closing ${sessions.size} HTTP session(s)...`);
+    await Promise.all([...sessions.values()].map((session) => session.server.close()));
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,96 @@
+// Bookable resources (rooms, chairs, equipment), not to be confused with MCP
+// resources. A service may need units of some resource types; every booking,
+// hold and class session of it takes those units for its whole length. The
+// checks here are pure: the data layer loads a service's requirements and the
+// overlapping uses, then asks whether a slot still has enough units of each type.
+
+export interface ResourceRequirement {
+  resource_type_id: string;
+  resource_type_name: string;
+  quantity: number; // units one booking of the service takes
+  available: number; // active units the business has
+}
+
+export interface ResourceUse {
+  resource_type_id: string;
+  quantity: number;
+  start_time: Date;
+  end_time: Date;
+}
+
+export interface ResourceShortage {
+  resource_type_id: string;
+  resource_type_name: string;
+  required: number;
+  available: number;
+  in_use: number;
+}
+
+// Most units of a type in use at any one moment between start and end
+function peakUse(uses: ResourceUse[], resourceTypeId: string, start: Date, end: Date): number {
+  const events: Array<[number, number]> = [];
+  for (const use of uses) {
+    if (use.resource_type_id !== resourceTypeId) continue;
+    const from = Math.max(use.start_time.getTime(), start.getTime());
+    const to = Math.min(use.end_time.getTime(), end.getTime());
+    if (from >= to) continue;
+    events.push([from, use.quantity], [to, -use.quantity]);
+  }
+  // Ends sort before starts at the same instant: back-to-back uses share a unit
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak = 0;
+  for (const [, change] of events) {
+    current += change;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * The resource types that do not have enough free units for one more booking
+ * between start and end.
+ */
+export function findResourceShortages(
+  requirements: ResourceRequirement[],
+  uses: ResourceUse[],
+  start: Date,
+  end: Date
+): ResourceShortage[] {
+  const shortages: ResourceShortage[] = [];
+  for (const requirement of requirements) {
+    const inUse = peakUse(uses, requirement.resource_type_id, start, end);
+    if (inUse + requirement.quantity > requirement.available) {
+      shortages.push({
+        resource_type_id: requirement.resource_type_id,
+        resource_type_name: requirement.resource_type_name,
+        required: requirement.quantity,
+        available: requirement.available,
+        in_use: inUse,
+      });
+    }
+  }
+  return shortages;
+}
+
+// How many more bookings of the service the resources allow between start and end
+export function resourceCapacity(
+  requirements: ResourceRequirement[],
+  uses: ResourceUse[],
+  start: Date,
+  end: Date
+): number {
+  let capacity = Infinity;
+  for (const requirement of requirements) {
+    const free = requirement.available - peakUse(uses, requirement.resource_type_id, start, end);
+    capacity = Math.min(capacity, Math.max(Math.floor(free / requirement.quantity), 0));
+  }
+  return capacity;
+}
+
+export function describeResourceShortage(shortage: ResourceShortage): string {
+  return shortage.available === 0
+    ? `No ${shortage.resource_type_name} is available`
+    : `All ${shortage.available} ${shortage.resource_type_name} unit(s) are in use (${shortage.in_use} taken, ${shortage.required} needed)`;
+}
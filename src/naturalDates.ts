@@ -0,0 +1,230 @@
+// Natural-language dates: "next Tuesday after work", "this Saturday morning",
+// "in 3 days". Expressions resolve against the current date in the business's
+// timezone to a range of business-local dates and an optional time window,
+// with a description the agent can read back to the customer.
+
+import { addDays, getDayOfWeek, getZonedParts } from './timezone.js';
+
+export interface TimeWindow {
+  from: string | null; // HH:MM, business-local; null means from opening
+  to: string | null;   // HH:MM, business-local; null means until closing
+  label: string;
+}
+
+export interface DateInterpretation {
+  expression: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD, same as start_date for a single day
+  time_window: TimeWindow | null;
+  description: string;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Named parts of the day; "at", "after" and "before" with a clock time are handled separately
+const NAMED_WINDOWS: Array<[RegExp, TimeWindow]> = [
+  [/\bafter work\b/, { from: '17:00', to: null, label: 'after work' }],
+  [/\b(?:lunch ?time|lunch)\b/, { from: '12:00', to: '14:00', label: 'lunchtime' }],
+  [/\bmorning\b/, { from: null, to: '12:00', label: 'morning' }],
+  [/\bafternoon\b/, { from: '12:00', to: '17:00', label: 'afternoon' }],
+  [/\b(?:evening|tonight)\b/, { from: '17:00', to: null, label: 'evening' }],
+];
+
+const CLOCK_TIME = '(noon|midday|\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)?)';
+
+function dayIndex(word: string): number {
+  return DAY_NAMES.findIndex((name) => name.toLowerCase().startsWith(word.slice(0, 3)));
+}
+
+const WEEKDAY_PATTERN = '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|nesday|sday|urday)?';
+
+// "3pm", "15:30", "noon" as HH:MM, or null when out of range
+function parseClockTime(text: string): string | null {
+  if (text === 'noon' || text === 'midday') return '12:00';
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (match[3] === 'pm' ? 12 : 0);
+  } else if (!match[2] && hours < 8) {
+    // A bare "after 5" during opening hours means the afternoon
+    hours += 12;
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Take the time-of-day part out of the text, returning the window and the rest
+function extractTimeWindow(text: string): { window: TimeWindow | null; rest: string } | null {
+  const between = new RegExp(`\\bbetween ${CLOCK_TIME} and ${CLOCK_TIME}`).exec(text);
+  if (between) {
+    const from = parseClockTime(between[1]);
+    const to = parseClockTime(between[2]);
+    if (!from || !to || to <= from) return null;
+    return { window: { from, to, label: `${from}-${to}` }, rest: text.replace(between[0], ' ') };
+  }
+
+  const clock = new RegExp(`\\b(at|after|before|from|by) ${CLOCK_TIME}`).exec(text);
+  if (clock) {
+    const time = parseClockTime(clock[2]);
+    if (!time) return null;
+    const rest = text.replace(clock[0], ' ');
+    switch (clock[1]) {
+      case 'at':
+        return { window: { from: time, to: time, label: `at ${time}` }, rest };
+      case 'after':
+      case 'from':
+        return { window: { from: time, to: null, label: `from ${time}` }, rest };
+      default:
+        return { window: { from: null, to: time, label: `before ${time}` }, rest };
+    }
+  }
+
+  for (const [pattern, window] of NAMED_WINDOWS) {
+    if (pattern.test(text)) {
+      // "tonight" also names the day
+      const rest = text.replace(pattern, (word) => (word === 'tonight' ? ' today ' : ' '));
+      return { window: { ...window }, rest };
+    }
+  }
+  return { window: null, rest: text };
+}
+
+// Monday-start week containing the date
+function weekStart(date: string): string {
+  return addDays(date, -((getDayOfWeek(date) + 6) % 7));
+}
+
+// Next date on or after `from` with the given month and day, rolling to next year once past
+function nextMonthDay(from: string, month: number, day: number, year?: number): string | null {
+  const candidateYear = year ?? Number(from.slice(0, 4));
+  const build = (y: number) => {
+    const date = `${y}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    const check = new Date(`${date}T00:00:00Z`);
+    return check.getUTCMonth() === month && check.getUTCDate() === day ? date : null;
+  };
+  const date = build(candidateYear);
+  if (!date) return null;
+  return year !== undefined || date >= from ? date : build(candidateYear + 1);
+}
+
+// Resolve the date part of an expression to a range of dates, or null when not understood
+function resolveDates(text: string, today: string): { start: string; end: string } | null {
+  const single = (date: string) => ({ start: date, end: date });
+
+  if (text === '' || text === 'today') return single(today);
+  if (text === 'tomorrow') return single(addDays(today, 1));
+  if (/^(?:the )?day after tomorrow$/.test(text)) return single(addDays(today, 2));
+  if (ISO_DATE.test(text)) return single(text);
+
+  const relative = /^in (\d{1,3}|a|an|one|two|three) (day|week)s?$/.exec(text) ?? /^(\d{1,3}) (day|week)s? from now$/.exec(text);
+  if (relative) {
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3 };
+    const amount = words[relative[1]] ?? Number(relative[1]);
+    return single(addDays(today, relative[2] === 'week' ? amount * 7 : amount));
+  }
+
+  const week = /^(this|next) week$/.exec(text);
+  if (week) {
+    const monday = week[1] === 'this' ? weekStart(today) : addDays(weekStart(today), 7);
+    return { start: monday > today ? monday : today, end: addDays(monday, 6) };
+  }
+
+  const weekend = /^(?:(this|next) )?weekend$/.exec(text);
+  if (weekend) {
+    let saturday = addDays(weekStart(today), 5);
+    if (weekend[1] === 'next') saturday = addDays(saturday, 7);
+    return { start: saturday > today ? saturday : today, end: addDays(saturday, 1) };
+  }
+
+  const weekday = new RegExp(`^(?:(this|next|coming|on) )?${WEEKDAY_PATTERN}$`).exec(text);
+  if (weekday) {
+    const target = dayIndex(weekday[2]);
+    if (weekday[1] === 'next') {
+      // The one in the following Monday-start week
+      return single(addDays(addDays(weekStart(today), 7), (target + 6) % 7));
+    }
+    return single(addDays(today, (target - getDayOfWeek(today) + 7) % 7));
+  }
+
+  const monthFirst = /^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/.exec(text);
+  const dayFirst = /^(?:the )?(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+)(?: (\d{4}))?$/.exec(text);
+  const monthDay = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] } : null;
+  const month = monthDay ? MONTH_NAMES.findIndex((name) => monthDay.month.length >= 3 && name.startsWith(monthDay.month)) : -1;
+  if (monthDay && month !== -1) {
+    const date = nextMonthDay(today, month, Number(monthDay.day), monthDay.year ? Number(monthDay.year) : undefined);
+    return date ? single(date) : null;
+  }
+
+  const dayOfMonth = /^the (\d{1,2})(?:st|nd|rd|th)$/.exec(text);
+  if (dayOfMonth) {
+    const [year, month] = today.split('-').map(Number);
+    for (let offset = 0; offset < 2; offset++) {
+      const date = nextMonthDay(today, (month - 1 + offset) % 12, Number(dayOfMonth[1]), year + Math.floor((month - 1 + offset) / 12));
+      if (date && date >= today) return single(date);
+    }
+    return null;
+  }
+
+  return null;
+}
+
+function describeDate(date: string): string {
+  return `${DAY_NAMES[getDayOfWeek(date)]} ${date}`;
+}
+
+/**
+ * Resolve an expression such as "next Tuesday after work" or "this Saturday
+ * morning" against the current date in the business's timezone. Returns null
+ * when the expression is not understood. "<weekday>" and "this <weekday>"
+ * mean the next such day (today included); "next <weekday>" means the one in
+ * the following Monday-start week.
+ */
+export function interpretDateExpression(expression: string, now: Date, timeZone: string): DateInterpretation | null {
+  const text = expression
+    .toLowerCase()
+    .replace(/[,.!?]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!text) return null;
+
+  const extracted = extractTimeWindow(text);
+  if (!extracted) return null;
+  const datePart = extracted.rest
+    .replace(/\b(?:in the|on|the|this)\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // A bare time window ("after work") means today
+  const today = getZonedParts(now, timeZone).date;
+  const dates = resolveDates(datePart, today);
+  if (!dates) return null;
+
+  const days = dates.start === dates.end ? describeDate(dates.start) : `${describeDate(dates.start)} to ${describeDate(dates.end)}`;
+  const window = extracted.window;
+  const hours = window
+    ? window.from && window.to
+      ? window.from === window.to ? `at ${window.from}` : `${window.from}-${window.to}`
+      : window.from ? `from ${window.from}` : `before ${window.to}`
+    : null;
+
+  return {
+    expression,
+    start_date: dates.start,
+    end_date: dates.end,
+    time_window: window,
+    description: !hours ? days : hours === window!.label ? `${days}, ${hours}` : `${days}, ${window!.label} (${hours})`,
+  };
+}
+
+// Whether a date argument is already a YYYY-MM-DD date rather than an expression
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE.test(value);
+}
@@ -0,0 +1,36 @@
+// Background delivery of due appointment notifications for every business.
+// One pass runs at a time; a pass that fails is logged and the next one
+// tries again.
+
+import { deliverDueNotifications } from './database.js';
+import { NOTIFICATION_BATCH_SIZE, NOTIFICATION_WORKER_SECONDS } from './notifications.js';
+
+/**
+ * Deliver due notifications every `intervalSeconds` until the returned stop
+ * function is called. Returns null when the interval is 0 (worker turned off).
+ * The timer does not keep the process alive on its own.
+ */
+export function startNotificationWorker(intervalSeconds: number = NOTIFICATION_WORKER_SECONDS): (() => void) | null {
+  if (!(intervalSeconds > 0)) {
+    return null;
+  }
+
+  let running = false;
+  const runPass = async () => {
+    if (running) return;
+    running = true;
+    try {
+      // Keep going while full batches come back, so a backlog clears in one pass
+      while ((await deliverDueNotifications(null, NOTIFICATION_BATCH_SIZE)).length === NOTIFICATION_BATCH_SIZE);
+    } catch (error: any) {
+      console.error('Notification delivery failed:', error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(runPass, intervalSeconds * 1000);
+  timer.unref();
+  void runPass();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,134 @@
+// Appointment notifications. Booking, rescheduling and cancelling an
+// appointment queue rows in appointment_notifications: a confirmation (or a
+// change notice) straight away, reminders before the start and a follow-up
+// after the end. The notification worker renders due rows from the business's
+// message templates, delivers them through the delivery adapters and retries
+// failures with a growing delay.
+
+import { DELIVERY_CHANNELS, DeliveryChannel } from './delivery.js';
+import { normalizePhone } from './duplicates.js';
+
+export const NOTIFICATION_KINDS = ['confirmation', 'reminder', 'follow_up', 'rescheduled', 'cancellation'] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const NOTIFICATION_STATUSES = ['pending', 'sent', 'failed', 'canceled'] as const;
+export type NotificationStatus = typeof NOTIFICATION_STATUSES[number];
+
+// What happened to the appointment
+export type NotificationEvent = 'created' | 'rescheduled' | 'canceled';
+
+export interface NotificationSettings {
+  channels: DeliveryChannel[];
+  // Hours before the start a reminder goes out, e.g. [24, 2]
+  reminder_hours: number[];
+  // Hours after the end for the follow-up, or null for none
+  follow_up_hours: number | null;
+}
+
+function parseHours(value: string): number[] {
+  return value
+    .split(',')
+    .map((hours) => parseFloat(hours))
+    .filter((hours) => Number.isFinite(hours) && hours > 0);
+}
+
+function parseChannels(value: string): DeliveryChannel[] {
+  return value
+    .split(',')
+    .map((channel) => channel.trim())
+    .filter((channel): channel is DeliveryChannel => (DELIVERY_CHANNELS as readonly string[]).includes(channel));
+}
+
+// NOTIFICATION_CHANNELS, NOTIFICATION_REMINDER_HOURS and NOTIFICATION_FOLLOW_UP_HOURS (0 turns follow-ups off)
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  channels: parseChannels(process.env.NOTIFICATION_CHANNELS || 'email,sms'),
+  reminder_hours: parseHours(process.env.NOTIFICATION_REMINDER_HOURS || '24,2'),
+  follow_up_hours: parseHours(process.env.NOTIFICATION_FOLLOW_UP_HOURS || '24')[0] ?? null,
+};
+
+// Delivery attempts before a notification is marked failed
+export const MAX_NOTIFICATION_ATTEMPTS = parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10);
+// How often the worker looks for due notifications; 0 turns it off
+export const NOTIFICATION_WORKER_SECONDS = parseInt(process.env.NOTIFICATION_WORKER_SECONDS || '60', 10);
+export const NOTIFICATION_BATCH_SIZE = 50;
+// A claimed notification is retried after this long if its worker dies mid-delivery
+export const NOTIFICATION_LEASE_MINUTES = 5;
+
+const RETRY_BASE_MINUTES = 5;
+const RETRY_MAX_MINUTES = 6 * 60;
+
+export interface PlannedNotification {
+  kind: NotificationKind;
+  scheduled_at: Date;
+}
+
+/**
+ * The notifications an appointment change calls for, in send order. Nothing
+ * is planned for appointments that have already started, and reminders whose
+ * time has passed are left out.
+ */
+export function planNotifications(
+  event: NotificationEvent,
+  appointment: { start_time: Date; end_time: Date },
+  now: Date,
+  settings: NotificationSettings = DEFAULT_NOTIFICATION_SETTINGS
+): PlannedNotification[] {
+  if (appointment.start_time <= now) {
+    return [];
+  }
+  if (event === 'canceled') {
+    return [{ kind: 'cancellation', scheduled_at: now }];
+  }
+
+  const planned: PlannedNotification[] = [{ kind: event === 'created' ? 'confirmation' : 'rescheduled', scheduled_at: now }];
+  for (const hours of [...settings.reminder_hours].sort((a, b) => b - a)) {
+    const at = new Date(appointment.start_time.getTime() - hours * 3600000);
+    if (at > now) {
+      planned.push({ kind: 'reminder', scheduled_at: at });
+    }
+  }
+  if (settings.follow_up_hours) {
+    planned.push({ kind: 'follow_up', scheduled_at: new Date(appointment.end_time.getTime() + settings.follow_up_hours * 3600000) });
+  }
+  return planned;
+}
+
+export interface NotificationContact {
+  email: string | null;
+  phone: string | null;
+  user_id: string | null;
+}
+
+// Where a channel reaches the customer: their email, phone or app account (push)
+export function notificationRecipient(channel: DeliveryChannel, contact: NotificationContact): string | null {
+  switch (channel) {
+    case 'email':
+      return contact.email?.includes('@') ? contact.email.trim() : null;
+    case 'sms':
+      return normalizePhone(contact.phone) ? contact.phone!.trim() : null;
+    case 'push':
+      return contact.user_id || null;
+  }
+}
+
+// The configured channels the customer can be reached on
+export function reachableChannels(contact: NotificationContact, channels: DeliveryChannel[] = DEFAULT_NOTIFICATION_SETTINGS.channels): DeliveryChannel[] {
+  return channels.filter((channel) => notificationRecipient(channel, contact) !== null);
+}
+
+/**
+ * Why a due notification should no longer go out, or null to send it.
+ * Cancellation notices always go; follow-ups go unless the customer never came.
+ */
+export function notificationSkipReason(kind: NotificationKind, appointmentStatus: string): string | null {
+  if (kind === 'cancellation') {
+    return null;
+  }
+  const closed = kind === 'follow_up' ? ['canceled', 'cancelled', 'no_show'] : ['canceled', 'cancelled', 'completed', 'no_show'];
+  return closed.includes(appointmentStatus) ? `The appointment is ${appointmentStatus}` : null;
+}
+
+// Minutes to wait before the next attempt: 5, 10, 20, ... capped at 6 hours
+export function notificationRetryDelayMinutes(attempts: number): number {
+  return Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MINUTES);
+}
@@ -0,0 +1,154 @@
+// Booking policies from business_settings: how much notice a booking needs,
+// how far ahead it may be made, and whether and how late appointments may be
+// rescheduled or cancelled. The checks are pure so the data layer can run them
+// inside its transactions and the conflict checker can report them as flags.
+
+import { getZonedParts } from './timezone.js';
+
+export interface BookingPolicy {
+  min_booking_notice_hours: number;
+  booking_window_days: number | null;
+  max_booking_notice_days: number | null;
+  allow_same_day_bookings: boolean;
+  allow_rescheduling: boolean;
+  allow_cancellation: boolean;
+  cancellation_notice_hours: number;
+}
+
+export interface PolicyViolation {
+  code: string;
+  message: string;
+}
+
+// A business that has not saved any settings has no restrictions
+export const UNRESTRICTED_BOOKING_POLICY: BookingPolicy = {
+  min_booking_notice_hours: 0,
+  booking_window_days: null,
+  max_booking_notice_days: null,
+  allow_same_day_bookings: true,
+  allow_rescheduling: true,
+  allow_cancellation: true,
+  cancellation_notice_hours: 0,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function numberOr(value: unknown, fallback: number | null): number | null {
+  if (value === undefined || value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function booleanOr(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+/**
+ * Build a policy from a business_settings row. A missing row or NULL column
+ * means the business has not set that rule, so it does not restrict anything.
+ */
+export function policyFromSettings(row?: Record<string, unknown> | null): BookingPolicy {
+  if (!row) return { ...UNRESTRICTED_BOOKING_POLICY };
+  const open = UNRESTRICTED_BOOKING_POLICY;
+  return {
+    min_booking_notice_hours: numberOr(row.min_booking_notice_hours, open.min_booking_notice_hours)!,
+    booking_window_days: numberOr(row.booking_window_days, open.booking_window_days),
+    max_booking_notice_days: numberOr(row.max_booking_notice_days, open.max_booking_notice_days),
+    allow_same_day_bookings: booleanOr(row.allow_same_day_bookings, open.allow_same_day_bookings),
+    allow_rescheduling: booleanOr(row.allow_rescheduling, open.allow_rescheduling),
+    allow_cancellation: booleanOr(row.allow_cancellation, open.allow_cancellation),
+    cancellation_notice_hours: numberOr(row.cancellation_notice_hours, open.cancellation_notice_hours)!,
+  };
+}
+
+// booking_window_days and max_booking_notice_days both cap how far ahead a booking can be; the tighter one wins
+export function maxAdvanceDays(policy: BookingPolicy): number | null {
+  const limits = [policy.booking_window_days, policy.max_booking_notice_days]
+    .filter((days): days is number => days !== null && days > 0);
+  return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+/**
+ * Whether a new booking (or the new time of a reschedule) starting at `start`
+ * is within the business's booking window.
+ */
+export function checkBookingWindow(policy: BookingPolicy, start: Date, now: Date, timeZone: string): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  if (!policy.allow_same_day_bookings && getZonedParts(start, timeZone).date === getZonedParts(now, timeZone).date) {
+    violations.push({
+      code: 'SAME_DAY_BOOKING_NOT_ALLOWED',
+      message: 'Same-day bookings are not allowed',
+    });
+  }
+
+  if (policy.min_booking_notice_hours > 0 && start.getTime() - now.getTime() < policy.min_booking_notice_hours * HOUR_MS) {
+    violations.push({
+      code: 'BOOKING_NOTICE_TOO_SHORT',
+      message: `Bookings must be made at least ${policy.min_booking_notice_hours} hour(s) in advance`,
+    });
+  }
+
+  const maxDays = maxAdvanceDays(policy);
+  if (maxDays !== null && start.getTime() - now.getTime() > maxDays * DAY_MS) {
+    violations.push({
+      code: 'BOOKING_TOO_FAR_AHEAD',
+      message: `Bookings can be made at most ${maxDays} day(s) in advance`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Whether an existing appointment starting at `currentStart` may still be
+ * rescheduled or cancelled.
+ */
+export function checkChangeAllowed(
+  policy: BookingPolicy,
+  action: 'reschedule' | 'cancel',
+  currentStart: Date,
+  now: Date
+): PolicyViolation[] {
+  if (action === 'reschedule' && !policy.allow_rescheduling) {
+    return [{ code: 'RESCHEDULING_NOT_ALLOWED', message: 'Appointments cannot be rescheduled' }];
+  }
+  if (action === 'cancel' && !policy.allow_cancellation) {
+    return [{ code: 'CANCELLATION_NOT_ALLOWED', message: 'Appointments cannot be cancelled' }];
+  }
+
+  const notice = policy.cancellation_notice_hours;
+  if (notice > 0 && currentStart.getTime() - now.getTime() < notice * HOUR_MS) {
+    return [{
+      code: action === 'reschedule' ? 'RESCHEDULE_NOTICE_TOO_SHORT' : 'CANCELLATION_NOTICE_TOO_SHORT',
+      message: `Appointments must be ${action === 'reschedule' ? 'rescheduled' : 'cancelled'} at least ${notice} hour(s) before they start`,
+    }];
+  }
+
+  return [];
+}
+
+function changeDeadline(policy: BookingPolicy): string {
+  return policy.cancellation_notice_hours > 0
+    ? `up to ${policy.cancellation_notice_hours} hour(s) before they start`
+    : 'up to their start time';
+}
+
+// The rules in plain sentences, for the agent to relay to customers
+export function describeBookingPolicy(policy: BookingPolicy): string[] {
+  const maxDays = maxAdvanceDays(policy);
+  return [
+    policy.min_booking_notice_hours > 0
+      ? `Bookings need at least ${policy.min_booking_notice_hours} hour(s) notice.`
+      : 'Bookings can be made up to the start time.',
+    maxDays !== null ? `Bookings can be made up to ${maxDays} day(s) ahead.` : 'There is no limit on how far ahead bookings can be made.',
+    policy.allow_same_day_bookings ? 'Same-day bookings are allowed.' : 'Same-day bookings are not allowed.',
+    policy.allow_rescheduling
+      ? `Appointments can be rescheduled ${changeDeadline(policy)}.`
+      : 'Appointments cannot be rescheduled.',
+    policy.allow_cancellation
+      ? `Appointments can be cancelled ${changeDeadline(policy)}.`
+      : 'Appointments cannot be cancelled.',
+  ];
+}
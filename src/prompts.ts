@@ -0,0 +1,203 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  getBusinessDetails,
+  getBusinessHours,
+  getServices,
+  getAppointment,
+} from "./database.js";
+import { SessionContext, resolveBusinessId } from "./context.js";
+
+// The playbook ships with the package next to the build directory
+const PLAYBOOK_PATH = fileURLToPath(new URL('../customer_inquiry_prompt.md', import.meta.url));
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Playbook section headings (### level) included in the prompt
+  sections: string[];
+  buildInstructions: (businessId: string, args: Record<string, string>) => Promise<string>;
+}
+
+let playbookCache: string | null = null;
+
+async function loadPlaybook(): Promise<string> {
+  if (playbookCache === null) {
+    playbookCache = await readFile(PLAYBOOK_PATH, 'utf-8');
+  }
+  return playbookCache;
+}
+
+// Extract the "### <heading>" sections of the playbook whose heading contains one of the given titles
+export function extractSections(playbook: string, titles: string[]): string {
+  const sections = playbook.split(/\n(?=### )/);
+  return sections
+    .filter((section) => titles.some((title) => section.startsWith('### ') && section.split('\n')[0].includes(title)))
+    .map((section) => section.trim())
+    .join('\n\n');
+}
+
+// Business name, hours and service catalogue, loaded at request time
+async function buildBusinessContext(businessId: string): Promise<string> {
+  const [business, hours, services] = await Promise.all([
+    getBusinessDetails(businessId),
+    getBusinessHours(businessId),
+    getServices(businessId),
+  ]);
+
+  const hoursList = hours?.working_hours?.length
+    ? hours.working_hours.map((hour: any) => `- ${hour.day_name}: ${hour.formatted_hours}`).join('\n')
+    : '- No business hours configured';
+
+  const serviceList = services.length
+    ? services
+        .map((service: any) =>
+          `- ${service.name} (ID: ${service.id}): ${service.duration_minutes} minutes, $${((service.price_cents || 0) / 100).toFixed(2)}${service.category_name ? `, ${service.category_name}` : ''}`
+        )
+        .join('\n')
+    : '- No active services';
+
+  return `## Business Context\n\nBusiness: ${business.name}\nTimezone: ${business.timezone || 'UTC'}\nPhone: ${business.phone || 'Not provided'}\n\nBusiness Hours:\n${hoursList}\n\nService Catalogue:\n${serviceList}`;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "customer_inquiry",
+    description: "General customer service playbook for service inquiries, booking, changes and history lookups",
+    arguments: [],
+    sections: [],
+    buildInstructions: async () => 'Help the customer with their inquiry using the guidelines above.',
+  },
+  {
+    name: "service_inquiry",
+    description: "Answer questions about services, pricing, duration and staff",
+    arguments: [
+      { name: "service_hint", description: "What the customer asked about (optional)", required: false },
+    ],
+    sections: ["Service Inquiries", "What services do you offer?", "Who will be doing my service?"],
+    buildInstructions: async (businessId, args) => args.service_hint
+      ? `The customer is asking about "${args.service_hint}". Match it against the service catalogue (use search_services_comprehensive if there is no obvious match) and explain duration, price and who provides it.`
+      : 'The customer wants to know what services are offered. Present the catalogue by category with duration and price.',
+  },
+  {
+    name: "book_appointment",
+    description: "Book an appointment for a customer",
+    arguments: [
+      { name: "customer_name", description: "The customer's name", required: true },
+      { name: "service_hint", description: "The service the customer asked for, in their own words", required: true },
+    ],
+    sections: ["Appointment Booking", "I want to book an appointment"],
+    buildInstructions: async (businessId, args) =>
+      `Book an appointment for ${args.customer_name}, who asked for "${args.service_hint}".\n\n` +
+      `1. Use search_customers to find "${args.customer_name}"; if there is no match, collect email and phone and create the customer.\n` +
+      `2. Match "${args.service_hint}" to a service in the catalogue above and confirm it with the customer.\n` +
+      `3. Check availability and offer concrete time slots within business hours.\n` +
+      `4. Create the appointment and read back the service, staff member, date, time and price.`,
+  },
+  {
+    name: "handle_reschedule",
+    description: "Reschedule an existing appointment",
+    arguments: [
+      { name: "appointment_id", description: "The appointment to reschedule", required: true },
+    ],
+    sections: ["Appointment Changes"],
+    buildInstructions: async (businessId, args) => {
+      const appointment = await getAppointment(businessId, args.appointment_id);
+      return `The customer wants to reschedule this appointment:\n\n` +
+        `Appointment ID: ${appointment.id}\n` +
+        `Customer: ${appointment.customer_first_name} ${appointment.customer_last_name}\n` +
+        `Service: ${appointment.service_name} (${appointment.duration_minutes} minutes)\n` +
+        `Staff: ${appointment.staff_first_name ? `${appointment.staff_first_name} ${appointment.staff_last_name}` : 'Not assigned'}\n` +
+        `Current Start Time: ${appointment.start_time}\n` +
+        `Status: ${appointment.status}\n\n` +
+        `Ask for the preferred new date and time, check availability with the same staff member first, then use reschedule_appointment and confirm the new time.`;
+    },
+  },
+  {
+    name: "appointment_history",
+    description: "Look up a returning customer's appointment history",
+    arguments: [
+      { name: "customer_name", description: "The customer's name, email or phone", required: true },
+    ],
+    sections: ["Customer History", "Can I see my appointment history?"],
+    buildInstructions: async (businessId, args) =>
+      `Find the customer "${args.customer_name}" with search_customers, verify their identity with send_verification_code and verify_customer_code (or verify_customer_by_booking), then use get_customer_appointments and present the history chronologically with services and reviews.`,
+  },
+];
+
+/**
+ * Find a prompt by name and check its required arguments are given. Throws
+ * for unknown prompts and missing arguments.
+ */
+export function resolvePrompt(name: string, args: Record<string, string>): PromptDefinition {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for ${name}: ${missing.map((argument) => argument.name).join(', ')}`);
+  }
+
+  return prompt;
+}
+
+async function buildPrompt(businessId: string, prompt: PromptDefinition, args: Record<string, string>): Promise<string> {
+  const playbook = await loadPlaybook();
+  const guidelines = prompt.sections.length ? extractSections(playbook, prompt.sections) : playbook;
+  const [businessContext, instructions] = await Promise.all([
+    buildBusinessContext(businessId),
+    prompt.buildInstructions(businessId, args),
+  ]);
+
+  return `${guidelines}\n\n${businessContext}\n\n## Task\n\n${instructions}`;
+}
+
+/**
+ * Register prompts/list and prompts/get handlers on a server. Prompts are built
+ * from customer_inquiry_prompt.md and filled in with the session's business data.
+ */
+export function registerPromptHandlers(server: Server, session: SessionContext): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+        name,
+        description,
+        arguments: promptArguments,
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = resolvePrompt(name, args);
+    const text = await buildPrompt(resolveBusinessId(session), prompt, args);
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text,
+          },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,134 @@
+// RRULE-style recurrence rules for appointment series. Only the subset needed
+// for regular bookings is supported: FREQ=WEEKLY or MONTHLY with an INTERVAL,
+// ended by COUNT or UNTIL. Occurrences are calendar dates in the business's
+// timezone; callers pair them with the series' wall-clock start time, so a
+// weekly 09:00 appointment stays at 09:00 across DST changes.
+
+import { addDays, getDayOfWeek } from './timezone.js';
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: string; // YYYY-MM-DD, inclusive, business-local
+}
+
+// Upper bound on occurrences per series, whatever the rule says
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const PRESETS: Record<string, Pick<RecurrenceRule, 'frequency' | 'interval'>> = {
+  weekly: { frequency: 'WEEKLY', interval: 1 },
+  biweekly: { frequency: 'WEEKLY', interval: 2 },
+  monthly: { frequency: 'MONTHLY', interval: 1 },
+};
+
+export const RECURRENCE_PRESETS = Object.keys(PRESETS) as Array<'weekly' | 'biweekly' | 'monthly'>;
+
+function validateRule(rule: RecurrenceRule): RecurrenceRule {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+    throw new Error(`Invalid recurrence interval: ${rule.interval}`);
+  }
+  if (rule.count === undefined && !rule.until) {
+    throw new Error('A recurrence rule needs a COUNT or an UNTIL date');
+  }
+  if (rule.count !== undefined && rule.until) {
+    throw new Error('A recurrence rule takes either COUNT or UNTIL, not both');
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_SERIES_OCCURRENCES)) {
+    throw new Error(`Recurrence COUNT must be between 1 and ${MAX_SERIES_OCCURRENCES}`);
+  }
+  if (rule.until && !DATE_PATTERN.test(rule.until)) {
+    throw new Error(`Invalid UNTIL date: ${rule.until}. Please use YYYY-MM-DD format.`);
+  }
+  return rule;
+}
+
+/**
+ * Build a rule from a preset name (weekly, biweekly, monthly) and an end.
+ */
+export function presetRule(preset: string, end: { count?: number; until?: string }): RecurrenceRule {
+  const base = PRESETS[preset.toLowerCase()];
+  if (!base) {
+    throw new Error(`Unknown recurrence: ${preset}. Use one of: ${RECURRENCE_PRESETS.join(', ')}`);
+  }
+  return validateRule({ ...base, count: end.count, until: end.until });
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;COUNT=6" or
+ * "RRULE:FREQ=MONTHLY;UNTIL=20251231". Unsupported parts are rejected rather
+ * than silently ignored.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new Error(`Invalid RRULE part: ${part}`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim());
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'COUNT', 'UNTIL'].includes(key)) {
+      throw new Error(`Unsupported RRULE part: ${key}. Supported parts are FREQ, INTERVAL, COUNT and UNTIL.`);
+    }
+  }
+
+  const frequency = (parts.get('FREQ') || '').toUpperCase();
+  if (frequency !== 'WEEKLY' && frequency !== 'MONTHLY') {
+    throw new Error(`Unsupported RRULE frequency: ${frequency || '(none)'}. Use WEEKLY or MONTHLY.`);
+  }
+
+  // UNTIL may be 20251231, 20251231T235959Z or 2025-12-31; only the date counts
+  const untilValue = parts.get('UNTIL');
+  const untilDigits = untilValue?.replace(/-/g, '').slice(0, 8);
+  const until = untilDigits ? `${untilDigits.slice(0, 4)}-${untilDigits.slice(4, 6)}-${untilDigits.slice(6, 8)}` : undefined;
+
+  return validateRule({
+    frequency,
+    interval: parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1,
+    count: parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined,
+    until,
+  });
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+// The date `months` calendar months later, or null if that month is too short
+function addMonths(date: string, months: number): string | null {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, day));
+  return target.getUTCDate() === day ? target.toISOString().slice(0, 10) : null;
+}
+
+/**
+ * The local dates of a series starting on firstDate. As in RFC 5545, a monthly
+ * series started on the 31st skips months without a 31st rather than moving
+ * the appointment. Capped at MAX_SERIES_OCCURRENCES.
+ */
+export function expandOccurrenceDates(firstDate: string, rule: RecurrenceRule): string[] {
+  getDayOfWeek(firstDate); // validates the date
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const dates: string[] = [];
+
+  // Monthly rules can skip short months, so bound the number of steps too
+  for (let step = 0; dates.length < limit && step < MAX_SERIES_OCCURRENCES * 2; step++) {
+    const date = rule.frequency === 'WEEKLY'
+      ? addDays(firstDate, step * rule.interval * 7)
+      : addMonths(firstDate, step * rule.interval);
+    if (date === null) continue;
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+
+  return dates;
+}
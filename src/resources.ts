@@ -0,0 +1,201 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  getBusinessDetails,
+  getServices,
+  getService,
+  getStaff,
+  getStaffMember,
+  getBusinessHours,
+  listenForResourceChanges,
+  ResourceChange,
+} from "./database.js";
+import { SessionContext, resolveBusinessId } from "./context.js";
+
+const URI_SCHEME = 'appointment://';
+const JSON_MIME_TYPE = 'application/json';
+
+const BUSINESS_URI = `${URI_SCHEME}business`;
+const HOURS_URI = `${URI_SCHEME}hours`;
+const SERVICE_URI_PREFIX = `${URI_SCHEME}services/`;
+const STAFF_URI_PREFIX = `${URI_SCHEME}staff/`;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: `${SERVICE_URI_PREFIX}{id}`,
+    name: "Service",
+    description: "A service with its duration, price, category and the staff who provide it",
+    mimeType: JSON_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${STAFF_URI_PREFIX}{id}`,
+    name: "Staff member",
+    description: "A staff member with the services they provide and their working hours",
+    mimeType: JSON_MIME_TYPE,
+  },
+];
+
+// Listeners for database row changes, one per connected server instance
+const changeListeners = new Set<(change: ResourceChange) => void>();
+
+/**
+ * Start forwarding database row changes to connected servers. Call once per
+ * process; each server instance filters changes by its own subscriptions.
+ */
+export async function startResourceChangeListener(): Promise<void> {
+  await listenForResourceChanges(dispatchResourceChange);
+}
+
+// Hand a row change to every connected server
+export function dispatchResourceChange(change: ResourceChange): void {
+  for (const listener of changeListeners) {
+    listener(change);
+  }
+}
+
+// Map a changed row to the resource URIs whose content depends on it
+export function getChangedUris(change: ResourceChange): string[] {
+  switch (change.table) {
+    case 'businesses':
+      return [BUSINESS_URI];
+    case 'working_hours':
+      return [HOURS_URI];
+    case 'services':
+      return change.id ? [`${SERVICE_URI_PREFIX}${change.id}`] : [];
+    case 'staff':
+      return change.id ? [`${STAFF_URI_PREFIX}${change.id}`] : [];
+    case 'staff_working_hours':
+      return change.staff_id ? [`${STAFF_URI_PREFIX}${change.staff_id}`] : [];
+    case 'staff_services':
+      return [
+        ...(change.staff_id ? [`${STAFF_URI_PREFIX}${change.staff_id}`] : []),
+        ...(change.service_id ? [`${SERVICE_URI_PREFIX}${change.service_id}`] : []),
+      ];
+    default:
+      return [];
+  }
+}
+
+async function readResource(businessId: string, uri: string): Promise<unknown> {
+  if (uri === BUSINESS_URI) {
+    return getBusinessDetails(businessId);
+  }
+
+  if (uri === HOURS_URI) {
+    return getBusinessHours(businessId);
+  }
+
+  if (uri.startsWith(SERVICE_URI_PREFIX)) {
+    return getService(businessId, uri.slice(SERVICE_URI_PREFIX.length));
+  }
+
+  if (uri.startsWith(STAFF_URI_PREFIX)) {
+    return getStaffMember(businessId, uri.slice(STAFF_URI_PREFIX.length));
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * Register resources/list, resources/read and subscription handlers on a server.
+ * Resources are scoped to the session's business.
+ */
+export function registerResourceHandlers(server: Server, session: SessionContext): void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const businessId = resolveBusinessId(session);
+    const [services, staff] = await Promise.all([getServices(businessId), getStaff(businessId)]);
+
+    return {
+      resources: [
+        {
+          uri: BUSINESS_URI,
+          name: "Business profile",
+          description: "Business name, contact details, address and timezone",
+          mimeType: JSON_MIME_TYPE,
+        },
+        {
+          uri: HOURS_URI,
+          name: "Business hours",
+          description: "Weekly opening hours",
+          mimeType: JSON_MIME_TYPE,
+        },
+        ...services.map((service: any) => ({
+          uri: `${SERVICE_URI_PREFIX}${service.id}`,
+          name: `Service: ${service.name}`,
+          description: service.description || undefined,
+          mimeType: JSON_MIME_TYPE,
+        })),
+        ...staff.map((member: any) => ({
+          uri: `${STAFF_URI_PREFIX}${member.id}`,
+          name: `Staff: ${member.first_name} ${member.last_name}`,
+          description: member.bio || undefined,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const data = await readResource(resolveBusinessId(session), uri);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: JSON_MIME_TYPE,
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const onChange = (change: ResourceChange) => {
+    if (!session.businessId || change.business_id !== session.businessId) return;
+
+    // Added or removed services and staff change the resource list itself
+    if ((change.table === 'services' || change.table === 'staff') && change.operation !== 'UPDATE') {
+      server.sendResourceListChanged().catch((error) => {
+        console.error('Failed to send resource list changed notification:', error);
+      });
+    }
+
+    for (const uri of getChangedUris(change)) {
+      if (!subscriptions.has(uri)) continue;
+
+      server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Failed to send resource updated notification for ${uri}:`, error);
+      });
+    }
+  };
+
+  changeListeners.add(onChange);
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    changeListeners.delete(onChange);
+    previousOnClose?.();
+  };
+}
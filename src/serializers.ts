@@ -0,0 +1,1030 @@
+import { z } from "zod";
+import { formatInTimeZone } from "./timezone.js";
+import { DELIVERY_CHANNELS } from "./delivery.js";
+import { NOTIFICATION_KINDS, NOTIFICATION_STATUSES } from "./notifications.js";
+import { WEBHOOK_DELIVERY_STATUSES, WEBHOOK_EVENT_TYPES } from "./webhooks.js";
+
+// Stable, machine-readable shapes for tool results. Database rows come back
+// with varying column names (phone vs phone_number, id vs staff_id) and
+// timestamps as Date objects or zone-less strings; these helpers normalise
+// them so every tool reports IDs, ISO 8601 timestamps and money in minor units.
+
+const DEFAULT_CURRENCY = 'USD';
+
+export const MoneySchema = z.object({
+  amount_minor: z.number().int().describe("Amount in the currency's minor unit (e.g. cents)"),
+  currency: z.string().describe("ISO 4217 currency code"),
+});
+
+const nullableString = z.string().nullable();
+const isoTimestamp = z.string().nullable().describe("ISO 8601 timestamp (UTC)");
+const localTimestamp = z.string().nullable().describe("ISO 8601 timestamp with the business's UTC offset");
+
+export const AppointmentSchema = z.object({
+  id: z.string(),
+  customer_id: nullableString,
+  service_id: nullableString,
+  staff_id: nullableString,
+  status: nullableString,
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  timezone: nullableString.describe("IANA timezone of the business"),
+  duration_minutes: z.number().nullable(),
+  price: MoneySchema.nullable(),
+  notes: nullableString,
+  customer_name: nullableString,
+  service_name: nullableString,
+  staff_name: nullableString,
+  series_id: nullableString.describe("Recurring series this appointment belongs to, if any"),
+  visit_id: nullableString.describe("Multi-service visit this appointment belongs to, if any"),
+  created_at: isoTimestamp,
+  updated_at: isoTimestamp,
+});
+
+export const CustomerSchema = z.object({
+  id: z.string(),
+  first_name: nullableString,
+  last_name: nullableString,
+  email: nullableString,
+  phone: nullableString,
+  notes: nullableString,
+  locale: nullableString.describe("Language for messages, e.g. es or pt-BR; null for the business default"),
+  created_at: isoTimestamp,
+  updated_at: isoTimestamp,
+});
+
+export const ServiceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: nullableString,
+  category_name: nullableString,
+  duration_minutes: z.number().nullable(),
+  price: MoneySchema.nullable(),
+  is_active: z.boolean().nullable(),
+});
+
+export const ServiceMatchSchema = ServiceSchema.extend({
+  staff_names: z.array(z.string()),
+  staff_count: z.number().nullable(),
+  score: z.number().nullable().describe("Match score for searches (0-1 for fuzzy, 0-100 for comprehensive)"),
+  match_type: nullableString,
+  booking_count: z.number().nullable(),
+  average_rating: z.number().nullable(),
+});
+
+export const StaffSchema = z.object({
+  id: z.string(),
+  first_name: nullableString,
+  last_name: nullableString,
+  email: nullableString,
+  phone: nullableString,
+  bio: nullableString,
+  is_active: z.boolean().nullable(),
+  service_names: z.array(z.string()),
+});
+
+export const TimeSlotSchema = z.object({
+  start_time: nullableString.describe("Slot start (ISO 8601 timestamp with the business's UTC offset, or HH:MM on the requested date)"),
+  end_time: nullableString.describe("Slot end (ISO 8601 timestamp with the business's UTC offset, or HH:MM on the requested date)"),
+  staff_id: nullableString,
+  staff_name: nullableString,
+  remaining_slots: z.number().nullable(),
+  total_slots: z.number().nullable(),
+  available_staff: z.array(z.object({ id: nullableString, name: nullableString })),
+});
+
+export const ReviewSchema = z.object({
+  id: z.string(),
+  appointment_id: nullableString,
+  customer_id: nullableString,
+  service_id: nullableString,
+  staff_id: nullableString,
+  rating: z.number(),
+  review_text: nullableString,
+  service_name: nullableString,
+  staff_name: nullableString,
+  appointment_start_time: isoTimestamp,
+  created_at: isoTimestamp,
+});
+
+export const BusinessSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: nullableString,
+  phone: nullableString,
+  email: nullableString,
+  website: nullableString,
+  address: z.object({
+    line1: nullableString,
+    line2: nullableString,
+    city: nullableString,
+    state: nullableString,
+    postal_code: nullableString,
+    country: nullableString,
+  }),
+  timezone: nullableString,
+  created_at: isoTimestamp,
+  updated_at: isoTimestamp,
+});
+
+export const WorkingHoursSchema = z.object({
+  day_of_week: z.number().nullable().describe("0 = Sunday ... 6 = Saturday"),
+  day_name: nullableString,
+  open_time: nullableString.describe("HH:MM"),
+  close_time: nullableString.describe("HH:MM"),
+  is_closed: z.boolean(),
+});
+
+export const BookingPolicySchema = z.object({
+  min_booking_notice_hours: z.number().describe("Minimum hours between booking and start time"),
+  booking_window_days: z.number().nullable().describe("How many days ahead bookings open (null = no limit)"),
+  max_booking_notice_days: z.number().nullable().describe("Maximum days ahead a booking can be made (null = no limit)"),
+  allow_same_day_bookings: z.boolean(),
+  allow_rescheduling: z.boolean(),
+  allow_cancellation: z.boolean(),
+  cancellation_notice_hours: z.number().describe("Minimum hours before start to reschedule or cancel"),
+  rules: z.array(z.string()).describe("The rules in plain sentences"),
+});
+
+export const AppointmentChangeSchema = z.object({
+  appointment_id: z.string(),
+  action: z.enum(['updated', 'cancelled', 'rescheduled', 'confirmed', 'completed']),
+  status: nullableString,
+  actor: nullableString.describe("Who made the change"),
+  reason: nullableString,
+  previous_start_time: isoTimestamp,
+  start_time: isoTimestamp,
+  occurred_at: isoTimestamp,
+});
+
+export const ConflictSchema = z.object({
+  type: z.string().describe("Machine-readable conflict code, e.g. STAFF_DOUBLE_BOOKED"),
+  severity: z.enum(['ERROR', 'WARNING']),
+  message: z.string(),
+});
+
+export const SlotHoldSchema = z.object({
+  hold_token: z.string().describe("Pass to create_booking_validated or release_hold"),
+  service_id: z.string(),
+  staff_id: z.string(),
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  expires_at: localTimestamp,
+  timezone: nullableString.describe("IANA timezone of the business"),
+});
+
+export const AppointmentSeriesSchema = z.object({
+  id: z.string(),
+  customer_id: nullableString,
+  service_id: nullableString,
+  staff_id: nullableString,
+  rrule: z.string().describe("Recurrence rule, e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=6"),
+  status: z.enum(['active', 'canceled']),
+  first_start_time: localTimestamp,
+  duration_minutes: z.number().nullable(),
+  timezone: nullableString.describe("IANA timezone the occurrences repeat in"),
+  notes: nullableString,
+  created_at: isoTimestamp,
+});
+
+export const SeriesOccurrenceFailureSchema = z.object({
+  occurrence: z.number().describe("1-based position in the series"),
+  date: z.string().describe("Business-local date (YYYY-MM-DD)"),
+  start_time: localTimestamp,
+  conflicts: z.array(ConflictSchema),
+});
+
+export const WaitlistOfferSchema = z.object({
+  id: z.string().describe("Pass to accept_waitlist_offer"),
+  entry_id: nullableString,
+  customer_id: nullableString,
+  service_id: nullableString,
+  staff_id: nullableString,
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  expires_at: localTimestamp.describe("The slot is held for the customer until then"),
+  status: nullableString.describe("pending, accepted, declined or expired"),
+  appointment_id: nullableString,
+  timezone: nullableString.describe("IANA timezone of the business"),
+});
+
+export const WaitlistEntrySchema = z.object({
+  id: z.string(),
+  customer_id: nullableString,
+  customer_name: nullableString,
+  service_id: nullableString,
+  service_name: nullableString,
+  staff_id: nullableString.describe("Preferred staff member, or null for anyone"),
+  staff_name: nullableString,
+  earliest_date: nullableString.describe("YYYY-MM-DD"),
+  latest_date: nullableString.describe("YYYY-MM-DD"),
+  window_start: nullableString.describe("HH:MM"),
+  window_end: nullableString.describe("HH:MM"),
+  priority: z.number(),
+  status: nullableString.describe("waiting, offered, booked or left"),
+  notes: nullableString,
+  offer: WaitlistOfferSchema.nullable().describe("The pending offer, if any"),
+  created_at: isoTimestamp,
+});
+
+export const ClassSessionSchema = z.object({
+  id: z.string().describe("Pass to enroll_in_class"),
+  service_id: nullableString,
+  service_name: nullableString,
+  staff_id: nullableString.describe("The instructor"),
+  instructor_name: nullableString,
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  capacity: z.number(),
+  enrolled_count: z.number(),
+  seats_left: z.number(),
+  status: nullableString.describe("scheduled or canceled"),
+  notes: nullableString,
+  timezone: nullableString.describe("IANA timezone of the business"),
+});
+
+export const ClassEnrollmentSchema = z.object({
+  id: z.string(),
+  session_id: nullableString,
+  customer_id: nullableString,
+  customer_name: nullableString,
+  customer_email: nullableString,
+  customer_phone: nullableString,
+  status: nullableString.describe("enrolled or cancelled"),
+  notes: nullableString,
+  enrolled_at: isoTimestamp,
+  cancelled_at: isoTimestamp,
+});
+
+export const ResourceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  resource_type_id: nullableString,
+  resource_type_name: nullableString,
+  is_active: z.boolean(),
+  notes: nullableString,
+});
+
+export const ServiceResourceRequirementSchema = z.object({
+  service_id: z.string(),
+  service_name: nullableString,
+  resource_type_id: z.string(),
+  resource_type_name: nullableString,
+  quantity: z.number().describe("Units each booking of the service takes"),
+});
+
+export const ResourceTypeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: nullableString,
+  unit_count: z.number().describe("Active units of this type"),
+  resources: z.array(ResourceSchema),
+  required_by: z.array(ServiceResourceRequirementSchema),
+});
+
+export const VisitSchema = z.object({
+  id: z.string(),
+  customer_id: nullableString,
+  customer_name: nullableString,
+  status: nullableString.describe("booked or canceled"),
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  total_duration_minutes: z.number().describe("From the first start to the last end, buffers included"),
+  total_price: MoneySchema.nullable(),
+  segments: z.array(AppointmentSchema).describe("One appointment per service, in order"),
+  notes: nullableString,
+  timezone: nullableString.describe("IANA timezone of the business"),
+});
+
+export const VisitSegmentSchema = z.object({
+  sequence: z.number(),
+  service_id: z.string(),
+  service_name: nullableString,
+  staff_id: z.string(),
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+});
+
+export const AlternativeSchema = z.object({
+  kind: z.enum(['same_staff_other_time', 'other_staff_same_time', 'other_time', 'similar_service'])
+    .describe("What the suggestion changes: the time, the staff member or the service"),
+  service_id: z.string(),
+  service_name: nullableString,
+  staff_id: z.string(),
+  staff_name: nullableString,
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  reason: z.string().describe("Plain-language reason to give the customer"),
+});
+
+export const DuplicateCandidateSchema = z.object({
+  score: z.number().describe("How likely the two customers are the same person, from 0 to 1"),
+  reasons: z.array(z.string()).describe("Matching details, e.g. \"same phone number\""),
+  customers: z.array(CustomerSchema.extend({ appointment_count: z.number().nullable() })),
+});
+
+export const CustomerMergeSchema = z.object({
+  id: z.string(),
+  survivor_id: nullableString,
+  merged_customer_id: z.string(),
+  merged_customer: CustomerSchema.describe("Snapshot of the merged customer as it was before deletion"),
+  moved: z.record(z.number()).describe("Rows moved to the survivor per table"),
+  reason: nullableString,
+  created_at: isoTimestamp,
+});
+
+export const AppointmentNotificationSchema = z.object({
+  id: z.string(),
+  appointment_id: z.string(),
+  kind: z.enum(NOTIFICATION_KINDS).describe("confirmation, reminder, follow_up, rescheduled or cancellation"),
+  channel: z.enum(DELIVERY_CHANNELS),
+  status: z.enum(NOTIFICATION_STATUSES).describe("pending, sent, failed or canceled"),
+  scheduled_at: localTimestamp,
+  next_attempt_at: localTimestamp.describe("When a failed send is retried, if it is"),
+  sent_at: localTimestamp,
+  recipient: nullableString.describe("The address, number or user ID it was sent to"),
+  attempts: z.number().int(),
+  last_error: nullableString,
+});
+
+export const MessageTemplateSchema = z.object({
+  id: z.string(),
+  kind: z.enum(NOTIFICATION_KINDS),
+  channel: z.enum(DELIVERY_CHANNELS),
+  locale: z.string(),
+  subject: nullableString,
+  body: z.string(),
+  updated_at: isoTimestamp,
+});
+
+export const RenderedMessageSchema = z.object({
+  subject: nullableString.describe("Email subject or push title; null for SMS"),
+  body: z.string(),
+  locale: z.string().describe("Locale of the template used"),
+  template_id: nullableString.describe("The business's template, or null for the built-in default"),
+});
+
+export const CalendarFeedSchema = z.object({
+  id: z.string(),
+  staff_id: nullableString,
+  customer_id: nullableString,
+  active: z.boolean().describe("False once the feed has been revoked"),
+  last_accessed_at: isoTimestamp.describe("When a calendar app last fetched the feed"),
+  revoked_at: isoTimestamp,
+  created_at: isoTimestamp,
+});
+
+export const ExternalCalendarSchema = z.object({
+  id: z.string(),
+  staff_id: z.string(),
+  staff_name: nullableString,
+  name: nullableString,
+  source_type: z.enum(["url", "file"]),
+  source: z.string().describe("Calendar URL, or file path inside EXTERNAL_CALENDAR_DIR"),
+  busy_block_count: z.number().int().describe("Busy times imported at the last successful sync"),
+  last_synced_at: isoTimestamp,
+  last_error: nullableString.describe("Why the last sync failed, or null when it succeeded"),
+  created_at: isoTimestamp,
+});
+
+export const ExternalBusyBlockSchema = z.object({
+  id: z.string(),
+  staff_id: z.string(),
+  calendar_id: z.string(),
+  summary: nullableString.describe("The event's title in the external calendar; not for customers"),
+  start_time: localTimestamp,
+  end_time: localTimestamp,
+  is_all_day: z.boolean(),
+  timezone: nullableString.describe("IANA timezone of the business"),
+});
+
+export const WebhookEndpointSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  description: nullableString,
+  event_types: z.array(z.string()).describe("Event types sent to the endpoint; empty for all"),
+  is_active: z.boolean(),
+  created_at: isoTimestamp,
+  updated_at: isoTimestamp,
+});
+
+export const WebhookEventSchema = z.object({
+  id: z.string(),
+  event_type: z.enum(WEBHOOK_EVENT_TYPES),
+  payload: z.record(z.unknown()).describe("The event's data, as sent in the request body's data field"),
+  dispatched_at: isoTimestamp.describe("When the event was handed to the subscribed endpoints"),
+  delivery_count: z.number().int().nullable(),
+  created_at: isoTimestamp,
+});
+
+export const WebhookDeliveryAttemptSchema = z.object({
+  attempt: z.number().int(),
+  status_code: z.number().int().nullable().describe("HTTP status of the response, or null when there was none"),
+  response_body: nullableString.describe("Start of the response body"),
+  error: nullableString,
+  duration_ms: z.number().int(),
+  created_at: isoTimestamp,
+});
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string(),
+  event_id: z.string(),
+  event_type: nullableString,
+  endpoint_id: z.string(),
+  url: nullableString,
+  status: z.enum(WEBHOOK_DELIVERY_STATUSES).describe("pending, delivered or failed"),
+  attempts: z.number().int(),
+  next_attempt_at: isoTimestamp.describe("When a failed delivery is retried, if it is"),
+  delivered_at: isoTimestamp,
+  last_status_code: z.number().int().nullable(),
+  last_error: nullableString,
+  is_replay: z.boolean(),
+  attempt_log: z.array(WebhookDeliveryAttemptSchema),
+  created_at: isoTimestamp,
+});
+
+export const DateInterpretationSchema = z.object({
+  expression: z.string().describe("The expression as given, e.g. \"next Tuesday after work\""),
+  start_date: z.string().describe("First business-local date (YYYY-MM-DD)"),
+  end_date: z.string().describe("Last business-local date (YYYY-MM-DD); same as start_date for a single day"),
+  time_window: z.object({
+    from: nullableString.describe("Business-local HH:MM, or null for opening time"),
+    to: nullableString.describe("Business-local HH:MM, or null for closing time"),
+    label: z.string(),
+  }).nullable(),
+  description: z.string().describe("Readable interpretation to confirm with the customer"),
+});
+
+export type Money = z.infer<typeof MoneySchema>;
+
+export function toNullableString(value: unknown): string | null {
+  return value === undefined || value === null || value === '' ? null : String(value);
+}
+
+export function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function fullName(firstName: unknown, lastName: unknown): string | null {
+  const name = [firstName, lastName].filter(Boolean).join(' ');
+  return name || null;
+}
+
+/**
+ * Convert a database timestamp to ISO 8601. Zone-less strings are stored in
+ * UTC, so they are read as UTC rather than in the server's local zone.
+ */
+export function toIso(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+
+  const text = String(value);
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(text);
+  const date = new Date(hasZone ? text : `${text.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? text : date.toISOString();
+}
+
+/**
+ * Like toIso, but rendered as local time in the business's timezone with an
+ * explicit offset (2025-03-09T09:00:00-04:00). Without a zone it falls back to UTC.
+ */
+export function toZonedIso(value: unknown, timeZone?: string): string | null {
+  const iso = toIso(value);
+  if (!iso || !timeZone) return iso;
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : formatInTimeZone(date, timeZone);
+}
+
+// Format a DATE column as YYYY-MM-DD. pg parses DATE into local midnight.
+export function toDateOnly(value: unknown): string | null {
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const pad = (part: number) => String(part).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  const text = toNullableString(value);
+  return text && /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : text;
+}
+
+// Trim a TIME column ("09:00:00") to HH:MM
+export function toTimeOfDay(value: unknown): string | null {
+  const text = toNullableString(value);
+  return text && /^\d{2}:\d{2}/.test(text) ? text.slice(0, 5) : text;
+}
+
+export function money(amountMinor: unknown, currency?: unknown): Money | null {
+  const amount = toNumber(amountMinor);
+  return amount === null ? null : { amount_minor: Math.round(amount), currency: toNullableString(currency) || DEFAULT_CURRENCY };
+}
+
+export function serializeAppointment(row: any, timeZone?: string): z.infer<typeof AppointmentSchema> {
+  return {
+    id: String(row.id ?? row.appointment_id),
+    customer_id: toNullableString(row.customer_id),
+    service_id: toNullableString(row.service_id),
+    staff_id: toNullableString(row.staff_id),
+    status: toNullableString(row.status),
+    start_time: toZonedIso(row.start_time, timeZone),
+    end_time: toZonedIso(row.end_time, timeZone),
+    timezone: timeZone ?? null,
+    duration_minutes: toNumber(row.duration_minutes),
+    price: money(row.price_cents, row.currency),
+    notes: toNullableString(row.notes),
+    customer_name: toNullableString(row.customer_name) ?? fullName(row.customer_first_name, row.customer_last_name),
+    service_name: toNullableString(row.service_name),
+    staff_name: toNullableString(row.staff_name) ?? fullName(row.staff_first_name, row.staff_last_name),
+    series_id: toNullableString(row.series_id),
+    visit_id: toNullableString(row.visit_id),
+    created_at: toIso(row.created_at),
+    updated_at: toIso(row.updated_at),
+  };
+}
+
+export function serializeCustomer(row: any): z.infer<typeof CustomerSchema> {
+  return {
+    id: String(row.id ?? row.customer_id),
+    first_name: toNullableString(row.first_name),
+    last_name: toNullableString(row.last_name),
+    email: toNullableString(row.email),
+    phone: toNullableString(row.phone_number ?? row.phone),
+    notes: toNullableString(row.notes),
+    locale: toNullableString(row.locale),
+    created_at: toIso(row.created_at),
+    updated_at: toIso(row.updated_at),
+  };
+}
+
+export function serializeService(row: any): z.infer<typeof ServiceSchema> {
+  return {
+    id: String(row.id ?? row.service_id),
+    name: String(row.name ?? row.service_name ?? ''),
+    description: toNullableString(row.description),
+    category_name: toNullableString(row.category_name ?? row.category?.name),
+    duration_minutes: toNumber(row.duration_minutes),
+    price: money(row.price_cents, row.currency),
+    is_active: typeof row.is_active === 'boolean' ? row.is_active : null,
+  };
+}
+
+// A service in a list or search result, with the search and popularity fields when present
+export function serializeServiceMatch(row: any): z.infer<typeof ServiceMatchSchema> {
+  const staff = Array.isArray(row.staff) ? row.staff : Array.isArray(row.available_staff) ? row.available_staff : [];
+  return {
+    ...serializeService(row),
+    staff_names: staff
+      .map((member: any) => toNullableString(member.name) ?? fullName(member.first_name, member.last_name))
+      .filter((name: string | null): name is string => name !== null),
+    staff_count: toNumber(row.staff_count ?? row.available_staff_count),
+    score: toNumber(row.similarity_score ?? row.search_score),
+    match_type: toNullableString(row.match_type),
+    booking_count: toNumber(row.booking_count),
+    average_rating: toNumber(row.average_rating),
+  };
+}
+
+export function serializeStaff(row: any): z.infer<typeof StaffSchema> {
+  const services = Array.isArray(row.services) ? row.services : [];
+  const serviceNames = typeof row.services_provided === 'string'
+    ? row.services_provided.split(',').map((name: string) => name.trim()).filter(Boolean)
+    : services.map((service: any) => service.name).filter(Boolean);
+  return {
+    id: String(row.id ?? row.staff_id),
+    first_name: toNullableString(row.first_name),
+    last_name: toNullableString(row.last_name),
+    email: toNullableString(row.email),
+    phone: toNullableString(row.phone_number ?? row.phone),
+    bio: toNullableString(row.bio),
+    is_active: typeof row.is_active === 'boolean' ? row.is_active : null,
+    service_names: serviceNames,
+  };
+}
+
+export function serializeTimeSlot(slot: any, timeZone?: string): z.infer<typeof TimeSlotSchema> {
+  const isTimestamp = (value: unknown) => value instanceof Date || /^\d{4}-\d{2}-\d{2}/.test(String(value ?? ''));
+  const formatTime = (value: unknown) => (isTimestamp(value) ? toZonedIso(value, timeZone) : toTimeOfDay(value));
+  return {
+    start_time: formatTime(slot.start_time),
+    end_time: formatTime(slot.end_time),
+    staff_id: toNullableString(slot.staff_id),
+    staff_name: toNullableString(slot.staff_name) ?? fullName(slot.staff_first_name ?? slot.first_name, slot.staff_last_name ?? slot.last_name),
+    remaining_slots: toNumber(slot.remaining_slots ?? slot.available_slots),
+    total_slots: toNumber(slot.total_slots),
+    available_staff: (Array.isArray(slot.available_staff) ? slot.available_staff : []).map((staff: any) => ({
+      id: toNullableString(staff.id ?? staff.staff_id),
+      name: toNullableString(staff.name) ?? fullName(staff.first_name, staff.last_name),
+    })),
+  };
+}
+
+export function serializeReview(row: any): z.infer<typeof ReviewSchema> {
+  return {
+    id: String(row.id),
+    appointment_id: toNullableString(row.appointment_id),
+    customer_id: toNullableString(row.customer_id),
+    service_id: toNullableString(row.service_id),
+    staff_id: toNullableString(row.staff_id),
+    rating: Number(row.rating),
+    review_text: toNullableString(row.review_text),
+    service_name: toNullableString(row.service_name),
+    staff_name: fullName(row.staff_first_name, row.staff_last_name),
+    appointment_start_time: toIso(row.start_time),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeBusiness(row: any): z.infer<typeof BusinessSchema> {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    description: toNullableString(row.description),
+    phone: toNullableString(row.phone),
+    email: toNullableString(row.email),
+    website: toNullableString(row.website),
+    address: {
+      line1: toNullableString(row.address_line1 ?? row.address),
+      line2: toNullableString(row.address_line2),
+      city: toNullableString(row.city),
+      state: toNullableString(row.state),
+      postal_code: toNullableString(row.postal_code),
+      country: toNullableString(row.country),
+    },
+    timezone: toNullableString(row.timezone),
+    created_at: toIso(row.created_at),
+    updated_at: toIso(row.updated_at),
+  };
+}
+
+export function serializeWorkingHours(row: any): z.infer<typeof WorkingHoursSchema> {
+  return {
+    day_of_week: toNumber(row.day_of_week),
+    day_name: toNullableString(row.day_name),
+    open_time: toTimeOfDay(row.open_time),
+    close_time: toTimeOfDay(row.close_time),
+    is_closed: Boolean(row.is_closed) || (!row.open_time && !row.close_time),
+  };
+}
+
+export function serializeAppointmentChange(
+  action: z.infer<typeof AppointmentChangeSchema>['action'],
+  appointmentId: unknown,
+  details: {
+    status?: unknown;
+    actor?: unknown;
+    reason?: unknown;
+    previous_start_time?: unknown;
+    start_time?: unknown;
+    occurred_at?: unknown;
+  }
+): z.infer<typeof AppointmentChangeSchema> {
+  return {
+    appointment_id: String(appointmentId),
+    action,
+    status: toNullableString(details.status),
+    actor: toNullableString(details.actor),
+    reason: toNullableString(details.reason),
+    previous_start_time: toIso(details.previous_start_time),
+    start_time: toIso(details.start_time),
+    occurred_at: toIso(details.occurred_at),
+  };
+}
+
+export function serializeSlotHold(row: any, timeZone?: string): z.infer<typeof SlotHoldSchema> {
+  return {
+    hold_token: String(row.hold_token),
+    service_id: String(row.service_id),
+    staff_id: String(row.staff_id),
+    start_time: toZonedIso(row.start_time, timeZone),
+    end_time: toZonedIso(row.end_time, timeZone),
+    expires_at: toZonedIso(row.expires_at, timeZone),
+    timezone: timeZone ?? null,
+  };
+}
+
+export function serializeAppointmentSeries(row: any, timeZone?: string): z.infer<typeof AppointmentSeriesSchema> {
+  return {
+    id: String(row.id),
+    customer_id: toNullableString(row.customer_id),
+    service_id: toNullableString(row.service_id),
+    staff_id: toNullableString(row.staff_id),
+    rrule: String(row.rrule),
+    status: row.status === 'canceled' ? 'canceled' : 'active',
+    first_start_time: toZonedIso(row.first_start_time, timeZone ?? row.timezone),
+    duration_minutes: toNumber(row.duration_minutes),
+    timezone: toNullableString(timeZone ?? row.timezone),
+    notes: toNullableString(row.notes),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeWaitlistOffer(row: any, timeZone?: string): z.infer<typeof WaitlistOfferSchema> {
+  return {
+    id: String(row.id),
+    entry_id: toNullableString(row.entry_id),
+    customer_id: toNullableString(row.customer_id),
+    service_id: toNullableString(row.service_id),
+    staff_id: toNullableString(row.staff_id),
+    start_time: toZonedIso(row.start_time, timeZone),
+    end_time: toZonedIso(row.end_time, timeZone),
+    expires_at: toZonedIso(row.expires_at, timeZone),
+    status: toNullableString(row.status),
+    appointment_id: toNullableString(row.appointment_id),
+    timezone: timeZone ?? null,
+  };
+}
+
+// A waitlist entry, with its pending offer when listed with the offer_* columns
+export function serializeWaitlistEntry(row: any, timeZone?: string): z.infer<typeof WaitlistEntrySchema> {
+  return {
+    id: String(row.id),
+    customer_id: toNullableString(row.customer_id),
+    customer_name: fullName(row.customer_first_name, row.customer_last_name),
+    service_id: toNullableString(row.service_id),
+    service_name: toNullableString(row.service_name),
+    staff_id: toNullableString(row.staff_id),
+    staff_name: fullName(row.staff_first_name, row.staff_last_name),
+    earliest_date: toDateOnly(row.earliest_date),
+    latest_date: toDateOnly(row.latest_date),
+    window_start: toTimeOfDay(row.window_start),
+    window_end: toTimeOfDay(row.window_end),
+    priority: toNumber(row.priority) ?? 0,
+    status: toNullableString(row.status),
+    notes: toNullableString(row.notes),
+    offer: row.offer_id
+      ? serializeWaitlistOffer({
+          id: row.offer_id,
+          entry_id: row.id,
+          customer_id: row.customer_id,
+          service_id: row.service_id,
+          staff_id: row.offer_staff_id,
+          start_time: row.offer_start_time,
+          end_time: row.offer_end_time,
+          expires_at: row.offer_expires_at,
+          status: row.offer_status,
+        }, timeZone)
+      : null,
+    created_at: toIso(row.created_at),
+  };
+}
+
+// A class session; enrolled_count comes from the listing queries
+export function serializeClassSession(row: any, timeZone?: string): z.infer<typeof ClassSessionSchema> {
+  const capacity = toNumber(row.capacity) ?? 0;
+  const enrolled = toNumber(row.enrolled_count) ?? 0;
+  return {
+    id: String(row.id),
+    service_id: toNullableString(row.service_id),
+    service_name: toNullableString(row.service_name),
+    staff_id: toNullableString(row.staff_id),
+    instructor_name: fullName(row.staff_first_name, row.staff_last_name),
+    start_time: toZonedIso(row.start_time, timeZone),
+    end_time: toZonedIso(row.end_time, timeZone),
+    capacity,
+    enrolled_count: enrolled,
+    seats_left: Math.max(capacity - enrolled, 0),
+    status: toNullableString(row.status),
+    notes: toNullableString(row.notes),
+    timezone: timeZone ?? null,
+  };
+}
+
+export function serializeClassEnrollment(row: any): z.infer<typeof ClassEnrollmentSchema> {
+  return {
+    id: String(row.id),
+    session_id: toNullableString(row.session_id),
+    customer_id: toNullableString(row.customer_id),
+    customer_name: fullName(row.customer_first_name, row.customer_last_name),
+    customer_email: toNullableString(row.customer_email),
+    customer_phone: toNullableString(row.customer_phone),
+    status: toNullableString(row.status),
+    notes: toNullableString(row.notes),
+    enrolled_at: toIso(row.enrolled_at),
+    cancelled_at: toIso(row.cancelled_at),
+  };
+}
+
+export function serializeResource(row: any): z.infer<typeof ResourceSchema> {
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    resource_type_id: toNullableString(row.resource_type_id),
+    resource_type_name: toNullableString(row.resource_type_name),
+    is_active: row.is_active !== false,
+    notes: toNullableString(row.notes),
+  };
+}
+
+export function serializeServiceResourceRequirement(row: any): z.infer<typeof ServiceResourceRequirementSchema> {
+  return {
+    service_id: String(row.service_id),
+    service_name: toNullableString(row.service_name),
+    resource_type_id: String(row.resource_type_id),
+    resource_type_name: toNullableString(row.resource_type_name),
+    quantity: toNumber(row.quantity) ?? 0,
+  };
+}
+
+// A resource type as returned by listResources, with its units and requirements
+export function serializeResourceType(row: any): z.infer<typeof ResourceTypeSchema> {
+  const resources = (row.resources ?? []).map((unit: any) => serializeResource({ ...unit, resource_type_name: row.name }));
+  return {
+    id: String(row.id),
+    name: String(row.name ?? ''),
+    description: toNullableString(row.description),
+    unit_count: resources.filter((unit: z.infer<typeof ResourceSchema>) => unit.is_active).length,
+    resources,
+    required_by: (row.required_by ?? []).map((requirement: any) =>
+      serializeServiceResourceRequirement({ ...requirement, resource_type_name: row.name })
+    ),
+  };
+}
+
+// A visit with its segment appointments (as returned by getVisit)
+export function serializeVisit(visit: any, segments: any[], timeZone?: string): z.infer<typeof VisitSchema> {
+  const prices = segments.map((segment) => toNumber(segment.price_cents));
+  return {
+    id: String(visit.id),
+    customer_id: toNullableString(visit.customer_id),
+    customer_name: fullName(visit.customer_first_name, visit.customer_last_name),
+    status: toNullableString(visit.status),
+    start_time: toZonedIso(visit.start_time, timeZone),
+    end_time: toZonedIso(visit.end_time, timeZone),
+    total_duration_minutes: Math.round((new Date(visit.end_time).getTime() - new Date(visit.start_time).getTime()) / 60000),
+    total_price: prices.length > 0 && prices.every((price) => price !== null)
+      ? money(prices.reduce((total, price) => total! + price!, 0), segments[0].currency)
+      : null,
+    segments: segments.map((segment) => serializeAppointment(segment, timeZone)),
+    notes: toNullableString(visit.notes),
+    timezone: timeZone ?? null,
+  };
+}
+
+export function serializeVisitSegment(segment: any, timeZone?: string): z.infer<typeof VisitSegmentSchema> {
+  return {
+    sequence: segment.sequence,
+    service_id: String(segment.service_id),
+    service_name: toNullableString(segment.service_name),
+    staff_id: String(segment.staff_id),
+    start_time: toZonedIso(segment.start_time, timeZone),
+    end_time: toZonedIso(segment.end_time, timeZone),
+  };
+}
+
+export function serializeAlternative(alternative: any, timeZone?: string): z.infer<typeof AlternativeSchema> {
+  return {
+    kind: alternative.kind,
+    service_id: String(alternative.service_id),
+    service_name: toNullableString(alternative.service_name),
+    staff_id: String(alternative.staff_id),
+    staff_name: toNullableString(alternative.staff_name),
+    start_time: toZonedIso(alternative.start_time, timeZone),
+    end_time: toZonedIso(alternative.end_time, timeZone),
+    reason: alternative.reason,
+  };
+}
+
+export function serializeDuplicateCandidate(candidate: any): z.infer<typeof DuplicateCandidateSchema> {
+  return {
+    score: candidate.score,
+    reasons: candidate.reasons,
+    customers: candidate.customers.map((customer: any) => ({
+      ...serializeCustomer(customer),
+      appointment_count: toNumber(customer.appointment_count),
+    })),
+  };
+}
+
+export function serializeAppointmentNotification(row: any, timeZone?: string): z.infer<typeof AppointmentNotificationSchema> {
+  return {
+    id: String(row.id),
+    appointment_id: String(row.appointment_id),
+    kind: row.kind,
+    channel: row.notification_type,
+    status: row.status,
+    scheduled_at: toZonedIso(row.scheduled_at, timeZone),
+    next_attempt_at: toZonedIso(row.next_attempt_at, timeZone),
+    sent_at: toZonedIso(row.sent_at, timeZone),
+    recipient: toNullableString(row.recipient),
+    attempts: Number(row.attempts ?? 0),
+    last_error: toNullableString(row.last_error),
+  };
+}
+
+export function serializeMessageTemplate(row: any): z.infer<typeof MessageTemplateSchema> {
+  return {
+    id: String(row.id),
+    kind: row.kind,
+    channel: row.channel,
+    locale: String(row.locale),
+    subject: toNullableString(row.subject),
+    body: String(row.body),
+    updated_at: toIso(row.updated_at),
+  };
+}
+
+export function serializeCalendarFeed(row: any): z.infer<typeof CalendarFeedSchema> {
+  return {
+    id: String(row.id),
+    staff_id: toNullableString(row.staff_id),
+    customer_id: toNullableString(row.customer_id),
+    active: !row.revoked_at,
+    last_accessed_at: toIso(row.last_accessed_at),
+    revoked_at: toIso(row.revoked_at),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeExternalCalendar(row: any): z.infer<typeof ExternalCalendarSchema> {
+  return {
+    id: String(row.id),
+    staff_id: String(row.staff_id),
+    staff_name: fullName(row.staff_first_name, row.staff_last_name),
+    name: toNullableString(row.name),
+    source_type: row.source_type,
+    source: String(row.source),
+    busy_block_count: Number(row.busy_block_count ?? 0),
+    last_synced_at: toIso(row.last_synced_at),
+    last_error: toNullableString(row.last_error),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeExternalBusyBlock(row: any, timeZone?: string): z.infer<typeof ExternalBusyBlockSchema> {
+  return {
+    id: String(row.id),
+    staff_id: String(row.staff_id),
+    calendar_id: String(row.calendar_id),
+    summary: toNullableString(row.summary),
+    start_time: toZonedIso(row.start_time, timeZone),
+    end_time: toZonedIso(row.end_time, timeZone),
+    is_all_day: Boolean(row.is_all_day),
+    timezone: timeZone ?? null,
+  };
+}
+
+export function serializeWebhookEndpoint(row: any): z.infer<typeof WebhookEndpointSchema> {
+  return {
+    id: String(row.id),
+    url: String(row.url),
+    description: toNullableString(row.description),
+    event_types: Array.isArray(row.event_types) ? row.event_types.map(String) : [],
+    is_active: Boolean(row.is_active),
+    created_at: toIso(row.created_at),
+    updated_at: toIso(row.updated_at),
+  };
+}
+
+export function serializeWebhookEvent(row: any): z.infer<typeof WebhookEventSchema> {
+  return {
+    id: String(row.id),
+    event_type: row.event_type,
+    payload: typeof row.payload === 'string' ? JSON.parse(row.payload) : row.payload ?? {},
+    dispatched_at: toIso(row.dispatched_at),
+    delivery_count: toNumber(row.delivery_count),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeWebhookDelivery(row: any): z.infer<typeof WebhookDeliverySchema> {
+  const attempts = typeof row.attempt_log === 'string' ? JSON.parse(row.attempt_log) : row.attempt_log ?? [];
+  return {
+    id: String(row.id),
+    event_id: String(row.event_id),
+    event_type: toNullableString(row.event_type),
+    endpoint_id: String(row.endpoint_id),
+    url: toNullableString(row.url),
+    status: row.status,
+    attempts: Number(row.attempts ?? 0),
+    next_attempt_at: row.status === 'pending' ? toIso(row.next_attempt_at) : null,
+    delivered_at: toIso(row.delivered_at),
+    last_status_code: toNumber(row.last_status_code),
+    last_error: toNullableString(row.last_error),
+    is_replay: Boolean(row.is_replay),
+    attempt_log: attempts.map((attempt: any) => ({
+      attempt: Number(attempt.attempt),
+      status_code: toNumber(attempt.status_code),
+      response_body: toNullableString(attempt.response_body),
+      error: toNullableString(attempt.error),
+      duration_ms: Number(attempt.duration_ms ?? 0),
+      created_at: toIso(attempt.created_at),
+    })),
+    created_at: toIso(row.created_at),
+  };
+}
+
+export function serializeCustomerMerge(row: any): z.infer<typeof CustomerMergeSchema> {
+  const moved = typeof row.moved === 'string' ? JSON.parse(row.moved) : row.moved ?? {};
+  const mergedCustomer = typeof row.merged_customer === 'string' ? JSON.parse(row.merged_customer) : row.merged_customer;
+  return {
+    id: String(row.id),
+    survivor_id: toNullableString(row.survivor_id),
+    merged_customer_id: String(row.merged_customer_id),
+    merged_customer: serializeCustomer(mergedCustomer),
+    moved,
+    reason: toNullableString(row.reason),
+    created_at: toIso(row.created_at),
+  };
+}
@@ -0,0 +1,86 @@
+// "First available" search: filters and ranking for slots found across
+// several days and staff members. Slot generation lives in the data layer;
+// this module only decides which slots a customer's constraints allow and in
+// which order they are offered.
+
+export const DEFAULT_SEARCH_DAYS = 14;
+export const MAX_SEARCH_DAYS = 62;
+export const MAX_SEARCH_RESULTS = 20;
+
+export const TIMES_OF_DAY = ['morning', 'afternoon', 'evening'] as const;
+export type TimeOfDay = typeof TIMES_OF_DAY[number];
+
+// Business-local start times (inclusive) and ends (exclusive) of each window, as HH:MM:SS
+const TIME_OF_DAY_RANGES: Record<TimeOfDay, [string, string]> = {
+  morning: ['00:00:00', '12:00:00'],
+  afternoon: ['12:00:00', '17:00:00'],
+  evening: ['17:00:00', '24:00:00'],
+};
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export type SlotOrder = 'earliest' | 'best';
+
+export interface SlotSearchFilters {
+  times_of_day?: TimeOfDay[];
+  weekdays?: Weekday[];
+}
+
+export interface SlotCandidateStaff {
+  id: string;
+  name: string;
+  idle_minutes: number; // idle time the slot leaves before it in the staff member's day
+}
+
+export interface SlotCandidate {
+  date: string; // business-local YYYY-MM-DD
+  start_time: Date;
+  end_time: Date;
+  time_of_day: TimeOfDay;
+  available_staff: SlotCandidateStaff[];
+  available_slots: number;
+}
+
+// Window a business-local HH:MM:SS start time falls in
+export function timeOfDay(localTime: string): TimeOfDay {
+  return TIMES_OF_DAY.find((name) => localTime < TIME_OF_DAY_RANGES[name][1]) ?? 'evening';
+}
+
+// Windows a business-local HH:MM range overlaps, or the one a single time falls in
+export function timesOfDayInRange(from: string | null, to: string | null): TimeOfDay[] {
+  const start = `${from ?? '00:00'}:00`;
+  const end = `${to ?? '24:00'}:00`;
+  if (start === end) {
+    return [timeOfDay(start)];
+  }
+  return TIMES_OF_DAY.filter((name) => start < TIME_OF_DAY_RANGES[name][1] && end > TIME_OF_DAY_RANGES[name][0]);
+}
+
+export function matchesWeekday(dayOfWeek: number, filters: SlotSearchFilters): boolean {
+  return !filters.weekdays?.length || filters.weekdays.includes(WEEKDAYS[dayOfWeek]);
+}
+
+export function matchesTimeOfDay(localTime: string, filters: SlotSearchFilters): boolean {
+  return !filters.times_of_day?.length || filters.times_of_day.includes(timeOfDay(localTime));
+}
+
+/**
+ * Pick `limit` slots. "earliest" keeps chronological order; "best" prefers
+ * slots that leave the least idle time before them, so bookings pack the
+ * staff's days, then earlier ones. Staff in each slot are listed best-first.
+ */
+export function rankSlots(slots: SlotCandidate[], order: SlotOrder, limit: number): SlotCandidate[] {
+  const withStaffOrdered = slots.map((slot) => ({
+    ...slot,
+    available_staff: [...slot.available_staff].sort((a, b) => a.idle_minutes - b.idle_minutes),
+  }));
+  const byStart = (a: SlotCandidate, b: SlotCandidate) => a.start_time.getTime() - b.start_time.getTime();
+
+  if (order === 'earliest') {
+    return withStaffOrdered.sort(byStart).slice(0, limit);
+  }
+  return withStaffOrdered
+    .sort((a, b) => a.available_staff[0].idle_minutes - b.available_staff[0].idle_minutes || byStart(a, b))
+    .slice(0, limit);
+}
@@ -0,0 +1,280 @@
+// Customer message templates. Each business can word its confirmation,
+// reminder, reschedule, cancellation and follow-up messages per channel and
+// locale; anything it has not defined uses the built-in English defaults.
+//
+// Templates are plain text with {{variables}}, optional filters and sections:
+//   {{customer.first_name}}                   a value from the message context
+//   {{start_time | date:"EEE d MMM HH:mm"}}   a date in the business's timezone
+//   {{notes | default:"none"}}, | upper, | lower
+//   {{#staff.name}} with {{staff.name}}{{/staff.name}}   only when set ({{^...}} when not)
+
+import { DeliveryChannel } from './delivery.js';
+import { NotificationKind } from './notifications.js';
+import { getZonedParts } from './timezone.js';
+
+export const DEFAULT_LOCALE = 'en';
+
+// Every variable a template may use; dates are start_time and end_time
+export const TEMPLATE_VARIABLES = [
+  'customer.first_name',
+  'customer.last_name',
+  'customer.name',
+  'service.name',
+  'service.duration_minutes',
+  'service.price',
+  'staff.name',
+  'staff.first_name',
+  'business.name',
+  'business.phone',
+  'business.email',
+  'appointment.id',
+  'appointment.status',
+  'appointment.notes',
+  'start_time',
+  'end_time',
+] as const;
+
+const TEMPLATE_FILTERS = ['date', 'default', 'upper', 'lower'];
+
+export interface MessageContext {
+  customer: { first_name: string | null; last_name: string | null; name: string | null };
+  service: { name: string | null; duration_minutes: number | null; price: string | null };
+  staff: { name: string | null; first_name: string | null };
+  business: { name: string | null; phone: string | null; email: string | null };
+  appointment: { id: string; status: string | null; notes: string | null };
+  start_time: Date;
+  end_time: Date;
+  time_zone: string;
+}
+
+export interface MessageTemplate {
+  id?: string;
+  kind: NotificationKind;
+  channel: DeliveryChannel;
+  locale: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface RenderedMessage {
+  subject: string | null;
+  body: string;
+  locale: string;
+  // The business's template ID, or null for a built-in default
+  template_id: string | null;
+}
+
+const WHEN = '{{start_time | date:"EEEE d MMMM yyyy \'at\' HH:mm"}}';
+const WHAT = '{{service.name}}{{#staff.name}} with {{staff.name}}{{/staff.name}}';
+
+export const DEFAULT_TEMPLATES: Record<NotificationKind, { subject: string; body: string }> = {
+  confirmation: {
+    subject: 'Your appointment at {{business.name}} is booked',
+    body: `Hi {{customer.first_name}}, your ${WHAT} at {{business.name}} is booked for ${WHEN}.`,
+  },
+  reminder: {
+    subject: 'Reminder: your appointment at {{business.name}}',
+    body: `Hi {{customer.first_name}}, this is a reminder of your ${WHAT} at {{business.name}} on ${WHEN}.`,
+  },
+  rescheduled: {
+    subject: 'Your appointment at {{business.name}} has moved',
+    body: `Hi {{customer.first_name}}, your ${WHAT} at {{business.name}} has moved to ${WHEN}.`,
+  },
+  cancellation: {
+    subject: 'Your appointment at {{business.name}} is cancelled',
+    body: `Hi {{customer.first_name}}, your ${WHAT} at {{business.name}} on ${WHEN} has been cancelled.`,
+  },
+  follow_up: {
+    subject: 'Thank you for visiting {{business.name}}',
+    body: 'Hi {{customer.first_name}}, thank you for your {{service.name}} at {{business.name}}. We would love to hear how it went.',
+  },
+};
+
+// The canonical form of a BCP 47 locale ("pt-br" -> "pt-BR"), or null if it is not one
+export function normalizeLocale(locale: string | null | undefined): string | null {
+  if (!locale?.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(locale.trim())[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locales to try in order: the customer's, its language, the business's
+ * default and its language. "pt-BR" and "es" give ["pt-BR", "pt", "es"].
+ */
+export function localeFallbacks(...locales: Array<string | null | undefined>): string[] {
+  const chain: string[] = [];
+  for (const locale of locales) {
+    const normalized = normalizeLocale(locale);
+    if (!normalized) continue;
+    for (const candidate of [normalized, normalized.split('-')[0]]) {
+      if (!chain.includes(candidate)) chain.push(candidate);
+    }
+  }
+  return chain;
+}
+
+// Date pattern tokens, as in CLDR / date-fns: EEEE EEE d dd MMMM MMM MM M yyyy yy HH H hh h mm a, 'literal'
+const DATE_TOKENS = /'([^']*)'|EEEE|EEE|dd|d|MMMM|MMM|MM|M|yyyy|yy|HH|H|hh|h|mm|a/g;
+
+function namePart(instant: Date, timeZone: string, locale: string, options: Intl.DateTimeFormatOptions): string {
+  return new Intl.DateTimeFormat(locale, { timeZone, ...options }).format(instant);
+}
+
+/**
+ * Format an instant in the business's timezone with a date pattern such as
+ * "EEE d MMM HH:mm". Day and month names are in the given locale.
+ */
+export function formatDatePattern(instant: Date, pattern: string, timeZone: string, locale: string = DEFAULT_LOCALE): string {
+  const parts = getZonedParts(instant, timeZone);
+  const [year, month, day] = parts.date.split('-');
+  const [hour, minute] = parts.time.split(':');
+  const hour12 = Number(hour) % 12 || 12;
+
+  return pattern.replace(DATE_TOKENS, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'EEEE': return namePart(instant, timeZone, locale, { weekday: 'long' });
+      case 'EEE': return namePart(instant, timeZone, locale, { weekday: 'short' });
+      case 'dd': return day;
+      case 'd': return String(Number(day));
+      case 'MMMM': return namePart(instant, timeZone, locale, { month: 'long' });
+      case 'MMM': return namePart(instant, timeZone, locale, { month: 'short' });
+      case 'MM': return month;
+      case 'M': return String(Number(month));
+      case 'yyyy': return year;
+      case 'yy': return year.slice(-2);
+      case 'HH': return hour;
+      case 'H': return String(Number(hour));
+      case 'hh': return String(hour12).padStart(2, '0');
+      case 'h': return String(hour12);
+      case 'mm': return minute;
+      default: return Number(hour) < 12 ? 'AM' : 'PM';
+    }
+  });
+}
+
+const SECTION = /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const TAG = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const FILTER = /^(\w+)(?::\s*"((?:[^"\\]|\\.)*)")?$/;
+
+function lookup(context: MessageContext, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+}
+
+function applyFilter(value: unknown, filter: string, context: MessageContext, locale: string): unknown {
+  const [, name, argument] = FILTER.exec(filter) ?? [];
+  switch (name) {
+    case 'date':
+      return value instanceof Date ? formatDatePattern(value, argument ?? 'EEE d MMM HH:mm', context.time_zone, locale) : value;
+    case 'default':
+      return value === null || value === undefined || value === '' ? argument ?? '' : value;
+    case 'upper':
+      return value == null ? value : String(value).toLocaleUpperCase(locale);
+    case 'lower':
+      return value == null ? value : String(value).toLocaleLowerCase(locale);
+    default:
+      return value;
+  }
+}
+
+function isSet(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '' && value !== false;
+}
+
+/**
+ * Render a template against a message context. Unset variables render as
+ * empty text; dates without a filter use the locale's full date and short time.
+ */
+export function renderTemplate(template: string, context: MessageContext, locale: string = DEFAULT_LOCALE): string {
+  let text = template;
+  // Sections may contain other sections; expand until none are left
+  for (let previous = ''; previous !== text; ) {
+    previous = text;
+    text = text.replace(SECTION, (_match, type, path, inner) => (isSet(lookup(context, path)) === (type === '#') ? inner : ''));
+  }
+
+  return text.replace(TAG, (_match, expression: string) => {
+    const [path, ...filters] = expression.split('|').map((part) => part.trim());
+    const value = filters.reduce((current, filter) => applyFilter(current, filter, context, locale), lookup(context, path));
+    if (value instanceof Date) {
+      return new Intl.DateTimeFormat(locale, { timeZone: context.time_zone, dateStyle: 'full', timeStyle: 'short' }).format(value);
+    }
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+// Problems with a template's variables and filters, in plain words; empty when it is valid
+export function validateTemplate(template: string): string[] {
+  const errors: string[] = [];
+  const known = TEMPLATE_VARIABLES as readonly string[];
+  const withoutSections = template.replace(/\{\{[#^/]\s*([\w.]+)\s*\}\}/g, (_match, path) => {
+    if (!known.includes(path)) errors.push(`Unknown variable in section: ${path}`);
+    return '';
+  });
+
+  for (const [, expression] of withoutSections.matchAll(TAG)) {
+    const [path, ...filters] = expression.split('|').map((part) => part.trim());
+    if (!known.includes(path)) {
+      errors.push(`Unknown variable: ${path}`);
+    }
+    for (const filter of filters) {
+      const name = FILTER.exec(filter)?.[1];
+      if (!name || !TEMPLATE_FILTERS.includes(name)) {
+        errors.push(`Unknown filter: ${filter}`);
+      }
+    }
+  }
+
+  const opened = [...template.matchAll(/\{\{[#^]\s*([\w.]+)\s*\}\}/g)].map((match) => match[1]);
+  const closed = [...template.matchAll(/\{\{\/\s*([\w.]+)\s*\}\}/g)].map((match) => match[1]);
+  if (opened.length !== closed.length || opened.some((path) => !closed.includes(path))) {
+    errors.push('Every {{#section}} or {{^section}} needs a matching {{/section}}');
+  }
+  return errors;
+}
+
+/**
+ * The business template for a message, trying each locale in turn, or null
+ * when the business has none for this kind and channel.
+ */
+export function selectTemplate(
+  templates: MessageTemplate[],
+  kind: NotificationKind,
+  channel: DeliveryChannel,
+  locales: string[]
+): MessageTemplate | null {
+  for (const locale of locales) {
+    const match = templates.find(
+      (template) => template.kind === kind && template.channel === channel && template.locale.toLowerCase() === locale.toLowerCase()
+    );
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Render a customer message from the business's best-matching template, or
+ * the built-in default. SMS messages have no subject; push notifications use
+ * it as their title.
+ */
+export function renderMessage(
+  kind: NotificationKind,
+  channel: DeliveryChannel,
+  context: MessageContext,
+  options: { templates?: MessageTemplate[]; locales?: string[] } = {}
+): RenderedMessage {
+  const template = selectTemplate(options.templates ?? [], kind, channel, options.locales ?? []);
+  const locale = template?.locale ?? DEFAULT_LOCALE;
+  const subject = template ? template.subject : DEFAULT_TEMPLATES[kind].subject;
+  const body = template ? template.body : DEFAULT_TEMPLATES[kind].body;
+
+  return {
+    subject: channel === 'sms' || !subject ? null : renderTemplate(subject, context, locale),
+    body: renderTemplate(body, context, locale),
+    locale,
+    template_id: template?.id ?? null,
+  };
+}
@@ -0,0 +1,196 @@
+// Wall-clock <-> instant conversion for business timezones. Appointment
+// timestamps are stored as UTC in zone-less TIMESTAMP columns, while working
+// hours, time off and requested dates are wall-clock values in the business's
+// IANA timezone. Everything here goes through Intl so results never depend on
+// the server's own TZ, and DST transitions follow the tz database.
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+export interface ZonedParts {
+  date: string;       // YYYY-MM-DD
+  time: string;       // HH:MM:SS
+  dayOfWeek: number;  // 0 = Sunday
+  offsetMinutes: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fall back to UTC for missing or unknown zone names rather than failing every lookup
+export function normalizeTimeZone(timeZone: unknown): string {
+  const name = typeof timeZone === 'string' ? timeZone.trim() : '';
+  return name && isValidTimeZone(name) ? name : DEFAULT_TIMEZONE;
+}
+
+function parseDate(date: string): [number, number, number] {
+  const match = DATE_PATTERN.exec(date);
+  if (!match) {
+    throw new Error(`Invalid date: ${date}. Please use YYYY-MM-DD format.`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+function parseTime(time: string): [number, number, number] {
+  const match = TIME_PATTERN.exec(time);
+  if (!match) {
+    throw new Error(`Invalid time: ${time}. Please use HH:MM format.`);
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+}
+
+// Wall-clock fields of an instant in the given zone, as a UTC timestamp
+function wallClockMs(instant: Date, timeZone: string): number {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+}
+
+/**
+ * UTC offset of the zone at the given instant, in minutes (e.g. -240 for
+ * New York in summer, 420 for Jakarta).
+ */
+export function getOffsetMinutes(instant: Date, timeZone: string): number {
+  const wholeSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClockMs(instant, timeZone) - wholeSeconds) / MINUTE_MS);
+}
+
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const wall = new Date(wallClockMs(instant, timeZone));
+  return {
+    date: `${wall.getUTCFullYear()}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`,
+    time: `${pad(wall.getUTCHours())}:${pad(wall.getUTCMinutes())}:${pad(wall.getUTCSeconds())}`,
+    dayOfWeek: wall.getUTCDay(),
+    offsetMinutes: getOffsetMinutes(instant, timeZone),
+  };
+}
+
+// Day of week (0 = Sunday) of a calendar date, independent of any timezone
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = parseDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = parseDate(date);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant at which the given wall-clock date and time occurs in the zone.
+ * A time repeated when clocks fall back resolves to its first occurrence; a
+ * time skipped when clocks spring forward is moved forward by the gap
+ * (02:30 on a spring-forward night in New York becomes 03:30 EDT).
+ */
+export function zonedTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = parseDate(date);
+  const [hours, minutes, seconds] = parseTime(time);
+  const wallMs = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Offsets either side of the wall time cover any transition that day
+  const offsetBefore = getOffsetMinutes(new Date(wallMs - DAY_MS / 2), timeZone);
+  const offsetAfter = getOffsetMinutes(new Date(wallMs + DAY_MS / 2), timeZone);
+
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map((offset) => wallMs - offset * MINUTE_MS)
+    .filter((ms) => wallClockMs(new Date(ms), timeZone) === wallMs)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates.length > 0 ? candidates[0] : wallMs - offsetBefore * MINUTE_MS);
+}
+
+// Whether the wall-clock time exists on that date (false inside a spring-forward gap)
+export function isExistingLocalTime(date: string, time: string, timeZone: string): boolean {
+  const parts = getZonedParts(zonedTimeToInstant(date, time, timeZone), timeZone);
+  const [hours, minutes] = parseTime(time);
+  return parts.date === date && parts.time.slice(0, 5) === `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Parse an ISO 8601 date-time. Values with an explicit offset or Z are taken
+ * as-is; zone-less values are wall-clock times in the business's zone.
+ */
+export function parseDateTime(value: string | Date, timeZone: string): Date {
+  if (value instanceof Date) return value;
+
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid date-time: ${value}. Please use ISO format (YYYY-MM-DDTHH:MM:SS, optionally with an offset).`);
+  }
+
+  const [, date, time, zone] = match;
+  if (!zone) {
+    return zonedTimeToInstant(date, time, timeZone);
+  }
+
+  // Date only accepts Z or ±HH:MM, so normalise ±HH and ±HHMM
+  const digits = zone.replace(/\D/g, '');
+  const offset = zone.toUpperCase() === 'Z' ? 'Z' : `${zone[0]}${digits.slice(0, 2)}:${digits.slice(2, 4) || '00'}`;
+  const [hours, minutes, seconds] = parseTime(time);
+  const instant = new Date(`${date}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${offset}`);
+  if (isNaN(instant.getTime())) {
+    throw new Error(`Invalid date-time: ${value}`);
+  }
+  return instant;
+}
+
+export function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+/**
+ * ISO 8601 local time with an explicit offset, e.g. 2025-03-09T09:00:00-04:00.
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const parts = getZonedParts(instant, timeZone);
+  return `${parts.date}T${parts.time}${formatOffset(parts.offsetMinutes)}`;
+}
+
+/**
+ * The UTC instants bounding a business-local calendar day. The day is 23 or
+ * 25 hours long across a DST transition.
+ */
+export function getLocalDayRange(date: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToInstant(date, '00:00', timeZone),
+    end: zonedTimeToInstant(addDays(date, 1), '00:00', timeZone),
+  };
+}
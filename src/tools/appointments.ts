@@ -0,0 +1,434 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  dateTimeArgument,
+  appointmentResult,
+  appointmentListResult,
+  alternativesResult,
+  alternativesText,
+  VERIFY_HINT,
+} from "./shared.js";
+import {
+  AppointmentChangeSchema,
+  ConflictSchema,
+  WaitlistOfferSchema,
+  serializeAlternative,
+  serializeAppointment,
+  serializeAppointmentChange,
+  serializeWaitlistOffer,
+  toZonedIso,
+} from "../serializers.js";
+import {
+  ensureBusinessExists,
+  createAppointment,
+  getAppointments,
+  getAppointment,
+  deleteAppointment,
+  updateAppointment,
+  cancelAppointment,
+  rescheduleAppointment,
+  confirmAppointment,
+  completeAppointment,
+  checkAppointmentConflict,
+  findAlternatives,
+} from "../database.js";
+import { isCustomerVerified, maskEmail, maskPhone, requireVerifiedCustomer } from "../verification.js";
+
+// Conflicts that leave nothing to suggest alternatives for
+const NO_ALTERNATIVE_CONFLICTS = ['SERVICE_NOT_FOUND', 'SERVICE_INACTIVE', 'INVALID_TIME_RANGE'];
+
+// Tell the agent who the freed slot was offered to
+function waitlistOfferText(offer: any, timeZone: string): string {
+  if (!offer) return '';
+  return `\n\n📋 The freed slot was offered to waitlisted customer ${offer.customer_id} (offer ID: ${offer.id}) until ${toZonedIso(offer.expires_at, timeZone)}`;
+}
+
+export const appointmentTools = [
+  defineTool({
+    name: "create_appointment",
+    description: "Create a new appointment",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().optional().describe("The staff member ID (optional)"),
+      start_time: z.string().min(1, "Start time is required").describe("Start time in ISO format (e.g., 2024-01-15T10:00:00Z or 2024-01-15T10:00:00-05:00); without an offset it is the business's local time"),
+      end_time: z.string().min(1, "End time is required").describe("End time in ISO format (e.g., 2024-01-15T11:00:00Z or 2024-01-15T11:00:00-05:00); without an offset it is the business's local time"),
+      notes: z.string().optional().describe("Optional notes for the appointment"),
+    }),
+    outputSchema: appointmentResult,
+    errorMessage: "Error creating appointment",
+    handler: async (args, { businessId, timeZone }) => {
+      const appointmentData = { ...args };
+
+      // Ensure business exists
+      await ensureBusinessExists(businessId);
+
+      const appointment = await createAppointment(businessId, appointmentData);
+
+      return {
+        text: `Appointment created successfully!\n\nID: ${appointment.id}\nCustomer ID: ${appointment.customer_id}\nService ID: ${appointment.service_id}\nStart Time: ${toZonedIso(appointment.start_time, timeZone)}\nEnd Time: ${toZonedIso(appointment.end_time, timeZone)}${appointment.notes ? `\nNotes: ${appointment.notes}` : ''}`,
+        data: { appointment: serializeAppointment(appointment, timeZone) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_appointments",
+    description: "List appointments with optional filters",
+    inputSchema: z.object({
+      customer_id: z.string().optional().describe("Filter by customer ID (optional)"),
+      service_id: z.string().optional().describe("Filter by service ID (optional)"),
+      staff_id: z.string().optional().describe("Filter by staff ID (optional)"),
+      status: z.string().optional().describe("Filter by status (optional)"),
+      start_date: z.string().optional().describe("Filter appointments from this date (optional; YYYY-MM-DD is a business-local day, or an ISO date-time)"),
+      end_date: z.string().optional().describe("Filter appointments until this date (optional; YYYY-MM-DD includes that whole business-local day)"),
+    }),
+    outputSchema: appointmentListResult,
+    errorMessage: "Error listing appointments",
+    handler: async (args, { businessId, timeZone, session }) => {
+      const filters = args;
+      // A customer's history is theirs, as with get_customer_appointments
+      if (filters.customer_id) {
+        requireVerifiedCustomer(session, filters.customer_id);
+      }
+
+      const appointments = await getAppointments(businessId, filters);
+
+      if (!appointments || appointments.length === 0) {
+        return {
+          text: "No appointments found.",
+          data: { appointments: [], count: 0 },
+        };
+      }
+
+      const appointmentList = appointments
+        .map((apt: any) => 
+          `ID: ${apt.id}\nCustomer: ${apt.customer_first_name} ${apt.customer_last_name}\nService: ${apt.service_name}\nStaff: ${apt.staff_first_name ? `${apt.staff_first_name} ${apt.staff_last_name}` : 'Not assigned'}\nStart: ${toZonedIso(apt.start_time, timeZone)}\nEnd: ${toZonedIso(apt.end_time, timeZone)}\nStatus: ${apt.status}\n---`
+        )
+        .join("\n");
+      // As in get_appointment, notes of customers this session has not verified stay hidden
+      const results = appointments.map((apt: any) => {
+        const details = serializeAppointment(apt, timeZone);
+        return !apt.customer_id || isCustomerVerified(session, apt.customer_id) ? details : { ...details, notes: null };
+      });
+      const redacted = appointments.some((apt: any) => apt.customer_id && !isCustomerVerified(session, apt.customer_id));
+
+      return {
+        text: `Found ${appointments.length} appointment(s):\n\n${appointmentList}${redacted ? `\n\n${VERIFY_HINT}` : ''}`,
+        data: { appointments: results, count: appointments.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_appointment",
+    description: "Get a specific appointment by ID",
+    inputSchema: z.object({
+      id: z.string().min(1, "Appointment ID is required").describe("The appointment ID"),
+    }),
+    outputSchema: appointmentResult.extend({
+      verified: z.boolean().describe("False when the customer's contact details and the notes are hidden because the session has not verified the customer"),
+    }),
+    errorMessage: "Error retrieving appointment",
+    handler: async (args, { businessId, timeZone, session }) => {
+      const { id } = args;
+
+      const appointment = await getAppointment(businessId, id);
+      // An appointment ID alone does not prove who is asking
+      const verified = !appointment.customer_id || isCustomerVerified(session, appointment.customer_id);
+      const email = verified ? appointment.customer_email : maskEmail(appointment.customer_email);
+      const phone = verified ? appointment.customer_phone : maskPhone(appointment.customer_phone);
+      const details = serializeAppointment(appointment, timeZone);
+      if (!verified) {
+        details.notes = null;
+      }
+
+      return {
+        text: `Appointment Details:\n\nID: ${appointment.id}\nCustomer: ${appointment.customer_first_name} ${appointment.customer_last_name}\nEmail: ${email || 'Not provided'}\nPhone: ${phone || 'Not provided'}\nService: ${appointment.service_name}\nDescription: ${appointment.service_description || 'No description'}\nDuration: ${appointment.duration_minutes} minutes\nPrice: $${(appointment.price_cents / 100).toFixed(2)}\nStaff: ${appointment.staff_first_name ? `${appointment.staff_first_name} ${appointment.staff_last_name}` : 'Not assigned'}\nStart Time: ${toZonedIso(appointment.start_time, timeZone)}\nEnd Time: ${toZonedIso(appointment.end_time, timeZone)}\nStatus: ${appointment.status}\nNotes: ${details.notes || 'No notes'}\nCreated: ${new Date(appointment.created_at).toLocaleString()}${verified ? '' : `\n\n${VERIFY_HINT}`}`,
+        data: { appointment: details, verified },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "delete_appointment",
+    description: "Delete an appointment by ID",
+    inputSchema: z.object({
+      id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to delete"),
+    }),
+    outputSchema: appointmentResult,
+    errorMessage: "Error deleting appointment",
+    handler: async (args, { businessId, timeZone }) => {
+      const { id } = args;
+
+      const deletedAppointment = await deleteAppointment(businessId, id);
+
+      return {
+        text: `Appointment deleted successfully!\n\nDeleted appointment ID: ${deletedAppointment.id}\nCustomer ID: ${deletedAppointment.customer_id}\nService ID: ${deletedAppointment.service_id}\nStart Time: ${toZonedIso(deletedAppointment.start_time, timeZone)}`,
+        data: { appointment: serializeAppointment(deletedAppointment, timeZone) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "update_appointment",
+    description: "Update an existing appointment with new details",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to update"),
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      start_time: z.string().min(1, "Start time is required").describe("New start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      end_time: z.string().min(1, "End time is required").describe("New end time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      status: z.string().min(1, "Status is required").describe("New appointment status (scheduled, confirmed, completed, cancelled)"),
+      notes: z.string().optional().describe("Optional notes for the appointment"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema }),
+    errorMessage: "Error updating appointment",
+    handler: async (args, { businessId }) => {
+      const result = await updateAppointment(
+        businessId,
+        args.appointment_id,
+        args.customer_id,
+        args.service_id,
+        args.staff_id,
+        args.start_time,
+        args.end_time,
+        args.status,
+        args.notes
+      );
+
+      return {
+        text: `✅ Appointment updated successfully!\n\nAppointment ID: ${result.appointment.id}\nStatus: ${result.appointment.status}\nUpdated at: ${result.appointment.updated_at}`,
+        data: {
+          change: serializeAppointmentChange('updated', result.appointment.id, {
+            status: result.appointment.status,
+            start_time: result.appointment.start_time ?? args.start_time,
+            occurred_at: result.appointment.updated_at,
+          }),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "cancel_appointment",
+    description: "Cancel an appointment with a reason",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to cancel"),
+      cancellation_reason: z.string().min(1, "Cancellation reason is required").describe("Reason for cancellation"),
+      cancelled_by: z.string().min(1, "Cancelled by is required").describe("Who is cancelling the appointment (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema, waitlist_offer: WaitlistOfferSchema.nullable() }),
+    errorMessage: "Error cancelling appointment",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await cancelAppointment(
+        businessId,
+        args.appointment_id,
+        args.cancellation_reason,
+        args.cancelled_by
+      );
+
+      return {
+        text: `✅ Appointment cancelled successfully!\n\nAppointment ID: ${result.cancellation.appointment_id}\nCancellation Reason: ${args.cancellation_reason}\nCancelled by: ${args.cancelled_by}\nCancelled at: ${result.cancellation.cancelled_at}${waitlistOfferText(result.waitlist_offer, timeZone)}`,
+        data: {
+          change: serializeAppointmentChange('cancelled', result.cancellation.appointment_id, {
+            status: result.cancellation.status ?? 'canceled',
+            actor: args.cancelled_by,
+            reason: args.cancellation_reason,
+            occurred_at: result.cancellation.cancelled_at,
+          }),
+          waitlist_offer: result.waitlist_offer ? serializeWaitlistOffer(result.waitlist_offer, timeZone) : null,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "reschedule_appointment",
+    description: "Reschedule an appointment to a new time",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to reschedule"),
+      new_start_time: z.string().min(1, "New start time is required").describe("New start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      new_end_time: z.string().min(1, "New end time is required").describe("New end time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      rescheduled_by: z.string().min(1, "Rescheduled by is required").describe("Who is rescheduling the appointment (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema, waitlist_offer: WaitlistOfferSchema.nullable() }),
+    errorMessage: "Error rescheduling appointment",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await rescheduleAppointment(
+        businessId,
+        args.appointment_id,
+        args.new_start_time,
+        args.new_end_time,
+        args.rescheduled_by
+      );
+
+      return {
+        text: `✅ Appointment rescheduled successfully!\n\nAppointment ID: ${result.reschedule.appointment_id}\nOld Start Time: ${toZonedIso(result.reschedule.old_start_time, timeZone)}\nNew Start Time: ${toZonedIso(result.reschedule.new_start_time, timeZone)}\nRescheduled by: ${args.rescheduled_by}\nRescheduled at: ${result.reschedule.rescheduled_at}${waitlistOfferText(result.waitlist_offer, timeZone)}`,
+        data: {
+          change: serializeAppointmentChange('rescheduled', result.reschedule.appointment_id, {
+            status: result.reschedule.status,
+            actor: args.rescheduled_by,
+            previous_start_time: result.reschedule.old_start_time,
+            start_time: result.reschedule.new_start_time,
+            occurred_at: result.reschedule.rescheduled_at,
+          }),
+          waitlist_offer: result.waitlist_offer ? serializeWaitlistOffer(result.waitlist_offer, timeZone) : null,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "confirm_appointment",
+    description: "Confirm an appointment",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to confirm"),
+      confirmed_by: z.string().min(1, "Confirmed by is required").describe("Who is confirming the appointment (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema }),
+    errorMessage: "Error confirming appointment",
+    handler: async (args, { businessId }) => {
+      const result = await confirmAppointment(
+        businessId,
+        args.appointment_id,
+        args.confirmed_by
+      );
+
+      return {
+        text: `✅ Appointment confirmed successfully!\n\nAppointment ID: ${result.confirmation.appointment_id}\nStatus: ${result.confirmation.status}\nConfirmed by: ${args.confirmed_by}\nConfirmed at: ${result.confirmation.confirmed_at}`,
+        data: {
+          change: serializeAppointmentChange('confirmed', result.confirmation.appointment_id, {
+            status: result.confirmation.status,
+            actor: args.confirmed_by,
+            occurred_at: result.confirmation.confirmed_at,
+          }),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "complete_appointment",
+    description: "Mark an appointment as completed",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to complete"),
+      completed_by: z.string().min(1, "Completed by is required").describe("Who is completing the appointment (staff ID)"),
+      completion_notes: z.string().optional().describe("Optional notes about the completion"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema }),
+    errorMessage: "Error completing appointment",
+    handler: async (args, { businessId }) => {
+      const result = await completeAppointment(
+        businessId,
+        args.appointment_id,
+        args.completed_by,
+        args.completion_notes
+      );
+
+      return {
+        text: `✅ Appointment completed successfully!\n\nAppointment ID: ${result.completion.appointment_id}\nStatus: ${result.completion.status}\nCompletion Notes: ${args.completion_notes || 'None'}\nCompleted by: ${args.completed_by}\nCompleted at: ${result.completion.completed_at}`,
+        data: {
+          change: serializeAppointmentChange('completed', result.completion.appointment_id, {
+            status: result.completion.status,
+            actor: args.completed_by,
+            reason: args.completion_notes,
+            occurred_at: result.completion.completed_at,
+          }),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "check_appointment_conflict",
+    description: "Comprehensive appointment conflict checking for double-booking, staff availability, business hours, and more",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      start_time: dateTimeArgument("Start time is required (ISO format)").describe("The appointment start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      end_time: dateTimeArgument("End time is required (ISO format)").describe("The appointment end time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      appointment_id: z.string().optional().describe("Optional: exclude current appointment when updating existing appointment"),
+      hold_token: z.string().optional().describe("Optional: your own hold_slot token, so your hold is not reported as a conflict"),
+    }),
+    outputSchema: z.object({
+      has_conflicts: z.boolean(),
+      can_proceed: z.boolean(),
+      conflicts: z.array(ConflictSchema),
+      error_count: z.number(),
+      warning_count: z.number(),
+      timezone: z.string().describe("IANA timezone of the business"),
+      start_time: z.string().nullable().describe("Requested start as an ISO 8601 timestamp with the business's UTC offset"),
+      end_time: z.string().nullable().describe("Requested end as an ISO 8601 timestamp with the business's UTC offset"),
+      alternatives: alternativesResult,
+    }),
+    errorMessage: "Error checking appointment conflicts",
+    handler: async (args, { businessId, timeZone }) => {
+      const { service_id, staff_id, customer_id, start_time, end_time, appointment_id, hold_token } = args;
+
+
+      const result = await checkAppointmentConflict(businessId, service_id, staff_id, customer_id, start_time, end_time, appointment_id, hold_token);
+      const errorCount = result.conflicts.filter((c: any) => c.severity === 'ERROR').length;
+      const suggestAlternatives = errorCount > 0 && !result.conflicts.some((c: any) => NO_ALTERNATIVE_CONFLICTS.includes(c.type));
+      const alternatives = suggestAlternatives
+        ? (await findAlternatives(businessId, { service_id, staff_id, start_time, end_time })).alternatives
+            .map((alternative) => serializeAlternative(alternative, timeZone))
+        : [];
+      const conflictData = {
+        has_conflicts: result.hasConflicts,
+        can_proceed: errorCount === 0,
+        conflicts: result.conflicts.map(({ type, severity, message }: any) => ({ type, severity, message })),
+        error_count: errorCount,
+        warning_count: result.conflicts.length - errorCount,
+        timezone: timeZone,
+        start_time: result.localStartTime ?? null,
+        end_time: result.localEndTime ?? null,
+        alternatives,
+      };
+
+      if (result.hasConflicts) {
+        const errorConflicts = result.conflicts.filter((c: any) => c.severity === 'ERROR');
+        const warningConflicts = result.conflicts.filter((c: any) => c.severity === 'WARNING');
+
+        let responseText = `❌ Appointment conflicts detected!\n\n`;
+
+        if (errorConflicts.length > 0) {
+          responseText += `🚨 ERRORS (${errorConflicts.length}):\n`;
+          errorConflicts.forEach((conflict: any, index: number) => {
+            responseText += `${index + 1}. ${conflict.message}\n`;
+          });
+          responseText += '\n';
+        }
+
+        if (warningConflicts.length > 0) {
+          responseText += `⚠️ WARNINGS (${warningConflicts.length}):\n`;
+          warningConflicts.forEach((conflict: any, index: number) => {
+            responseText += `${index + 1}. ${conflict.message}\n`;
+          });
+          responseText += '\n';
+        }
+
+        responseText += `📊 Summary:\n`;
+        responseText += `• Total Conflicts: ${result.summary?.totalConflicts || 0}\n`;
+        responseText += `• Errors: ${result.summary?.errorCount || 0}\n`;
+        responseText += `• Warnings: ${result.summary?.warningCount || 0}\n`;
+        responseText += `• Can Proceed: ${result.summary?.canProceed ? 'Yes' : 'No'}`;
+        if (suggestAlternatives) {
+          responseText += `\n\n${alternativesText(alternatives)}`;
+        }
+
+        return {
+          text: responseText,
+          data: conflictData,
+        };
+      } else {
+        return {
+          text: `✅ No conflicts detected! The appointment is available.\n\n📊 Summary:\n• Total Conflicts: 0\n• Errors: 0\n• Warnings: 0\n• Can Proceed: Yes`,
+          data: conflictData,
+        };
+      }
+    },
+  }),
+];
@@ -0,0 +1,458 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  dateArgument,
+  nullableString,
+  nullableNumber,
+  isoTimestamp,
+  slotListResult,
+  WAITLIST_HINT,
+} from "./shared.js";
+import {
+  DateInterpretationSchema,
+  ServiceSchema,
+  TimeSlotSchema,
+  toNullableString,
+  toNumber,
+  fullName,
+  toIso,
+  toDateOnly,
+  toTimeOfDay,
+  serializeService,
+  serializeTimeSlot,
+} from "../serializers.js";
+import {
+  getStaffAvailability,
+  getAvailableTimeSlots,
+  checkServiceAvailability,
+  getServiceTimeSlots,
+  checkBusinessHours,
+  getStaffAvailabilityCalendar,
+  findAvailableSlots,
+} from "../database.js";
+import {
+  DEFAULT_SEARCH_DAYS,
+  MAX_SEARCH_DAYS,
+  MAX_SEARCH_RESULTS,
+  TIMES_OF_DAY,
+  WEEKDAYS,
+} from "../slotSearch.js";
+import { interpretDateExpression } from "../naturalDates.js";
+
+export const availabilityTools = [
+  defineTool({
+    name: "get_staff_availability",
+    description: "Get staff availability for a specific date",
+    inputSchema: z.object({
+      date: dateArgument().describe("The date to check availability (YYYY-MM-DD format)"),
+    }),
+    outputSchema: z.object({
+      date: z.string(),
+      staff: z.array(z.object({
+        staff_id: z.string(),
+        name: nullableString,
+        open_time: nullableString,
+        close_time: nullableString,
+        is_available: z.boolean(),
+        time_off: z.object({
+          title: nullableString,
+          is_all_day: z.boolean(),
+          start_time: nullableString,
+          end_time: nullableString,
+        }).nullable(),
+      })),
+    }),
+    errorMessage: "Error getting staff availability",
+    handler: async (args, { businessId }) => {
+      const { date } = args;
+
+      const availability = await getStaffAvailability(businessId, date);
+
+      if (!availability || availability.length === 0) {
+        return {
+          text: "No staff availability found for this date.",
+          data: { date, staff: [] },
+        };
+      }
+
+      const availabilityList = availability
+        .map((staff: any) => {
+          const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+          const dayName = staff.day_of_week !== null ? dayNames[staff.day_of_week] : 'No schedule';
+          const workingHours = staff.open_time && staff.close_time ? `${staff.open_time} - ${staff.close_time}` : 'Not available';
+          const timeOffInfo = staff.has_time_off ? 
+            `\nTime Off: ${staff.time_off_title || 'Scheduled time off'}${staff.time_off_all_day ? ' (All day)' : staff.time_off_start ? ` (${staff.time_off_start} - ${staff.time_off_end})` : ''}` : '';
+
+          return `Name: ${staff.first_name} ${staff.last_name}\nEmail: ${staff.email}\nPhone: ${staff.phone_number}\nDay: ${dayName}\nWorking Hours: ${workingHours}\nAvailable: ${staff.is_available ? 'Yes' : 'No'}${timeOffInfo}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Staff Availability for ${date}:\n\n${availabilityList}`,
+        data: {
+          date,
+          staff: availability.map((staff: any) => ({
+            staff_id: String(staff.staff_id),
+            name: fullName(staff.first_name, staff.last_name),
+            open_time: toTimeOfDay(staff.open_time),
+            close_time: toTimeOfDay(staff.close_time),
+            is_available: Boolean(staff.is_available) && !(staff.has_time_off && staff.time_off_all_day),
+            time_off: staff.has_time_off
+              ? {
+                  title: toNullableString(staff.time_off_title),
+                  is_all_day: Boolean(staff.time_off_all_day),
+                  start_time: toTimeOfDay(staff.time_off_start),
+                  end_time: toTimeOfDay(staff.time_off_end),
+                }
+              : null,
+          })),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_available_time_slots",
+    description: "Get available time slots for a specific service on a date",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      date: dateArgument().describe("The date to check availability (YYYY-MM-DD format)"),
+    }),
+    outputSchema: slotListResult,
+    errorMessage: "Error getting available time slots",
+    handler: async (args, { businessId, timeZone }) => {
+      const { service_id, date } = args;
+
+      const timeSlots = await getAvailableTimeSlots(businessId, service_id, date);
+
+      if (!timeSlots || timeSlots.length === 0) {
+        return {
+          text: `No available time slots found for this service and date. ${WAITLIST_HINT}`,
+          data: { date, timezone: timeZone, slots: [], count: 0 },
+        };
+      }
+
+      const slotsList = timeSlots
+        .map((slot: any) => {
+          const staffList = slot.available_staff.map((staff: any) => staff.name).join(', ');
+          return `Time: ${slot.start_time} - ${slot.end_time}\nAvailable Staff: ${staffList}\nAvailable Slots: ${slot.available_slots}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Available Time Slots for ${date} (${timeZone}):\n\n${slotsList}`,
+        data: { date, timezone: timeZone, slots: timeSlots.map((slot) => serializeTimeSlot(slot, timeZone)), count: timeSlots.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_staff_availability_calendar",
+    description: "Get a detailed availability calendar for a staff member",
+    inputSchema: z.object({
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      start_date: dateArgument("Start date is required").describe("Start date for calendar (YYYY-MM-DD format)"),
+      end_date: dateArgument("End date is required").describe("End date for calendar (YYYY-MM-DD format)"),
+    }),
+    outputSchema: z.object({
+      staff_id: z.string(),
+      start_date: z.string(),
+      end_date: z.string(),
+      days: z.array(z.object({
+        date: z.string(),
+        day_name: nullableString,
+        is_available: z.boolean(),
+        working_hours: nullableString,
+        appointments: z.array(z.object({
+          service_name: nullableString,
+          customer_name: nullableString,
+          start_time: isoTimestamp,
+        })),
+      })),
+    }),
+    errorMessage: "Error getting staff availability calendar",
+    handler: async (args, { businessId }) => {
+      const result = await getStaffAvailabilityCalendar(
+        businessId,
+        args.staff_id,
+        args.start_date,
+        args.end_date
+      );
+
+      if (!result.availability || result.availability.length === 0) {
+        return {
+          text: `No availability data found for staff member from ${args.start_date} to ${args.end_date}.`,
+          data: { staff_id: args.staff_id, start_date: args.start_date, end_date: args.end_date, days: [] },
+        };
+      }
+
+      const calendarText = result.availability
+        .map((day: any) => {
+          const status = day.is_available ? '✅ Available' : '❌ Not Available';
+          const appointments = day.appointments && day.appointments.length > 0
+            ? day.appointments.map((apt: any) => `${apt.service_name} with ${apt.customer_name} (${apt.start_time})`).join(', ')
+            : 'No appointments';
+
+          return `${day.date} (${day.day_name}): ${status}\nWorking Hours: ${day.working_hours || 'Not set'}\nAppointments: ${appointments}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Staff Availability Calendar for ${args.start_date} to ${args.end_date}:\n\n${calendarText}`,
+        data: {
+          staff_id: args.staff_id,
+          start_date: args.start_date,
+          end_date: args.end_date,
+          days: result.availability.map((day: any) => ({
+            date: toDateOnly(day.date) ?? String(day.date),
+            day_name: toNullableString(day.day_name),
+            is_available: Boolean(day.is_available),
+            working_hours: toNullableString(day.working_hours),
+            appointments: (day.appointments || []).map((apt: any) => ({
+              service_name: toNullableString(apt.service_name),
+              customer_name: toNullableString(apt.customer_name),
+              start_time: toIso(apt.start_time),
+            })),
+          })),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "check_service_availability",
+    description: "Check if a service is available on a specific date and time",
+    inputSchema: z.object({
+      service_name: z.string().min(1, "Service name is required").describe("The name of the service"),
+      date: dateArgument().describe("The date to check availability (YYYY-MM-DD format)"),
+      time: z.string().optional().describe("The specific time to check (optional, HH:MM format)"),
+    }),
+    outputSchema: z.object({
+      date: z.string(),
+      time: nullableString,
+      available: z.boolean(),
+      reason: nullableString,
+      service: ServiceSchema.nullable(),
+      staff: z.array(z.object({
+        staff_id: z.string(),
+        name: nullableString,
+        open_time: nullableString,
+        close_time: nullableString,
+      })),
+      existing_appointments: nullableNumber,
+      max_bookings: nullableNumber,
+      remaining_slots: nullableNumber,
+    }),
+    errorMessage: "Error checking service availability",
+    handler: async (args, { businessId }) => {
+      const { service_name, date, time } = args;
+
+      const availability = await checkServiceAvailability(businessId, service_name, date, time);
+      const availabilityData = {
+        date,
+        time: time ?? null,
+        available: availability.available,
+        reason: availability.reason,
+        service: availability.service ? serializeService(availability.service) : null,
+        staff: availability.staff.map((staff: any) => ({
+          staff_id: String(staff.staff_id),
+          name: fullName(staff.first_name, staff.last_name),
+          open_time: toTimeOfDay(staff.open_time),
+          close_time: toTimeOfDay(staff.close_time),
+        })),
+        existing_appointments: toNumber(availability.existingAppointments),
+        max_bookings: toNumber(availability.maxBookings),
+        remaining_slots: toNumber(availability.remainingSlots),
+      };
+
+      if (!availability.available) {
+        return {
+          text: `❌ ${availability.reason}`,
+          data: availabilityData,
+        };
+      }
+
+      const staffList = availability.staff
+        .map((staff: any) => 
+          `• ${staff.first_name} ${staff.last_name} (${staff.open_time} - ${staff.close_time})`
+        )
+        .join("\n");
+
+      const timeInfo = time ? ` at ${time}` : "";
+      const slotInfo = availability.remainingSlots ? `\n\n📊 Booking Status:\n• Total Slots: ${availability.maxBookings}\n• Booked: ${availability.existingAppointments}\n• Available: ${availability.remainingSlots}` : "";
+
+      return {
+        text: `✅ ${availability.reason}${timeInfo}\n\nAvailable Staff:\n${staffList}${slotInfo}\n\nService: ${availability.service.name}\nDuration: ${availability.service.duration_minutes} minutes`,
+        data: availabilityData,
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_service_time_slots",
+    description: "Get available time slots for a specific service on a date",
+    inputSchema: z.object({
+      service_name: z.string().min(1, "Service name is required").describe("The name of the service"),
+      date: dateArgument().describe("The date to check availability (YYYY-MM-DD format)"),
+    }),
+    outputSchema: slotListResult.extend({
+      available: z.boolean(),
+      reason: nullableString,
+      service: ServiceSchema.nullable(),
+    }),
+    errorMessage: "Error getting service time slots",
+    handler: async (args, { businessId, timeZone }) => {
+      const { service_name, date } = args;
+
+      const result = await getServiceTimeSlots(businessId, service_name, date);
+      const slotsData = {
+        date,
+        timezone: timeZone,
+        available: result.available,
+        reason: result.reason,
+        service: result.service ? serializeService(result.service) : null,
+        slots: result.timeSlots.map((slot: any) => serializeTimeSlot(slot, timeZone)),
+        count: result.timeSlots.length,
+      };
+
+      if (!result.available) {
+        return {
+          text: `❌ ${result.reason}`,
+          data: slotsData,
+        };
+      }
+
+      const slotsList = result.timeSlots
+        .map((slot: any) => 
+          `• ${slot.start_time} - ${slot.end_time} (${slot.staff_name})\n  📊 Slots: ${slot.remaining_slots}/${slot.total_slots} available`
+        )
+        .join("\n");
+
+      return {
+        text: `✅ ${result.reason}\n\nAvailable Time Slots:\n${slotsList}\n\nService: ${result.service.name}\nDuration: ${result.service.duration_minutes} minutes`,
+        data: slotsData,
+      };
+    },
+  }),
+
+  defineTool({
+    name: "check_business_hours",
+    description: "Check if the business is open on a specific date",
+    inputSchema: z.object({
+      date: dateArgument().describe("The date to check business hours (YYYY-MM-DD format)"),
+    }),
+    outputSchema: z.object({
+      date: z.string(),
+      timezone: z.string().describe("IANA timezone of the business"),
+      is_open: z.boolean(),
+      reason: nullableString,
+      open_time: nullableString.describe("Local opening time (HH:MM)"),
+      close_time: nullableString.describe("Local closing time (HH:MM)"),
+      opens_at: nullableString.describe("Opening as an ISO 8601 timestamp with UTC offset"),
+      closes_at: nullableString.describe("Closing as an ISO 8601 timestamp with UTC offset"),
+    }),
+    errorMessage: "Error checking business hours",
+    handler: async (args, { businessId }) => {
+      const { date } = args;
+
+      const hours = await checkBusinessHours(businessId, date);
+      const hoursData = {
+        date,
+        timezone: hours.timeZone,
+        is_open: hours.isOpen,
+        reason: hours.reason,
+        open_time: hours.isOpen ? toTimeOfDay(hours.hours?.open_time) : null,
+        close_time: hours.isOpen ? toTimeOfDay(hours.hours?.close_time) : null,
+        opens_at: hours.opensAt ?? null,
+        closes_at: hours.closesAt ?? null,
+      };
+
+      if (!hours.isOpen) {
+        return {
+          text: `❌ ${hours.reason}`,
+          data: hoursData,
+        };
+      }
+
+      return {
+        text: `✅ ${hours.reason}`,
+        data: hoursData,
+      };
+    },
+  }),
+
+  defineTool({
+    name: "find_first_available",
+    description: "Find the earliest (or best-fitting) open slots for a service across all eligible staff and a range of dates in one call, e.g. \"when's the earliest I can get a massage?\". Can be limited to a staff member, times of day and weekdays",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().optional().describe("Only search this staff member's schedule (optional)"),
+      start_date: dateArgument().optional().describe("First date to search (YYYY-MM-DD format, optional, default today)"),
+      end_date: dateArgument().optional().describe(`Last date to search (YYYY-MM-DD format, optional, default ${DEFAULT_SEARCH_DAYS} days from start_date, at most ${MAX_SEARCH_DAYS} days)`),
+      times_of_day: z.array(z.enum(TIMES_OF_DAY)).optional().describe("Only slots starting in these windows: morning before 12:00, afternoon 12:00-17:00, evening from 17:00 (optional)"),
+      weekdays: z.array(z.enum(WEEKDAYS)).optional().describe("Only slots on these days of the week, e.g. [\"saturday\"] (optional)"),
+      order: z.enum(["earliest", "best"]).optional().describe("\"earliest\" (default) lists slots in date order; \"best\" prefers slots right after the staff member's previous booking"),
+      limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional().describe("Maximum number of slots (optional, default 5)"),
+    }),
+    outputSchema: z.object({
+      start_date: z.string().describe("YYYY-MM-DD"),
+      end_date: z.string().describe("YYYY-MM-DD"),
+      timezone: z.string().describe("IANA timezone of the business; slot times carry its UTC offset"),
+      slots: z.array(TimeSlotSchema.extend({
+        date: z.string().describe("Business-local date of the slot (YYYY-MM-DD)"),
+        time_of_day: z.enum(TIMES_OF_DAY),
+      })),
+      count: z.number(),
+    }),
+    errorMessage: "Error finding available slots",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await findAvailableSlots(businessId, args);
+      const slots = result.slots.map((slot) => ({
+        ...serializeTimeSlot(slot, timeZone),
+        date: slot.date,
+        time_of_day: slot.time_of_day,
+      }));
+      const data = { start_date: result.start_date, end_date: result.end_date, timezone: timeZone, slots, count: slots.length };
+
+      if (slots.length === 0) {
+        return {
+          text: `No available slots for ${result.service.name} between ${result.start_date} and ${result.end_date}. ${WAITLIST_HINT}`,
+          data,
+        };
+      }
+
+      const slotsList = slots
+        .map((slot) => `• ${slot.start_time} - ${slot.end_time} (${slot.time_of_day})\n  Available Staff: ${slot.available_staff.map((staff) => staff.name).join(', ')}`)
+        .join("\n");
+
+      return {
+        text: `${args.order === 'best' ? 'Best' : 'Earliest'} available slots for ${result.service.name} (${timeZone}):\n\n${slotsList}`,
+        data,
+      };
+    },
+  }),
+
+  defineTool({
+    name: "interpret_date_expression",
+    description: "Resolve what a customer said about timing (e.g. \"next Tuesday after work\", \"this Saturday morning\") to concrete business-local dates and a time window, to confirm before searching or booking",
+    inputSchema: z.object({
+      expression: z.string().min(1, "Expression is required").describe("The date or time expression, e.g. \"next Tuesday after work\""),
+    }),
+    outputSchema: z.object({
+      timezone: z.string().describe("IANA timezone of the business"),
+      interpretation: DateInterpretationSchema,
+    }),
+    errorMessage: "Error interpreting date expression",
+    handler: async (args, { timeZone }) => {
+      const interpretation = interpretDateExpression(args.expression, new Date(), timeZone);
+      if (!interpretation) {
+        throw new Error(`Could not understand "${args.expression}". Ask the customer for a specific date.`);
+      }
+
+      return {
+        text: `"${args.expression}" means ${interpretation.description} (${timeZone})`,
+        data: { timezone: timeZone, interpretation },
+      };
+    },
+  }),
+];
@@ -0,0 +1,384 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  dateArgument,
+  nullableString,
+  nullableNumber,
+  isoTimestamp,
+  appointmentResult,
+  slotListResult,
+  alternativesResult,
+  alternativesText,
+  dateTimeArgument,
+  WAITLIST_HINT,
+} from "./shared.js";
+import {
+  MoneySchema,
+  AppointmentSchema,
+  RenderedMessageSchema,
+  SlotHoldSchema,
+  toNullableString,
+  toNumber,
+  toIso,
+  money,
+  serializeAppointment,
+  serializeTimeSlot,
+  serializeSlotHold,
+  serializeAlternative,
+  toZonedIso,
+} from "../serializers.js";
+import { MAX_ALTERNATIVES } from "../alternatives.js";
+import { DELIVERY_CHANNELS } from "../delivery.js";
+import {
+  checkRealTimeAvailability,
+  findAlternatives,
+  createBookingValidated,
+  getBookingConfirmation,
+  renderAppointmentMessage,
+  getAvailableBookingSlots,
+  holdSlot,
+  releaseHold,
+  DEFAULT_HOLD_TTL_MINUTES,
+  MAX_HOLD_TTL_MINUTES,
+} from "../database.js";
+
+export const bookingTools = [
+  defineTool({
+    name: "create_booking_validated",
+    description: "Create a booking with comprehensive validation (conflict checking, availability verification)",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      start_time: z.string().min(1, "Start time is required").describe("Start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      notes: z.string().optional().describe("Optional notes for the booking"),
+      hold_token: z.string().optional().describe("Token from hold_slot for this slot (optional); the hold is turned into the appointment"),
+    }),
+    outputSchema: appointmentResult,
+    errorMessage: "Error creating booking",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await createBookingValidated(
+        businessId,
+        args.customer_id,
+        args.service_id,
+        args.staff_id,
+        args.start_time,
+        args.notes,
+        args.hold_token
+      );
+
+      return {
+        text: `✅ Booking created successfully!\n\nAppointment ID: ${result.booking.appointment_id}\nCustomer ID: ${result.booking.customer_id}\nService ID: ${result.booking.service_id}\nStaff ID: ${result.booking.staff_id}\nStart Time: ${toZonedIso(result.booking.start_time, timeZone)}\nEnd Time: ${toZonedIso(result.booking.end_time, timeZone)}\nStatus: ${result.booking.status}\nCreated: ${result.booking.created_at}`,
+        data: { appointment: serializeAppointment(result.booking, timeZone) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "hold_slot",
+    description: "Temporarily reserve a staff/service/time slot while collecting the customer's details. Other bookings treat the slot as busy until the hold expires, is released, or is booked with create_booking_validated",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      start_time: z.string().min(1, "Start time is required").describe("Start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      ttl_minutes: z.number().int().min(1).max(MAX_HOLD_TTL_MINUTES).optional()
+        .describe(`How long to hold the slot in minutes (optional, default ${DEFAULT_HOLD_TTL_MINUTES}, max ${MAX_HOLD_TTL_MINUTES})`),
+    }),
+    outputSchema: z.object({ hold: SlotHoldSchema }),
+    errorMessage: "Error holding slot",
+    handler: async (args, { businessId, timeZone }) => {
+      const hold = await holdSlot(businessId, args);
+      const serialized = serializeSlotHold(hold, timeZone);
+
+      return {
+        text: `⏳ Slot held until ${serialized.expires_at}
+
+Hold Token: ${hold.hold_token}
+Service ID: ${hold.service_id}
+Staff ID: ${hold.staff_id}
+Start Time: ${serialized.start_time}
+End Time: ${serialized.end_time}
+
+Pass the hold token to create_booking_validated to book this slot.`,
+        data: { hold: serialized },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "release_hold",
+    description: "Release a slot hold so others can book the slot",
+    inputSchema: z.object({
+      hold_token: z.string().min(1, "Hold token is required").describe("The token returned by hold_slot"),
+    }),
+    outputSchema: z.object({ hold: SlotHoldSchema }),
+    errorMessage: "Error releasing hold",
+    handler: async (args, { businessId, timeZone }) => {
+      const hold = await releaseHold(businessId, args.hold_token);
+      const serialized = serializeSlotHold(hold, timeZone);
+
+      return {
+        text: `✅ Slot hold released
+
+Start Time: ${serialized.start_time}
+Staff ID: ${hold.staff_id}`,
+        data: { hold: serialized },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_booking_confirmation",
+    description: "Get detailed booking confirmation with all relevant information, and the confirmation message in the customer's language",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID to get confirmation for"),
+      channel: z.enum(DELIVERY_CHANNELS).optional().describe("Channel to word the confirmation message for (optional, default email)"),
+    }),
+    outputSchema: z.object({
+      confirmation_code: nullableString,
+      appointment: AppointmentSchema,
+      customer: z.object({ name: nullableString, email: nullableString, phone: nullableString }),
+      service: z.object({
+        name: nullableString,
+        description: nullableString,
+        duration_minutes: nullableNumber,
+        price: MoneySchema.nullable(),
+      }),
+      staff: z.object({ name: nullableString, email: nullableString, phone: nullableString }).nullable(),
+      business: z.object({ name: nullableString, phone: nullableString }),
+      created_at: isoTimestamp,
+      message: RenderedMessageSchema.describe("The confirmation message from the business's template or the built-in default"),
+    }),
+    errorMessage: "Error getting booking confirmation",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await getBookingConfirmation(businessId, args.appointment_id);
+      const message = await renderAppointmentMessage(businessId, args.appointment_id, 'confirmation', args.channel ?? 'email');
+
+      const confirmation = result.confirmation;
+      const customer = confirmation.customer;
+      const service = confirmation.service;
+      const staff = confirmation.staff;
+      const appointment = confirmation.appointment;
+      const business = confirmation.business;
+
+      let confirmationText = `📋 Booking Confirmation\n\n`;
+      confirmationText += `Confirmation Code: ${confirmation.confirmation_code}\n\n`;
+
+      confirmationText += `👤 Customer:\n`;
+      confirmationText += `- Name: ${customer.name}\n`;
+      confirmationText += `- Email: ${customer.email}\n`;
+      confirmationText += `- Phone: ${customer.phone}\n\n`;
+
+      confirmationText += `🛠️ Service:\n`;
+      confirmationText += `- Name: ${service.name}\n`;
+      confirmationText += `- Description: ${service.description || 'N/A'}\n`;
+      confirmationText += `- Duration: ${service.duration_minutes} minutes\n`;
+      confirmationText += `- Price: ${service.price_formatted}\n\n`;
+
+      if (staff) {
+        confirmationText += `👨‍⚕️ Staff:\n`;
+        confirmationText += `- Name: ${staff.name}\n`;
+        confirmationText += `- Email: ${staff.email}\n`;
+        confirmationText += `- Phone: ${staff.phone}\n\n`;
+      }
+
+      confirmationText += `📅 Appointment:\n`;
+      confirmationText += `- Start Time: ${toZonedIso(appointment.start_time, timeZone)}\n`;
+      confirmationText += `- End Time: ${toZonedIso(appointment.end_time, timeZone)}\n`;
+      confirmationText += `- Duration: ${appointment.duration_minutes} minutes\n`;
+      confirmationText += `- Status: ${appointment.status}\n`;
+      if (appointment.notes) {
+        confirmationText += `- Notes: ${appointment.notes}\n`;
+      }
+      confirmationText += `\n🏢 Business:\n`;
+      confirmationText += `- Name: ${business.name}\n`;
+      confirmationText += `- Phone: ${business.phone}\n\n`;
+      confirmationText += `Created: ${confirmation.created_at}\n\n`;
+      confirmationText += `✉️ Message to the customer (${message.locale}):\n`;
+      confirmationText += message.subject ? `${message.subject}\n\n${message.body}` : message.body;
+
+      return {
+        text: confirmationText,
+        data: {
+          confirmation_code: toNullableString(confirmation.confirmation_code),
+          appointment: serializeAppointment({
+            ...appointment,
+            id: appointment.id ?? args.appointment_id,
+            service_name: service.name,
+            customer_name: customer.name,
+            staff_name: staff?.name,
+            price_cents: appointment.price_cents ?? service.price_cents,
+          }, timeZone),
+          customer: {
+            name: toNullableString(customer.name),
+            email: toNullableString(customer.email),
+            phone: toNullableString(customer.phone),
+          },
+          service: {
+            name: toNullableString(service.name),
+            description: toNullableString(service.description),
+            duration_minutes: toNumber(service.duration_minutes),
+            price: money(service.price_cents, service.currency),
+          },
+          staff: staff
+            ? { name: toNullableString(staff.name), email: toNullableString(staff.email), phone: toNullableString(staff.phone) }
+            : null,
+          business: { name: toNullableString(business.name), phone: toNullableString(business.phone) },
+          created_at: toIso(confirmation.created_at),
+          message,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_available_booking_slots",
+    description: "Get available booking slots for a service on a specific date",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID to check availability for"),
+      date: dateArgument("Date is required").describe("The date to check (YYYY-MM-DD format)"),
+      staff_id: z.string().optional().describe("Optional: filter by specific staff member"),
+    }),
+    outputSchema: slotListResult,
+    errorMessage: "Error getting available booking slots",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await getAvailableBookingSlots(
+        businessId,
+        args.service_id,
+        args.date,
+        args.staff_id
+      );
+
+      if (!result.available_slots || result.available_slots.length === 0) {
+        return {
+          text: `No available booking slots found for service on ${args.date}. ${WAITLIST_HINT}`,
+          data: { date: args.date, timezone: timeZone, slots: [], count: 0 },
+        };
+      }
+
+      const slotsText = result.available_slots
+        .map((slot: any, index: number) => {
+          const staffList = slot.available_staff && slot.available_staff.length > 0
+            ? slot.available_staff.map((staff: any) => staff.name).join(', ')
+            : 'No staff assigned';
+
+          return `${index + 1}. ${slot.start_time} - ${slot.end_time}\n   Available Staff: ${staffList}\n   Available Slots: ${slot.available_slots}`;
+        })
+        .join('\n\n');
+
+      return {
+        text: `Available Booking Slots for ${args.date}:\n\n${slotsText}\n\nTotal Slots: ${result.total_slots}`,
+        data: {
+          date: args.date,
+          timezone: timeZone,
+          slots: result.available_slots.map((slot: any) => serializeTimeSlot(slot, timeZone)),
+          count: result.available_slots.length,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "check_real_time_availability",
+    description: "Check real-time availability for a service at a specific date and time",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID to check availability for"),
+      date: dateArgument("Date is required").describe("The date to check (YYYY-MM-DD format)"),
+      time: z.string().min(1, "Time is required").describe("The specific time to check (HH:MM format)"),
+    }),
+    outputSchema: z.object({
+      service_id: z.string(),
+      date: z.string(),
+      time: z.string(),
+      available: z.boolean(),
+      reason: nullableString,
+      remaining_slots: nullableNumber,
+      existing_bookings: nullableNumber,
+      max_bookings: nullableNumber,
+      available_staff_count: nullableNumber,
+      unavailable_reasons: z.array(z.string()).describe("Why the time cannot be booked (empty when available)"),
+      alternatives: alternativesResult,
+    }),
+    errorMessage: "Error checking real-time availability",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await checkRealTimeAvailability(
+        businessId,
+        args.service_id,
+        args.date,
+        args.time
+      );
+
+      const rejected = result.available
+        ? null
+        : await findAlternatives(businessId, { service_id: args.service_id, start_time: `${args.date}T${args.time}` });
+      const alternatives = rejected ? rejected.alternatives.map((alternative) => serializeAlternative(alternative, timeZone)) : [];
+      const reasons = rejected ? rejected.reasons : [];
+
+      const availabilityText = result.available 
+        ? `✅ Available! ${result.reason}\n\nRemaining slots: ${result.remaining_slots}\nAvailable staff: ${result.available_staff}`
+        : `❌ Not available: ${result.reason}\n\nExisting bookings: ${result.existing_bookings}\nMax bookings: ${result.max_bookings}\nAvailable staff: ${result.available_staff}${reasons.length > 0 ? `\n\nWhy: ${reasons.join('; ')}` : ''}\n\n${alternativesText(alternatives)}`;
+
+      return {
+        text: `Real-time availability check for ${args.date} at ${args.time}:\n\n${availabilityText}`,
+        data: {
+          service_id: args.service_id,
+          date: args.date,
+          time: args.time,
+          available: Boolean(result.available),
+          reason: toNullableString(result.reason),
+          remaining_slots: toNumber(result.remaining_slots),
+          existing_bookings: toNumber(result.existing_bookings),
+          max_bookings: toNumber(result.max_bookings),
+          available_staff_count: toNumber(result.available_staff),
+          unavailable_reasons: reasons,
+          alternatives,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "suggest_alternatives",
+    description: "Explain why a requested time cannot be booked and suggest ranked alternatives: the nearest free times with the same staff member, other qualified staff at the same time, and similar services. Each suggestion has a plain-language reason",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The requested service ID"),
+      staff_id: z.string().optional().describe("The requested staff member (optional)"),
+      start_time: dateTimeArgument("Start time is required (ISO format)").describe("The requested start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      end_time: dateTimeArgument("End time must be ISO format").optional().describe("The requested end time (optional; defaults to the service duration)"),
+      limit: z.number().int().min(1).max(MAX_ALTERNATIVES).optional().describe("Maximum number of suggestions (optional, default 5)"),
+    }),
+    outputSchema: z.object({
+      available: z.boolean().describe("True when the requested time can be booked as asked"),
+      start_time: z.string().nullable(),
+      end_time: z.string().nullable(),
+      timezone: z.string().describe("IANA timezone of the business"),
+      unavailable_reasons: z.array(z.string()),
+      alternatives: alternativesResult,
+    }),
+    errorMessage: "Error finding alternatives",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await findAlternatives(businessId, args);
+      const alternatives = result.alternatives.map((alternative) => serializeAlternative(alternative, timeZone));
+      const data = {
+        available: result.available,
+        start_time: toZonedIso(result.start_time, timeZone),
+        end_time: toZonedIso(result.end_time, timeZone),
+        timezone: timeZone,
+        unavailable_reasons: result.reasons,
+        alternatives,
+      };
+
+      if (result.available) {
+        return {
+          text: `✅ ${result.service.name} can be booked at ${data.start_time} as requested.`,
+          data,
+        };
+      }
+
+      return {
+        text: `❌ ${result.service.name} cannot be booked at ${data.start_time}:\n${result.reasons.map((reason) => `• ${reason}`).join('\n')}\n\n${alternativesText(alternatives)}`,
+        data,
+      };
+    },
+  }),
+];
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  BusinessSchema,
+  BookingPolicySchema,
+  WorkingHoursSchema,
+  serializeBusiness,
+  serializeWorkingHours,
+} from "../serializers.js";
+import {
+  getBusinessDetails,
+  getBusinessHours,
+  getBookingPolicy,
+} from "../database.js";
+import { describeBookingPolicy } from "../policy.js";
+
+export const businessTools = [
+  defineTool({
+    name: "get_business",
+    description: "Get business details",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ business: BusinessSchema }),
+    errorMessage: "Error retrieving business details",
+    handler: async (args, { businessId }) => {
+      const business = await getBusinessDetails(businessId);
+
+      return {
+        text: `Business Details:\n\nID: ${business.id}\nName: ${business.name}\nDescription: ${business.description || 'No description'}\nAddress: ${business.address || 'Not provided'}\nPhone: ${business.phone || 'Not provided'}\nEmail: ${business.email || 'Not provided'}\nWebsite: ${business.website || 'Not provided'}\nTimezone: ${business.timezone || 'Not specified'}\nCreated: ${new Date(business.created_at).toLocaleString()}\nUpdated: ${new Date(business.updated_at).toLocaleString()}`,
+        data: { business: serializeBusiness(business) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_business_hours",
+    description: "Get business operating hours",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ hours: z.array(WorkingHoursSchema) }),
+    errorMessage: "Error retrieving business hours",
+    handler: async (args, { businessId }) => {
+      const result = await getBusinessHours(businessId);
+
+      if (!result || !result.success || !result.working_hours || result.working_hours.length === 0) {
+        return {
+          text: "No business hours found.",
+          data: { hours: [] },
+        };
+      }
+
+      const hoursList = result.working_hours
+        .map((hour: any) => 
+          `${hour.day_name}: ${hour.formatted_hours}`
+        )
+        .join("\n");
+
+      return {
+        text: `Business Hours:\n\n${hoursList}`,
+        data: { hours: result.working_hours.map(serializeWorkingHours) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_booking_policy",
+    description: "Get the business's booking policy: required notice, how far ahead bookings can be made, same-day bookings, and when appointments can be rescheduled or cancelled. Bookings, reschedules and cancellations that break it are rejected with a policy violation code",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ policy: BookingPolicySchema }),
+    errorMessage: "Error retrieving booking policy",
+    handler: async (args, { businessId }) => {
+      const policy = await getBookingPolicy(businessId);
+      const rules = describeBookingPolicy(policy);
+
+      return {
+        text: `Booking Policy:\n\n${rules.map((rule) => `- ${rule}`).join('\n')}`,
+        data: { policy: { ...policy, rules } },
+      };
+    },
+  }),
+];
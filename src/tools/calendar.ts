@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { CalendarFeedSchema, serializeCalendarFeed } from "../serializers.js";
+import {
+  exportAppointmentCalendar,
+  exportCalendarFeed,
+  createCalendarFeed,
+  listCalendarFeeds,
+  revokeCalendarFeed,
+} from "../database.js";
+import { CALENDAR_ALARM_MINUTES, CALENDAR_FEED_PAST_DAYS, CalendarFeedOwner, calendarFeedUrl } from "../calendar.js";
+import { SessionContext } from "../context.js";
+import { requireVerifiedCustomer } from "../verification.js";
+
+const CalendarFileSchema = z.object({
+  filename: z.string(),
+  content_type: z.literal("text/calendar"),
+  content: z.string().describe("The iCalendar (.ics) file"),
+  event_count: z.number().int(),
+});
+
+type Feed = z.infer<typeof CalendarFeedSchema>;
+
+const ownerArguments = {
+  staff_id: z.string().optional().describe("A staff member's appointments (give this or customer_id)"),
+  customer_id: z.string().optional().describe("A customer's appointments (give this or staff_id)"),
+};
+
+// Exactly one of staff_id and customer_id; a customer's calendar needs the customer verified
+function feedOwner(args: CalendarFeedOwner, session: SessionContext): CalendarFeedOwner {
+  if (!args.staff_id === !args.customer_id) {
+    throw new Error("Give either staff_id or customer_id");
+  }
+  if (args.customer_id) {
+    requireVerifiedCustomer(session, args.customer_id);
+  }
+  return args.staff_id ? { staff_id: args.staff_id } : { customer_id: args.customer_id };
+}
+
+function ownerText(owner: Feed): string {
+  return owner.staff_id ? `staff member ${owner.staff_id}` : `customer ${owner.customer_id}`;
+}
+
+export const calendarTools = [
+  defineTool({
+    name: "export_appointment_calendar",
+    description: "Get an iCalendar (.ics) file for one appointment, so the customer can add it to their calendar. It includes the business's address and a reminder alarm; cancelled appointments are marked cancelled",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID"),
+      alarm_minutes: z.number().int().min(0).max(10080).optional().describe(`Minutes before the start for the reminder alarm; 0 for none (optional, default ${CALENDAR_ALARM_MINUTES})`),
+    }),
+    outputSchema: CalendarFileSchema.extend({ appointment_id: z.string() }),
+    errorMessage: "Error exporting appointment calendar",
+    handler: async (args, { businessId }) => {
+      const file = await exportAppointmentCalendar(businessId, args.appointment_id, { alarm_minutes: args.alarm_minutes });
+
+      return {
+        text: `📅 Calendar file ${file.filename}:\n\n${file.content}`,
+        data: {
+          filename: file.filename,
+          content_type: "text/calendar" as const,
+          content: file.content,
+          event_count: 1,
+          appointment_id: String(file.appointment.id),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "export_calendar",
+    description: `Get an iCalendar (.ics) file of a staff member's or a customer's appointments from ${CALENDAR_FEED_PAST_DAYS} days ago onwards, cancelled ones included. For a calendar that stays up to date, use create_calendar_feed`,
+    inputSchema: z.object(ownerArguments),
+    outputSchema: CalendarFileSchema,
+    errorMessage: "Error exporting calendar",
+    handler: async (args, { businessId, session }) => {
+      const file = await exportCalendarFeed(businessId, feedOwner(args, session));
+
+      return {
+        text: `📅 Calendar file ${file.filename} with ${file.event_count} appointment(s):\n\n${file.content}`,
+        data: { filename: file.filename, content_type: "text/calendar" as const, content: file.content, event_count: file.event_count },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "create_calendar_feed",
+    description: "Create a calendar feed URL a staff member or customer can subscribe to from their phone or calendar app. The URL carries a secret token that is shown only once; anyone with it can read the appointments until the feed is revoked",
+    inputSchema: z.object(ownerArguments),
+    outputSchema: z.object({
+      feed: CalendarFeedSchema,
+      token: z.string().describe("Secret feed token; not shown again"),
+      url: z.string().describe("Feed URL, or its path when CALENDAR_FEED_BASE_URL is not configured"),
+    }),
+    errorMessage: "Error creating calendar feed",
+    handler: async (args, { businessId, session }) => {
+      const row = await createCalendarFeed(businessId, feedOwner(args, session));
+      const feed = serializeCalendarFeed(row);
+      const url = calendarFeedUrl(row.token);
+
+      return {
+        text: `🔗 Calendar feed created for ${ownerText(feed)}.\n\nFeed ID: ${feed.id}\nURL: ${url}\n\nThe URL is shown only once. Anyone with it can read these appointments until the feed is revoked with revoke_calendar_feed.`,
+        data: { feed, token: row.token, url },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_calendar_feeds",
+    description: "List the business's calendar feeds, newest first. Feed URLs are not shown again; revoke a feed and create a new one to replace a lost URL",
+    inputSchema: z.object({
+      staff_id: z.string().optional().describe("Only this staff member's feeds (optional)"),
+      customer_id: z.string().optional().describe("Only this customer's feeds (optional)"),
+    }),
+    outputSchema: z.object({ feeds: z.array(CalendarFeedSchema), count: z.number() }),
+    errorMessage: "Error listing calendar feeds",
+    handler: async (args, { businessId }) => {
+      const feeds = (await listCalendarFeeds(businessId, args)).map(serializeCalendarFeed);
+
+      if (feeds.length === 0) {
+        return {
+          text: "No calendar feeds found.",
+          data: { feeds: [], count: 0 },
+        };
+      }
+
+      const list = feeds
+        .map((feed: Feed, index: number) => `${index + 1}. ${ownerText(feed)} [${feed.active ? 'active' : 'revoked'}] (ID: ${feed.id})\n   Last fetched: ${feed.last_accessed_at || 'never'}`)
+        .join('\n');
+
+      return {
+        text: `Calendar feeds (${feeds.length}):\n\n${list}`,
+        data: { feeds, count: feeds.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "revoke_calendar_feed",
+    description: "Turn off a calendar feed; its URL stops working straight away",
+    inputSchema: z.object({
+      feed_id: z.string().min(1, "Feed ID is required").describe("The calendar feed ID"),
+    }),
+    outputSchema: z.object({ feed: CalendarFeedSchema }),
+    errorMessage: "Error revoking calendar feed",
+    handler: async (args, { businessId }) => {
+      const feed = serializeCalendarFeed(await revokeCalendarFeed(businessId, args.feed_id));
+      return {
+        text: `🚫 Calendar feed ${feed.id} for ${ownerText(feed)} is revoked.`,
+        data: { feed },
+      };
+    },
+  }),
+];
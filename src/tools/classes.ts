@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument, dateTimeArgument, VERIFY_HINT } from "./shared.js";
+import {
+  ClassEnrollmentSchema,
+  ClassSessionSchema,
+  serializeClassEnrollment,
+  serializeClassSession,
+} from "../serializers.js";
+import {
+  createClassSession,
+  listClassSessions,
+  enrollInClass,
+  unenrollFromClass,
+  getClassRoster,
+} from "../database.js";
+import { isCustomerVerified, maskEmail, maskPhone } from "../verification.js";
+
+const enrollmentResult = z.object({
+  enrollment: ClassEnrollmentSchema,
+  session: ClassSessionSchema,
+});
+
+export const classTools = [
+  defineTool({
+    name: "create_class_session",
+    description: "Schedule a group class session: a service taught by one instructor at a fixed time with a number of seats. The instructor is blocked for the whole session",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service taught in the class"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The instructor's staff ID"),
+      start_time: dateTimeArgument("Start time is required (ISO format)").describe("Session start (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      end_time: z.string().optional().describe("Session end (optional; defaults to the service duration)"),
+      capacity: z.number().int().min(1).optional().describe("Number of seats (optional; defaults to the service's max bookings per slot)"),
+      notes: z.string().optional().describe("Optional notes"),
+    }),
+    outputSchema: z.object({ session: ClassSessionSchema }),
+    errorMessage: "Error creating class session",
+    handler: async (args, { businessId, timeZone }) => {
+      const session = serializeClassSession(await createClassSession(businessId, args), timeZone);
+
+      return {
+        text: `✅ Class session scheduled\n\nSession ID: ${session.id}\nClass: ${session.service_name}\nInstructor: ${session.instructor_name}\nStart Time: ${session.start_time}\nEnd Time: ${session.end_time}\nSeats: ${session.capacity}`,
+        data: { session },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_class_sessions",
+    description: "List upcoming group class sessions with the seats left in each. Customers join a class with enroll_in_class instead of booking a time slot",
+    inputSchema: z.object({
+      service_id: z.string().optional().describe("Filter by class (service ID, optional)"),
+      staff_id: z.string().optional().describe("Filter by instructor (staff ID, optional)"),
+      start_date: dateArgument().optional().describe("First date to include (optional, YYYY-MM-DD; defaults to now)"),
+      end_date: dateArgument().optional().describe("Last date to include (optional, YYYY-MM-DD)"),
+      available_only: z.boolean().optional().describe("Only sessions with seats left (optional, default false)"),
+    }),
+    outputSchema: z.object({ sessions: z.array(ClassSessionSchema), count: z.number() }),
+    errorMessage: "Error listing class sessions",
+    handler: async (args, { businessId, timeZone }) => {
+      const rows = await listClassSessions(businessId, args);
+      const sessions = rows.map((row: any) => serializeClassSession(row, timeZone));
+
+      if (sessions.length === 0) {
+        return {
+          text: "No upcoming class sessions found.",
+          data: { sessions: [], count: 0 },
+        };
+      }
+
+      const sessionList = sessions
+        .map((session: any, index: number) =>
+          `${index + 1}. ${session.service_name} with ${session.instructor_name}\n   ${session.start_time} - ${session.end_time}\n   Seats left: ${session.seats_left}/${session.capacity}\n   Session ID: ${session.id}`
+        )
+        .join('\n');
+
+      return {
+        text: `Class Sessions (${sessions.length}):\n\n${sessionList}`,
+        data: { sessions, count: sessions.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "enroll_in_class",
+    description: "Enroll a customer in a group class session if it has a seat left",
+    inputSchema: z.object({
+      session_id: z.string().min(1, "Session ID is required").describe("The class session ID"),
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      notes: z.string().optional().describe("Optional notes"),
+    }),
+    outputSchema: enrollmentResult,
+    errorMessage: "Error enrolling in class",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await enrollInClass(businessId, args.session_id, args.customer_id, args.notes);
+      const session = serializeClassSession(result.session, timeZone);
+
+      return {
+        text: `✅ Enrolled in ${session.service_name}\n\nEnrollment ID: ${result.enrollment.id}\nCustomer ID: ${args.customer_id}\nStart Time: ${session.start_time}\nInstructor: ${session.instructor_name}\nSeats left: ${session.seats_left}/${session.capacity}`,
+        data: { enrollment: serializeClassEnrollment(result.enrollment), session },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "unenroll_from_class",
+    description: "Take a customer out of a group class session, freeing their seat",
+    inputSchema: z.object({
+      session_id: z.string().min(1, "Session ID is required").describe("The class session ID"),
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+    }),
+    outputSchema: enrollmentResult,
+    errorMessage: "Error unenrolling from class",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await unenrollFromClass(businessId, args.session_id, args.customer_id);
+      const session = serializeClassSession(result.session, timeZone);
+
+      return {
+        text: `✅ Unenrolled from ${session.service_name}\n\nCustomer ID: ${args.customer_id}\nStart Time: ${session.start_time}\nSeats left: ${session.seats_left}/${session.capacity}`,
+        data: { enrollment: serializeClassEnrollment(result.enrollment), session },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_class_roster",
+    description: "Get the attendee roster of a group class session",
+    inputSchema: z.object({
+      session_id: z.string().min(1, "Session ID is required").describe("The class session ID"),
+    }),
+    outputSchema: z.object({
+      session: ClassSessionSchema,
+      attendees: z.array(ClassEnrollmentSchema),
+      count: z.number(),
+    }),
+    errorMessage: "Error retrieving class roster",
+    handler: async (args, { businessId, timeZone, session: toolSession }) => {
+      const result = await getClassRoster(businessId, args.session_id);
+      const session = serializeClassSession(result.session, timeZone);
+      // Attendees the session has not verified are listed with masked contact details
+      const attendees = result.enrollments.map((row: any) => {
+        const attendee = serializeClassEnrollment(row);
+        if (!attendee.customer_id || isCustomerVerified(toolSession, attendee.customer_id)) {
+          return attendee;
+        }
+        return { ...attendee, customer_email: maskEmail(attendee.customer_email), customer_phone: maskPhone(attendee.customer_phone), notes: null };
+      });
+      const redacted = attendees.some((attendee: any) => attendee.customer_id && !isCustomerVerified(toolSession, attendee.customer_id));
+
+      const attendeeList = attendees.length > 0
+        ? attendees.map((attendee: any, index: number) => `${index + 1}. ${attendee.customer_name} (${attendee.customer_email || attendee.customer_phone || 'no contact'})`).join('\n')
+        : 'No one is enrolled yet.';
+
+      return {
+        text: `${session.service_name} with ${session.instructor_name}\n${session.start_time} - ${session.end_time}\nEnrolled: ${session.enrolled_count}/${session.capacity}\n\n${attendeeList}${redacted ? `\n\n${VERIFY_HINT}` : ''}`,
+        data: { session, attendees, count: attendees.length },
+      };
+    },
+  }),
+];
@@ -0,0 +1,665 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  nullableString,
+  nullableNumber,
+  isoTimestamp,
+  appointmentListResult,
+  customerResult,
+  localeArgument,
+  VERIFY_HINT,
+} from "./shared.js";
+import {
+  MoneySchema,
+  CustomerSchema,
+  CustomerMergeSchema,
+  DuplicateCandidateSchema,
+  ReviewSchema,
+  toNullableString,
+  toNumber,
+  toIso,
+  toZonedIso,
+  money,
+  serializeAppointment,
+  serializeCustomer,
+  serializeCustomerMerge,
+  serializeDuplicateCandidate,
+  serializeReview,
+} from "../serializers.js";
+import {
+  ensureBusinessExists,
+  createCustomer,
+  getCustomer,
+  searchCustomers,
+  updateCustomer,
+  getCustomerAppointments,
+  getCustomerReviews,
+  createReview,
+  createCustomerIfNotExists,
+  createCustomerValidated,
+  updateCustomerProfile,
+  getCustomerPreferences,
+  getCustomerStatistics,
+  findDuplicateCustomers,
+  mergeCustomers,
+  getCustomerMerges,
+} from "../database.js";
+import { MAX_DUPLICATE_RESULTS } from "../duplicates.js";
+import { isCustomerVerified, redactCustomer, requireVerifiedCustomer } from "../verification.js";
+
+const BookingPreferenceSchema = z.object({
+  name: nullableString,
+  booking_count: nullableNumber,
+  last_booking: isoTimestamp,
+});
+
+export const customerTools = [
+  defineTool({
+    name: "create_customer",
+    description: "Create a new customer",
+    inputSchema: z.object({
+      first_name: z.string().optional().describe("Customer's first name"),
+      last_name: z.string().optional().describe("Customer's last name"),
+      email: z.string().optional().describe("Customer's email address"),
+      phone: z.string().describe("Customer's phone number"),
+      notes: z.string().optional().describe("Additional notes about the customer (optional)"),
+    }),
+    outputSchema: customerResult,
+    errorMessage: "Error creating customer",
+    handler: async (args, { businessId }) => {
+      const customerData = args;
+
+      await ensureBusinessExists(businessId);
+      const customer = await createCustomer(businessId, customerData);
+
+      return {
+        text: `Customer created successfully!\n\nID: ${customer.id}\nName: ${customer.first_name} ${customer.last_name}\nEmail: ${customer.email}\nPhone: ${customer.phone_number || 'Not provided'}\nNotes: ${customer.notes || 'No notes'}`,
+        data: { customer: serializeCustomer(customer) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer",
+    description: "Get customer details by ID",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+    }),
+    outputSchema: customerResult.extend({
+      verified: z.boolean().describe("False when contact details are masked because the session has not verified the customer"),
+    }),
+    errorMessage: "Error retrieving customer",
+    handler: async (args, { businessId, session }) => {
+      const { customer_id } = args;
+
+      const customer = await getCustomer(businessId, customer_id);
+      const verified = isCustomerVerified(session, customer.id);
+      const details = verified ? serializeCustomer(customer) : redactCustomer(serializeCustomer(customer));
+
+      return {
+        text: `Customer Details:\n\nID: ${customer.id}\nName: ${customer.first_name} ${customer.last_name}\nEmail: ${details.email}\nPhone: ${details.phone || 'Not provided'}\nNotes: ${details.notes || 'No notes'}\nCreated: ${new Date(customer.created_at).toLocaleString()}\nUpdated: ${new Date(customer.updated_at).toLocaleString()}${verified ? '' : `\n\n${VERIFY_HINT}`}`,
+        data: { customer: details, verified },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "search_customers",
+    description: "Search customers by name, email, or phone",
+    inputSchema: z.object({
+      search_term: z.string().min(1, "Search term is required").describe("Search term to match against customer name, email, or phone"),
+    }),
+    outputSchema: z.object({ customers: z.array(CustomerSchema), count: z.number() }),
+    errorMessage: "Error searching customers",
+    handler: async (args, { businessId, session }) => {
+      const { search_term } = args;
+
+      const customers = await searchCustomers(businessId, search_term);
+
+      if (!customers || customers.length === 0) {
+        return {
+          text: `No customers found matching "${search_term}".`,
+          data: { customers: [], count: 0 },
+        };
+      }
+
+      // Unverified customers are listed with masked contact details
+      const results = customers.map((customer: any) => {
+        const details = serializeCustomer(customer);
+        return isCustomerVerified(session, details.id) ? details : redactCustomer(details);
+      });
+      const customerList = results
+        .map((customer: any) => 
+          `ID: ${customer.id}\nName: ${customer.first_name} ${customer.last_name}\nEmail: ${customer.email}\nPhone: ${customer.phone || 'Not provided'}\n---`
+        )
+        .join("\n");
+      const redacted = results.some((customer: any) => !isCustomerVerified(session, customer.id));
+
+      return {
+        text: `Found ${customers.length} customer(s) matching "${search_term}":\n\n${customerList}${redacted ? `\n\n${VERIFY_HINT}` : ''}`,
+        data: { customers: results, count: customers.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "update_customer",
+    description: "Update an existing customer",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      first_name: z.string().optional().describe("Customer's first name (optional)"),
+      last_name: z.string().optional().describe("Customer's last name (optional)"),
+      email: z.string().email().optional().describe("Customer's email address (optional)"),
+      phone: z.string().optional().describe("Customer's phone number (optional)"),
+      notes: z.string().optional().describe("Additional notes about the customer (optional)"),
+      locale: localeArgument.optional().describe("Language for the customer's messages, e.g. es or pt-BR (optional)"),
+    }),
+    outputSchema: customerResult,
+    errorMessage: "Error updating customer",
+    handler: async (args, { businessId, session }) => {
+      const { customer_id, phone, ...updates } = args;
+      // Changing the email or phone on file would let anyone receive the customer's verification codes
+      requireVerifiedCustomer(session, customer_id);
+
+      // Include phone in updates since database column is 'phone'
+      const customerUpdates: any = { ...updates };
+      if (phone !== undefined) {
+        customerUpdates.phone = phone;
+      }
+
+      const customer = await updateCustomer(businessId, customer_id, customerUpdates);
+
+      return {
+        text: `Customer updated successfully!\n\nID: ${customer.id}\nName: ${customer.first_name} ${customer.last_name}\nEmail: ${customer.email}\nPhone: ${customer.phone_number || 'Not provided'}\nNotes: ${customer.notes || 'No notes'}\nUpdated: ${new Date(customer.updated_at).toLocaleString()}`,
+        data: { customer: serializeCustomer(customer) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "create_customer_validated",
+    description: "Create a new customer with comprehensive validation (email format, phone validation, duplicate checking)",
+    inputSchema: z.object({
+      first_name: z.string().min(1, "First name is required").describe("Customer's first name"),
+      last_name: z.string().min(1, "Last name is required").describe("Customer's last name"),
+      email: z.string().email("Invalid email format").describe("Customer's email address (validated format)"),
+      phone: z.string().min(10, "Phone number must be at least 10 digits").describe("Customer's phone number (minimum 10 digits)"),
+      notes: z.string().optional().describe("Optional notes about the customer"),
+    }),
+    outputSchema: customerResult,
+    errorMessage: "Error creating customer",
+    handler: async (args, { businessId }) => {
+      const result = await createCustomerValidated(
+        businessId,
+        args.first_name,
+        args.last_name,
+        args.email,
+        args.phone,
+        args.notes
+      );
+
+      return {
+        text: `✅ Customer created successfully!\n\nCustomer ID: ${result.customer.id}\nName: ${result.customer.first_name} ${result.customer.last_name}\nEmail: ${result.customer.email}\nPhone: ${result.customer.phone_number}\nCreated: ${result.customer.created_at}`,
+        data: { customer: serializeCustomer(result.customer) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "update_customer_profile",
+    description: "Update customer profile with validation (email format, phone validation, duplicate checking)",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID to update"),
+      first_name: z.string().min(1, "First name is required").describe("Customer's first name"),
+      last_name: z.string().min(1, "Last name is required").describe("Customer's last name"),
+      email: z.string().email("Invalid email format").describe("Customer's email address (validated format)"),
+      phone: z.string().min(10, "Phone number must be at least 10 digits").describe("Customer's phone number (minimum 10 digits)"),
+      notes: z.string().optional().describe("Optional notes about the customer"),
+    }),
+    outputSchema: customerResult,
+    errorMessage: "Error updating customer profile",
+    handler: async (args, { businessId, session }) => {
+      requireVerifiedCustomer(session, args.customer_id);
+      const result = await updateCustomerProfile(
+        businessId,
+        args.customer_id,
+        args.first_name,
+        args.last_name,
+        args.email,
+        args.phone,
+        args.notes
+      );
+
+      return {
+        text: `✅ Customer profile updated successfully!\n\nCustomer ID: ${result.customer.id}\nName: ${result.customer.first_name} ${result.customer.last_name}\nEmail: ${result.customer.email}\nPhone: ${result.customer.phone_number}\nUpdated: ${result.customer.updated_at}`,
+        data: { customer: serializeCustomer(result.customer) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "create_customer_by_name",
+    description: "Create a new customer with a name",
+    inputSchema: z.object({
+      customer_name: z.string().min(1, "Customer name is required").describe("Customer's name"),
+      email: z.string().email().optional().describe("Customer's email (optional)"),
+      phone: z.string().optional().describe("Customer's phone number (optional)"),
+      notes: z.string().optional().describe("Additional notes about the customer (optional)"),
+    }),
+    outputSchema: customerResult.extend({
+      created: z.boolean().describe("False when an existing customer with the name was found"),
+      verified: z.boolean().describe("False when contact details are masked because the session has not verified the customer"),
+    }),
+    errorMessage: "Error creating/finding customer",
+    handler: async (args, { businessId, session }) => {
+      const { customer_name, email, phone, notes } = args;
+
+      // Use the helper function to create or find customer
+      const { customer, created } = await createCustomerIfNotExists(businessId, customer_name, email, phone);
+
+      // Update notes if provided; a found customer's record only changes for a verified session
+      if (notes) {
+        if (!created) {
+          requireVerifiedCustomer(session, customer.id);
+        }
+        await updateCustomer(businessId, customer.id, { notes });
+        customer.notes = notes;
+      }
+
+      // A matching name is no proof of identity: a found customer's details stay masked
+      const verified = created || isCustomerVerified(session, customer.id);
+      const details = verified ? serializeCustomer(customer) : redactCustomer(serializeCustomer(customer));
+
+      return {
+        text: `Customer ${created ? 'created' : 'found'} successfully!\n\nID: ${details.id}\nName: ${details.first_name} ${details.last_name}\nEmail: ${details.email || 'Not provided'}\nPhone: ${details.phone || 'Not provided'}\nNotes: ${details.notes || 'No notes'}${verified ? '' : `\n\n${VERIFY_HINT}`}`,
+        data: { customer: details, created, verified },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer_preferences",
+    description: "Get customer preferences based on booking history (preferred services, staff, time slots)",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID to get preferences for"),
+    }),
+    outputSchema: z.object({
+      customer_id: z.string(),
+      preferred_services: z.array(BookingPreferenceSchema),
+      preferred_staff: z.array(BookingPreferenceSchema),
+      preferred_time_slots: z.array(z.object({ time_slot: nullableString, booking_count: nullableNumber })),
+      total_appointments: nullableNumber,
+      completed_appointments: nullableNumber,
+      average_rating: nullableNumber,
+    }),
+    errorMessage: "Error getting customer preferences",
+    handler: async (args, { businessId, session }) => {
+      requireVerifiedCustomer(session, args.customer_id);
+      const result = await getCustomerPreferences(businessId, args.customer_id);
+
+      const preferences = result.preferences;
+      const preferredServices = preferences.preferred_services || [];
+      const preferredStaff = preferences.preferred_staff || [];
+      const preferredTimeSlots = preferences.preferred_time_slots || [];
+
+      let preferencesText = `Customer Preferences for ${args.customer_id}:\n\n`;
+
+      if (preferredServices.length > 0) {
+        preferencesText += `Preferred Services:\n${preferredServices.map((service: any) => 
+          `- ${service.service_name} (${service.booking_count} bookings, last: ${service.last_booking})`
+        ).join('\n')}\n\n`;
+      }
+
+      if (preferredStaff.length > 0) {
+        preferencesText += `Preferred Staff:\n${preferredStaff.map((staff: any) => 
+          `- ${staff.staff_name} (${staff.booking_count} bookings, last: ${staff.last_booking})`
+        ).join('\n')}\n\n`;
+      }
+
+      if (preferredTimeSlots.length > 0) {
+        preferencesText += `Preferred Time Slots:\n${preferredTimeSlots.map((slot: any) => 
+          `- ${slot.time_slot} (${slot.booking_count} bookings)`
+        ).join('\n')}\n\n`;
+      }
+
+      preferencesText += `Total Appointments: ${preferences.total_appointments}\n`;
+      preferencesText += `Completed Appointments: ${preferences.completed_appointments}\n`;
+      preferencesText += `Average Rating: ${preferences.average_rating.toFixed(1)}/5`;
+
+      return {
+        text: preferencesText,
+        data: {
+          customer_id: args.customer_id,
+          preferred_services: preferredServices.map((service: any) => ({
+            name: toNullableString(service.service_name),
+            booking_count: toNumber(service.booking_count),
+            last_booking: toIso(service.last_booking),
+          })),
+          preferred_staff: preferredStaff.map((staff: any) => ({
+            name: toNullableString(staff.staff_name),
+            booking_count: toNumber(staff.booking_count),
+            last_booking: toIso(staff.last_booking),
+          })),
+          preferred_time_slots: preferredTimeSlots.map((slot: any) => ({
+            time_slot: toNullableString(slot.time_slot),
+            booking_count: toNumber(slot.booking_count),
+          })),
+          total_appointments: toNumber(preferences.total_appointments),
+          completed_appointments: toNumber(preferences.completed_appointments),
+          average_rating: toNumber(preferences.average_rating),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer_statistics",
+    description: "Get comprehensive customer statistics (appointments, spending, loyalty metrics)",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID to get statistics for"),
+    }),
+    outputSchema: z.object({
+      customer_id: z.string(),
+      appointments: z.object({
+        total: nullableNumber,
+        completed: nullableNumber,
+        cancelled: nullableNumber,
+        upcoming: nullableNumber,
+        first_appointment: isoTimestamp,
+        last_appointment: isoTimestamp,
+      }),
+      services: z.object({
+        services_used: nullableNumber,
+        most_used_service: nullableString,
+        total_spent: MoneySchema.nullable(),
+      }),
+      staff: z.object({
+        staff_seen: nullableNumber,
+        preferred_staff: nullableString,
+      }),
+      reviews: z.object({
+        total_reviews: nullableNumber,
+        average_rating: nullableNumber,
+        last_review_date: isoTimestamp,
+      }),
+      loyalty: z.object({
+        customer_since: isoTimestamp,
+        days_since_last_visit: nullableNumber,
+        visit_frequency_days: nullableNumber,
+      }),
+    }),
+    errorMessage: "Error getting customer statistics",
+    handler: async (args, { businessId, session }) => {
+      requireVerifiedCustomer(session, args.customer_id);
+      const result = await getCustomerStatistics(businessId, args.customer_id);
+
+      const stats = result.statistics;
+      const aptStats = stats.appointment_stats;
+      const serviceStats = stats.service_stats;
+      const staffStats = stats.staff_stats;
+      const reviewStats = stats.review_stats;
+      const loyaltyStats = stats.loyalty_stats;
+
+      let statsText = `Customer Statistics for ${args.customer_id}:\n\n`;
+
+      statsText += `📊 Appointment Statistics:\n`;
+      statsText += `- Total Appointments: ${aptStats.total_appointments}\n`;
+      statsText += `- Completed: ${aptStats.completed_appointments}\n`;
+      statsText += `- Cancelled: ${aptStats.cancelled_appointments}\n`;
+      statsText += `- Upcoming: ${aptStats.upcoming_appointments}\n`;
+      statsText += `- First Appointment: ${aptStats.first_appointment || 'N/A'}\n`;
+      statsText += `- Last Appointment: ${aptStats.last_appointment || 'N/A'}\n\n`;
+
+      statsText += `💰 Service Statistics:\n`;
+      statsText += `- Services Used: ${serviceStats.total_services_used}\n`;
+      statsText += `- Most Used Service: ${serviceStats.most_used_service || 'N/A'}\n`;
+      statsText += `- Total Spent: $${(serviceStats.total_spent / 100).toFixed(2)}\n\n`;
+
+      statsText += `👥 Staff Statistics:\n`;
+      statsText += `- Staff Seen: ${staffStats.total_staff_seen}\n`;
+      statsText += `- Preferred Staff: ${staffStats.preferred_staff || 'N/A'}\n\n`;
+
+      statsText += `⭐ Review Statistics:\n`;
+      statsText += `- Total Reviews: ${reviewStats.total_reviews}\n`;
+      statsText += `- Average Rating: ${reviewStats.average_rating.toFixed(1)}/5\n`;
+      statsText += `- Last Review: ${reviewStats.last_review_date || 'N/A'}\n\n`;
+
+      statsText += `🎯 Loyalty Statistics:\n`;
+      statsText += `- Customer Since: ${loyaltyStats.customer_since}\n`;
+      statsText += `- Days Since Last Visit: ${loyaltyStats.days_since_last_visit || 'N/A'}\n`;
+      statsText += `- Visit Frequency: ${loyaltyStats.visit_frequency ? loyaltyStats.visit_frequency.toFixed(1) + ' days' : 'N/A'}`;
+
+      return {
+        text: statsText,
+        data: {
+          customer_id: args.customer_id,
+          appointments: {
+            total: toNumber(aptStats.total_appointments),
+            completed: toNumber(aptStats.completed_appointments),
+            cancelled: toNumber(aptStats.cancelled_appointments),
+            upcoming: toNumber(aptStats.upcoming_appointments),
+            first_appointment: toIso(aptStats.first_appointment),
+            last_appointment: toIso(aptStats.last_appointment),
+          },
+          services: {
+            services_used: toNumber(serviceStats.total_services_used),
+            most_used_service: toNullableString(serviceStats.most_used_service),
+            total_spent: money(serviceStats.total_spent, serviceStats.currency),
+          },
+          staff: {
+            staff_seen: toNumber(staffStats.total_staff_seen),
+            preferred_staff: toNullableString(staffStats.preferred_staff),
+          },
+          reviews: {
+            total_reviews: toNumber(reviewStats.total_reviews),
+            average_rating: toNumber(reviewStats.average_rating),
+            last_review_date: toIso(reviewStats.last_review_date),
+          },
+          loyalty: {
+            customer_since: toIso(loyaltyStats.customer_since),
+            days_since_last_visit: toNumber(loyaltyStats.days_since_last_visit),
+            visit_frequency_days: toNumber(loyaltyStats.visit_frequency),
+          },
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer_appointments",
+    description: "Get appointment history for a specific customer",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      limit: z.number().optional().describe("Maximum number of appointments to return (optional)"),
+    }),
+    outputSchema: appointmentListResult,
+    errorMessage: "Error retrieving customer appointments",
+    handler: async (args, { businessId, timeZone, session }) => {
+      const { customer_id, limit } = args;
+      requireVerifiedCustomer(session, customer_id);
+
+      const appointments = await getCustomerAppointments(businessId, customer_id, limit);
+
+      if (!appointments || appointments.length === 0) {
+        return {
+          text: "No appointments found for this customer.",
+          data: { appointments: [], count: 0 },
+        };
+      }
+
+      const appointmentList = appointments
+        .map((apt: any) => 
+          `ID: ${apt.id}\nService: ${apt.service_name}\nStaff: ${apt.staff_first_name ? `${apt.staff_first_name} ${apt.staff_last_name}` : 'Not assigned'}\nStart: ${toZonedIso(apt.start_time, timeZone)}\nEnd: ${toZonedIso(apt.end_time, timeZone)}\nStatus: ${apt.status}\nDuration: ${apt.duration_minutes} minutes\nPrice: $${(apt.price_cents / 100).toFixed(2)}${apt.rating ? `\nRating: ${apt.rating}/5` : ''}${apt.review_text ? `\nReview: ${apt.review_text}` : ''}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Found ${appointments.length} appointment(s) for customer:\n\n${appointmentList}`,
+        data: { appointments: appointments.map((apt: any) => serializeAppointment(apt, timeZone)), count: appointments.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer_reviews",
+    description: "Get reviews for a specific customer",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+    }),
+    outputSchema: z.object({ reviews: z.array(ReviewSchema), count: z.number() }),
+    errorMessage: "Error retrieving customer reviews",
+    handler: async (args, { businessId, session }) => {
+      const { customer_id } = args;
+      requireVerifiedCustomer(session, customer_id);
+
+      const reviews = await getCustomerReviews(businessId, customer_id);
+
+      if (!reviews || reviews.length === 0) {
+        return {
+          text: "No reviews found for this customer.",
+          data: { reviews: [], count: 0 },
+        };
+      }
+
+      const reviewList = reviews
+        .map((review: any) => 
+          `ID: ${review.id}\nService: ${review.service_name}\nStaff: ${review.staff_first_name ? `${review.staff_first_name} ${review.staff_last_name}` : 'Not specified'}\nRating: ${review.rating}/5\nReview: ${review.review_text || 'No review text'}\nAppointment Date: ${review.start_time ? new Date(review.start_time).toLocaleDateString() : 'Not available'}\nReview Date: ${new Date(review.created_at).toLocaleDateString()}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Found ${reviews.length} review(s) for customer:\n\n${reviewList}`,
+        data: { reviews: reviews.map(serializeReview), count: reviews.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "create_review",
+    description: "Create a new review for an appointment",
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment ID"),
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().optional().describe("The staff member ID (optional)"),
+      rating: z.number().min(1).max(5, "Rating must be between 1 and 5").describe("Rating from 1 to 5"),
+      review_text: z.string().optional().describe("Review text (optional)"),
+    }),
+    outputSchema: z.object({ review: ReviewSchema }),
+    errorMessage: "Error creating review",
+    handler: async (args, { businessId }) => {
+      const reviewData = args;
+
+      await ensureBusinessExists(businessId);
+      const review = await createReview(businessId, reviewData);
+
+      return {
+        text: `Review created successfully!\n\nID: ${review.id}\nAppointment ID: ${review.appointment_id}\nCustomer ID: ${review.customer_id}\nService ID: ${review.service_id}\nStaff ID: ${review.staff_id || 'Not specified'}\nRating: ${review.rating}/5\nReview: ${review.review_text || 'No review text'}\nCreated: ${new Date(review.created_at).toLocaleString()}`,
+        data: { review: serializeReview(review) },
+      };
+    },
+  }),
+  defineTool({
+    name: "find_duplicate_customers",
+    description: "Find customer records that are probably the same person, scored from 0 to 1 by matching email (ignoring case and +tags), phone number (digits only) and similar names. Review the pairs, then combine them with merge_customers",
+    inputSchema: z.object({
+      customer_id: z.string().optional().describe("Only pairs including this customer (optional)"),
+      min_score: z.number().min(0).max(1).optional().describe("Lowest score to report (optional, default 0.4; a matching name alone scores 0.4)"),
+      limit: z.number().int().min(1).max(MAX_DUPLICATE_RESULTS).optional().describe(`Maximum number of pairs (optional, default ${MAX_DUPLICATE_RESULTS})`),
+    }),
+    outputSchema: z.object({ candidates: z.array(DuplicateCandidateSchema), count: z.number() }),
+    errorMessage: "Error finding duplicate customers",
+    handler: async (args, { businessId, session }) => {
+      const pairs = await findDuplicateCustomers(businessId, args);
+      // Contact details of customers this session has not verified stay masked
+      const candidates = pairs.map((pair: any) => {
+        const candidate = serializeDuplicateCandidate(pair);
+        return {
+          ...candidate,
+          customers: candidate.customers.map((customer) => (isCustomerVerified(session, customer.id) ? customer : redactCustomer(customer))),
+        };
+      });
+
+      if (candidates.length === 0) {
+        return {
+          text: "No likely duplicate customers found.",
+          data: { candidates: [], count: 0 },
+        };
+      }
+
+      const candidateList = candidates
+        .map((candidate, index) => {
+          const [first, second] = candidate.customers;
+          const describe = (customer: typeof first) =>
+            `${customer.first_name ?? ''} ${customer.last_name ?? ''}`.trim() + ` (ID: ${customer.id}, ${customer.appointment_count ?? 0} appointment(s))`;
+          return `${index + 1}. Score ${candidate.score}: ${candidate.reasons.join(', ')}\n   ${describe(first)}\n   ${describe(second)}`;
+        })
+        .join('\n');
+
+      return {
+        text: `Found ${candidates.length} likely duplicate pair(s):\n\n${candidateList}\n\nConfirm with merge_customers, keeping the record with the most history.`,
+        data: { candidates, count: candidates.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "merge_customers",
+    description: "Merge a duplicate customer into the record that survives. Appointments, reviews, visits, series, waitlist entries and class enrollments move to the survivor (payments follow their appointments), missing contact details are filled in, and the duplicate is deleted. The merge is recorded in the audit trail",
+    inputSchema: z.object({
+      survivor_id: z.string().min(1, "Survivor ID is required").describe("The customer record to keep"),
+      duplicate_id: z.string().min(1, "Duplicate ID is required").describe("The customer record to merge and delete"),
+      reason: z.string().optional().describe("Why the records were merged, kept in the audit trail (optional)"),
+    }),
+    outputSchema: z.object({ customer: CustomerSchema, merge: CustomerMergeSchema }),
+    errorMessage: "Error merging customers",
+    handler: async (args, { businessId, session }) => {
+      const { customer, merge } = await mergeCustomers(businessId, args.survivor_id, args.duplicate_id, args.reason);
+      const serialized = serializeCustomerMerge(merge);
+      const movedList = Object.entries(serialized.moved)
+        .filter(([, count]) => count > 0)
+        .map(([table, count]) => `- ${table.replace(/_/g, ' ')}: ${count}`)
+        .join('\n');
+
+      return {
+        text: `✅ Customer ${args.duplicate_id} merged into ${customer.id} (${customer.first_name} ${customer.last_name})\n\nMerge ID: ${serialized.id}\n${movedList ? `Moved:\n${movedList}` : 'Nothing to move'}`,
+        data: {
+          customer: isCustomerVerified(session, customer.id) ? serializeCustomer(customer) : redactCustomer(serializeCustomer(customer)),
+          merge: { ...serialized, merged_customer: redactCustomer(serialized.merged_customer) },
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_customer_merges",
+    description: "List the audit trail of customer merges, newest first",
+    inputSchema: z.object({
+      customer_id: z.string().optional().describe("Only merges into or of this customer (optional)"),
+    }),
+    outputSchema: z.object({ merges: z.array(CustomerMergeSchema), count: z.number() }),
+    errorMessage: "Error retrieving customer merges",
+    handler: async (args, { businessId }) => {
+      const merges: z.infer<typeof CustomerMergeSchema>[] = (await getCustomerMerges(businessId, args.customer_id)).map(serializeCustomerMerge);
+
+      if (merges.length === 0) {
+        return {
+          text: "No customer merges recorded.",
+          data: { merges: [], count: 0 },
+        };
+      }
+
+      const mergeList = merges
+        .map((merge) => `ID: ${merge.id}\nMerged: ${merge.merged_customer.first_name ?? ''} ${merge.merged_customer.last_name ?? ''} (${merge.merged_customer_id})\nInto: ${merge.survivor_id ?? 'deleted customer'}\nReason: ${merge.reason || 'Not given'}\nDate: ${merge.created_at}\n---`)
+        .join('\n');
+
+      return {
+        text: `Found ${merges.length} customer merge(s):\n\n${mergeList}`,
+        data: {
+          merges: merges.map((merge) => ({ ...merge, merged_customer: redactCustomer(merge.merged_customer) })),
+          count: merges.length,
+        },
+      };
+    },
+  }),
+];
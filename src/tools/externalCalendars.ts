@@ -0,0 +1,166 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument } from "./shared.js";
+import {
+  ExternalBusyBlockSchema,
+  ExternalCalendarSchema,
+  serializeExternalBusyBlock,
+  serializeExternalCalendar,
+} from "../serializers.js";
+import {
+  importExternalCalendar,
+  syncExternalCalendar,
+  listExternalCalendars,
+  removeExternalCalendar,
+  listExternalBusyBlocks,
+} from "../database.js";
+import { EXTERNAL_CALENDAR_DAYS } from "../externalCalendar.js";
+import { formatInTimeZone } from "../timezone.js";
+
+type Calendar = z.infer<typeof ExternalCalendarSchema>;
+
+const ImportResultSchema = z.object({
+  calendar: ExternalCalendarSchema,
+  warnings: z.array(z.string()).describe("Events that could not be imported in full"),
+});
+
+function calendarLabel(calendar: Calendar): string {
+  return calendar.name ? `"${calendar.name}"` : calendar.source;
+}
+
+function importText(verb: string, calendar: Calendar, warnings: string[]): string {
+  const notes = warnings.length > 0 ? `\n\n⚠️ ${warnings.join('\n⚠️ ')}` : '';
+  return `📥 ${verb} ${calendarLabel(calendar)}: ${calendar.busy_block_count} busy time(s) in the next ${EXTERNAL_CALENDAR_DAYS} days now block bookings.\n\nCalendar ID: ${calendar.id}${notes}`;
+}
+
+export const externalCalendarTools = [
+  defineTool({
+    name: "import_external_calendar",
+    description: `Import a staff member's external calendar (an .ics file, e.g. their schedule at another location) so its events block bookings. Give a calendar URL, or for offline use a file inside EXTERNAL_CALENDAR_DIR. Recurring events are included; events marked free or cancelled are not. Events in the next ${EXTERNAL_CALENDAR_DAYS} days are imported; importing the same source again refreshes it`,
+    inputSchema: z.object({
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member whose calendar it is"),
+      url: z.string().optional().describe("https:// or webcal:// address of the calendar (give this or file_path)"),
+      file_path: z.string().optional().describe("Path of an .ics file, relative to EXTERNAL_CALENDAR_DIR (give this or url)"),
+      name: z.string().max(255).optional().describe("Name to show for the calendar (optional; defaults to the calendar's own name)"),
+    }),
+    outputSchema: ImportResultSchema,
+    errorMessage: "Error importing external calendar",
+    handler: async (args, { businessId }) => {
+      if (!args.url === !args.file_path) {
+        throw new Error("Give either url or file_path");
+      }
+      const result = await importExternalCalendar(businessId, args.staff_id, {
+        source_type: args.url ? 'url' : 'file',
+        source: (args.url || args.file_path)!,
+        name: args.name,
+      });
+      const calendar = serializeExternalCalendar(result.calendar);
+
+      return {
+        text: importText("Imported", calendar, result.warnings),
+        data: { calendar, warnings: result.warnings },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "sync_external_calendar",
+    description: "Read an imported external calendar again and replace its busy times. If it cannot be read, the previous busy times stay and the error is recorded on the calendar",
+    inputSchema: z.object({
+      calendar_id: z.string().min(1, "Calendar ID is required").describe("The external calendar ID"),
+    }),
+    outputSchema: ImportResultSchema,
+    errorMessage: "Error syncing external calendar",
+    handler: async (args, { businessId }) => {
+      const result = await syncExternalCalendar(businessId, args.calendar_id);
+      const calendar = serializeExternalCalendar(result.calendar);
+
+      return {
+        text: importText("Synced", calendar, result.warnings),
+        data: { calendar, warnings: result.warnings },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_external_calendars",
+    description: "List the external calendars imported for staff, with when each was last synced and any sync error",
+    inputSchema: z.object({
+      staff_id: z.string().optional().describe("Only this staff member's calendars (optional)"),
+    }),
+    outputSchema: z.object({ calendars: z.array(ExternalCalendarSchema), count: z.number() }),
+    errorMessage: "Error listing external calendars",
+    handler: async (args, { businessId }) => {
+      const calendars = (await listExternalCalendars(businessId, args)).map(serializeExternalCalendar);
+
+      if (calendars.length === 0) {
+        return {
+          text: "No external calendars found.",
+          data: { calendars: [], count: 0 },
+        };
+      }
+
+      const list = calendars
+        .map((calendar: Calendar, index: number) =>
+          `${index + 1}. ${calendarLabel(calendar)} for ${calendar.staff_name || calendar.staff_id} (ID: ${calendar.id})\n   ${calendar.busy_block_count} busy time(s), last synced ${calendar.last_synced_at || 'never'}${calendar.last_error ? `\n   ⚠️ Last sync failed: ${calendar.last_error}` : ''}`
+        )
+        .join('\n');
+
+      return {
+        text: `External calendars (${calendars.length}):\n\n${list}`,
+        data: { calendars, count: calendars.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "remove_external_calendar",
+    description: "Remove an imported external calendar; its busy times stop blocking bookings straight away",
+    inputSchema: z.object({
+      calendar_id: z.string().min(1, "Calendar ID is required").describe("The external calendar ID"),
+    }),
+    outputSchema: z.object({ calendar: ExternalCalendarSchema }),
+    errorMessage: "Error removing external calendar",
+    handler: async (args, { businessId }) => {
+      const calendar = serializeExternalCalendar(await removeExternalCalendar(businessId, args.calendar_id));
+      return {
+        text: `🗑️ External calendar ${calendarLabel(calendar)} removed.`,
+        data: { calendar },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_external_busy_blocks",
+    description: "List the busy times imported from external calendars on a range of dates. Event titles are for staff only; do not share them with customers",
+    inputSchema: z.object({
+      start_date: dateArgument("Start date is required").describe("First date (YYYY-MM-DD format)"),
+      end_date: dateArgument("End date is required").optional().describe("Last date (YYYY-MM-DD format, optional; defaults to start_date)"),
+      staff_id: z.string().optional().describe("Only this staff member's busy times (optional)"),
+      calendar_id: z.string().optional().describe("Only this calendar's busy times (optional)"),
+    }),
+    outputSchema: z.object({ busy_blocks: z.array(ExternalBusyBlockSchema), count: z.number() }),
+    errorMessage: "Error listing external busy times",
+    handler: async (args, { businessId, timeZone }) => {
+      const end_date = args.end_date ?? args.start_date;
+      const rows = await listExternalBusyBlocks(businessId, { ...args, end_date });
+      const busy_blocks = rows.map((row: any) => serializeExternalBusyBlock(row, timeZone));
+
+      if (rows.length === 0) {
+        return {
+          text: `No external busy times between ${args.start_date} and ${end_date}.`,
+          data: { busy_blocks: [], count: 0 },
+        };
+      }
+
+      const list = rows
+        .map((row: any) => `• ${row.is_all_day ? `${formatInTimeZone(row.start_time, timeZone).slice(0, 10)} all day` : `${formatInTimeZone(row.start_time, timeZone)} to ${formatInTimeZone(row.end_time, timeZone)}`}: ${row.summary || 'Busy'} (staff ${row.staff_id})`)
+        .join('\n');
+
+      return {
+        text: `External busy times (${rows.length}):\n\n${list}`,
+        data: { busy_blocks, count: rows.length },
+      };
+    },
+  }),
+];
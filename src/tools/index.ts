@@ -0,0 +1,47 @@
+import { registerTools } from "./registry.js";
+import { appointmentTools } from "./appointments.js";
+import { seriesTools } from "./series.js";
+import { visitTools } from "./visits.js";
+import { bookingTools } from "./booking.js";
+import { waitlistTools } from "./waitlist.js";
+import { classTools } from "./classes.js";
+import { inventoryTools } from "./inventory.js";
+import { availabilityTools } from "./availability.js";
+import { customerTools } from "./customers.js";
+import { verificationTools } from "./verification.js";
+import { notificationTools } from "./notifications.js";
+import { templateTools } from "./templates.js";
+import { calendarTools } from "./calendar.js";
+import { externalCalendarTools } from "./externalCalendars.js";
+import { webhookTools } from "./webhooks.js";
+import { serviceTools } from "./services.js";
+import { staffTools } from "./staff.js";
+import { businessTools } from "./business.js";
+
+export { callTool, listTools, loadToolPlugins } from "./registry.js";
+
+/**
+ * Register the built-in tools. Call once per process, before loading plugins.
+ */
+export function registerCoreTools(): void {
+  registerTools([
+    ...appointmentTools,
+    ...seriesTools,
+    ...visitTools,
+    ...bookingTools,
+    ...waitlistTools,
+    ...classTools,
+    ...availabilityTools,
+    ...customerTools,
+    ...verificationTools,
+    ...notificationTools,
+    ...templateTools,
+    ...calendarTools,
+    ...externalCalendarTools,
+    ...webhookTools,
+    ...serviceTools,
+    ...inventoryTools,
+    ...staffTools,
+    ...businessTools,
+  ]);
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  ResourceSchema,
+  ResourceTypeSchema,
+  ServiceResourceRequirementSchema,
+  serializeResource,
+  serializeResourceType,
+  serializeServiceResourceRequirement,
+} from "../serializers.js";
+import {
+  listResources,
+  addResource,
+  setServiceResourceRequirement,
+} from "../database.js";
+
+export const inventoryTools = [
+  defineTool({
+    name: "list_resources",
+    description: "List the business's bookable resources (rooms, chairs, equipment) by type, with the services that need them",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ resource_types: z.array(ResourceTypeSchema), count: z.number() }),
+    errorMessage: "Error listing resources",
+    handler: async (args, { businessId }) => {
+      const resourceTypes: z.infer<typeof ResourceTypeSchema>[] = (await listResources(businessId)).map(serializeResourceType);
+
+      if (resourceTypes.length === 0) {
+        return {
+          text: "No resources found.",
+          data: { resource_types: [], count: 0 },
+        };
+      }
+
+      const typeList = resourceTypes
+        .map((type) => {
+          const units = type.resources.map((unit) => `${unit.name}${unit.is_active ? '' : ' (inactive)'}`).join(', ') || 'none';
+          const services = type.required_by.map((requirement) => `${requirement.service_name} (${requirement.quantity})`).join(', ') || 'none';
+          return `${type.name}: ${type.unit_count} unit(s)\n   Units: ${units}\n   Needed by: ${services}`;
+        })
+        .join('\n');
+
+      return {
+        text: `Resources:\n\n${typeList}`,
+        data: { resource_types: resourceTypes, count: resourceTypes.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "add_resource",
+    description: "Add a unit to the resource inventory, e.g. \"Room 2\" of type \"Treatment Room\". The type is created if it does not exist yet",
+    inputSchema: z.object({
+      resource_type: z.string().min(1, "Resource type is required").describe("The resource type name, e.g. Treatment Room or Laser Machine"),
+      name: z.string().min(1, "Name is required").describe("The name of this unit, e.g. Room 2"),
+      notes: z.string().optional().describe("Optional notes"),
+    }),
+    outputSchema: z.object({ resource: ResourceSchema }),
+    errorMessage: "Error adding resource",
+    handler: async (args, { businessId }) => {
+      const resource = serializeResource(await addResource(businessId, args));
+
+      return {
+        text: `✅ Resource added\n\nResource ID: ${resource.id}\nName: ${resource.name}\nType: ${resource.resource_type_name}`,
+        data: { resource },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "set_service_resource_requirement",
+    description: "Set how many units of a resource type each booking of a service needs. Bookings, availability and conflict checks then require a free unit; use quantity 0 to remove the requirement",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      resource_type: z.string().min(1, "Resource type is required").describe("The resource type name"),
+      quantity: z.number().int().min(0).describe("Units per booking (0 removes the requirement)"),
+    }),
+    outputSchema: z.object({ requirement: ServiceResourceRequirementSchema }),
+    errorMessage: "Error setting service resource requirement",
+    handler: async (args, { businessId }) => {
+      const requirement = serializeServiceResourceRequirement(
+        await setServiceResourceRequirement(businessId, args.service_id, args.resource_type, args.quantity)
+      );
+
+      return {
+        text: requirement.quantity > 0
+          ? `✅ Each booking of service ${requirement.service_id} now needs ${requirement.quantity} ${requirement.resource_type_name}`
+          : `✅ Service ${requirement.service_id} no longer needs ${requirement.resource_type_name}`,
+        data: { requirement },
+      };
+    },
+  }),
+];
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  AppointmentNotificationSchema,
+  serializeAppointmentNotification,
+} from "../serializers.js";
+import {
+  deliverDueNotifications,
+  listAppointmentNotifications,
+} from "../database.js";
+import { NOTIFICATION_BATCH_SIZE, NOTIFICATION_STATUSES } from "../notifications.js";
+
+type Notification = z.infer<typeof AppointmentNotificationSchema>;
+
+function notificationLine(notification: Notification): string {
+  const when = notification.sent_at ? `sent ${notification.sent_at}` : `scheduled ${notification.scheduled_at}`;
+  const error = notification.last_error ? `\n   Last error: ${notification.last_error}` : '';
+  return `${notification.kind} by ${notification.channel} [${notification.status}] - ${when} (attempts: ${notification.attempts})${error}`;
+}
+
+export const notificationTools = [
+  defineTool({
+    name: "list_appointment_notifications",
+    description: "List the confirmations, reminders, follow-ups and change notices queued or sent for an appointment, or for the whole business, newest first",
+    inputSchema: z.object({
+      appointment_id: z.string().optional().describe("Only notifications for this appointment (optional)"),
+      status: z.enum(NOTIFICATION_STATUSES).optional().describe("Filter by status (optional)"),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of notifications (optional, default 100)"),
+    }),
+    outputSchema: z.object({ notifications: z.array(AppointmentNotificationSchema), count: z.number() }),
+    errorMessage: "Error listing notifications",
+    handler: async (args, { businessId, timeZone }) => {
+      const rows = await listAppointmentNotifications(businessId, args);
+      const notifications = rows.map((row: any) => serializeAppointmentNotification(row, timeZone));
+
+      if (notifications.length === 0) {
+        return {
+          text: "No notifications found.",
+          data: { notifications: [], count: 0 },
+        };
+      }
+
+      const list = notifications
+        .map((notification: Notification, index: number) => `${index + 1}. ${notificationLine(notification)}\n   Appointment ID: ${notification.appointment_id}`)
+        .join('\n');
+
+      return {
+        text: `Notifications (${notifications.length}):\n\n${list}`,
+        data: { notifications, count: notifications.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "send_due_notifications",
+    description: "Send this business's notifications that are due now, without waiting for the background worker. Failed sends are retried later",
+    inputSchema: z.object({
+      limit: z.number().int().min(1).max(500).optional().describe(`Maximum number to send (optional, default ${NOTIFICATION_BATCH_SIZE})`),
+    }),
+    outputSchema: z.object({
+      notifications: z.array(AppointmentNotificationSchema),
+      sent: z.number(),
+      retrying: z.number().describe("Failed this time; will be retried"),
+      failed: z.number().describe("Gave up after the last attempt, or no contact on file"),
+      canceled: z.number().describe("No longer needed, e.g. a reminder for a cancelled appointment"),
+    }),
+    errorMessage: "Error sending notifications",
+    handler: async (args, { businessId, timeZone }) => {
+      const rows = await deliverDueNotifications(businessId, args.limit);
+      const notifications = rows.map((row: any) => serializeAppointmentNotification(row, timeZone));
+      const count = (status: Notification['status']) => notifications.filter((notification: Notification) => notification.status === status).length;
+      const summary = { sent: count('sent'), retrying: count('pending'), failed: count('failed'), canceled: count('canceled') };
+
+      if (notifications.length === 0) {
+        return {
+          text: "No notifications are due.",
+          data: { notifications: [], ...summary },
+        };
+      }
+
+      return {
+        text: `📨 Processed ${notifications.length} notification(s): ${summary.sent} sent, ${summary.retrying} to retry, ${summary.failed} failed, ${summary.canceled} no longer needed.\n\n${notifications.map(notificationLine).join('\n')}`,
+        data: { notifications, ...summary },
+      };
+    },
+  }),
+];
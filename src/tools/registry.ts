@@ -0,0 +1,327 @@
+import { pathToFileURL } from 'node:url';
+import path from 'node:path';
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { SessionContext, resolveBusinessId } from "../context.js";
+import { getBusinessTimezone } from "../database.js";
+import { DomainError, isDomainError } from "../errors.js";
+import { DateInterpretationSchema } from "../serializers.js";
+import { DateInterpretation, TimeWindow, interpretDateExpression, isIsoDate } from "../naturalDates.js";
+import { timesOfDayInRange } from "../slotSearch.js";
+import { isDateArgument } from "./shared.js";
+
+export interface ToolContext {
+  // Business the call is scoped to, resolved from the session and the business_id argument
+  businessId: string;
+  // IANA timezone of that business; zone-less times in arguments are local to it
+  timeZone: string;
+  session: SessionContext;
+}
+
+export interface ToolOutput<Data> {
+  // Human-readable summary
+  text: string;
+  // Machine-readable payload matching the tool's output schema
+  data: Data;
+}
+
+/**
+ * A tool declared once: its zod input schema validates calls and generates the
+ * tools/list JSON schema, and its output schema is published as outputSchema.
+ */
+export interface ToolDefinition<
+  Input extends z.ZodRawShape = z.ZodRawShape,
+  Output extends z.ZodRawShape = z.ZodRawShape,
+> {
+  name: string;
+  description: string;
+  inputSchema: z.ZodObject<Input>;
+  outputSchema: z.ZodObject<Output>;
+  // Prefix for failure text, e.g. "Error creating appointment"
+  errorMessage: string;
+  handler: (
+    args: z.infer<z.ZodObject<Input>>,
+    context: ToolContext
+  ) => Promise<ToolOutput<z.infer<z.ZodObject<Output>>>>;
+}
+
+// Identity helper that infers the handler's argument and payload types from the schemas
+export function defineTool<Input extends z.ZodRawShape, Output extends z.ZodRawShape>(
+  tool: ToolDefinition<Input, Output>
+): ToolDefinition<Input, Output> {
+  return tool;
+}
+
+const tools = new Map<string, ToolDefinition<any, any>>();
+
+// Every tool accepts an optional business_id that selects the tenant for the call
+const businessIdProperty = {
+  type: "string",
+  description: "The business ID (optional; defaults to the session's business or BUSINESS_ID)",
+};
+
+export function registerTool(tool: ToolDefinition<any, any>): void {
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  tools.set(tool.name, tool);
+}
+
+export function registerTools(definitions: ToolDefinition<any, any>[]): void {
+  for (const tool of definitions) {
+    registerTool(tool);
+  }
+}
+
+// The registered definitions with their zod schemas, e.g. to check results against outputSchema
+export function getRegisteredTools(): ToolDefinition<any, any>[] {
+  return [...tools.values()];
+}
+
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return jsonSchema;
+}
+
+// Present in a result when date arguments were given as expressions such as "next Tuesday"
+const DateInterpretationsSchema = z
+  .array(DateInterpretationSchema.extend({
+    field: z.string().describe("The argument the expression was given for"),
+    note: z.string().nullable().describe("How the time window was applied to the tool's time arguments, or that it was not"),
+  }))
+  .describe("How natural-language date arguments were resolved; confirm them with the customer");
+const dateInterpretationsProperty = toJsonSchema(DateInterpretationsSchema);
+
+type FieldInterpretation = DateInterpretation & { field: string; note: string | null };
+
+// Range arguments: an expression for the first also fills an omitted second
+const DATE_RANGE_FIELDS: Record<string, string> = { start_date: 'end_date', earliest_date: 'latest_date' };
+// Arguments that take the last day of an expression's range
+const RANGE_END_FIELDS = new Set(['end_date', 'latest_date', 'until']);
+
+const DATE_EXPRESSION_HINT = 'Expressions such as "next Tuesday", "this weekend" or "June 10" are also accepted and resolved in the business timezone';
+
+/**
+ * tools/list entries generated from the registered zod schemas.
+ */
+export function listTools() {
+  return [...tools.values()].map((tool) => {
+    // zod strips unknown keys rather than rejecting them
+    const { additionalProperties, ...inputSchema } = toJsonSchema(tool.inputSchema);
+    for (const [field, fieldSchema] of Object.entries(tool.inputSchema.shape as z.ZodRawShape)) {
+      if (isDateArgument(fieldSchema) && inputSchema.properties?.[field]) {
+        const description = inputSchema.properties[field].description;
+        inputSchema.properties[field].description = `${description ? `${description}. ` : ''}${DATE_EXPRESSION_HINT}`;
+      }
+    }
+    const outputSchema = toJsonSchema(tool.outputSchema);
+    return {
+      name: tool.name,
+      description: tool.description,
+      inputSchema: {
+        ...inputSchema,
+        properties: { ...inputSchema.properties, business_id: businessIdProperty },
+      },
+      outputSchema: {
+        ...outputSchema,
+        properties: { ...outputSchema.properties, date_interpretations: dateInterpretationsProperty },
+      },
+    };
+  });
+}
+
+/**
+ * Build a successful tool result carrying both the human-readable text and the
+ * machine-readable payload (as structuredContent and as a JSON content block).
+ */
+export function toolResult<T extends Record<string, unknown>>(name: string, text: string, data: T) {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+      {
+        type: "resource",
+        resource: {
+          uri: `appointment://tool-results/${name}`,
+          mimeType: "application/json",
+          text: JSON.stringify(data),
+        },
+      },
+    ],
+    structuredContent: data,
+  };
+}
+
+function errorResult(text: string, error?: DomainError) {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+    isError: true,
+    // Coded errors (e.g. SLOT_TAKEN) are machine-readable too
+    ...(error && {
+      structuredContent: {
+        error: { code: error.code, message: error.message, details: error.details ?? null },
+      },
+    }),
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return error.issues
+      .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+  }
+  if (isDomainError(error)) {
+    return `${error.code}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Fill the tool's time-of-day arguments the caller left out from an
+ * expression's time window ("after work", "morning"). Returns the note for the
+ * interpretation.
+ */
+function applyTimeWindow(
+  shape: z.ZodRawShape,
+  args: Record<string, unknown>,
+  resolved: Record<string, unknown>,
+  window: TimeWindow
+): string {
+  if ('times_of_day' in shape) {
+    if (args.times_of_day !== undefined) return `${window.label} not applied; times_of_day was given`;
+    const timesOfDay = timesOfDayInRange(window.from, window.to);
+    resolved.times_of_day = timesOfDay;
+    return `times_of_day set to ${timesOfDay.join(', ')}`;
+  }
+  if ('window_start' in shape && 'window_end' in shape) {
+    if (args.window_start !== undefined || args.window_end !== undefined) {
+      return `${window.label} not applied; window_start or window_end was given`;
+    }
+    const applied: string[] = [];
+    if (window.from) {
+      resolved.window_start = window.from;
+      applied.push(`window_start set to ${window.from}`);
+    }
+    // An exact time ("at 3pm") is where the window starts, not where it ends
+    if (window.to && window.to !== window.from) {
+      resolved.window_end = window.to;
+      applied.push(`window_end set to ${window.to}`);
+    }
+    return applied.join(', ');
+  }
+  return `${window.label} not applied; this tool has no time filter, so keep to it when choosing times`;
+}
+
+/**
+ * Replace natural-language expressions in date arguments with YYYY-MM-DD dates
+ * in the business's timezone. An end_date, latest_date or until gets the last
+ * day of its range, any other date the first; a start_date (earliest_date)
+ * range also fills an omitted end_date (latest_date). A range for a field that
+ * takes a single day is rejected rather than cut to its first day. Time windows
+ * fill the tool's time-of-day arguments where it has them. Expressions that are
+ * not understood are left for validation to reject.
+ */
+export function resolveDateArguments(
+  schema: z.ZodObject<z.ZodRawShape>,
+  args: Record<string, unknown>,
+  timeZone: string,
+  now: Date = new Date()
+): { args: Record<string, unknown>; interpretations: FieldInterpretation[] } {
+  const resolved = { ...args };
+  const interpretations: FieldInterpretation[] = [];
+
+  for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+    const value = args[field];
+    if (typeof value !== 'string' || isIsoDate(value.trim()) || !isDateArgument(fieldSchema)) continue;
+
+    const interpretation = interpretDateExpression(value, now, timeZone);
+    if (!interpretation) continue;
+
+    const isRange = interpretation.end_date !== interpretation.start_date;
+    const pairedField = DATE_RANGE_FIELDS[field];
+    if (isRange && !RANGE_END_FIELDS.has(field) && !(pairedField && pairedField in schema.shape)) {
+      throw new DomainError(
+        'DATE_RANGE_NOT_SUPPORTED',
+        `${field} takes a single day, but "${interpretation.expression}" covers ${interpretation.start_date} to ${interpretation.end_date}. Ask the customer which day, or call the tool once for each day`,
+        { field, start_date: interpretation.start_date, end_date: interpretation.end_date }
+      );
+    }
+
+    resolved[field] = RANGE_END_FIELDS.has(field) ? interpretation.end_date : interpretation.start_date;
+    if (isRange && pairedField && args[pairedField] === undefined) {
+      resolved[pairedField] = interpretation.end_date;
+    }
+    const note = interpretation.time_window ? applyTimeWindow(schema.shape, args, resolved, interpretation.time_window) : null;
+    interpretations.push({ field, ...interpretation, note });
+  }
+
+  return { args: resolved, interpretations };
+}
+
+/**
+ * Validate the arguments against the tool's input schema, resolve the business
+ * and run the handler. Failures are returned as isError results.
+ */
+export async function callTool(name: string, args: Record<string, unknown> | undefined, session: SessionContext) {
+  const tool = tools.get(name);
+  if (!tool) {
+    return errorResult(`Unknown tool: ${name}`);
+  }
+
+  let businessId: string;
+  try {
+    businessId = resolveBusinessId(session, args?.business_id as string | undefined);
+  } catch (error) {
+    return errorResult(`Error: ${getErrorMessage(error)}`);
+  }
+
+  try {
+    const timeZone = await getBusinessTimezone(businessId);
+    const { args: resolvedArgs, interpretations } = resolveDateArguments(tool.inputSchema, args ?? {}, timeZone);
+    const parsedArgs = tool.inputSchema.parse(resolvedArgs);
+    const { text, data } = await tool.handler(parsedArgs, { businessId, timeZone, session });
+
+    if (interpretations.length === 0) {
+      return toolResult(tool.name, text, data);
+    }
+    const interpretationList = interpretations
+      .map((interpretation) => `• ${interpretation.field}: "${interpretation.expression}" → ${interpretation.description}${interpretation.note ? ` (${interpretation.note})` : ''}`)
+      .join('\n');
+    return toolResult(
+      tool.name,
+      `${text}\n\n📅 Dates interpreted:\n${interpretationList}`,
+      { ...data, date_interpretations: interpretations }
+    );
+  } catch (error) {
+    return errorResult(`${tool.errorMessage}: ${getErrorMessage(error)}`, isDomainError(error) ? error : undefined);
+  }
+}
+
+/**
+ * Load tool plugins. Each specifier is a package name or a path (relative to the
+ * working directory) of an ES module exporting `tools`, an array of definitions
+ * built with defineTool. Plugin tools are registered next to the core tools.
+ */
+export async function loadToolPlugins(specifiers: string[]): Promise<void> {
+  for (const specifier of specifiers) {
+    const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+    const moduleUrl = isPath ? pathToFileURL(path.resolve(specifier)).href : specifier;
+    const plugin = await import(moduleUrl);
+    const definitions = plugin.tools ?? plugin.default;
+
+    if (!Array.isArray(definitions)) {
+      throw new Error(`Tool plugin ${specifier} does not export a tools array`);
+    }
+
+    registerTools(definitions);
+    console.error(`Loaded ${definitions.length} tool(s) from plugin ${specifier}`);
+  }
+}
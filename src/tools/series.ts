@@ -0,0 +1,205 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument, dateTimeArgument } from "./shared.js";
+import {
+  AppointmentSchema,
+  AppointmentChangeSchema,
+  AppointmentSeriesSchema,
+  SeriesOccurrenceFailureSchema,
+  WaitlistOfferSchema,
+  serializeAppointment,
+  serializeAppointmentChange,
+  serializeAppointmentSeries,
+  serializeWaitlistOffer,
+  toZonedIso,
+} from "../serializers.js";
+import {
+  createAppointmentSeries,
+  getAppointmentSeries,
+  cancelSeriesFrom,
+  rescheduleSeriesOccurrence,
+} from "../database.js";
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_PRESETS,
+  parseRecurrenceRule,
+  presetRule,
+} from "../recurrence.js";
+
+const seriesResult = z.object({
+  series: AppointmentSeriesSchema,
+  appointments: z.array(AppointmentSchema),
+  count: z.number(),
+});
+
+export const seriesTools = [
+  defineTool({
+    name: "create_recurring_appointments",
+    description: "Book a recurring series (weekly, biweekly or monthly) of linked appointments at the same local time. Each occurrence is conflict-checked; occurrences that cannot be booked are reported with their conflicts while the rest are booked",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+      start_time: dateTimeArgument("Start time is required (ISO format)").describe("Start of the first occurrence (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      end_time: z.string().optional().describe("End of the first occurrence (optional; defaults to the service duration)"),
+      recurrence: z.enum(RECURRENCE_PRESETS as [string, ...string[]]).optional().describe("How often the appointment repeats (use this or rrule)"),
+      rrule: z.string().optional().describe("RRULE instead of recurrence, e.g. FREQ=WEEKLY;INTERVAL=3;COUNT=4 (FREQ WEEKLY or MONTHLY, INTERVAL, COUNT, UNTIL)"),
+      count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional().describe(`Number of occurrences including the first (use this or until; max ${MAX_SERIES_OCCURRENCES})`),
+      until: dateArgument().optional().describe("Last date an occurrence may fall on (YYYY-MM-DD, inclusive)"),
+      notes: z.string().optional().describe("Optional notes copied to every occurrence"),
+    }),
+    outputSchema: z.object({
+      series: AppointmentSeriesSchema,
+      appointments: z.array(AppointmentSchema),
+      failed: z.array(SeriesOccurrenceFailureSchema).describe("Occurrences that could not be booked"),
+      booked_count: z.number(),
+      failed_count: z.number(),
+    }),
+    errorMessage: "Error creating recurring appointments",
+    handler: async (args, { businessId, timeZone }) => {
+      if (!args.rrule && !args.recurrence) {
+        throw new Error(`Either recurrence (${RECURRENCE_PRESETS.join(', ')}) or rrule is required`);
+      }
+      const rule = args.rrule
+        ? parseRecurrenceRule(args.rrule)
+        : presetRule(args.recurrence!, { count: args.count, until: args.until });
+
+      const result = await createAppointmentSeries(businessId, {
+        customer_id: args.customer_id,
+        service_id: args.service_id,
+        staff_id: args.staff_id,
+        start_time: args.start_time,
+        end_time: args.end_time,
+        rule,
+        notes: args.notes,
+      });
+
+      const bookedText = result.booked
+        .map((apt: any) => `${apt.series_occurrence}. ${toZonedIso(apt.start_time, timeZone)} (ID: ${apt.id})`)
+        .join('\n');
+      const failedText = result.failed
+        .map((failure) => `${failure.occurrence}. ${failure.date}: ${failure.conflicts.map((conflict) => conflict.message).join('; ')}`)
+        .join('\n');
+
+      return {
+        text: `✅ Recurring series created (${result.series.rrule})\n\nSeries ID: ${result.series.id}\n\nBooked (${result.booked.length}):\n${bookedText}${result.failed.length > 0 ? `\n\n❌ Could not book (${result.failed.length}):\n${failedText}` : ''}`,
+        data: {
+          series: serializeAppointmentSeries(result.series, timeZone),
+          appointments: result.booked.map((apt: any) => serializeAppointment(apt, timeZone)),
+          failed: result.failed,
+          booked_count: result.booked.length,
+          failed_count: result.failed.length,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_appointment_series",
+    description: "Get a recurring series and all of its occurrences",
+    inputSchema: z.object({
+      series_id: z.string().min(1, "Series ID is required").describe("The series ID"),
+    }),
+    outputSchema: seriesResult,
+    errorMessage: "Error retrieving appointment series",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await getAppointmentSeries(businessId, args.series_id);
+
+      const occurrenceList = result.occurrences
+        .map((apt: any) => `${apt.series_occurrence}. ${toZonedIso(apt.start_time, timeZone)} - ${apt.status} (ID: ${apt.id})`)
+        .join('\n');
+
+      return {
+        text: `Appointment Series ${result.series.id}\n\nRule: ${result.series.rrule}\nStatus: ${result.series.status}\n\nOccurrences (${result.occurrences.length}):\n${occurrenceList}`,
+        data: {
+          series: serializeAppointmentSeries(result.series, timeZone),
+          appointments: result.occurrences.map((apt: any) => serializeAppointment(apt, timeZone)),
+          count: result.occurrences.length,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "cancel_series_from",
+    description: "Cancel this and all following occurrences of a recurring series",
+    inputSchema: z.object({
+      series_id: z.string().min(1, "Series ID is required").describe("The series ID"),
+      from_date: z.string().min(1, "From date is required").describe("First occurrence to cancel: a business-local date (YYYY-MM-DD) or an ISO date-time"),
+      cancellation_reason: z.string().min(1, "Cancellation reason is required").describe("Reason for cancellation"),
+      cancelled_by: z.string().min(1, "Cancelled by is required").describe("Who is cancelling (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({
+      series: AppointmentSeriesSchema,
+      changes: z.array(AppointmentChangeSchema),
+      count: z.number(),
+      waitlist_offers: z.array(WaitlistOfferSchema).describe("Freed slots offered to waitlisted customers"),
+    }),
+    errorMessage: "Error cancelling appointment series",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await cancelSeriesFrom(
+        businessId,
+        args.series_id,
+        args.from_date,
+        args.cancellation_reason,
+        args.cancelled_by
+      );
+
+      const changes = result.cancelled.map((cancellation: any) =>
+        serializeAppointmentChange('cancelled', cancellation.cancellation.appointment_id, {
+          status: cancellation.cancellation.status ?? 'canceled',
+          actor: args.cancelled_by,
+          reason: args.cancellation_reason,
+          occurred_at: cancellation.cancellation.cancelled_at,
+        })
+      );
+
+      return {
+        text: `✅ Cancelled ${changes.length} occurrence(s) from ${args.from_date}\n\nSeries ID: ${result.series.id}\nSeries Status: ${result.series.status}\nCancellation Reason: ${args.cancellation_reason}\nCancelled by: ${args.cancelled_by}${result.waitlist_offers.length > 0 ? `\nOffered to the waitlist: ${result.waitlist_offers.length} slot(s)` : ''}`,
+        data: {
+          series: serializeAppointmentSeries(result.series, timeZone),
+          changes,
+          count: changes.length,
+          waitlist_offers: result.waitlist_offers.map((offer: any) => serializeWaitlistOffer(offer, timeZone)),
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "reschedule_series_occurrence",
+    description: "Move one occurrence of a recurring series to a new time, leaving the rest of the series unchanged",
+    inputSchema: z.object({
+      series_id: z.string().min(1, "Series ID is required").describe("The series ID"),
+      occurrence_date: dateArgument("Occurrence date is required (YYYY-MM-DD format)").describe("Business-local date of the occurrence to move (YYYY-MM-DD)"),
+      new_start_time: dateTimeArgument("New start time is required (ISO format)").describe("New start time (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      new_end_time: z.string().optional().describe("New end time (optional; defaults to keeping the occurrence's length)"),
+      rescheduled_by: z.string().min(1, "Rescheduled by is required").describe("Who is rescheduling (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({ change: AppointmentChangeSchema }),
+    errorMessage: "Error rescheduling series occurrence",
+    handler: async (args, { businessId, timeZone }) => {
+      const { occurrence, reschedule } = await rescheduleSeriesOccurrence(
+        businessId,
+        args.series_id,
+        args.occurrence_date,
+        args.new_start_time,
+        args.new_end_time,
+        args.rescheduled_by
+      );
+
+      return {
+        text: `✅ Occurrence ${occurrence.series_occurrence} rescheduled\n\nAppointment ID: ${occurrence.id}\nOld Start Time: ${toZonedIso(reschedule.reschedule.old_start_time, timeZone)}\nNew Start Time: ${toZonedIso(reschedule.reschedule.new_start_time, timeZone)}\nRescheduled by: ${args.rescheduled_by}`,
+        data: {
+          change: serializeAppointmentChange('rescheduled', occurrence.id, {
+            status: reschedule.reschedule.status,
+            actor: args.rescheduled_by,
+            previous_start_time: reschedule.reschedule.old_start_time,
+            start_time: reschedule.reschedule.new_start_time,
+            occurred_at: reschedule.reschedule.rescheduled_at,
+          }),
+        },
+      };
+    },
+  }),
+];
@@ -0,0 +1,386 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  dateArgument,
+  nullableString,
+  serviceListResult,
+} from "./shared.js";
+import {
+  ServiceMatchSchema,
+  toNullableString,
+  serializeServiceMatch,
+} from "../serializers.js";
+import {
+  getServices,
+  getService,
+  getServiceByName,
+  searchServicesFuzzy,
+  searchServicesComprehensive,
+  getServicesByPriceRange,
+  getServicesByDuration,
+  getServicesByStaff,
+  getServicesByTimeAvailability,
+  getPopularServices,
+} from "../database.js";
+
+export const serviceTools = [
+  defineTool({
+    name: "get_services",
+    description: "Get all available services",
+    inputSchema: z.object({}),
+    outputSchema: serviceListResult,
+    errorMessage: "Error retrieving services",
+    handler: async (args, { businessId }) => {
+      const services = await getServices(businessId);
+
+      if (!services || services.length === 0) {
+        return {
+          text: "No services found.",
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const serviceList = services
+        .map((service: any) => 
+          `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: $${(service.price_cents / 100).toFixed(2)}\nCategory: ${service.category_name || 'Uncategorized'}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Found ${services.length} service(s):\n\n${serviceList}`,
+        data: { services: services.map(serializeServiceMatch), count: services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_service",
+    description: "Get detailed information about a specific service",
+    inputSchema: z.object({
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+    }),
+    outputSchema: z.object({ service: ServiceMatchSchema }),
+    errorMessage: "Error retrieving service",
+    handler: async (args, { businessId }) => {
+      const { service_id } = args;
+
+      const service = await getService(businessId, service_id);
+
+      const staffList = service.staff && service.staff.length > 0 
+        ? service.staff.map((staff: any) => `${staff.first_name} ${staff.last_name}`).join(', ')
+        : 'No staff assigned';
+
+      return {
+        text: `Service Details:\n\nID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: $${(service.price_cents / 100).toFixed(2)}\nCategory: ${service.category_name || 'Uncategorized'}\nCategory Description: ${service.category_description || 'No category description'}\nAvailable Staff: ${staffList}\nActive: ${service.is_active ? 'Yes' : 'No'}`,
+        data: { service: serializeServiceMatch(service) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_service_by_name",
+    description: "Search for services by name (supports partial matching)",
+    inputSchema: z.object({
+      service_name: z.string().min(1, "Service name is required").describe("The service name to search for (supports partial matching)"),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error retrieving service by name",
+    handler: async (args, { businessId }) => {
+      const { service_name } = args;
+
+      const services = await getServiceByName(businessId, service_name);
+
+      if (!services || services.length === 0) {
+        return {
+          text: `No services found matching "${service_name}".`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const serviceList = services
+        .map((service: any) => {
+          const staffList = service.staff && service.staff.length > 0 
+            ? service.staff.map((staff: any) => `${staff.first_name} ${staff.last_name}`).join(', ')
+            : 'No staff assigned';
+
+          return `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: $${(service.price_cents / 100).toFixed(2)}\nCategory: ${service.category_name || 'Uncategorized'}\nAvailable Staff: ${staffList}\nStaff Count: ${service.staff_count}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Found ${services.length} service(s) matching "${service_name}":\n\n${serviceList}`,
+        data: { services: services.map(serializeServiceMatch), count: services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "search_services_fuzzy",
+    description: "Search for services with fuzzy matching to handle typos and similar names",
+    inputSchema: z.object({
+      service_name: z.string().min(1, "Service name is required").describe("The service name to search for (handles typos and similar names)"),
+      similarity_threshold: z.number().min(0).max(1).optional().describe("Similarity threshold (0.0 to 1.0, default 0.3). Higher values require more exact matches."),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error searching services with fuzzy matching",
+    handler: async (args, { businessId }) => {
+      const { service_name, similarity_threshold = 0.3 } = args;
+
+      const services = await searchServicesFuzzy(businessId, service_name, similarity_threshold);
+
+      if (!services || services.length === 0) {
+        return {
+          text: `No services found matching "${service_name}" with similarity threshold ${similarity_threshold}.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const serviceList = services
+        .map((service: any) => {
+          const staffList = service.staff && service.staff.length > 0 
+            ? service.staff.map((staff: any) => `${staff.first_name} ${staff.last_name}`).join(', ')
+            : 'No staff assigned';
+
+          return `ID: ${service.service_id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: $${(service.price_cents / 100).toFixed(2)}\nSimilarity Score: ${(service.similarity_score * 100).toFixed(1)}%\nCategory: ${service.category?.name || 'Uncategorized'}\nAvailable Staff: ${staffList}\nStaff Count: ${service.staff_count}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Found ${services.length} service(s) matching "${service_name}" (fuzzy search):\n\n${serviceList}`,
+        data: { services: services.map(serializeServiceMatch), count: services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "search_services_comprehensive",
+    description: "Comprehensive service search that searches both names and descriptions with fuzzy matching",
+    inputSchema: z.object({
+      search_term: z.string().min(1, "Search term is required").describe("The search term to look for in service names and descriptions"),
+      similarity_threshold: z.number().min(0).max(1).optional().describe("Similarity threshold (0.0 to 1.0, default 0.3). Higher values require more exact matches."),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error searching services comprehensively",
+    handler: async (args, { businessId }) => {
+      const { search_term, similarity_threshold = 0.3 } = args;
+
+      const services = await searchServicesComprehensive(businessId, search_term, similarity_threshold);
+
+      if (!services || services.length === 0) {
+        return {
+          text: `No services found matching "${search_term}" with comprehensive search.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const serviceList = services
+        .map((service: any) => {
+          const staffList = service.staff && service.staff.length > 0 
+            ? service.staff.map((staff: any) => `${staff.first_name} ${staff.last_name}`).join(', ')
+            : 'No staff assigned';
+
+          return `ID: ${service.service_id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: $${(service.price_cents / 100).toFixed(2)}\nSearch Score: ${service.search_score}/100\nMatch Type: ${service.match_type}\nMatched Field: ${service.matched_field}\nCategory: ${service.category?.name || 'Uncategorized'}\nAvailable Staff: ${staffList}\nStaff Count: ${service.staff_count}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Found ${services.length} service(s) matching "${search_term}" (comprehensive search):\n\n${serviceList}`,
+        data: { services: services.map(serializeServiceMatch), count: services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_services_by_price_range",
+    description: "Get services filtered by price range (useful for customers with budget constraints)",
+    inputSchema: z.object({
+      min_price_cents: z.number().min(0, "Minimum price must be 0 or greater").optional().describe("Minimum price in cents (optional, default 0)"),
+      max_price_cents: z.number().min(0, "Maximum price must be 0 or greater").optional().describe("Maximum price in cents (optional, no upper limit if not specified)"),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error getting services by price range",
+    handler: async (args, { businessId }) => {
+      const result = await getServicesByPriceRange(
+        businessId,
+        args.min_price_cents || 0,
+        args.max_price_cents
+      );
+
+      if (!result.services || result.services.length === 0) {
+        return {
+          text: `No services found in the specified price range.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const servicesText = result.services
+        .map((service: any) => 
+          `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: ${service.price_formatted}\nCategory: ${service.category_name || 'Uncategorized'}\nStaff Count: ${service.staff_count}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`
+        )
+        .join("\n");
+
+      const priceRange = args.max_price_cents 
+        ? `$${(args.min_price_cents || 0) / 100} - $${args.max_price_cents / 100}`
+        : `$${(args.min_price_cents || 0) / 100} and above`;
+
+      return {
+        text: `Found ${result.services.length} service(s) in price range ${priceRange}:\n\n${servicesText}`,
+        data: { services: result.services.map(serializeServiceMatch), count: result.services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_services_by_duration",
+    description: "Get services filtered by duration range (useful for customers with time constraints)",
+    inputSchema: z.object({
+      min_duration_minutes: z.number().min(0, "Minimum duration must be 0 or greater").optional().describe("Minimum duration in minutes (optional, default 0)"),
+      max_duration_minutes: z.number().min(0, "Maximum duration must be 0 or greater").optional().describe("Maximum duration in minutes (optional, no upper limit if not specified)"),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error getting services by duration",
+    handler: async (args, { businessId }) => {
+      const result = await getServicesByDuration(
+        businessId,
+        args.min_duration_minutes || 0,
+        args.max_duration_minutes
+      );
+
+      if (!result.services || result.services.length === 0) {
+        return {
+          text: `No services found in the specified duration range.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const servicesText = result.services
+        .map((service: any) => 
+          `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_formatted}\nPrice: ${service.price_formatted}\nCategory: ${service.category_name || 'Uncategorized'}\nStaff Count: ${service.staff_count}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`
+        )
+        .join("\n");
+
+      const durationRange = args.max_duration_minutes 
+        ? `${args.min_duration_minutes || 0} - ${args.max_duration_minutes} minutes`
+        : `${args.min_duration_minutes || 0} minutes and above`;
+
+      return {
+        text: `Found ${result.services.length} service(s) with duration ${durationRange}:\n\n${servicesText}`,
+        data: { services: result.services.map(serializeServiceMatch), count: result.services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_services_by_staff",
+    description: "Get all services provided by a specific staff member",
+    inputSchema: z.object({
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID to get services for"),
+    }),
+    outputSchema: z.object({
+      staff: z.object({ id: z.string(), name: nullableString, email: nullableString, phone: nullableString, bio: nullableString }),
+      services: z.array(ServiceMatchSchema),
+      count: z.number(),
+    }),
+    errorMessage: "Error getting services by staff",
+    handler: async (args, { businessId }) => {
+      const result = await getServicesByStaff(businessId, args.staff_id);
+      const staffSummary = {
+        id: args.staff_id,
+        name: toNullableString(result.staff?.name),
+        email: toNullableString(result.staff?.email),
+        phone: toNullableString(result.staff?.phone),
+        bio: toNullableString(result.staff?.bio),
+      };
+
+      if (!result.services || result.services.length === 0) {
+        return {
+          text: `No services found for this staff member.`,
+          data: { staff: staffSummary, services: [], count: 0 },
+        };
+      }
+
+      const staffInfo = result.staff;
+      const servicesText = result.services
+        .map((service: any) => 
+          `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_formatted}\nPrice: ${service.price_formatted}\nCategory: ${service.category_name || 'Uncategorized'}\nActive: ${service.is_active ? 'Yes' : 'No'}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Services provided by ${staffInfo.name}:\n\nContact: ${staffInfo.email} | ${staffInfo.phone}\nBio: ${staffInfo.bio || 'No bio available'}\n\nServices (${result.services.length}):\n\n${servicesText}`,
+        data: { staff: staffSummary, services: result.services.map(serializeServiceMatch), count: result.services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_services_by_time_availability",
+    description: "Get services that are available at a specific date and time",
+    inputSchema: z.object({
+      date: dateArgument("Date is required").describe("The date to check availability (YYYY-MM-DD format)"),
+      time: z.string().optional().describe("The specific time to check (optional, HH:MM format)"),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error getting services by time availability",
+    handler: async (args, { businessId }) => {
+      const result = await getServicesByTimeAvailability(
+        businessId,
+        args.date,
+        args.time
+      );
+
+      if (!result.services || result.services.length === 0) {
+        return {
+          text: `No services available on ${args.date}${args.time ? ` at ${args.time}` : ''}.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const servicesText = result.services
+        .map((service: any) => {
+          const staffList = service.available_staff && service.available_staff.length > 0
+            ? service.available_staff.map((staff: any) => staff.name).join(', ')
+            : 'No staff available';
+
+          return `ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: ${service.price_formatted}\nCategory: ${service.category_name || 'Uncategorized'}\nAvailable Staff: ${service.available_staff_count} (${staffList})\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Services available on ${args.date}${args.time ? ` at ${args.time}` : ''}:\n\n${servicesText}`,
+        data: { services: result.services.map(serializeServiceMatch), count: result.services.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_popular_services",
+    description: "Get the most popular services based on booking count and ratings",
+    inputSchema: z.object({
+      limit_count: z.number().min(1).max(50).optional().describe("Maximum number of services to return (optional, default 10, max 50)"),
+    }),
+    outputSchema: serviceListResult,
+    errorMessage: "Error getting popular services",
+    handler: async (args, { businessId }) => {
+      const result = await getPopularServices(businessId, args.limit_count || 10);
+
+      if (!result.services || result.services.length === 0) {
+        return {
+          text: `No popular services found.`,
+          data: { services: [], count: 0 },
+        };
+      }
+
+      const servicesText = result.services
+        .map((service: any, index: number) => 
+          `${index + 1}. ID: ${service.id}\nName: ${service.name}\nDescription: ${service.description || 'No description'}\nDuration: ${service.duration_minutes} minutes\nPrice: ${service.price_formatted}\nCategory: ${service.category_name || 'Uncategorized'}\nBookings (30 days): ${service.booking_count}\nRating: ${service.average_rating.toFixed(1)}/5 (${service.review_count} reviews)\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Top ${result.services.length} Popular Services:\n\n${servicesText}`,
+        data: { services: result.services.map(serializeServiceMatch), count: result.services.length },
+      };
+    },
+  }),
+];
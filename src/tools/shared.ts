@@ -0,0 +1,102 @@
+import { z } from "zod";
+import {
+  AlternativeSchema,
+  AppointmentSchema,
+  CustomerSchema,
+  ServiceMatchSchema,
+  TimeSlotSchema,
+} from "../serializers.js";
+import { normalizeLocale } from "../templates.js";
+
+// Helper function to validate date format (YYYY-MM-DD)
+export function isValidDate(dateString: string): boolean {
+  const regex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!regex.test(dateString)) return false;
+  const date = new Date(dateString);
+  return date instanceof Date && !isNaN(date.getTime());
+}
+
+// Helper function to validate time format (HH:MM)
+export function isValidTime(timeString: string): boolean {
+  const regex = /^([01]?\d|2[0-3]):[0-5]\d$/;
+  return regex.test(timeString);
+}
+
+// Appended to results whose customer contact details were masked
+export const VERIFY_HINT = '🔒 Contact details are hidden until the customer is verified (send_verification_code or verify_customer_by_booking).';
+
+const INVALID_DATE_MESSAGE = "Invalid date. Please use YYYY-MM-DD format or an expression such as \"next Tuesday\" or \"this weekend\".";
+
+// String schemas of date arguments; the registry resolves natural-language expressions in them
+const dateArgumentSchemas = new WeakSet<z.ZodTypeAny>();
+
+/**
+ * A required date argument: YYYY-MM-DD, or an expression such as "next
+ * Tuesday after work" that the registry resolves in the business's timezone
+ * before validation.
+ */
+export function dateArgument(requiredMessage = "Date is required (YYYY-MM-DD format)") {
+  const base = z.string().min(1, requiredMessage);
+  dateArgumentSchemas.add(base);
+  return base.refine(isValidDate, INVALID_DATE_MESSAGE);
+}
+
+// Whether a field of an input schema was built with dateArgument (optional or described)
+export function isDateArgument(schema: z.ZodTypeAny): boolean {
+  let current: z.ZodTypeAny = schema;
+  for (;;) {
+    if (dateArgumentSchemas.has(current)) return true;
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return false;
+    }
+  }
+}
+
+// An ISO date-time argument whose date part must be valid
+export function dateTimeArgument(requiredMessage: string) {
+  return z.string().min(1, requiredMessage).refine(
+    (value) => isValidDate(value.split('T')[0]),
+    "Invalid date format. Please use ISO format (YYYY-MM-DDTHH:MM:SS)."
+  );
+}
+
+// A BCP 47 language tag such as "es" or "pt-BR", passed on in canonical form
+export const localeArgument = z
+  .string()
+  .refine((locale) => normalizeLocale(locale) !== null, "Invalid locale. Use a language tag such as en, es or pt-BR.")
+  .transform((locale) => normalizeLocale(locale)!);
+
+export const nullableString = z.string().nullable();
+export const nullableNumber = z.number().nullable();
+export const isoTimestamp = z.string().nullable().describe("ISO 8601 timestamp (UTC)");
+
+// Appended when a service has no free slots, so the agent can offer the waitlist
+export const WAITLIST_HINT = "The customer can join the waitlist (join_waitlist) to be offered a slot if one frees up.";
+
+// Output schemas shared by several tools
+export const appointmentResult = z.object({ appointment: AppointmentSchema });
+export const appointmentListResult = z.object({ appointments: z.array(AppointmentSchema), count: z.number() });
+export const customerResult = z.object({ customer: CustomerSchema });
+export const serviceListResult = z.object({ services: z.array(ServiceMatchSchema), count: z.number() });
+export const slotListResult = z.object({
+  date: z.string().describe("YYYY-MM-DD"),
+  timezone: z.string().describe("IANA timezone of the business; slot times carry its UTC offset"),
+  slots: z.array(TimeSlotSchema),
+  count: z.number(),
+});
+
+export const alternativesResult = z.array(AlternativeSchema).describe("Ranked suggestions that can be booked instead");
+
+// Numbered suggestions for a rejected request, each with its reason
+export function alternativesText(alternatives: z.infer<typeof AlternativeSchema>[]): string {
+  if (alternatives.length === 0) {
+    return `No alternatives found nearby. ${WAITLIST_HINT}`;
+  }
+  return `Alternatives:\n${alternatives
+    .map((alternative, index) => `${index + 1}. ${alternative.service_name} with ${alternative.staff_name} at ${alternative.start_time} - ${alternative.reason}`)
+    .join('\n')}`;
+}
@@ -0,0 +1,212 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  dateArgument,
+  nullableString,
+  nullableNumber,
+} from "./shared.js";
+import {
+  ServiceSchema,
+  StaffSchema,
+  WorkingHoursSchema,
+  toNullableString,
+  toNumber,
+  fullName,
+  toDateOnly,
+  toTimeOfDay,
+  serializeService,
+  serializeStaff,
+  serializeWorkingHours,
+} from "../serializers.js";
+import {
+  getStaff,
+  getAllStaffInfo,
+  getStaffMember,
+  getStaffTimeOff,
+} from "../database.js";
+
+const StaffDetailSchema = StaffSchema.extend({
+  avatar_url: nullableString,
+  services: z.array(ServiceSchema),
+  working_hours: z.array(WorkingHoursSchema.extend({ is_available: z.boolean().nullable() })),
+  upcoming_appointments: nullableNumber,
+  completed_appointments: nullableNumber,
+});
+
+export const staffTools = [
+  defineTool({
+    name: "get_staff",
+    description: "Get information about staff members",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ staff: z.array(StaffSchema), count: z.number() }),
+    errorMessage: "Error retrieving staff",
+    handler: async (args, { businessId }) => {
+      const staff = await getStaff(businessId);
+
+      if (!staff || staff.length === 0) {
+        return {
+          text: "No staff members found.",
+          data: { staff: [], count: 0 },
+        };
+      }
+
+      const staffList = staff
+        .map((member: any) => {
+          const services = member.services && member.services.length > 0
+            ? member.services.map((s: any) => s.name).join(', ')
+            : 'No services assigned';
+
+          return `ID: ${member.id}\nName: ${member.first_name} ${member.last_name}\nEmail: ${member.email || 'Not provided'}\nPhone: ${member.phone || 'Not provided'}\nBio: ${member.bio || 'No bio'}\nServices: ${services}\n---`;
+        })
+        .join("\n");
+
+      return {
+        text: `Found ${staff.length} staff member(s):\n\n${staffList}`,
+        data: { staff: staff.map(serializeStaff), count: staff.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_all_staff_info",
+    description: "Get detailed information about all staff members",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      staff: z.array(StaffSchema.extend({
+        upcoming_appointments: nullableNumber,
+        completed_appointments: nullableNumber,
+      })),
+      count: z.number(),
+    }),
+    errorMessage: "Error getting staff information",
+    handler: async (args, { businessId }) => {
+      const staffInfo = await getAllStaffInfo(businessId);
+
+      if (!staffInfo || staffInfo.length === 0) {
+        return {
+          text: "No staff members found.",
+          data: { staff: [], count: 0 },
+        };
+      }
+
+      const staffList = staffInfo
+        .map((staff: any) => 
+          `ID: ${staff.staff_id}\nName: ${staff.first_name} ${staff.last_name}\nEmail: ${staff.email}\nPhone: ${staff.phone_number}\nBio: ${staff.bio || 'No bio'}\nServices: ${staff.services_provided || 'No services assigned'}\nTotal Services: ${staff.total_services}\nWorking Hours: ${staff.working_hours_summary || 'No working hours set'}\nUpcoming Appointments: ${staff.upcoming_appointments}\nCompleted Appointments: ${staff.completed_appointments}\nActive: ${staff.is_active ? 'Yes' : 'No'}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Staff Information:\n\n${staffList}`,
+        data: {
+          staff: staffInfo.map((staff: any) => ({
+            ...serializeStaff(staff),
+            upcoming_appointments: toNumber(staff.upcoming_appointments),
+            completed_appointments: toNumber(staff.completed_appointments),
+          })),
+          count: staffInfo.length,
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_staff_member",
+    description: "Get detailed information about a specific staff member",
+    inputSchema: z.object({
+      staff_id: z.string().min(1, "Staff ID is required").describe("The staff member ID"),
+    }),
+    outputSchema: z.object({ staff: StaffDetailSchema }),
+    errorMessage: "Error getting staff member",
+    handler: async (args, { businessId }) => {
+      const { staff_id } = args;
+
+      const staff = await getStaffMember(businessId, staff_id);
+
+      const servicesList = staff.services && staff.services.length > 0 
+        ? staff.services.map((service: any) => `${service.name} (${service.duration_minutes} min, $${(service.price_cents / 100).toFixed(2)})`).join(', ')
+        : 'No services assigned';
+
+      const workingHoursList = staff.working_hours && staff.working_hours.length > 0
+        ? staff.working_hours.map((hour: any) => `${hour.day_name}: ${hour.open_time} - ${hour.close_time} (${hour.is_available ? 'Available' : 'Not Available'})`).join('\n')
+        : 'No working hours set';
+
+      return {
+        text: `Staff Member Details:\n\nID: ${staff.staff_id}\nName: ${staff.first_name} ${staff.last_name}\nEmail: ${staff.email}\nPhone: ${staff.phone_number}\nBio: ${staff.bio || 'No bio'}\nAvatar: ${staff.avatar_url || 'No avatar'}\nActive: ${staff.is_active ? 'Yes' : 'No'}\n\nServices Provided:\n${servicesList}\n\nWorking Hours:\n${workingHoursList}\n\nAppointments:\nUpcoming: ${staff.upcoming_appointments}\nCompleted: ${staff.completed_appointments}`,
+        data: {
+          staff: {
+            ...serializeStaff(staff),
+            avatar_url: toNullableString(staff.avatar_url),
+            services: (staff.services || []).map(serializeService),
+            working_hours: (staff.working_hours || []).map((hour: any) => ({
+              ...serializeWorkingHours({ ...hour, is_closed: hour.is_available === false }),
+              is_available: typeof hour.is_available === 'boolean' ? hour.is_available : null,
+            })),
+            upcoming_appointments: toNumber(staff.upcoming_appointments),
+            completed_appointments: toNumber(staff.completed_appointments),
+          },
+        },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_staff_time_off",
+    description: "Get staff time off for a specific date range",
+    inputSchema: z.object({
+      start_date: dateArgument("Start date is required").optional().describe("Start date for time off (YYYY-MM-DD format, optional)"),
+      end_date: dateArgument("End date is required").optional().describe("End date for time off (YYYY-MM-DD format, optional)"),
+    }),
+    outputSchema: z.object({
+      time_off: z.array(z.object({
+        id: z.string(),
+        staff_id: nullableString,
+        staff_name: nullableString,
+        title: nullableString,
+        description: nullableString,
+        date: nullableString.describe("YYYY-MM-DD"),
+        start_time: nullableString.describe("HH:MM"),
+        end_time: nullableString.describe("HH:MM"),
+        is_all_day: z.boolean(),
+      })),
+      count: z.number(),
+    }),
+    errorMessage: "Error getting staff time off",
+    handler: async (args, { businessId }) => {
+      const { start_date, end_date } = args;
+
+      const timeOff = await getStaffTimeOff(businessId, start_date, end_date);
+
+      if (!timeOff || timeOff.length === 0) {
+        const dateRange = start_date && end_date ? ` between ${start_date} and ${end_date}` : start_date ? ` from ${start_date}` : '';
+        return {
+          text: `No staff time off found${dateRange}.`,
+          data: { time_off: [], count: 0 },
+        };
+      }
+
+      const timeOffList = timeOff
+        .map((item: any) => 
+          `ID: ${item.id}\nStaff: ${item.first_name} ${item.last_name}\nTitle: ${item.title || 'No title'}\nDescription: ${item.description || 'No description'}\nDate: ${item.date}\nTime: ${item.is_all_day ? 'All day' : `${item.start_time} - ${item.end_time}`}\nCreated: ${new Date(item.created_at).toLocaleDateString()}\n---`
+        )
+        .join("\n");
+
+      return {
+        text: `Staff Time Off:\n\n${timeOffList}`,
+        data: {
+          time_off: timeOff.map((item: any) => ({
+            id: String(item.id),
+            staff_id: toNullableString(item.staff_id),
+            staff_name: fullName(item.first_name, item.last_name),
+            title: toNullableString(item.title),
+            description: toNullableString(item.description),
+            date: toDateOnly(item.date),
+            start_time: toTimeOfDay(item.start_time),
+            end_time: toTimeOfDay(item.end_time),
+            is_all_day: Boolean(item.is_all_day),
+          })),
+          count: timeOff.length,
+        },
+      };
+    },
+  }),
+];
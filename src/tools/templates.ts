@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { localeArgument } from "./shared.js";
+import {
+  MessageTemplateSchema,
+  RenderedMessageSchema,
+  serializeMessageTemplate,
+} from "../serializers.js";
+import {
+  listMessageTemplates,
+  saveMessageTemplate,
+  deleteMessageTemplate,
+  renderAppointmentMessage,
+} from "../database.js";
+import { DELIVERY_CHANNELS } from "../delivery.js";
+import { NOTIFICATION_KINDS } from "../notifications.js";
+import { TEMPLATE_VARIABLES } from "../templates.js";
+
+const TEMPLATE_SYNTAX = `Variables: ${TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}. Dates take a pattern, e.g. {{start_time | date:"EEE d MMM HH:mm"}}; other filters are default:"text", upper and lower. {{#staff.name}}...{{/staff.name}} is only shown when the value is set`;
+
+type Template = z.infer<typeof MessageTemplateSchema>;
+
+function templateText(template: Template): string {
+  return `${template.kind} / ${template.channel} / ${template.locale} (ID: ${template.id})${template.subject ? `\n   Subject: ${template.subject}` : ''}\n   Body: ${template.body}`;
+}
+
+export const templateTools = [
+  defineTool({
+    name: "list_message_templates",
+    description: "List the business's own customer message templates. Messages without a template use the built-in English defaults",
+    inputSchema: z.object({
+      kind: z.enum(NOTIFICATION_KINDS).optional().describe("Filter by message kind (optional)"),
+      channel: z.enum(DELIVERY_CHANNELS).optional().describe("Filter by channel (optional)"),
+      locale: localeArgument.optional().describe("Filter by locale, e.g. es or pt-BR (optional)"),
+    }),
+    outputSchema: z.object({ templates: z.array(MessageTemplateSchema), count: z.number() }),
+    errorMessage: "Error listing message templates",
+    handler: async (args, { businessId }) => {
+      const templates = (await listMessageTemplates(businessId, args)).map(serializeMessageTemplate);
+
+      if (templates.length === 0) {
+        return {
+          text: "The business has no message templates of its own; the built-in defaults are used.",
+          data: { templates: [], count: 0 },
+        };
+      }
+
+      return {
+        text: `Message templates (${templates.length}):\n\n${templates.map((template: Template, index: number) => `${index + 1}. ${templateText(template)}`).join('\n')}`,
+        data: { templates, count: templates.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "save_message_template",
+    description: `Create or replace the business's template for one kind of customer message, channel and locale. ${TEMPLATE_SYNTAX}`,
+    inputSchema: z.object({
+      kind: z.enum(NOTIFICATION_KINDS).describe("confirmation, reminder, rescheduled, cancellation or follow_up"),
+      channel: z.enum(DELIVERY_CHANNELS).describe("email, sms or push"),
+      locale: localeArgument.describe("Language of the template, e.g. en, es or pt-BR"),
+      subject: z.string().optional().describe("Email subject or push title (optional; not used for SMS)"),
+      body: z.string().min(1, "Template body is required").describe("The message text"),
+    }),
+    outputSchema: z.object({ template: MessageTemplateSchema }),
+    errorMessage: "Error saving message template",
+    handler: async (args, { businessId }) => {
+      const template = serializeMessageTemplate(await saveMessageTemplate(businessId, args));
+      return {
+        text: `✅ Message template saved.\n\n${templateText(template)}`,
+        data: { template },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "delete_message_template",
+    description: "Delete one of the business's message templates; its messages go back to the next matching locale or the built-in default",
+    inputSchema: z.object({
+      template_id: z.string().min(1, "Template ID is required").describe("The template ID"),
+    }),
+    outputSchema: z.object({ template: MessageTemplateSchema }),
+    errorMessage: "Error deleting message template",
+    handler: async (args, { businessId }) => {
+      const template = serializeMessageTemplate(await deleteMessageTemplate(businessId, args.template_id));
+      return {
+        text: `🗑️ Message template deleted: ${template.kind} / ${template.channel} / ${template.locale}.`,
+        data: { template },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "preview_message_template",
+    description: `Render a customer message against a real appointment: the template that would be used for the customer's locale, or a draft subject and body before saving it. ${TEMPLATE_SYNTAX}`,
+    inputSchema: z.object({
+      appointment_id: z.string().min(1, "Appointment ID is required").describe("The appointment to render the message for"),
+      kind: z.enum(NOTIFICATION_KINDS).describe("confirmation, reminder, rescheduled, cancellation or follow_up"),
+      channel: z.enum(DELIVERY_CHANNELS).optional().describe("email, sms or push (optional, default email)"),
+      locale: localeArgument.optional().describe("Render for this locale instead of the customer's (optional)"),
+      subject: z.string().optional().describe("Draft subject to preview (optional)"),
+      body: z.string().optional().describe("Draft body to preview instead of the saved template (optional)"),
+    }),
+    outputSchema: z.object({ message: RenderedMessageSchema }),
+    errorMessage: "Error previewing message",
+    handler: async (args, { businessId }) => {
+      const channel = args.channel ?? 'email';
+      const message = await renderAppointmentMessage(businessId, args.appointment_id, args.kind, channel, {
+        locale: args.locale,
+        draft: args.body ? { subject: args.subject ?? null, body: args.body } : undefined,
+      });
+      const source = args.body ? 'draft' : message.template_id ? `template ${message.template_id}` : 'built-in default';
+
+      return {
+        text: `👀 ${args.kind} by ${channel} (${message.locale}, ${source}):\n\n${message.subject ? `Subject: ${message.subject}\n\n` : ''}${message.body}`,
+        data: { message },
+      };
+    },
+  }),
+];
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument } from "./shared.js";
+import { toZonedIso } from "../serializers.js";
+import {
+  createVerificationCode,
+  checkVerificationCode,
+  checkBookingDetails,
+} from "../database.js";
+import { deliverMessage } from "../delivery.js";
+import {
+  VERIFICATION_CHANNELS,
+  VERIFICATION_CODE_LENGTH,
+  VERIFICATION_CODE_TTL_MINUTES,
+  markCustomerVerified,
+  maskEmail,
+  maskPhone,
+} from "../verification.js";
+
+const VerifiedResult = z.object({
+  customer_id: z.string(),
+  verified: z.boolean(),
+  method: z.enum(['code', 'booking']),
+});
+
+export const verificationTools = [
+  defineTool({
+    name: "send_verification_code",
+    description: `Send a ${VERIFICATION_CODE_LENGTH}-digit one-time code to the email address or phone number the customer has on file, so they can prove their identity with verify_customer_code. Contact details and history stay hidden until the customer is verified`,
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      channel: z.enum(VERIFICATION_CHANNELS).optional().describe("Send the code by email or sms (optional, default email)"),
+    }),
+    outputSchema: z.object({
+      customer_id: z.string(),
+      channel: z.enum(VERIFICATION_CHANNELS),
+      sent_to: z.string().describe("The masked email address or phone number the code was sent to"),
+      expires_at: z.string().nullable(),
+    }),
+    errorMessage: "Error sending verification code",
+    handler: async (args, { businessId, timeZone }) => {
+      const channel = args.channel ?? 'email';
+      const { verification, customer, code } = await createVerificationCode(businessId, args.customer_id, channel);
+
+      await deliverMessage({
+        channel,
+        to: verification.destination,
+        subject: channel === 'email' ? `Your ${customer.business_name} verification code` : null,
+        body: `Your verification code for ${customer.business_name} is ${code}. It expires in ${VERIFICATION_CODE_TTL_MINUTES} minutes.`,
+        business_id: businessId,
+        customer_id: customer.id,
+      });
+
+      const sentTo = (channel === 'email' ? maskEmail(verification.destination) : maskPhone(verification.destination))!;
+      const expiresAt = toZonedIso(verification.expires_at, timeZone);
+
+      return {
+        text: `🔐 A verification code was sent by ${channel} to ${sentTo}. Ask the customer to read it back, then call verify_customer_code. It expires at ${expiresAt}.`,
+        data: { customer_id: customer.id, channel, sent_to: sentTo, expires_at: expiresAt },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "verify_customer_code",
+    description: "Check the one-time code the customer read back. On success this session may see the customer's contact details and history",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      code: z.string().regex(new RegExp(`^\\s*\\d{${VERIFICATION_CODE_LENGTH}}\\s*$`), `The code has ${VERIFICATION_CODE_LENGTH} digits`).describe("The code the customer received"),
+    }),
+    outputSchema: VerifiedResult,
+    errorMessage: "Error verifying customer",
+    handler: async (args, { businessId, session }) => {
+      await checkVerificationCode(businessId, args.customer_id, args.code);
+      markCustomerVerified(session, args.customer_id);
+
+      return {
+        text: `✅ Customer ${args.customer_id} is verified for this session.`,
+        data: { customer_id: args.customer_id, verified: true, method: 'code' as const },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "verify_customer_by_booking",
+    description: "Verify a customer who can describe one of their bookings: their last name, the date of the appointment and the service booked. On success this session may see the customer's contact details and history",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      last_name: z.string().min(1, "Last name is required").describe("The customer's last name, as they give it"),
+      appointment_date: dateArgument().describe("The date of one of their appointments (YYYY-MM-DD)"),
+      service_name: z.string().min(1, "Service name is required").describe("The service booked for that appointment"),
+    }),
+    outputSchema: VerifiedResult,
+    errorMessage: "Error verifying customer",
+    handler: async (args, { businessId, session }) => {
+      const { customer_id, ...details } = args;
+      await checkBookingDetails(businessId, customer_id, details);
+
+      markCustomerVerified(session, customer_id);
+      return {
+        text: `✅ Customer ${customer_id} is verified for this session.`,
+        data: { customer_id, verified: true, method: 'booking' as const },
+      };
+    },
+  }),
+];
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument, dateTimeArgument, WAITLIST_HINT } from "./shared.js";
+import {
+  AppointmentChangeSchema,
+  VisitSchema,
+  VisitSegmentSchema,
+  WaitlistOfferSchema,
+  serializeAppointmentChange,
+  serializeVisit,
+  serializeVisitSegment,
+  serializeWaitlistOffer,
+} from "../serializers.js";
+import {
+  findVisitTimes,
+  createVisit,
+  getVisit,
+  cancelVisit,
+} from "../database.js";
+import { MAX_VISIT_SERVICES } from "../visits.js";
+
+const serviceIdsArgument = z
+  .array(z.string().min(1))
+  .min(1, "At least one service is required")
+  .max(MAX_VISIT_SERVICES)
+  .describe(`Service IDs in the order they are done (at most ${MAX_VISIT_SERVICES})`);
+
+const staffIdsArgument = z
+  .array(z.string().nullable())
+  .optional()
+  .describe("Staff member for the service at the same position (optional; null or a missing entry means anyone)");
+
+// The combined confirmation of a visit: one line per service, then the totals
+function visitText(visit: z.infer<typeof VisitSchema>): string {
+  const segmentList = visit.segments
+    .map((segment, index) => `${index + 1}. ${segment.service_name} with ${segment.staff_name} - ${segment.start_time} to ${segment.end_time} (Appointment ID: ${segment.id})`)
+    .join('\n');
+  const price = visit.total_price ? `\nTotal Price: ${(visit.total_price.amount_minor / 100).toFixed(2)} ${visit.total_price.currency}` : '';
+
+  return `Visit ID: ${visit.id}\nCustomer: ${visit.customer_name}\nStatus: ${visit.status}\nStart Time: ${visit.start_time}\nEnd Time: ${visit.end_time}\nTotal Duration: ${visit.total_duration_minutes} minutes${price}\n\nServices:\n${segmentList}`;
+}
+
+export const visitTools = [
+  defineTool({
+    name: "find_visit_times",
+    description: "Find start times on a date when several services can be done back to back in one visit (e.g. cut, colour and blow-dry), honouring each service's buffer time. Each option lists the staff member for every service",
+    inputSchema: z.object({
+      service_ids: serviceIdsArgument,
+      staff_ids: staffIdsArgument,
+      date: dateArgument(),
+      limit: z.number().int().min(1).max(20).optional().describe("Maximum number of options (optional, default 5)"),
+    }),
+    outputSchema: z.object({
+      options: z.array(z.object({
+        start_time: z.string().nullable(),
+        end_time: z.string().nullable(),
+        segments: z.array(VisitSegmentSchema),
+      })),
+      total_duration_minutes: z.number(),
+      count: z.number(),
+    }),
+    errorMessage: "Error finding visit times",
+    handler: async (args, { businessId }) => {
+      const result = await findVisitTimes(businessId, args);
+      const options = result.options.map((plan) => {
+        const segments = plan.map((segment) => serializeVisitSegment(segment, result.timeZone));
+        return { start_time: segments[0].start_time, end_time: segments[segments.length - 1].end_time, segments };
+      });
+
+      if (options.length === 0) {
+        return {
+          text: `No time on ${args.date} fits all ${args.service_ids.length} services back to back. ${WAITLIST_HINT}`,
+          data: { options: [], total_duration_minutes: result.total_minutes, count: 0 },
+        };
+      }
+
+      const optionList = options
+        .map((option, index) => `${index + 1}. ${option.start_time} - ${option.end_time}\n${option.segments
+          .map((segment) => `   ${segment.service_name}: ${segment.start_time} (staff ${segment.staff_id})`)
+          .join('\n')}`)
+        .join('\n');
+
+      return {
+        text: `Visit options on ${args.date} (${result.total_minutes} minutes):\n\n${optionList}`,
+        data: { options, total_duration_minutes: result.total_minutes, count: options.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "book_visit",
+    description: "Book several services back to back as one visit with a shared visit ID. Every service is conflict-checked and either the whole visit is booked or nothing is",
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_ids: serviceIdsArgument,
+      staff_ids: staffIdsArgument,
+      start_time: dateTimeArgument("Start time is required (ISO format)").describe("Start of the first service (ISO format: YYYY-MM-DDTHH:MM:SS, optionally with an offset; business local time otherwise)"),
+      notes: z.string().optional().describe("Optional notes copied to every appointment"),
+    }),
+    outputSchema: z.object({ visit: VisitSchema }),
+    errorMessage: "Error booking visit",
+    handler: async (args, { businessId, timeZone }) => {
+      const { visit, segments } = await createVisit(businessId, args);
+      const serialized = serializeVisit(visit, segments, timeZone);
+
+      return {
+        text: `✅ Visit booked!\n\n${visitText(serialized)}`,
+        data: { visit: serialized },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "get_visit",
+    description: "Get the combined confirmation of a multi-service visit",
+    inputSchema: z.object({
+      visit_id: z.string().min(1, "Visit ID is required").describe("The visit ID"),
+    }),
+    outputSchema: z.object({ visit: VisitSchema }),
+    errorMessage: "Error retrieving visit",
+    handler: async (args, { businessId, timeZone }) => {
+      const { visit, segments } = await getVisit(businessId, args.visit_id);
+      const serialized = serializeVisit(visit, segments, timeZone);
+
+      return {
+        text: visitText(serialized),
+        data: { visit: serialized },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "cancel_visit",
+    description: "Cancel every service of a multi-service visit. If any of them cannot be cancelled, none are",
+    inputSchema: z.object({
+      visit_id: z.string().min(1, "Visit ID is required").describe("The visit ID"),
+      cancellation_reason: z.string().min(1, "Cancellation reason is required").describe("Reason for cancellation"),
+      cancelled_by: z.string().min(1, "Cancelled by is required").describe("Who is cancelling (customer ID or staff ID)"),
+    }),
+    outputSchema: z.object({
+      visit: VisitSchema,
+      changes: z.array(AppointmentChangeSchema),
+      waitlist_offers: z.array(WaitlistOfferSchema).describe("Freed slots offered to waitlisted customers"),
+    }),
+    errorMessage: "Error cancelling visit",
+    handler: async (args, { businessId, timeZone }) => {
+      const result = await cancelVisit(businessId, args.visit_id, args.cancellation_reason, args.cancelled_by);
+
+      const changes = result.cancelled.map((cancellation: any) =>
+        serializeAppointmentChange('cancelled', cancellation.cancellation.appointment_id, {
+          status: cancellation.cancellation.status ?? 'canceled',
+          actor: args.cancelled_by,
+          reason: args.cancellation_reason,
+          occurred_at: cancellation.cancellation.cancelled_at,
+        })
+      );
+
+      return {
+        text: `✅ Visit cancelled (${changes.length} appointment(s))\n\nVisit ID: ${args.visit_id}\nCancellation Reason: ${args.cancellation_reason}\nCancelled by: ${args.cancelled_by}${result.waitlist_offers.length > 0 ? `\nOffered to the waitlist: ${result.waitlist_offers.length} slot(s)` : ''}`,
+        data: {
+          visit: serializeVisit(result.visit, result.segments, timeZone),
+          changes,
+          waitlist_offers: result.waitlist_offers.map((offer: any) => serializeWaitlistOffer(offer, timeZone)),
+        },
+      };
+    },
+  }),
+];
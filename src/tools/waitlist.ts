@@ -0,0 +1,133 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import { dateArgument, isValidTime } from "./shared.js";
+import {
+  AppointmentSchema,
+  WaitlistEntrySchema,
+  WaitlistOfferSchema,
+  serializeAppointment,
+  serializeWaitlistEntry,
+  serializeWaitlistOffer,
+} from "../serializers.js";
+import {
+  joinWaitlist,
+  leaveWaitlist,
+  listWaitlist,
+  acceptWaitlistOffer,
+  WAITLIST_OFFER_TTL_MINUTES,
+} from "../database.js";
+
+const timeOfDayArgument = z.string().refine(isValidTime, "Invalid time format. Please use HH:MM format.");
+
+export const waitlistTools = [
+  defineTool({
+    name: "join_waitlist",
+    description: `Put a customer on the waitlist for a fully booked service. When a cancellation or reschedule frees a matching slot, the first customer in priority order is offered it and the slot is held for them for ${WAITLIST_OFFER_TTL_MINUTES} minutes`,
+    inputSchema: z.object({
+      customer_id: z.string().min(1, "Customer ID is required").describe("The customer ID"),
+      service_id: z.string().min(1, "Service ID is required").describe("The service ID"),
+      staff_id: z.string().optional().describe("Preferred staff member (optional; any staff member otherwise)"),
+      earliest_date: dateArgument().optional().describe("Earliest acceptable date (optional, YYYY-MM-DD)"),
+      latest_date: dateArgument().optional().describe("Latest acceptable date (optional, YYYY-MM-DD)"),
+      window_start: timeOfDayArgument.optional().describe("Earliest acceptable start time of day (optional, HH:MM, business local time)"),
+      window_end: timeOfDayArgument.optional().describe("Latest acceptable end time of day (optional, HH:MM, business local time)"),
+      priority: z.number().int().optional().describe("Higher priorities are offered slots first (optional, default 0)"),
+      notes: z.string().optional().describe("Optional notes, copied to the booking"),
+    }),
+    outputSchema: z.object({ entry: WaitlistEntrySchema }),
+    errorMessage: "Error joining waitlist",
+    handler: async (args, { businessId, timeZone }) => {
+      const entry = await joinWaitlist(businessId, args);
+
+      const dateRange = args.earliest_date || args.latest_date
+        ? `${args.earliest_date || 'any date'} to ${args.latest_date || 'any date'}`
+        : 'Any date';
+      const timeWindow = args.window_start || args.window_end
+        ? `${args.window_start || 'opening'} - ${args.window_end || 'closing'}`
+        : 'Any time';
+
+      return {
+        text: `✅ Added to the waitlist\n\nEntry ID: ${entry.id}\nCustomer ID: ${entry.customer_id}\nService ID: ${entry.service_id}\nPreferred Staff: ${entry.staff_id || 'Any'}\nDates: ${dateRange}\nTimes: ${timeWindow}\nPriority: ${entry.priority}`,
+        data: { entry: serializeWaitlistEntry(entry, timeZone) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "leave_waitlist",
+    description: "Take a customer off the waitlist. A pending offer is declined and passed to the next customer",
+    inputSchema: z.object({
+      entry_id: z.string().min(1, "Entry ID is required").describe("The waitlist entry ID"),
+    }),
+    outputSchema: z.object({ entry: WaitlistEntrySchema }),
+    errorMessage: "Error leaving waitlist",
+    handler: async (args, { businessId, timeZone }) => {
+      const entry = await leaveWaitlist(businessId, args.entry_id);
+
+      return {
+        text: `✅ Removed from the waitlist\n\nEntry ID: ${entry.id}`,
+        data: { entry: serializeWaitlistEntry(entry, timeZone) },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_waitlist",
+    description: "List waitlist entries in priority order, with any pending offers",
+    inputSchema: z.object({
+      service_id: z.string().optional().describe("Filter by service ID (optional)"),
+      customer_id: z.string().optional().describe("Filter by customer ID (optional)"),
+      status: z.enum(['waiting', 'offered', 'booked', 'left']).optional().describe("Filter by status (optional; waiting and offered entries by default)"),
+    }),
+    outputSchema: z.object({ entries: z.array(WaitlistEntrySchema), count: z.number() }),
+    errorMessage: "Error listing waitlist",
+    handler: async (args, { businessId, timeZone }) => {
+      const rows = await listWaitlist(businessId, args);
+      const entries = rows.map((row: any) => serializeWaitlistEntry(row, timeZone));
+
+      if (entries.length === 0) {
+        return {
+          text: "The waitlist is empty.",
+          data: { entries: [], count: 0 },
+        };
+      }
+
+      const entryList = entries
+        .map((entry: any, index: number) => {
+          const offer = entry.offer
+            ? `\n   Offer: ${entry.offer.start_time} (offer ID: ${entry.offer.id}, expires ${entry.offer.expires_at})`
+            : '';
+          return `${index + 1}. ${entry.customer_name} - ${entry.service_name} [${entry.status}]\n   Entry ID: ${entry.id}\n   Staff: ${entry.staff_name || 'Any'}${offer}`;
+        })
+        .join('\n');
+
+      return {
+        text: `Waitlist (${entries.length}):\n\n${entryList}`,
+        data: { entries, count: entries.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "accept_waitlist_offer",
+    description: "Accept a waitlist offer and book the held slot for the waitlisted customer",
+    inputSchema: z.object({
+      offer_id: z.string().min(1, "Offer ID is required").describe("The waitlist offer ID"),
+      notes: z.string().optional().describe("Optional notes for the booking (defaults to the waitlist entry's notes)"),
+    }),
+    outputSchema: z.object({ offer: WaitlistOfferSchema, appointment: AppointmentSchema }),
+    errorMessage: "Error accepting waitlist offer",
+    handler: async (args, { businessId, timeZone }) => {
+      const { offer, booking } = await acceptWaitlistOffer(businessId, args.offer_id, args.notes);
+      const serializedOffer = serializeWaitlistOffer(offer, timeZone);
+
+      return {
+        text: `✅ Waitlist offer accepted and booked!\n\nAppointment ID: ${booking.appointment_id}\nCustomer ID: ${offer.customer_id}\nStart Time: ${serializedOffer.start_time}\nEnd Time: ${serializedOffer.end_time}`,
+        data: {
+          offer: serializedOffer,
+          appointment: serializeAppointment(booking, timeZone),
+        },
+      };
+    },
+  }),
+];
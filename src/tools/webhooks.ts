@@ -0,0 +1,255 @@
+import { z } from "zod";
+import { defineTool } from "./registry.js";
+import {
+  WebhookDeliverySchema,
+  WebhookEndpointSchema,
+  WebhookEventSchema,
+  serializeWebhookDelivery,
+  serializeWebhookEndpoint,
+  serializeWebhookEvent,
+} from "../serializers.js";
+import {
+  createWebhookEndpoint,
+  listWebhookEndpoints,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  listWebhookEvents,
+  listWebhookDeliveries,
+  replayWebhookEvent,
+  dispatchWebhookEvents,
+  deliverDueWebhooks,
+} from "../database.js";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_BATCH_SIZE,
+  WEBHOOK_DELIVERY_STATUSES,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "../webhooks.js";
+
+type Endpoint = z.infer<typeof WebhookEndpointSchema>;
+type Delivery = z.infer<typeof WebhookDeliverySchema>;
+type Event = z.infer<typeof WebhookEventSchema>;
+
+const eventTypesArgument = z
+  .array(z.string())
+  .describe(`Event types to send: ${WEBHOOK_EVENT_TYPES.join(', ')}; "appointment.*" for every appointment event. Empty for all events`);
+
+function endpointLine(endpoint: Endpoint): string {
+  const types = endpoint.event_types.length > 0 ? endpoint.event_types.join(', ') : 'all events';
+  return `${endpoint.url} [${endpoint.is_active ? 'active' : 'off'}] - ${types}${endpoint.description ? `\n   ${endpoint.description}` : ''}`;
+}
+
+function deliveryLine(delivery: Delivery): string {
+  const when = delivery.delivered_at ? `delivered ${delivery.delivered_at}` : delivery.next_attempt_at ? `next attempt ${delivery.next_attempt_at}` : 'no more attempts';
+  const error = delivery.last_error ? `\n   Last error: ${delivery.last_error}` : '';
+  return `${delivery.event_type} to ${delivery.url} [${delivery.status}${delivery.is_replay ? ', replay' : ''}] - ${when} (attempts: ${delivery.attempts})${error}`;
+}
+
+export const webhookTools = [
+  defineTool({
+    name: "create_webhook_endpoint",
+    description: `Register a URL that receives the business's events (bookings, changes, new customers and reviews) as signed JSON POST requests. The signing secret is shown only once; receivers check the ${WEBHOOK_SIGNATURE_HEADER} header with it. Failed deliveries are retried with a growing delay, up to ${MAX_WEBHOOK_ATTEMPTS} attempts`,
+    inputSchema: z.object({
+      url: z.string().min(1, "URL is required").describe("https:// address that receives the events"),
+      event_types: eventTypesArgument.optional(),
+      description: z.string().max(500).optional().describe("What the endpoint is for, e.g. \"CRM sync\" (optional)"),
+    }),
+    outputSchema: z.object({
+      endpoint: WebhookEndpointSchema,
+      secret: z.string().describe("Signing secret; not shown again"),
+    }),
+    errorMessage: "Error creating webhook endpoint",
+    handler: async (args, { businessId }) => {
+      const row = await createWebhookEndpoint(businessId, args);
+      const endpoint = serializeWebhookEndpoint(row);
+
+      return {
+        text: `🔔 Webhook endpoint created: ${endpointLine(endpoint)}\n\nEndpoint ID: ${endpoint.id}\nSigning secret: ${row.secret}\n\nThe secret is shown only once. Each request carries a ${WEBHOOK_SIGNATURE_HEADER} header "t=<timestamp>,v1=<signature>", where the signature is the hex HMAC-SHA256 of "<timestamp>.<body>" with this secret.`,
+        data: { endpoint, secret: row.secret },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_webhook_endpoints",
+    description: "List the business's webhook endpoints and the events each receives. Signing secrets are not shown again",
+    inputSchema: z.object({}),
+    outputSchema: z.object({ endpoints: z.array(WebhookEndpointSchema), count: z.number() }),
+    errorMessage: "Error listing webhook endpoints",
+    handler: async (_args, { businessId }) => {
+      const endpoints = (await listWebhookEndpoints(businessId)).map(serializeWebhookEndpoint);
+
+      if (endpoints.length === 0) {
+        return {
+          text: "No webhook endpoints registered.",
+          data: { endpoints: [], count: 0 },
+        };
+      }
+
+      const list = endpoints
+        .map((endpoint: Endpoint, index: number) => `${index + 1}. ${endpointLine(endpoint)}\n   ID: ${endpoint.id}`)
+        .join('\n');
+
+      return {
+        text: `Webhook endpoints (${endpoints.length}):\n\n${list}`,
+        data: { endpoints, count: endpoints.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "update_webhook_endpoint",
+    description: "Change a webhook endpoint's URL, event types or description, or turn it off and on. A turned-off endpoint receives nothing, and its pending deliveries fail",
+    inputSchema: z.object({
+      endpoint_id: z.string().min(1, "Endpoint ID is required").describe("The webhook endpoint ID"),
+      url: z.string().optional().describe("New URL (optional)"),
+      event_types: eventTypesArgument.optional(),
+      description: z.string().max(500).optional().describe("New description (optional)"),
+      is_active: z.boolean().optional().describe("False turns the endpoint off, true back on (optional)"),
+    }),
+    outputSchema: z.object({ endpoint: WebhookEndpointSchema }),
+    errorMessage: "Error updating webhook endpoint",
+    handler: async (args, { businessId }) => {
+      const { endpoint_id, ...changes } = args;
+      const endpoint = serializeWebhookEndpoint(await updateWebhookEndpoint(businessId, endpoint_id, changes));
+      return {
+        text: `✅ Webhook endpoint updated: ${endpointLine(endpoint)}`,
+        data: { endpoint },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "delete_webhook_endpoint",
+    description: "Delete a webhook endpoint together with its deliveries and their logs",
+    inputSchema: z.object({
+      endpoint_id: z.string().min(1, "Endpoint ID is required").describe("The webhook endpoint ID"),
+    }),
+    outputSchema: z.object({ endpoint: WebhookEndpointSchema }),
+    errorMessage: "Error deleting webhook endpoint",
+    handler: async (args, { businessId }) => {
+      const endpoint = serializeWebhookEndpoint(await deleteWebhookEndpoint(businessId, args.endpoint_id));
+      return {
+        text: `🗑️ Webhook endpoint ${endpoint.url} deleted.`,
+        data: { endpoint },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_webhook_events",
+    description: "List the events recorded for webhooks, newest first, with their data",
+    inputSchema: z.object({
+      event_type: z.enum(WEBHOOK_EVENT_TYPES).optional().describe("Only events of this type (optional)"),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of events (optional, default 50)"),
+    }),
+    outputSchema: z.object({ events: z.array(WebhookEventSchema), count: z.number() }),
+    errorMessage: "Error listing webhook events",
+    handler: async (args, { businessId }) => {
+      const events = (await listWebhookEvents(businessId, args)).map(serializeWebhookEvent);
+
+      if (events.length === 0) {
+        return {
+          text: "No webhook events found.",
+          data: { events: [], count: 0 },
+        };
+      }
+
+      const list = events
+        .map((event: Event, index: number) => `${index + 1}. ${event.event_type} at ${event.created_at} (ID: ${event.id})\n   Deliveries: ${event.delivery_count ?? 0}${event.dispatched_at ? '' : ' (not dispatched yet)'}`)
+        .join('\n');
+
+      return {
+        text: `Webhook events (${events.length}):\n\n${list}`,
+        data: { events, count: events.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "list_webhook_deliveries",
+    description: "List webhook deliveries, newest first, with the log of every attempt: the response status, the start of the response body and any error",
+    inputSchema: z.object({
+      endpoint_id: z.string().optional().describe("Only deliveries to this endpoint (optional)"),
+      event_id: z.string().optional().describe("Only deliveries of this event (optional)"),
+      status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional().describe("Filter by status (optional)"),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of deliveries (optional, default 50)"),
+    }),
+    outputSchema: z.object({ deliveries: z.array(WebhookDeliverySchema), count: z.number() }),
+    errorMessage: "Error listing webhook deliveries",
+    handler: async (args, { businessId }) => {
+      const deliveries = (await listWebhookDeliveries(businessId, args)).map(serializeWebhookDelivery);
+
+      if (deliveries.length === 0) {
+        return {
+          text: "No webhook deliveries found.",
+          data: { deliveries: [], count: 0 },
+        };
+      }
+
+      const list = deliveries
+        .map((delivery: Delivery, index: number) => `${index + 1}. ${deliveryLine(delivery)}\n   Delivery ID: ${delivery.id}, event ID: ${delivery.event_id}`)
+        .join('\n');
+
+      return {
+        text: `Webhook deliveries (${deliveries.length}):\n\n${list}`,
+        data: { deliveries, count: deliveries.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "replay_webhook_event",
+    description: "Send a recorded event again: to one endpoint, or to every active endpoint that receives its type. Use after fixing a receiver or to resend a failed delivery",
+    inputSchema: z.object({
+      event_id: z.string().min(1, "Event ID is required").describe("The webhook event ID"),
+      endpoint_id: z.string().optional().describe("Only to this endpoint, whatever events it receives (optional)"),
+    }),
+    outputSchema: z.object({ deliveries: z.array(WebhookDeliverySchema), count: z.number() }),
+    errorMessage: "Error replaying webhook event",
+    handler: async (args, { businessId }) => {
+      const deliveries = (await replayWebhookEvent(businessId, args.event_id, args.endpoint_id)).map(serializeWebhookDelivery);
+
+      if (deliveries.length === 0) {
+        return {
+          text: "No active endpoint receives this event, so nothing was replayed.",
+          data: { deliveries: [], count: 0 },
+        };
+      }
+
+      return {
+        text: `🔁 Event queued for ${deliveries.length} endpoint(s): ${deliveries.map((delivery: Delivery) => delivery.url).join(', ')}. It goes out with the next delivery run, or straight away with send_due_webhooks.`,
+        data: { deliveries, count: deliveries.length },
+      };
+    },
+  }),
+
+  defineTool({
+    name: "send_due_webhooks",
+    description: "Hand this business's new events to its endpoints and send the deliveries that are due now, without waiting for the background worker. Failed deliveries are retried later",
+    inputSchema: z.object({
+      limit: z.number().int().min(1).max(500).optional().describe(`Maximum number to send (optional, default ${WEBHOOK_BATCH_SIZE})`),
+    }),
+    outputSchema: z.object({
+      deliveries: z.array(WebhookDeliverySchema),
+      delivered: z.number().int(),
+      pending: z.number().int(),
+      failed: z.number().int(),
+    }),
+    errorMessage: "Error sending webhooks",
+    handler: async (args, { businessId }) => {
+      await dispatchWebhookEvents(businessId, args.limit);
+      const processed = await deliverDueWebhooks(businessId, args.limit);
+      const deliveries = processed.map((row: any) => serializeWebhookDelivery({ ...row, attempt_log: [] }));
+      const count = (status: string) => deliveries.filter((delivery: Delivery) => delivery.status === status).length;
+
+      return {
+        text: deliveries.length === 0
+          ? "No webhooks are due."
+          : `📤 Sent ${deliveries.length} webhook(s): ${count('delivered')} delivered, ${count('pending')} to retry, ${count('failed')} failed.`,
+        data: { deliveries, delivered: count('delivered'), pending: count('pending'), failed: count('failed') },
+      };
+    },
+  }),
+];
@@ -0,0 +1,81 @@
+// Customer identity verification. Before tools disclose a customer's contact
+// details or history, the session has to show it is talking to that customer:
+// with a one-time code sent to the email or phone on file, or by matching the
+// details of one of their bookings. Verification lasts for the session.
+// CUSTOMER_VERIFICATION=off turns the checks off for staff-facing deployments.
+
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
+import { SessionContext } from './context.js';
+import { CustomerNotVerifiedError } from './errors.js';
+
+export const VERIFICATION_REQUIRED = process.env.CUSTOMER_VERIFICATION !== 'off';
+
+export const VERIFICATION_CODE_LENGTH = 6;
+export const VERIFICATION_CODE_TTL_MINUTES = parseInt(process.env.VERIFICATION_CODE_TTL_MINUTES || '10', 10);
+// Wrong codes per sent code, and failed booking-detail checks per customer within the lockout window
+export const MAX_VERIFICATION_ATTEMPTS = 5;
+// How long failed booking-detail checks count against the customer, across all sessions
+export const VERIFICATION_LOCKOUT_MINUTES = 30;
+// Minimum time between two codes for the same customer
+export const VERIFICATION_RESEND_SECONDS = 60;
+
+export type VerificationMethod = 'code' | 'booking';
+
+// Codes go to the email address or phone number on file, never by push
+export const VERIFICATION_CHANNELS = ['email', 'sms'] as const;
+export type VerificationChannel = typeof VERIFICATION_CHANNELS[number];
+
+export function generateVerificationCode(): string {
+  return String(randomInt(0, 10 ** VERIFICATION_CODE_LENGTH)).padStart(VERIFICATION_CODE_LENGTH, '0');
+}
+
+// Codes are stored hashed, salted with their verification row's ID
+export function hashVerificationCode(verification_id: string, code: string): string {
+  return createHash('sha256').update(`${verification_id}:${code.trim()}`).digest('hex');
+}
+
+export function verificationCodeMatches(verification_id: string, code: string, codeHash: string): boolean {
+  const given = Buffer.from(hashVerificationCode(verification_id, code), 'hex');
+  const stored = Buffer.from(codeHash, 'hex');
+  return given.length === stored.length && timingSafeEqual(given, stored);
+}
+
+// "jane.doe@example.com" -> "j***@example.com"
+export function maskEmail(email: string | null): string | null {
+  if (!email) return null;
+  const at = email.lastIndexOf('@');
+  if (at <= 0) return '***';
+  return `${email[0]}***${email.slice(at)}`;
+}
+
+// "555-010-1234" -> "***1234"
+export function maskPhone(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  return digits.length > 4 ? `***${digits.slice(-4)}` : '***';
+}
+
+/**
+ * A serialized customer with contact details masked and notes removed, for
+ * sessions that have not verified the customer. Names stay so the agent can
+ * ask "is this you?".
+ */
+export function redactCustomer<T extends { email: string | null; phone: string | null; notes: string | null }>(customer: T): T {
+  return { ...customer, email: maskEmail(customer.email), phone: maskPhone(customer.phone), notes: null };
+}
+
+export function isCustomerVerified(session: SessionContext, customer_id: string): boolean {
+  return !VERIFICATION_REQUIRED || (session.verifiedCustomerIds?.has(customer_id) ?? false);
+}
+
+// Throw CUSTOMER_NOT_VERIFIED unless the session may see the customer's data
+export function requireVerifiedCustomer(session: SessionContext, customer_id: string): void {
+  if (!isCustomerVerified(session, customer_id)) {
+    throw new CustomerNotVerifiedError(customer_id);
+  }
+}
+
+export function markCustomerVerified(session: SessionContext, customer_id: string): void {
+  session.verifiedCustomerIds ??= new Set();
+  session.verifiedCustomerIds.add(customer_id);
+}
@@ -0,0 +1,63 @@
+// Multi-service visits: several services booked back to back for one customer,
+// e.g. cut, colour and blow-dry. Each service starts once the previous one and
+// its buffer time are over, and each may be done by a different staff member.
+// Planning is pure; the data layer supplies the staff availability check.
+
+export const MAX_VISIT_SERVICES = 6;
+
+export interface VisitService {
+  service_id: string;
+  service_name: string;
+  duration_minutes: number;
+  buffer_minutes: number;
+  staff_ids: string[]; // staff who may do this service, in order of preference
+}
+
+export interface VisitSegmentPlan {
+  sequence: number; // 1-based position in the visit
+  service_id: string;
+  service_name: string;
+  staff_id: string;
+  start_time: Date;
+  end_time: Date;
+}
+
+// Whether a staff member can do the service between start and end (buffer is the caller's concern)
+export type StaffAvailabilityCheck = (staff_id: string, service: VisitService, start: Date, end: Date) => boolean;
+
+/**
+ * Lay the services out back to back from `start`, picking the first listed
+ * staff member free for each. Returns null when some service has nobody free.
+ */
+export function planVisit(services: VisitService[], start: Date, isStaffFree: StaffAvailabilityCheck): VisitSegmentPlan[] | null {
+  const plan: VisitSegmentPlan[] = [];
+  let cursor = start;
+
+  for (const [index, service] of services.entries()) {
+    const end = new Date(cursor.getTime() + service.duration_minutes * 60000);
+    const staffId = service.staff_ids.find((id) => isStaffFree(id, service, cursor, end));
+    if (!staffId) {
+      return null;
+    }
+
+    plan.push({
+      sequence: index + 1,
+      service_id: service.service_id,
+      service_name: service.service_name,
+      staff_id: staffId,
+      start_time: cursor,
+      end_time: end,
+    });
+    cursor = new Date(end.getTime() + service.buffer_minutes * 60000);
+  }
+
+  return plan;
+}
+
+// Total length from the first start to the last end, buffers between services included
+export function visitLengthMinutes(services: VisitService[]): number {
+  return services.reduce(
+    (total, service, index) => total + service.duration_minutes + (index < services.length - 1 ? service.buffer_minutes : 0),
+    0
+  );
+}
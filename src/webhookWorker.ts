@@ -0,0 +1,38 @@
+// Background delivery of webhook events for every business. Each pass first
+// fans new outbox events out to the subscribed endpoints, then sends the
+// deliveries that are due. One pass runs at a time; a pass that fails is
+// logged and the next one tries again.
+
+import { deliverDueWebhooks, dispatchWebhookEvents } from './database.js';
+import { WEBHOOK_BATCH_SIZE, WEBHOOK_WORKER_SECONDS } from './webhooks.js';
+
+/**
+ * Dispatch and deliver webhooks every `intervalSeconds` until the returned
+ * stop function is called. Returns null when the interval is 0 (worker turned
+ * off). The timer does not keep the process alive on its own.
+ */
+export function startWebhookWorker(intervalSeconds: number = WEBHOOK_WORKER_SECONDS): (() => void) | null {
+  if (!(intervalSeconds > 0)) {
+    return null;
+  }
+
+  let running = false;
+  const runPass = async () => {
+    if (running) return;
+    running = true;
+    try {
+      // Keep going while full batches come back, so a backlog clears in one pass
+      while ((await dispatchWebhookEvents(null, WEBHOOK_BATCH_SIZE)).length === WEBHOOK_BATCH_SIZE);
+      while ((await deliverDueWebhooks(null, WEBHOOK_BATCH_SIZE)).length === WEBHOOK_BATCH_SIZE);
+    } catch (error: any) {
+      console.error('Webhook delivery failed:', error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(runPass, intervalSeconds * 1000);
+  timer.unref();
+  void runPass();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,236 @@
+// Outbound webhooks. Appointment, customer and review changes write an event
+// to the webhook_events outbox in the same transaction as the change, so an
+// event exists exactly when its change was committed. The webhook worker fans
+// new events out to the business's registered endpoints and POSTs them,
+// signed with the endpoint's secret, retrying failures with a growing delay.
+// Every attempt is logged, and events can be replayed.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'appointment.created',
+  'appointment.confirmed',
+  'appointment.rescheduled',
+  'appointment.cancelled',
+  'appointment.completed',
+  'appointment.no_show',
+  'customer.created',
+  'review.created',
+] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Delivery attempts before a delivery is marked failed
+export const MAX_WEBHOOK_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+// How often the worker dispatches new events and retries; 0 turns it off
+export const WEBHOOK_WORKER_SECONDS = parseInt(process.env.WEBHOOK_WORKER_SECONDS || '30', 10);
+export const WEBHOOK_BATCH_SIZE = 50;
+// A claimed delivery is retried after this long if its worker dies mid-request
+export const WEBHOOK_LEASE_MINUTES = 2;
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Response bodies are logged up to this many characters
+const MAX_LOGGED_RESPONSE = 1000;
+
+const RETRY_BASE_MINUTES = 1;
+const RETRY_MAX_MINUTES = 12 * 60;
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookEvent {
+  id: string;
+  business_id: string;
+  event_type: WebhookEventType;
+  payload: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface WebhookAttempt {
+  ok: boolean;
+  status_code: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+/**
+ * Whether an endpoint subscribed to the given types receives an event. No
+ * types means every event; "appointment.*" means every appointment event.
+ */
+export function webhookSubscribes(event_types: string[] | null | undefined, event_type: string): boolean {
+  if (!event_types || event_types.length === 0) {
+    return true;
+  }
+  return event_types.some((wanted) =>
+    wanted === '*' || wanted === event_type || (wanted.endsWith('.*') && event_type.startsWith(wanted.slice(0, -1)))
+  );
+}
+
+// Event types an endpoint may subscribe to: the types themselves, "<resource>.*" and "*"
+export function isWebhookEventPattern(value: string): boolean {
+  return value === '*' ||
+    (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value) ||
+    WEBHOOK_EVENT_TYPES.some((type) => value === `${type.split('.')[0]}.*`);
+}
+
+// Why a URL cannot receive webhooks, or null when it can
+export function webhookUrlProblem(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `Not a valid URL: ${value}`;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return `Webhook URLs must use https or http, not ${url.protocol}`;
+  }
+  if (url.username || url.password) {
+    return 'Webhook URLs must not contain credentials; verify requests with the signing secret instead';
+  }
+  return null;
+}
+
+// A signing secret: 32 random bytes, shown to the business once
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * The signature header value for a request body: "t=<unix seconds>,v1=<hex
+ * HMAC-SHA256 of '<t>.<body>'>". Signing the timestamp lets receivers reject
+ * replayed requests.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a signature header as a receiver would: the signature must match and
+ * be no older than toleranceSeconds.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  options: { toleranceSeconds?: number; now?: Date } = {}
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return false;
+  }
+  const age = (options.now ?? new Date()).getTime() / 1000 - timestamp;
+  if (Math.abs(age) > (options.toleranceSeconds ?? 300)) {
+    return false;
+  }
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const given = Buffer.from(String(parts.v1), 'hex');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Minutes to wait before the next attempt: 1, 2, 4, ... capped at 12 hours
+export function webhookRetryDelayMinutes(attempts: number): number {
+  return Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MINUTES);
+}
+
+// The JSON body sent for an event
+export function webhookBody(event: WebhookEvent): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.event_type,
+    created_at: new Date(event.created_at).toISOString(),
+    business_id: event.business_id,
+    data: event.payload,
+  });
+}
+
+const iso = (value: string | number | Date | null | undefined) => (value ? new Date(value).toISOString() : null);
+
+// Event data for an appointments row; times are UTC
+export function appointmentEventData(row: any, extra: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    appointment: {
+      id: row.id,
+      customer_id: row.customer_id ?? null,
+      service_id: row.service_id ?? null,
+      staff_id: row.staff_id ?? null,
+      start_time: iso(row.start_time),
+      end_time: iso(row.end_time),
+      status: row.status,
+      notes: row.notes ?? null,
+      price_cents: row.price_cents ?? null,
+      visit_id: row.visit_id ?? null,
+      series_id: row.series_id ?? null,
+      created_at: iso(row.created_at),
+      updated_at: iso(row.updated_at),
+    },
+    ...extra,
+  };
+}
+
+// Event data for a customers row
+export function customerEventData(row: any): Record<string, unknown> {
+  return {
+    customer: {
+      id: row.id,
+      first_name: row.first_name ?? null,
+      last_name: row.last_name ?? null,
+      email: row.email ?? null,
+      phone: row.phone_number ?? null,
+      created_at: iso(row.created_at),
+    },
+  };
+}
+
+// Event data for a reviews row
+export function reviewEventData(row: any): Record<string, unknown> {
+  return {
+    review: {
+      id: row.id,
+      appointment_id: row.appointment_id ?? null,
+      customer_id: row.customer_id ?? null,
+      service_id: row.service_id ?? null,
+      staff_id: row.staff_id ?? null,
+      rating: row.rating,
+      review_text: row.review_text ?? null,
+      created_at: iso(row.created_at),
+    },
+  };
+}
+
+/**
+ * POST an event to an endpoint. Any 2xx response is a success; other
+ * responses, network errors and timeouts are failures to retry. Never throws.
+ */
+export async function sendWebhook(url: string, secret: string, event: WebhookEvent): Promise<WebhookAttempt> {
+  const body = webhookBody(event);
+  const started = Date.now();
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'appointment-mcp-webhooks',
+        'X-Webhook-Id': event.id,
+        'X-Webhook-Event': event.event_type,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body, Math.floor(Date.now() / 1000)),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    const text = (await response.text().catch(() => '')).slice(0, MAX_LOGGED_RESPONSE);
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status_code: response.status,
+      response_body: text || null,
+      error: response.ok ? null : `Endpoint returned ${response.status} ${response.statusText}`.trim(),
+      duration_ms: Date.now() - started,
+    };
+  } catch (error: any) {
+    const message = error.name === 'TimeoutError' ? `No response within ${WEBHOOK_TIMEOUT_MS / 1000} seconds` : error.message;
+    return { ok: false, status_code: null, response_body: null, error: message, duration_ms: Date.now() - started };
+  }
+}
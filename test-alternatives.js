@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+
+// Alternatives test suite
+// Checks the plain-language reasons given when a time cannot be booked and
+// how suggested alternatives are ranked against the requested time.
+//
+// Usage: npm run build && node test-alternatives.js
+//
+// With DATABASE_URL set it also seeds a salon with two stylists and checks
+// the suggestions for rejected requests.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const alternatives = await import('./build/alternatives.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const REQUESTED = new Date('2030-06-04T10:00:00Z');
+
+function suggestion(kind, start, staffId = 'a') {
+  const startTime = new Date(start);
+  return {
+    kind,
+    service_id: kind === 'similar_service' ? 'other' : 'cut',
+    service_name: 'Cut',
+    staff_id: staffId,
+    staff_name: staffId.toUpperCase(),
+    start_time: startTime,
+    end_time: new Date(startTime.getTime() + 60 * 60000),
+    reason: '',
+  };
+}
+
+test('reasons read as plain sentences', () => {
+  const describe = (reason) => alternatives.describeUnavailableReason(reason, 'Sarah Lee', 'UTC');
+  assert.strictEqual(describe({ code: 'BUSINESS_CLOSED', day_of_week: 0 }), 'the business is closed on Sundays');
+  assert.strictEqual(describe({ code: 'STAFF_TIME_OFF', title: 'Holiday' }), 'Sarah Lee is on time off (Holiday)');
+  assert.strictEqual(describe({ code: 'STAFF_TIME_OFF', title: null }), 'Sarah Lee is on time off');
+  assert.strictEqual(describe({ code: 'STAFF_NOT_WORKING', day_of_week: 3 }), 'Sarah Lee does not work on Wednesdays');
+  assert.strictEqual(
+    describe({ code: 'STAFF_BUSY', kind: 'appointment', start_time: new Date('2030-06-04T09:30:00Z'), end_time: new Date('2030-06-04T10:30:00Z') }),
+    'Sarah Lee is already booked 09:30-10:30'
+  );
+});
+
+test('time shifts say how far they move the booking', () => {
+  const shift = (start) => alternatives.describeTimeShift('Sarah Lee', new Date(start), REQUESTED, 'UTC');
+  assert.strictEqual(shift('2030-06-04T10:30:00Z'), 'Sarah Lee is free 30 minutes later the same day');
+  assert.strictEqual(shift('2030-06-04T08:30:00Z'), 'Sarah Lee is free 1 hour 30 minutes earlier the same day');
+  assert.strictEqual(shift('2030-06-05T10:00:00Z'), 'Sarah Lee is free on Wednesday 2030-06-05 at 10:00');
+});
+
+test('closer suggestions rank first, other staff and services cost extra', () => {
+  const ranked = alternatives.rankAlternatives([
+    suggestion('similar_service', '2030-06-04T10:00:00Z'),
+    suggestion('same_staff_other_time', '2030-06-04T11:00:00Z'),
+    suggestion('other_staff_same_time', '2030-06-04T10:00:00Z', 'b'),
+    suggestion('same_staff_other_time', '2030-06-04T10:30:00Z'),
+  ], REQUESTED, 3);
+  assert.deepStrictEqual(ranked.map((alternative) => alternative.kind), ['other_staff_same_time', 'same_staff_other_time', 'same_staff_other_time']);
+  assert.strictEqual(ranked[1].start_time.toISOString(), '2030-06-04T10:30:00.000Z');
+});
+
+test('duplicate suggestions are dropped', () => {
+  const ranked = alternatives.rankAlternatives([
+    suggestion('other_time', '2030-06-04T10:30:00Z'),
+    suggestion('same_staff_other_time', '2030-06-04T10:30:00Z'),
+  ], REQUESTED, 5);
+  assert.strictEqual(ranked.length, 1);
+});
+
+// Data-layer checks against a seeded salon, open Monday to Saturday 09:00-17:00
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Alternatives Test', 'UTC', now]
+  );
+  await pool.query(
+    `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+     VALUES ($1, 0, '09:00', '17:00', true)`,
+    [businessId]
+  );
+  for (let day = 1; day <= 6; day++) {
+    await pool.query(
+      `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+       VALUES ($1, $2, '09:00', '17:00', false)`,
+      [businessId, day]
+    );
+  }
+
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Haircut', 60, 4000, true, 2) RETURNING *`,
+    [businessId]
+  )).rows[0];
+
+  const staff = [];
+  for (const name of ['Sarah', 'Tom']) {
+    const member = (await pool.query(
+      `INSERT INTO staff (business_id, first_name, last_name, is_active)
+       VALUES ($1, $2, 'Stylist', true) RETURNING *`,
+      [businessId, name]
+    )).rows[0];
+    await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [member.id, service.id]);
+    for (let day = 1; day <= 6; day++) {
+      await pool.query(
+        `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+         VALUES ($1, $2, '09:00', '17:00', true)`,
+        [member.id, day]
+      );
+    }
+    staff.push(member);
+  }
+
+  // Sarah is off on Tuesday 2030-06-04
+  await pool.query(
+    `INSERT INTO staff_time_off (staff_id, title, date, is_all_day) VALUES ($1, 'Holiday', '2030-06-04', true)`,
+    [staff[0].id]
+  );
+
+  return { service, staff };
+}
+
+if (process.env.DATABASE_URL) {
+  test('time off is explained and another stylist is offered', async () => {
+    const result = await db.findAlternatives(businessId, {
+      service_id: seeded.service.id,
+      staff_id: seeded.staff[0].id,
+      start_time: '2030-06-04T10:00:00',
+    });
+    assert.strictEqual(result.available, false);
+    assert.deepStrictEqual(result.reasons, ['Sarah Stylist is on time off (Holiday)']);
+    const [first] = result.alternatives;
+    assert.strictEqual(first.kind, 'other_staff_same_time');
+    assert.strictEqual(first.staff_id, seeded.staff[1].id);
+    assert.ok(result.alternatives.some((alternative) =>
+      alternative.kind === 'same_staff_other_time' && alternative.start_time.toISOString() === '2030-06-05T10:00:00.000Z'));
+  });
+
+  test('a Sunday request says the business is closed and moves to open days', async () => {
+    const result = await db.findAlternatives(businessId, { service_id: seeded.service.id, start_time: '2030-06-09T10:00:00' });
+    assert.strictEqual(result.available, false);
+    assert.ok(result.reasons.includes('The business is closed on Sundays'), result.reasons.join('; '));
+    assert.ok(result.alternatives.length > 0);
+    assert.ok(result.alternatives.every((alternative) => alternative.start_time.getUTCDay() !== 0));
+  });
+
+  test('a bookable request has no reasons or alternatives', async () => {
+    const result = await db.findAlternatives(businessId, { service_id: seeded.service.id, start_time: '2030-06-05T10:00:00' });
+    assert.strictEqual(result.available, true);
+    assert.deepStrictEqual(result.reasons, []);
+    assert.deepStrictEqual(result.alternatives, []);
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} alternatives tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Alternatives tests failed to run:', error);
+  process.exit(1);
+});
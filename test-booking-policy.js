@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+// Booking policy test suite
+// Checks the notice, booking-window, same-day and change rules built from
+// business_settings.
+//
+// Usage: npm run build && node test-booking-policy.js
+//
+// With DATABASE_URL set it also saves a policy for a seeded business and
+// checks that bookings, reschedules and cancellations that break it are
+// rejected with policy-violation codes.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const policy = await import('./build/policy.js');
+
+const HOUR = 60 * 60 * 1000;
+const now = new Date('2030-06-10T12:00:00Z');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function codes(violations) {
+  return violations.map((violation) => violation.code);
+}
+
+test('a business without settings is unrestricted', () => {
+  const open = policy.policyFromSettings(undefined);
+  assert.deepStrictEqual(open, policy.UNRESTRICTED_BOOKING_POLICY);
+  assert.deepStrictEqual(policy.checkBookingWindow(open, new Date(now.getTime() + 60 * 1000), now, 'UTC'), []);
+  assert.deepStrictEqual(policy.checkChangeAllowed(open, 'cancel', new Date(now.getTime() + 60 * 1000), now), []);
+});
+
+test('bookings need the minimum notice and must fall inside the window', () => {
+  const rules = policy.policyFromSettings({
+    min_booking_notice_hours: 24, booking_window_days: 90, max_booking_notice_days: 30, allow_same_day_bookings: true,
+  });
+  assert.strictEqual(policy.maxAdvanceDays(rules), 30);
+  assert.deepStrictEqual(codes(policy.checkBookingWindow(rules, new Date(now.getTime() + 2 * HOUR), now, 'UTC')), ['BOOKING_NOTICE_TOO_SHORT']);
+  assert.deepStrictEqual(codes(policy.checkBookingWindow(rules, new Date(now.getTime() + 31 * 24 * HOUR), now, 'UTC')), ['BOOKING_TOO_FAR_AHEAD']);
+  assert.deepStrictEqual(policy.checkBookingWindow(rules, new Date(now.getTime() + 48 * HOUR), now, 'UTC'), []);
+});
+
+test('same-day is judged in the business timezone', () => {
+  const rules = policy.policyFromSettings({ min_booking_notice_hours: 0, allow_same_day_bookings: false });
+  // 12:00 UTC is 22:00 in Sydney, so 15:00 UTC is already tomorrow there
+  const start = new Date('2030-06-10T15:00:00Z');
+  assert.deepStrictEqual(codes(policy.checkBookingWindow(rules, start, now, 'UTC')), ['SAME_DAY_BOOKING_NOT_ALLOWED']);
+  assert.deepStrictEqual(policy.checkBookingWindow(rules, start, now, 'Australia/Sydney'), []);
+});
+
+test('changes are refused when disabled or inside the notice period', () => {
+  const soon = new Date(now.getTime() + 3 * HOUR);
+  const later = new Date(now.getTime() + 72 * HOUR);
+  const rules = policy.policyFromSettings({ allow_rescheduling: false, allow_cancellation: true, cancellation_notice_hours: 24 });
+  assert.deepStrictEqual(codes(policy.checkChangeAllowed(rules, 'reschedule', later, now)), ['RESCHEDULING_NOT_ALLOWED']);
+  assert.deepStrictEqual(codes(policy.checkChangeAllowed(rules, 'cancel', soon, now)), ['CANCELLATION_NOTICE_TOO_SHORT']);
+  assert.deepStrictEqual(policy.checkChangeAllowed(rules, 'cancel', later, now), []);
+});
+
+test('the rules are described in plain sentences', () => {
+  const rules = policy.describeBookingPolicy(policy.policyFromSettings({
+    min_booking_notice_hours: 12, booking_window_days: 60, allow_cancellation: false, cancellation_notice_hours: 48,
+  }));
+  assert.ok(rules.includes('Bookings need at least 12 hour(s) notice.'));
+  assert.ok(rules.includes('Bookings can be made up to 60 day(s) ahead.'));
+  assert.ok(rules.includes('Appointments can be rescheduled up to 48 hour(s) before they start.'));
+  assert.ok(rules.includes('Appointments cannot be cancelled.'));
+});
+
+// Data-layer checks against a seeded business with a saved policy
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const created = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Policy Test', 'UTC', created]
+  );
+  await pool.query(
+    `INSERT INTO business_settings (business_id, min_booking_notice_hours, booking_window_days, max_booking_notice_days,
+                                    allow_same_day_bookings, allow_rescheduling, allow_cancellation, cancellation_notice_hours)
+     VALUES ($1, 24, 30, 365, true, true, true, 48)`,
+    [businessId]
+  );
+
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Policy',
+    last_name: 'Customer',
+    email: `policy-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-000-0300',
+  });
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Policy Cut', 60, 3000, true, 1) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Policy', 'Staff', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+
+  return { customer, service, staff };
+}
+
+// Whole hours from now, so the checks don't depend on when the suite runs
+function hoursFromNow(hours) {
+  const date = new Date(Date.now() + hours * HOUR);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+function book(start) {
+  const { customer, service, staff } = seeded;
+  return db.createAppointment(businessId, {
+    customer_id: customer.id,
+    service_id: service.id,
+    staff_id: staff.id,
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + HOUR).toISOString(),
+  });
+}
+
+if (process.env.DATABASE_URL) {
+  test('bookings outside the window are rejected with policy codes', async () => {
+    await assert.rejects(() => book(hoursFromNow(3)), (error) => error.code === 'BOOKING_NOTICE_TOO_SHORT');
+    await assert.rejects(() => book(hoursFromNow(40 * 24)), (error) => error.code === 'BOOKING_TOO_FAR_AHEAD');
+
+    const { customer, service, staff } = seeded;
+    const check = await db.checkAppointmentConflict(
+      businessId, service.id, staff.id, customer.id, hoursFromNow(3).toISOString(), hoursFromNow(4).toISOString()
+    );
+    assert.ok(check.conflicts.some((conflict) => conflict.type === 'BOOKING_NOTICE_TOO_SHORT'));
+  });
+
+  test('changes inside the cancellation notice period are rejected', async () => {
+    const appointment = await book(hoursFromNow(30));
+    await assert.rejects(
+      () => db.rescheduleAppointment(businessId, appointment.id, hoursFromNow(5 * 24).toISOString(), hoursFromNow(5 * 24 + 1).toISOString(), 'policy-test'),
+      (error) => error.code === 'RESCHEDULE_NOTICE_TOO_SHORT'
+    );
+    await assert.rejects(
+      () => db.cancelAppointment(businessId, appointment.id, 'Changed mind', 'policy-test'),
+      (error) => error.code === 'CANCELLATION_NOTICE_TOO_SHORT' && error.details.violations.length === 1
+    );
+  });
+
+  test('changes with enough notice go through', async () => {
+    const appointment = await book(hoursFromNow(4 * 24));
+    await db.rescheduleAppointment(businessId, appointment.id, hoursFromNow(6 * 24).toISOString(), hoursFromNow(6 * 24 + 1).toISOString(), 'policy-test');
+    await db.cancelAppointment(businessId, appointment.id, 'Changed mind', 'policy-test');
+
+    await db.pool.query('UPDATE business_settings SET allow_cancellation = false WHERE business_id = $1', [businessId]);
+    const kept = await book(hoursFromNow(8 * 24));
+    await assert.rejects(
+      () => db.cancelAppointment(businessId, kept.id, 'Changed mind', 'policy-test'),
+      (error) => error.code === 'CANCELLATION_NOT_ALLOWED'
+    );
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} booking policy tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Booking policy tests failed to run:', error);
+  process.exit(1);
+});
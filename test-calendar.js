@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+
+// iCalendar export test suite
+// Checks text escaping, line folding, event status and alarms, the business
+// address as location, and feed tokens and URLs.
+//
+// Usage: npm run build && node test-calendar.js
+//
+// With DATABASE_URL set it also exports a seeded appointment, creates staff
+// and customer feeds through the tools and opens them by token.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const calendar = await import('./build/calendar.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const event = {
+  uid: 'a1@appointment-mcp',
+  start: new Date('2030-05-03T10:00:00Z'),
+  end: new Date('2030-05-03T10:30:00Z'),
+  summary: 'Haircut at Salon Nova',
+  description: 'Haircut with Sam Lee\nPhone: 555-010-1234',
+  location: '1 Main St, Springfield, IL 62701',
+  organizer: { name: 'Salon Nova, Inc', email: 'hello@nova.example' },
+  status: 'CONFIRMED',
+  alarm_minutes: 60,
+};
+const now = new Date('2030-05-01T09:00:00Z');
+
+function unfold(content) {
+  return content.replace(/\r\n /g, '').split('\r\n');
+}
+
+test('an appointment becomes a VEVENT with organizer, location and alarm', () => {
+  const lines = unfold(calendar.buildCalendar([event], { name: 'Salon Nova', time_zone: 'America/Chicago', now }));
+  for (const line of [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'X-WR-TIMEZONE:America/Chicago',
+    'UID:a1@appointment-mcp',
+    'DTSTAMP:20300501T090000Z',
+    'DTSTART:20300503T100000Z',
+    'DTEND:20300503T103000Z',
+    'DESCRIPTION:Haircut with Sam Lee\\nPhone: 555-010-1234',
+    'LOCATION:1 Main St\\, Springfield\\, IL 62701',
+    'ORGANIZER;CN="Salon Nova, Inc":mailto:hello@nova.example',
+    'STATUS:CONFIRMED',
+    'TRIGGER:-PT60M',
+  ]) {
+    assert.ok(lines.includes(line), `missing ${line}`);
+  }
+  assert.strictEqual(lines.at(-1), '');
+  assert.strictEqual(lines.at(-2), 'END:VCALENDAR');
+});
+
+test('cancelled appointments are marked cancelled without an alarm', () => {
+  const lines = unfold(calendar.buildCalendar([{ ...event, status: calendar.calendarStatus('canceled') }], { now }));
+  assert.ok(lines.includes('STATUS:CANCELLED'));
+  assert.ok(!lines.includes('BEGIN:VALARM'));
+  assert.strictEqual(calendar.calendarStatus('scheduled'), 'TENTATIVE');
+  assert.strictEqual(calendar.calendarStatus('completed'), 'CONFIRMED');
+});
+
+test('long lines are folded at 75 octets without splitting characters', () => {
+  const summary = 'Coloración y peinado — '.repeat(8);
+  const content = calendar.buildCalendar([{ ...event, summary }], { now });
+  for (const line of content.split('\r\n')) {
+    assert.ok(Buffer.byteLength(line) <= 75, line);
+  }
+  assert.ok(unfold(content).includes(`SUMMARY:${summary}`));
+  assert.strictEqual(calendar.escapeText('a;b,c\\d'), 'a\\;b\\,c\\\\d');
+});
+
+test('the business address becomes one location line', () => {
+  assert.strictEqual(
+    calendar.formatLocation({ address_line1: '1 Main St', address_line2: null, city: 'Springfield', state: 'IL', postal_code: '62701', country: 'USA' }),
+    '1 Main St, Springfield, IL 62701, USA'
+  );
+  assert.strictEqual(calendar.formatLocation({}), null);
+});
+
+test('feed tokens are random and stored hashed', () => {
+  const token = calendar.generateFeedToken();
+  assert.notStrictEqual(token, calendar.generateFeedToken());
+  assert.match(token, /^[\w-]{43}$/);
+  assert.strictEqual(calendar.hashFeedToken(token), calendar.hashFeedToken(` ${token} `));
+  assert.strictEqual(calendar.calendarFeedUrl('abc'), '/calendar/abc.ics');
+});
+
+// Tool-level checks against a seeded appointment
+let registry;
+let db;
+const businessId = randomUUID();
+let seeded;
+
+function session(verified = []) {
+  return { businessId, businessLocked: true, verifiedCustomerIds: new Set(verified) };
+}
+
+async function call(name, args, context = session()) {
+  return registry.callTool(name, args, context);
+}
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    `INSERT INTO businesses (id, name, email, address_line1, city, timezone, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $7)`,
+    [businessId, 'Calendar Test', 'desk@calendar.example', '9 Elm Road', 'Leeds', 'Europe/London', now]
+  );
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Massage', 60, 8000, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active) VALUES ($1, 'Cal', 'Endar', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Ivy',
+    last_name: 'Cal',
+    email: `ivy-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-070-3344',
+  });
+  const insert = (start, end, status) => pool.query(
+    `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, status)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [businessId, customer.id, service.id, staff.id, start, end, status]
+  );
+  const booked = (await insert('2031-03-04T10:00:00Z', '2031-03-04T11:00:00Z', 'confirmed')).rows[0];
+  const cancelled = (await insert('2031-03-05T10:00:00Z', '2031-03-05T11:00:00Z', 'canceled')).rows[0];
+  return { staff, customer, booked, cancelled };
+}
+
+if (process.env.DATABASE_URL) {
+  test('an appointment exports with the business address', async () => {
+    const result = await call('export_appointment_calendar', { appointment_id: seeded.booked.id, alarm_minutes: 30 });
+    assert.ok(!result.isError, result.content[0].text);
+    const lines = unfold(result.structuredContent.content);
+    assert.ok(lines.includes('SUMMARY:Massage at Calendar Test'));
+    assert.ok(lines.includes('LOCATION:9 Elm Road\\, Leeds'));
+    assert.ok(lines.includes('ORGANIZER;CN=Calendar Test:mailto:desk@calendar.example'));
+    assert.ok(lines.includes('TRIGGER:-PT30M'));
+  });
+
+  test("a staff feed serves the staff member's appointments by token", async () => {
+    const created = await call('create_calendar_feed', { staff_id: seeded.staff.id });
+    assert.ok(!created.isError, created.content[0].text);
+    const { token, feed } = created.structuredContent;
+
+    const opened = await db.getCalendarFeedByToken(token);
+    assert.strictEqual(opened.event_count, 2);
+    const lines = unfold(opened.content);
+    assert.ok(lines.includes('SUMMARY:Massage - Ivy Cal'));
+    assert.ok(lines.includes('STATUS:CANCELLED'));
+
+    const revoked = await call('revoke_calendar_feed', { feed_id: feed.id });
+    assert.strictEqual(revoked.structuredContent.feed.active, false);
+    assert.strictEqual(await db.getCalendarFeedByToken(token), null);
+  });
+
+  test("a customer's calendar needs the customer verified", async () => {
+    const hidden = await call('export_calendar', { customer_id: seeded.customer.id });
+    assert.ok(hidden.isError);
+    assert.strictEqual(hidden.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+
+    const shown = await call('export_calendar', { customer_id: seeded.customer.id }, session([seeded.customer.id]));
+    assert.strictEqual(shown.structuredContent.event_count, 2);
+
+    const both = await call('export_calendar', { customer_id: seeded.customer.id, staff_id: seeded.staff.id });
+    assert.ok(both.isError);
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      const tools = await import('./build/tools/index.js');
+      tools.registerCoreTools();
+      registry = tools;
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping tool checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} calendar tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Calendar tests failed to run:', error);
+  process.exit(1);
+});
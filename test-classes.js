@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+// Group class test suite
+// Schedules a class session, fills its seats (including a race for the last
+// one), and checks unenrolling, the roster and that the instructor is busy.
+//
+// Usage: npm run build && DATABASE_URL=postgresql://... node test-classes.js
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ Missing DATABASE_URL environment variable');
+  process.exit(1);
+}
+
+const db = await import('./build/database.js');
+const { pool } = db;
+
+const businessId = randomUUID();
+
+async function seed() {
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Class Test', 'UTC', now]
+  );
+
+  const customers = [];
+  for (let i = 0; i < 5; i++) {
+    customers.push(await db.createCustomer(businessId, {
+      first_name: 'Class',
+      last_name: `Customer ${i}`,
+      email: `class-${businessId.slice(0, 8)}-${i}@example.com`,
+      phone: `555-030-00${String(i).padStart(2, '0')}`,
+    }));
+  }
+
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Morning Yoga', 60, 1500, true, 3) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const instructor = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Yoga', 'Instructor', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [instructor.id, service.id]);
+
+  return { customers, service, instructor };
+}
+
+async function cleanup() {
+  await pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+let seeded;
+let session;
+
+test('a session is scheduled with the service capacity by default', async () => {
+  const { service, instructor } = seeded;
+  session = await db.createClassSession(businessId, {
+    service_id: service.id,
+    staff_id: instructor.id,
+    start_time: '2030-03-04T08:00:00Z',
+  });
+  assert.strictEqual(session.capacity, 3);
+  assert.strictEqual(new Date(session.end_time).toISOString(), '2030-03-04T09:00:00.000Z');
+
+  const listed = await db.listClassSessions(businessId, { start_date: '2030-03-04', end_date: '2030-03-04' });
+  assert.deepStrictEqual(listed.map((row) => row.id), [session.id]);
+  assert.strictEqual(Number(listed[0].enrolled_count), 0);
+});
+
+test('the instructor cannot teach two overlapping sessions', async () => {
+  const { service, instructor } = seeded;
+  await assert.rejects(
+    () => db.createClassSession(businessId, {
+      service_id: service.id,
+      staff_id: instructor.id,
+      start_time: '2030-03-04T08:30:00Z',
+      capacity: 10,
+    }),
+    (error) => error.code === 'SLOT_TAKEN'
+  );
+});
+
+test('only one of two customers racing for the last seat gets it', async () => {
+  const { customers } = seeded;
+  await db.enrollInClass(businessId, session.id, customers[0].id);
+  await db.enrollInClass(businessId, session.id, customers[1].id);
+
+  const results = await Promise.allSettled([
+    db.enrollInClass(businessId, session.id, customers[2].id),
+    db.enrollInClass(businessId, session.id, customers[3].id),
+  ]);
+  const enrolled = results.filter((result) => result.status === 'fulfilled');
+  const rejected = results.filter((result) => result.status === 'rejected');
+  assert.strictEqual(enrolled.length, 1, 'exactly one enrollment should succeed');
+  assert.strictEqual(rejected[0].reason.code, 'CLASS_FULL');
+  assert.strictEqual(Number(enrolled[0].value.session.enrolled_count), 3);
+
+  const available = await db.listClassSessions(businessId, { start_date: '2030-03-04', available_only: true });
+  assert.strictEqual(available.length, 0);
+});
+
+test('unenrolling frees the seat and the roster follows', async () => {
+  const { customers } = seeded;
+  await assert.rejects(
+    () => db.enrollInClass(businessId, session.id, customers[0].id),
+    (error) => error.code === 'ALREADY_ENROLLED'
+  );
+
+  await db.unenrollFromClass(businessId, session.id, customers[0].id);
+  await assert.rejects(
+    () => db.unenrollFromClass(businessId, session.id, customers[0].id),
+    (error) => error.code === 'ENROLLMENT_NOT_FOUND'
+  );
+  await db.enrollInClass(businessId, session.id, customers[4].id);
+
+  const roster = await db.getClassRoster(businessId, session.id);
+  assert.strictEqual(roster.enrollments.length, 3);
+  assert.ok(!roster.enrollments.some((row) => row.customer_id === customers[0].id));
+  assert.strictEqual(roster.enrollments[roster.enrollments.length - 1].customer_id, customers[4].id);
+  assert.strictEqual(roster.enrollments[roster.enrollments.length - 1].customer_phone, '555-030-0004');
+});
+
+test('the instructor is busy for one-to-one bookings during the session', async () => {
+  const { customers, service, instructor } = seeded;
+  await assert.rejects(
+    () => db.createAppointment(businessId, {
+      customer_id: customers[0].id,
+      service_id: service.id,
+      staff_id: instructor.id,
+      start_time: '2030-03-04T08:30:00Z',
+      end_time: '2030-03-04T09:30:00Z',
+    }),
+    (error) => error.code === 'SLOT_TAKEN'
+  );
+
+  const check = await db.checkAppointmentConflict(
+    businessId, service.id, instructor.id, customers[0].id, '2030-03-04T08:30:00Z', '2030-03-04T09:30:00Z'
+  );
+  assert.ok(check.conflicts.some((conflict) => conflict.type === 'STAFF_TEACHING_CLASS'));
+});
+
+async function run() {
+  let failures = 0;
+
+  try {
+    seeded = await seed();
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    await cleanup();
+    await pool.end();
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} class tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Class tests failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,314 @@
+#!/usr/bin/env node
+
+// Concurrent booking test suite
+// Fires parallel bookings and slot holds at the same slot and verifies that
+// exactly as many succeed as the slot allows, with the rest failing with a
+// SLOT_TAKEN error.
+//
+// Usage: npm run build && DATABASE_URL=postgresql://... node test-concurrent-booking.js
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ Missing DATABASE_URL environment variable');
+  process.exit(1);
+}
+
+const db = await import('./build/database.js');
+const { pool } = db;
+
+const businessId = randomUUID();
+const PARALLEL_REQUESTS = 8;
+
+async function seed() {
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Concurrency Test', 'UTC', now]
+  );
+
+  const customers = [];
+  for (let i = 0; i < PARALLEL_REQUESTS; i++) {
+    customers.push(await db.createCustomer(businessId, {
+      first_name: 'Concurrent',
+      last_name: `Customer ${i}`,
+      email: `concurrent-${businessId.slice(0, 8)}-${i}@example.com`,
+      phone: `555-010-00${String(i).padStart(2, '0')}`,
+    }));
+  }
+
+  const createService = async (name, maxBookings) => (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, $2, 60, 5000, true, $3) RETURNING *`,
+    [businessId, name, maxBookings]
+  )).rows[0];
+
+  const createStaff = async (label, service) => {
+    const staff = (await pool.query(
+      `INSERT INTO staff (business_id, first_name, last_name, is_active)
+       VALUES ($1, 'Concurrent', $2, true) RETURNING *`,
+      [businessId, label]
+    )).rows[0];
+    await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+    return staff;
+  };
+
+  const privateService = await createService('Private Session', 1);
+  const privateStaff = await createStaff('Private', privateService);
+
+  const sharedService = await createService('Shared Session', 2);
+  const sharedStaff = [];
+  for (let i = 0; i < 3; i++) {
+    sharedStaff.push(await createStaff(`Shared ${i}`, sharedService));
+  }
+
+  return { customers, privateService, privateStaff, sharedService, sharedStaff };
+}
+
+async function cleanup() {
+  await pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+}
+
+// Run the bookings in parallel and split the outcomes
+async function bookInParallel(requests) {
+  const outcomes = await Promise.allSettled(requests.map((request) => db.createAppointment(businessId, request)));
+  return {
+    booked: outcomes.filter((outcome) => outcome.status === 'fulfilled').map((outcome) => outcome.value),
+    rejected: outcomes.filter((outcome) => outcome.status === 'rejected').map((outcome) => outcome.reason),
+  };
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+let seeded;
+
+test('parallel bookings of one staff member yield exactly one appointment', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  const { booked, rejected } = await bookInParallel(customers.map((customer) => ({
+    customer_id: customer.id,
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-07T10:00:00Z',
+    end_time: '2030-01-07T11:00:00Z',
+  })));
+
+  assert.strictEqual(booked.length, 1);
+  assert.strictEqual(rejected.length, PARALLEL_REQUESTS - 1);
+  for (const error of rejected) {
+    assert.strictEqual(error.code, 'SLOT_TAKEN', error.message);
+  }
+});
+
+test('overlapping but not identical slots are also rejected', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  await assert.rejects(
+    () => db.createAppointment(businessId, {
+      customer_id: customers[0].id,
+      service_id: privateService.id,
+      staff_id: privateStaff.id,
+      start_time: '2030-01-07T10:30:00Z',
+      end_time: '2030-01-07T11:30:00Z',
+    }),
+    (error) => error.code === 'SLOT_TAKEN'
+  );
+});
+
+test('max_bookings_per_slot caps parallel bookings across staff', async () => {
+  const { customers, sharedService, sharedStaff } = seeded;
+  const { booked, rejected } = await bookInParallel(sharedStaff.map((staff, index) => ({
+    customer_id: customers[index].id,
+    service_id: sharedService.id,
+    staff_id: staff.id,
+    start_time: '2030-01-07T14:00:00Z',
+    end_time: '2030-01-07T15:00:00Z',
+  })));
+
+  assert.strictEqual(booked.length, 2);
+  assert.strictEqual(rejected.length, 1);
+  assert.strictEqual(rejected[0].code, 'SLOT_TAKEN');
+});
+
+test('adjacent slots do not conflict', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  const appointment = await db.createAppointment(businessId, {
+    customer_id: customers[1].id,
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-07T11:00:00Z',
+    end_time: '2030-01-07T12:00:00Z',
+  });
+  assert.ok(appointment.id);
+});
+
+test('parallel reschedules into the same free slot yield one move', async () => {
+  const { privateStaff } = seeded;
+  const appointments = await db.getAppointments(businessId, { staff_id: privateStaff.id });
+  assert.strictEqual(appointments.length, 2);
+
+  const outcomes = await Promise.allSettled(appointments.map((appointment) =>
+    db.rescheduleAppointment(businessId, appointment.id, '2030-01-08T09:00:00Z', '2030-01-08T10:00:00Z', 'concurrency-test')
+  ));
+  const rejected = outcomes.filter((outcome) => outcome.status === 'rejected');
+
+  assert.strictEqual(rejected.length, 1);
+  assert.strictEqual(rejected[0].reason.code, 'SLOT_TAKEN');
+});
+
+test('an update into a slot races a new booking of it and one wins', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  const appointment = await db.createAppointment(businessId, {
+    customer_id: customers[4].id,
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-12T08:00:00Z',
+    end_time: '2030-01-12T09:00:00Z',
+  });
+
+  const outcomes = await Promise.allSettled([
+    db.updateAppointment(
+      businessId, appointment.id, customers[4].id, privateService.id, privateStaff.id,
+      '2030-01-12T10:00:00Z', '2030-01-12T11:00:00Z', 'scheduled'
+    ),
+    db.createAppointment(businessId, {
+      customer_id: customers[5].id,
+      service_id: privateService.id,
+      staff_id: privateStaff.id,
+      start_time: '2030-01-12T10:00:00Z',
+      end_time: '2030-01-12T11:00:00Z',
+    }),
+  ]);
+  const rejected = outcomes.filter((outcome) => outcome.status === 'rejected');
+
+  assert.strictEqual(rejected.length, 1);
+  assert.strictEqual(rejected[0].reason.code, 'SLOT_TAKEN', rejected[0].reason.message);
+  const booked = await db.getAppointments(businessId, {
+    staff_id: privateStaff.id,
+    start_date: '2030-01-12T10:00:00Z',
+    end_date: '2030-01-12T11:00:00Z',
+  });
+  assert.strictEqual(booked.length, 1);
+});
+
+test('parallel holds of one slot yield exactly one hold', async () => {
+  const { privateService, privateStaff } = seeded;
+  const outcomes = await Promise.allSettled(Array.from({ length: PARALLEL_REQUESTS }, () =>
+    db.holdSlot(businessId, {
+      service_id: privateService.id,
+      staff_id: privateStaff.id,
+      start_time: '2030-01-09T10:00:00Z',
+    })
+  ));
+  const held = outcomes.filter((outcome) => outcome.status === 'fulfilled');
+  const rejected = outcomes.filter((outcome) => outcome.status === 'rejected');
+
+  assert.strictEqual(held.length, 1);
+  for (const outcome of rejected) {
+    assert.strictEqual(outcome.reason.code, 'SLOT_TAKEN', outcome.reason.message);
+  }
+});
+
+test('a held slot is busy for other bookings until released', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  const request = {
+    customer_id: customers[2].id,
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-10T10:00:00Z',
+    end_time: '2030-01-10T11:00:00Z',
+  };
+  const hold = await db.holdSlot(businessId, {
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: request.start_time,
+    ttl_minutes: 5,
+  });
+
+  await assert.rejects(() => db.createAppointment(businessId, request), (error) => error.code === 'SLOT_TAKEN');
+
+  const conflicts = await db.checkAppointmentConflict(
+    businessId, privateService.id, privateStaff.id, customers[2].id, request.start_time, request.end_time
+  );
+  assert.ok(conflicts.conflicts.some((conflict) => conflict.type === 'SLOT_HELD'));
+  const ownConflicts = await db.checkAppointmentConflict(
+    businessId, privateService.id, privateStaff.id, customers[2].id, request.start_time, request.end_time, undefined, hold.hold_token
+  );
+  assert.ok(!ownConflicts.conflicts.some((conflict) => conflict.type === 'SLOT_HELD'));
+
+  await db.releaseHold(businessId, hold.hold_token);
+  await assert.rejects(() => db.releaseHold(businessId, hold.hold_token), (error) => error.code === 'HOLD_NOT_FOUND');
+  assert.ok((await db.createAppointment(businessId, request)).id);
+});
+
+test('holds count toward service capacity in conflict checks', async () => {
+  const { customers, sharedService, sharedStaff } = seeded;
+  const holds = [];
+  for (const staff of sharedStaff.slice(0, 2)) {
+    holds.push(await db.holdSlot(businessId, {
+      service_id: sharedService.id,
+      staff_id: staff.id,
+      start_time: '2030-01-13T14:00:00Z',
+    }));
+  }
+
+  const check = (holdToken) => db.checkAppointmentConflict(
+    businessId, sharedService.id, sharedStaff[2].id, customers[6].id,
+    '2030-01-13T14:00:00Z', '2030-01-13T15:00:00Z', undefined, holdToken
+  );
+  const full = await check();
+  assert.ok(full.conflicts.some((conflict) => conflict.type === 'SERVICE_CAPACITY_EXCEEDED'));
+  const ownHold = await check(holds[0].hold_token);
+  assert.ok(!ownHold.conflicts.some((conflict) => conflict.type === 'SERVICE_CAPACITY_EXCEEDED'));
+});
+
+test('expired holds do not block the slot', async () => {
+  const { customers, privateService, privateStaff } = seeded;
+  const hold = await db.holdSlot(businessId, {
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-11T10:00:00Z',
+  });
+  await pool.query("UPDATE slot_holds SET expires_at = $1 WHERE hold_token = $2", [new Date(Date.now() - 1000), hold.hold_token]);
+
+  const appointment = await db.createAppointment(businessId, {
+    customer_id: customers[3].id,
+    service_id: privateService.id,
+    staff_id: privateStaff.id,
+    start_time: '2030-01-11T10:00:00Z',
+    end_time: '2030-01-11T11:00:00Z',
+  });
+  assert.ok(appointment.id);
+});
+
+async function run() {
+  let failures = 0;
+
+  try {
+    seeded = await seed();
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    await cleanup();
+    await pool.end();
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} concurrent booking tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Concurrent booking tests failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+
+// Duplicate customer test suite
+// Checks how email, phone and name are normalized and how candidate pairs
+// are scored and found.
+//
+// Usage: npm run build && node test-duplicates.js
+//
+// With DATABASE_URL set it also seeds two records of the same customer with
+// appointments, a review and a payment, and merges them.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const duplicates = await import('./build/duplicates.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function customer(id, first_name, last_name, email = null, phone = null) {
+  return { id, first_name, last_name, email, phone };
+}
+
+test('emails and phones are normalized', () => {
+  assert.strictEqual(duplicates.normalizeEmail(' Jane+Spa@Example.com '), 'jane@example.com');
+  assert.strictEqual(duplicates.normalizeEmail('not-an-email'), null);
+  assert.strictEqual(duplicates.normalizePhone('+1 (555) 010-1234'), '5550101234');
+  assert.strictEqual(duplicates.normalizePhone('000-000-0000'), null);
+  assert.strictEqual(duplicates.normalizeName('Zoë-Anne'), 'zoeanne');
+});
+
+test('names are compared by Jaro-Winkler similarity', () => {
+  assert.strictEqual(duplicates.nameSimilarity('martha', 'martha'), 1);
+  assert.ok(Math.abs(duplicates.nameSimilarity('martha', 'marhta') - 0.961) < 0.001);
+  assert.ok(duplicates.nameSimilarity('jon', 'xyz') < 0.5);
+});
+
+test('pairs are scored by matching details', () => {
+  const pair = duplicates.scoreDuplicatePair(
+    customer('a', 'Jane', 'Doe', 'jane@example.com', '555-010-1234'),
+    customer('b', 'Jane', 'Doe', 'JANE@example.com', '5550101234')
+  );
+  assert.strictEqual(pair.score, 1);
+  assert.deepStrictEqual(pair.reasons, ['same email address', 'same phone number', 'same name']);
+
+  const nameOnly = duplicates.scoreDuplicatePair(customer('a', 'Jane', 'Doe'), customer('b', 'Doe', 'Jane', null, '000-000-0000'));
+  assert.strictEqual(nameOnly.score, 0.4);
+
+  const differentEmails = duplicates.scoreDuplicatePair(
+    customer('a', 'Jane', 'Doe', 'jane@example.com'),
+    customer('b', 'Jane', 'Doe', 'jdoe@work.example')
+  );
+  assert.strictEqual(differentEmails.score, 0.25);
+  assert.strictEqual(duplicates.scoreDuplicatePair(customer('a', 'Jane', 'Doe'), customer('b', 'Omar', 'Khan')), null);
+});
+
+test('pairs are found across buckets once and filtered by customer', () => {
+  const customers = [
+    customer('1', 'Jane', 'Doe', 'jane@example.com'),
+    customer('2', 'Jane', 'Doe', 'jane@example.com'),
+    customer('3', 'Janet', 'Doe', null, '555-010-9999'),
+    customer('4', 'Omar', 'Khan', null, '555-010-9999'),
+  ];
+  const pairs = duplicates.findDuplicatePairs(customers, 0.3);
+  assert.deepStrictEqual(pairs.map((pair) => pair.customer_ids.join('+')), ['1+2', '3+4', '1+3', '2+3']);
+
+  const forOmar = duplicates.findDuplicatePairs(customers, 0.4, '4');
+  assert.deepStrictEqual(forOmar.map((pair) => pair.customer_ids.join('+')), ['3+4']);
+});
+
+// Data-layer checks against two records of the same customer
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Duplicates Test', 'UTC', now]
+  );
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Facial', 60, 7000, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+
+  const survivor = await db.createCustomer(businessId, {
+    first_name: 'Maria',
+    last_name: 'Lopez',
+    email: `maria-${businessId.slice(0, 8)}@example.com`,
+    phone: '000-000-0000',
+    notes: 'Prefers mornings',
+  });
+  const duplicate = await db.createCustomer(businessId, {
+    first_name: 'María',
+    last_name: 'López',
+    phone: '555-080-1234',
+    notes: 'Auto-created from appointment booking',
+  });
+
+  const appointment = (await pool.query(
+    `INSERT INTO appointments (business_id, customer_id, service_id, start_time, end_time, status)
+     VALUES ($1, $2, $3, '2030-01-10T10:00:00Z', '2030-01-10T11:00:00Z', 'completed') RETURNING *`,
+    [businessId, duplicate.id, service.id]
+  )).rows[0];
+  await pool.query(
+    `INSERT INTO reviews (appointment_id, customer_id, business_id, service_id, rating) VALUES ($1, $2, $3, $4, 5)`,
+    [appointment.id, duplicate.id, businessId, service.id]
+  );
+  await pool.query(
+    `INSERT INTO payments (appointment_id, payment_type, amount_cents, status) VALUES ($1, 'appointment', 7000, 'succeeded')`,
+    [appointment.id]
+  );
+
+  return { survivor, duplicate, appointment };
+}
+
+if (process.env.DATABASE_URL) {
+  test('the two records are reported as duplicates', async () => {
+    const candidates = await db.findDuplicateCustomers(businessId, { customer_id: seeded.survivor.id });
+    assert.strictEqual(candidates.length, 1);
+    assert.deepStrictEqual(candidates[0].reasons, ['same name']);
+    assert.strictEqual(Number(candidates[0].customers.find((row) => row.id === seeded.duplicate.id).appointment_count), 1);
+  });
+
+  test('merging moves history, fills gaps and records the merge', async () => {
+    const { customer, merge } = await db.mergeCustomers(businessId, seeded.survivor.id, seeded.duplicate.id, 'Same person');
+    assert.strictEqual(customer.phone_number, '555-080-1234');
+    assert.ok(customer.notes.includes('Prefers mornings'));
+    assert.strictEqual(merge.moved.appointments, 1);
+    assert.strictEqual(merge.moved.reviews, 1);
+    assert.strictEqual(merge.moved.payments, 1);
+
+    const appointment = (await db.pool.query('SELECT customer_id FROM appointments WHERE id = $1', [seeded.appointment.id])).rows[0];
+    assert.strictEqual(appointment.customer_id, seeded.survivor.id);
+    const remaining = await db.pool.query('SELECT 1 FROM customers WHERE id = $1', [seeded.duplicate.id]);
+    assert.strictEqual(remaining.rows.length, 0);
+
+    const [audit] = await db.getCustomerMerges(businessId, seeded.duplicate.id);
+    assert.strictEqual(audit.reason, 'Same person');
+    assert.strictEqual(audit.merged_customer.first_name, 'María');
+  });
+
+  test('a customer cannot be merged into itself', async () => {
+    await assert.rejects(
+      () => db.mergeCustomers(businessId, seeded.survivor.id, seeded.survivor.id),
+      (error) => error.code === 'MERGE_SAME_CUSTOMER'
+    );
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} duplicate customer tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Duplicate customer tests failed to run:', error);
+  process.exit(1);
+});
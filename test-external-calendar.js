@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+
+// External calendar import test suite
+// Checks iCalendar parsing: timezones, all-day and free or cancelled events,
+// recurring events with exceptions and moved occurrences, and the local-file
+// guard.
+//
+// Usage: npm run build && node test-external-calendar.js
+//
+// With DATABASE_URL set it also imports a calendar file for a seeded staff
+// member and checks that its busy times block slots and conflict checks.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const calendarDir = mkdtempSync(path.join(tmpdir(), 'external-calendar-'));
+process.env.EXTERNAL_CALENDAR_DIR = calendarDir;
+
+const external = await import('./build/externalCalendar.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function ics(...events) {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'X-WR-CALNAME:Second salon',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+}
+
+const window = { timeZone: 'Europe/London', from: new Date('2030-01-01T00:00:00Z'), to: new Date('2030-12-31T00:00:00Z') };
+const starts = (parsed) => parsed.blocks.map((block) => block.start.toISOString());
+
+test('events are read in UTC, their own zone or the calendar default', () => {
+  const parsed = external.parseExternalCalendar(ics(
+    ['UID:a', 'SUMMARY:Shift\\, front desk', 'DTSTART:20300603T080000Z', 'DTEND:20300603T120000Z'],
+    ['UID:b', 'DTSTART;TZID=America/New_York:20300604T090000', 'DURATION:PT1H30M'],
+    ['UID:c', 'DTSTART;TZID="/mozilla.org/20050126_1/Europe/Berlin":20300605T090000', 'DTEND;TZID=Europe/Berlin:20300605T100000'],
+    ['UID:d', 'DTSTART:20300606T090000', 'DTEND:20300606T093000', 'BEGIN:VALARM', 'TRIGGER:-PT15M', 'END:VALARM']
+  ), window);
+  assert.strictEqual(parsed.name, 'Second salon');
+  assert.deepStrictEqual(starts(parsed), [
+    '2030-06-03T08:00:00.000Z',
+    '2030-06-04T13:00:00.000Z',
+    '2030-06-05T07:00:00.000Z',
+    '2030-06-06T08:00:00.000Z',
+  ]);
+  assert.strictEqual(parsed.blocks[0].summary, 'Shift, front desk');
+  assert.strictEqual(parsed.blocks[1].end.toISOString(), '2030-06-04T14:30:00.000Z');
+  assert.strictEqual(parsed.blocks[3].end.toISOString(), '2030-06-06T08:30:00.000Z');
+});
+
+test('all-day events cover local days; free and cancelled events block nothing', () => {
+  const parsed = external.parseExternalCalendar(ics(
+    ['UID:a', 'DTSTART;VALUE=DATE:20300330', 'DTEND;VALUE=DATE:20300401', 'SUMMARY:Training'],
+    ['UID:b', 'DTSTART:20300402T090000Z', 'DTEND:20300402T100000Z', 'TRANSP:TRANSPARENT'],
+    ['UID:c', 'DTSTART:20300403T090000Z', 'DTEND:20300403T100000Z', 'STATUS:CANCELLED']
+  ), window);
+  assert.strictEqual(parsed.blocks.length, 1);
+  const [block] = parsed.blocks;
+  assert.strictEqual(block.all_day, true);
+  // Across the change to summer time on 31 March
+  assert.strictEqual(block.start.toISOString(), '2030-03-30T00:00:00.000Z');
+  assert.strictEqual(block.end.toISOString(), '2030-03-31T23:00:00.000Z');
+});
+
+test('recurring events expand with exceptions, extra dates and moved occurrences', () => {
+  const parsed = external.parseExternalCalendar(ics(
+    [
+      'UID:weekly',
+      'DTSTART;TZID=Europe/London:20300107T090000',
+      'DTEND;TZID=Europe/London:20300107T170000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=6',
+      'EXDATE;TZID=Europe/London:20300109T090000',
+      'RDATE;TZID=Europe/London:20300201T090000',
+    ],
+    ['UID:weekly', 'RECURRENCE-ID;TZID=Europe/London:20300114T090000', 'DTSTART;TZID=Europe/London:20300115T090000', 'DTEND;TZID=Europe/London:20300115T120000']
+  ), window);
+  assert.deepStrictEqual(starts(parsed), [
+    '2030-01-07T09:00:00.000Z',
+    '2030-01-15T09:00:00.000Z',
+    '2030-01-16T09:00:00.000Z',
+    '2030-01-21T09:00:00.000Z',
+    '2030-01-23T09:00:00.000Z',
+    '2030-02-01T09:00:00.000Z',
+  ]);
+  assert.strictEqual(parsed.blocks[1].end.toISOString(), '2030-01-15T12:00:00.000Z');
+  assert.deepStrictEqual(parsed.warnings, []);
+});
+
+test('monthly, yearly and until rules follow local time across DST', () => {
+  const parsed = external.parseExternalCalendar(ics(
+    ['UID:m', 'DTSTART;TZID=Europe/London:20300107T100000', 'DURATION:PT1H', 'RRULE:FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20300430T000000Z'],
+    ['UID:y', 'DTSTART;VALUE=DATE:20250704', 'RRULE:FREQ=YEARLY'],
+    ['UID:x', 'DTSTART:20300801T090000Z', 'DTEND:20300801T100000Z', 'RRULE:FREQ=MONTHLY;BYSETPOS=1;BYDAY=MO']
+  ), window);
+  assert.deepStrictEqual(starts(parsed), [
+    '2030-01-25T10:00:00.000Z',
+    '2030-02-22T10:00:00.000Z',
+    '2030-03-29T10:00:00.000Z',
+    '2030-04-26T09:00:00.000Z',
+    '2030-07-03T23:00:00.000Z',
+    '2030-08-01T09:00:00.000Z',
+  ]);
+  assert.strictEqual(parsed.warnings.length, 1);
+  assert.match(parsed.warnings[0], /BYSETPOS/);
+});
+
+test('only files inside EXTERNAL_CALENDAR_DIR can be read', async () => {
+  writeFileSync(path.join(calendarDir, 'staff.ics'), ics(['UID:a', 'DTSTART:20300603T080000Z', 'DTEND:20300603T090000Z']));
+  assert.ok((await external.readExternalCalendar('file', 'staff.ics')).startsWith('BEGIN:VCALENDAR'));
+  await assert.rejects(external.readExternalCalendar('file', '../outside.ics'), /inside EXTERNAL_CALENDAR_DIR/);
+  await assert.rejects(external.readExternalCalendar('url', 'ftp://example.com/a.ics'), /Unsupported calendar URL/);
+  assert.throws(() => external.parseExternalCalendar('hello', window), /Not an iCalendar file/);
+});
+
+// Tool-level checks against a seeded staff member
+let registry;
+let db;
+const businessId = randomUUID();
+let seeded;
+
+function session() {
+  return { businessId, businessLocked: true };
+}
+
+async function call(name, args) {
+  return registry.callTool(name, args, session());
+}
+
+// A weekday a few weeks ahead, inside the import window
+function upcomingMonday() {
+  const date = new Date(Date.now() + 21 * 86400000);
+  date.setUTCDate(date.getUTCDate() + ((8 - date.getUTCDay()) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'External Calendar Test', 'UTC', now]
+  );
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Cut', 60, 3000, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active) VALUES ($1, 'Two', 'Salons', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+  for (let day = 0; day < 7; day++) {
+    await pool.query(
+      `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed) VALUES ($1, $2, '09:00', '17:00', false)`,
+      [businessId, day]
+    );
+    await pool.query(
+      `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available) VALUES ($1, $2, '09:00', '17:00', true)`,
+      [staff.id, day]
+    );
+  }
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Ed',
+    last_name: 'External',
+    email: `ed-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-080-4455',
+  });
+
+  const date = upcomingMonday();
+  const compact = date.replace(/-/g, '');
+  const file = `${businessId}.ics`;
+  writeFileSync(path.join(calendarDir, file), ics(
+    ['UID:shift', 'SUMMARY:Shift at the other salon', `DTSTART:${compact}T090000Z`, `DTEND:${compact}T120000Z`, 'RRULE:FREQ=WEEKLY;COUNT=2']
+  ));
+  return { service, staff, customer, date, file };
+}
+
+if (process.env.DATABASE_URL) {
+  test('an imported calendar blocks slots and is reported as a conflict', async () => {
+    const imported = await call('import_external_calendar', { staff_id: seeded.staff.id, file_path: seeded.file });
+    assert.ok(!imported.isError, imported.content[0].text);
+    assert.strictEqual(imported.structuredContent.calendar.name, 'Second salon');
+    assert.strictEqual(imported.structuredContent.calendar.busy_block_count, 2);
+
+    const slots = await db.getAvailableTimeSlots(businessId, seeded.service.id, seeded.date);
+    assert.ok(slots.every((slot) => slot.start_time.slice(11, 16) >= '12:00'), JSON.stringify(slots.map((slot) => slot.start_time)));
+
+    const check = await db.checkAppointmentConflict(
+      businessId, seeded.service.id, seeded.staff.id, seeded.customer.id,
+      `${seeded.date}T10:00:00Z`, `${seeded.date}T11:00:00Z`
+    );
+    const conflict = check.conflicts.find((item) => item.type === 'EXTERNAL_CALENDAR_BUSY');
+    assert.ok(conflict, JSON.stringify(check.conflicts));
+    assert.ok(!conflict.message.includes('Shift at the other salon'));
+
+    await assert.rejects(
+      () => db.createAppointment(businessId, {
+        customer_id: seeded.customer.id,
+        service_id: seeded.service.id,
+        staff_id: seeded.staff.id,
+        start_time: `${seeded.date}T10:00:00Z`,
+        end_time: `${seeded.date}T11:00:00Z`,
+      }),
+      (error) => error.code === 'SLOT_TAKEN' && !error.message.includes('Shift at the other salon')
+    );
+  });
+
+  test('a calendar that cannot be read keeps its busy times and records the error', async () => {
+    const [calendar] = (await call('list_external_calendars', { staff_id: seeded.staff.id })).structuredContent.calendars;
+    rmSync(path.join(calendarDir, seeded.file));
+    const synced = await call('sync_external_calendar', { calendar_id: calendar.id });
+    assert.ok(synced.isError);
+    assert.strictEqual(synced.structuredContent.error.code, 'EXTERNAL_CALENDAR_UNAVAILABLE');
+
+    const [after] = (await call('list_external_calendars', { staff_id: seeded.staff.id })).structuredContent.calendars;
+    assert.ok(after.last_error);
+    const blocks = await call('list_external_busy_blocks', { start_date: seeded.date, staff_id: seeded.staff.id });
+    assert.strictEqual(blocks.structuredContent.count, 1);
+  });
+
+  test('removing a calendar frees its busy times', async () => {
+    const [calendar] = (await call('list_external_calendars', {})).structuredContent.calendars;
+    const removed = await call('remove_external_calendar', { calendar_id: calendar.id });
+    assert.ok(!removed.isError, removed.content[0].text);
+    const blocks = await call('list_external_busy_blocks', { start_date: seeded.date });
+    assert.strictEqual(blocks.structuredContent.count, 0);
+
+    const missing = await call('remove_external_calendar', { calendar_id: calendar.id });
+    assert.strictEqual(missing.structuredContent.error.code, 'EXTERNAL_CALENDAR_NOT_FOUND');
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      const tools = await import('./build/tools/index.js');
+      tools.registerCoreTools();
+      registry = tools;
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping tool checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    rmSync(calendarDir, { recursive: true, force: true });
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} external calendar tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('External calendar tests failed to run:', error);
+  process.exit(1);
+});
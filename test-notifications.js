@@ -0,0 +1,227 @@
+#!/usr/bin/env node
+
+// Appointment notification test suite
+// Checks which notifications an appointment change plans, who they reach,
+// when they are skipped or retried and how messages are routed to per-channel
+// delivery adapters. Their wording is covered by test-templates.js.
+//
+// Usage: npm run build && node test-notifications.js
+//
+// With DATABASE_URL set it also books, reschedules and cancels a seeded
+// appointment and delivers the queued notifications, capturing the messages.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const notifications = await import('./build/notifications.js');
+const delivery = await import('./build/delivery.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const settings = { channels: ['email', 'sms'], reminder_hours: [2, 24], follow_up_hours: 24 };
+const now = new Date('2030-05-01T09:00:00Z');
+const appointment = { start_time: new Date('2030-05-03T10:00:00Z'), end_time: new Date('2030-05-03T11:00:00Z') };
+
+test('a booking plans a confirmation, reminders and a follow-up', () => {
+  const planned = notifications.planNotifications('created', appointment, now, settings);
+  assert.deepStrictEqual(
+    planned.map((notification) => [notification.kind, notification.scheduled_at.toISOString()]),
+    [
+      ['confirmation', '2030-05-01T09:00:00.000Z'],
+      ['reminder', '2030-05-02T10:00:00.000Z'],
+      ['reminder', '2030-05-03T08:00:00.000Z'],
+      ['follow_up', '2030-05-04T11:00:00.000Z'],
+    ]
+  );
+});
+
+test('passed reminders and started appointments are left out', () => {
+  const soon = { start_time: new Date('2030-05-01T12:00:00Z'), end_time: new Date('2030-05-01T13:00:00Z') };
+  const planned = notifications.planNotifications('rescheduled', soon, now, { ...settings, follow_up_hours: null });
+  assert.deepStrictEqual(planned.map((notification) => notification.kind), ['rescheduled', 'reminder']);
+
+  assert.deepStrictEqual(notifications.planNotifications('created', soon, new Date('2030-05-01T12:00:00Z'), settings), []);
+  assert.deepStrictEqual(notifications.planNotifications('canceled', appointment, now, settings).map((notification) => notification.kind), ['cancellation']);
+});
+
+test('channels are used only where the customer can be reached', () => {
+  const contact = { email: 'jane@example.com', phone: '000-000-0000', user_id: null };
+  assert.deepStrictEqual(notifications.reachableChannels(contact, ['email', 'sms', 'push']), ['email']);
+  assert.strictEqual(notifications.notificationRecipient('sms', { ...contact, phone: ' 555-010-1234 ' }), '555-010-1234');
+  assert.strictEqual(notifications.notificationRecipient('push', { ...contact, user_id: 'u1' }), 'u1');
+});
+
+test('closed appointments skip their notifications, except cancellations', () => {
+  assert.strictEqual(notifications.notificationSkipReason('reminder', 'confirmed'), null);
+  assert.strictEqual(notifications.notificationSkipReason('reminder', 'canceled'), 'The appointment is canceled');
+  assert.strictEqual(notifications.notificationSkipReason('follow_up', 'completed'), null);
+  assert.ok(notifications.notificationSkipReason('follow_up', 'no_show'));
+  assert.strictEqual(notifications.notificationSkipReason('cancellation', 'canceled'), null);
+});
+
+test('retries back off up to six hours', () => {
+  assert.deepStrictEqual([1, 2, 3, 4].map(notifications.notificationRetryDelayMinutes), [5, 10, 20, 40]);
+  assert.strictEqual(notifications.notificationRetryDelayMinutes(20), 360);
+});
+
+test('per-channel adapters take over from the default', async () => {
+  const received = [];
+  const capture = (name) => ({ name, send: async (message) => { received.push(`${name}:${message.channel}`); } });
+  delivery.setDeliveryAdapter(capture('default'));
+  delivery.setDeliveryAdapter(capture('push'), 'push');
+  for (const channel of ['email', 'push']) {
+    await delivery.deliverMessage({ channel, to: 'x', subject: null, body: 'hi', business_id: 'b', customer_id: null });
+  }
+  assert.deepStrictEqual(received, ['default:email', 'push:push']);
+
+  // Replacing the default drops the per-channel adapters
+  delivery.setDeliveryAdapter(capture('other'));
+  assert.strictEqual(delivery.getDeliveryAdapter('push').name, 'other');
+});
+
+// Data-layer checks against a seeded appointment
+let db;
+const businessId = randomUUID();
+let seeded;
+const sent = [];
+let failSends = false;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Notifications Test', 'UTC', now]
+  );
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Massage', 60, 8000, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Nora',
+    last_name: 'Tify',
+    email: `nora-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-060-7788',
+  });
+  return { service, customer };
+}
+
+// Make the queued notifications of an appointment due now
+async function makeDue(appointment_id) {
+  await db.pool.query(
+    "UPDATE appointment_notifications SET scheduled_at = $2, next_attempt_at = NULL WHERE appointment_id = $1 AND status = 'pending'",
+    [appointment_id, new Date(Date.now() - 60000)]
+  );
+}
+
+if (process.env.DATABASE_URL) {
+  let appointment;
+
+  test('booking queues notifications on each reachable channel', async () => {
+    appointment = await db.createAppointment(businessId, {
+      customer_id: seeded.customer.id,
+      service_id: seeded.service.id,
+      start_time: '2031-02-03T10:00:00Z',
+      end_time: '2031-02-03T11:00:00Z',
+    });
+    const queued = await db.listAppointmentNotifications(businessId, { appointment_id: appointment.id });
+    const kinds = queued.map((row) => `${row.kind}/${row.notification_type}`).sort();
+    assert.deepStrictEqual(kinds, [
+      'confirmation/email', 'confirmation/sms',
+      'follow_up/email', 'follow_up/sms',
+      'reminder/email', 'reminder/email',
+      'reminder/sms', 'reminder/sms',
+    ]);
+  });
+
+  test('due notifications are sent and flip the appointment flags', async () => {
+    delivery.setDeliveryAdapter({
+      name: 'capture',
+      send: async (message) => {
+        if (failSends) throw new Error('Delivery service down');
+        sent.push(message);
+      },
+    });
+    const processed = await db.deliverDueNotifications(businessId);
+    assert.strictEqual(processed.length, 2);
+    assert.ok(processed.every((row) => row.status === 'sent' && row.sent_at));
+    assert.ok(sent.some((message) => message.channel === 'sms' && message.to === '555-060-7788'));
+
+    await makeDue(appointment.id);
+    sent.length = 0;
+    await db.deliverDueNotifications(businessId);
+    const flags = (await db.pool.query('SELECT reminder_sent, confirmation_sent FROM appointments WHERE id = $1', [appointment.id])).rows[0];
+    assert.deepStrictEqual(flags, { reminder_sent: true, confirmation_sent: true });
+    assert.strictEqual(sent.filter((message) => message.body.includes('reminder')).length, 4);
+  });
+
+  test('failed sends are retried later, then marked failed', async () => {
+    const rescheduled = await db.rescheduleAppointment(businessId, appointment.id, '2031-02-04T10:00:00Z', '2031-02-04T11:00:00Z', 'test');
+    assert.ok(rescheduled.success !== false);
+
+    failSends = true;
+    const [first] = await db.deliverDueNotifications(businessId, 1);
+    assert.strictEqual(first.kind, 'rescheduled');
+    assert.strictEqual(first.status, 'pending');
+    assert.strictEqual(first.last_error, 'Delivery service down');
+    assert.ok(first.next_attempt_at > new Date());
+
+    await db.pool.query('UPDATE appointment_notifications SET attempts = $2, next_attempt_at = NULL WHERE id = $1', [first.id, 4]);
+    const [last] = await db.deliverDueNotifications(businessId, 1);
+    assert.strictEqual(last.id, first.id);
+    assert.strictEqual(last.status, 'failed');
+    failSends = false;
+  });
+
+  test('cancelling replaces pending notifications with a cancellation notice', async () => {
+    await db.cancelAppointment(businessId, appointment.id, 'Customer request', 'test');
+    const pending = await db.listAppointmentNotifications(businessId, { appointment_id: appointment.id, status: 'pending' });
+    assert.deepStrictEqual([...new Set(pending.map((row) => row.kind))], ['cancellation']);
+
+    sent.length = 0;
+    await db.deliverDueNotifications(businessId);
+    assert.strictEqual(sent.length, 2);
+    assert.ok(sent.every((message) => message.body.includes('has been cancelled')));
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} notification tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Notification tests failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+
+// Recurring appointment series test suite
+// Checks RRULE parsing and occurrence expansion (weekly, biweekly, monthly,
+// COUNT and UNTIL, short months, DST).
+//
+// Usage: npm run build && node test-recurrence.js
+//
+// With DATABASE_URL set it also books a weekly series for a seeded business
+// and checks conflict reporting, "cancel this and all following" and
+// rescheduling a single occurrence.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const recurrence = await import('./build/recurrence.js');
+const tz = await import('./build/timezone.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+test('presets map to RRULE frequencies', () => {
+  assert.strictEqual(recurrence.formatRecurrenceRule(recurrence.presetRule('weekly', { count: 4 })), 'FREQ=WEEKLY;INTERVAL=1;COUNT=4');
+  assert.strictEqual(recurrence.formatRecurrenceRule(recurrence.presetRule('biweekly', { until: '2030-03-01' })), 'FREQ=WEEKLY;INTERVAL=2;UNTIL=20300301');
+  assert.strictEqual(recurrence.formatRecurrenceRule(recurrence.presetRule('monthly', { count: 3 })), 'FREQ=MONTHLY;INTERVAL=1;COUNT=3');
+});
+
+test('RRULE strings are parsed and unsupported parts rejected', () => {
+  assert.deepStrictEqual(
+    recurrence.parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20300315T235959Z'),
+    { frequency: 'WEEKLY', interval: 2, count: undefined, until: '2030-03-15' }
+  );
+  assert.throws(() => recurrence.parseRecurrenceRule('FREQ=DAILY;COUNT=3'), /Unsupported RRULE frequency/);
+  assert.throws(() => recurrence.parseRecurrenceRule('FREQ=WEEKLY;BYDAY=MO;COUNT=3'), /Unsupported RRULE part/);
+  assert.throws(() => recurrence.parseRecurrenceRule('FREQ=WEEKLY'), /COUNT or an UNTIL/);
+  assert.throws(() => recurrence.parseRecurrenceRule('FREQ=WEEKLY;COUNT=500'), /COUNT must be between/);
+});
+
+test('weekly and biweekly series step by whole weeks', () => {
+  assert.deepStrictEqual(
+    recurrence.expandOccurrenceDates('2030-01-07', recurrence.presetRule('weekly', { count: 3 })),
+    ['2030-01-07', '2030-01-14', '2030-01-21']
+  );
+  assert.deepStrictEqual(
+    recurrence.expandOccurrenceDates('2030-01-07', recurrence.presetRule('biweekly', { until: '2030-02-04' })),
+    ['2030-01-07', '2030-01-21', '2030-02-04']
+  );
+});
+
+test('monthly series skip months without the start day', () => {
+  assert.deepStrictEqual(
+    recurrence.expandOccurrenceDates('2030-01-31', recurrence.presetRule('monthly', { count: 3 })),
+    ['2030-01-31', '2030-03-31', '2030-05-31']
+  );
+});
+
+test('series are capped at the maximum number of occurrences', () => {
+  const dates = recurrence.expandOccurrenceDates('2030-01-07', recurrence.presetRule('weekly', { until: '2040-01-01' }));
+  assert.strictEqual(dates.length, recurrence.MAX_SERIES_OCCURRENCES);
+});
+
+test('occurrences keep their wall-clock time across DST', () => {
+  // Weekly 09:00 in New York, crossing the 2030-03-10 spring-forward change
+  const dates = recurrence.expandOccurrenceDates('2030-03-04', recurrence.presetRule('weekly', { count: 2 }));
+  const starts = dates.map((date) => tz.formatInTimeZone(tz.zonedTimeToInstant(date, '09:00', 'America/New_York'), 'America/New_York'));
+  assert.deepStrictEqual(starts, ['2030-03-04T09:00:00-05:00', '2030-03-11T09:00:00-04:00']);
+});
+
+// Data-layer checks against a seeded business, open Mondays only
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Recurrence Test', 'UTC', now]
+  );
+  await pool.query(
+    `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+     VALUES ($1, 1, '08:00', '17:00', false)`,
+    [businessId]
+  );
+
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Recurring',
+    last_name: 'Customer',
+    email: `recurrence-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-000-0200',
+  });
+  const otherCustomer = await db.createCustomer(businessId, {
+    first_name: 'Other',
+    last_name: 'Customer',
+    email: `recurrence-other-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-000-0201',
+  });
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Physio Session', 60, 7000, true, 1) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Recurring', 'Staff', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+  await pool.query(
+    `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+     VALUES ($1, 1, '08:00', '17:00', true)`,
+    [staff.id]
+  );
+
+  // Someone else already has the third Monday
+  await db.createAppointment(businessId, {
+    customer_id: otherCustomer.id,
+    service_id: service.id,
+    staff_id: staff.id,
+    start_time: '2030-01-21T10:00:00Z',
+    end_time: '2030-01-21T11:00:00Z',
+  });
+
+  return { customer, service, staff };
+}
+
+if (process.env.DATABASE_URL) {
+  let series;
+
+  test('a weekly series books free dates and reports the taken one', async () => {
+    const { customer, service, staff } = seeded;
+    const result = await db.createAppointmentSeries(businessId, {
+      customer_id: customer.id,
+      service_id: service.id,
+      staff_id: staff.id,
+      start_time: '2030-01-07T10:00:00Z',
+      rule: recurrence.presetRule('weekly', { count: 4 }),
+    });
+    series = result.series;
+
+    assert.deepStrictEqual(result.booked.map((apt) => apt.series_occurrence), [1, 2, 4]);
+    assert.strictEqual(result.failed.length, 1);
+    assert.strictEqual(result.failed[0].date, '2030-01-21');
+    assert.ok(result.failed[0].conflicts.some((conflict) => conflict.type === 'STAFF_DOUBLE_BOOKING'));
+  });
+
+  test('one occurrence can be rescheduled on its own', async () => {
+    const { occurrence } = await db.rescheduleSeriesOccurrence(
+      businessId, series.id, '2030-01-14', '2030-01-14T14:00:00Z', undefined, 'recurrence-test'
+    );
+    const moved = await db.getAppointment(businessId, occurrence.id);
+    assert.strictEqual(new Date(moved.start_time).toISOString(), '2030-01-14T14:00:00.000Z');
+    assert.strictEqual(new Date(moved.end_time).toISOString(), '2030-01-14T15:00:00.000Z');
+
+    await assert.rejects(
+      () => db.rescheduleSeriesOccurrence(businessId, series.id, '2030-01-21', '2030-01-21T14:00:00Z', undefined, 'recurrence-test'),
+      (error) => error.code === 'OCCURRENCE_NOT_FOUND'
+    );
+  });
+
+  test('cancelling from a date cancels that occurrence and all following', async () => {
+    const result = await db.cancelSeriesFrom(businessId, series.id, '2030-01-14', 'Course finished early', 'recurrence-test');
+    assert.strictEqual(result.cancelled.length, 2);
+    assert.strictEqual(result.series.status, 'active');
+
+    const { occurrences } = await db.getAppointmentSeries(businessId, series.id);
+    const active = occurrences.filter((apt) => ['scheduled', 'confirmed', 'pending'].includes(apt.status));
+    assert.deepStrictEqual(active.map((apt) => apt.series_occurrence), [1]);
+
+    const rest = await db.cancelSeriesFrom(businessId, series.id, '2030-01-01', 'Moved away', 'recurrence-test');
+    assert.strictEqual(rest.series.status, 'canceled');
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} recurrence tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Recurrence tests failed to run:', error);
+  process.exit(1);
+});
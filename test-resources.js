@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+// Bookable resources test suite
+// Checks how many units of a room or machine are in use at the busiest moment
+// of a slot, and which slots still have a free unit.
+//
+// Usage: npm run build && node test-resources.js
+//
+// With DATABASE_URL set it also seeds a clinic with two treatment rooms and
+// one laser machine shared by two services, and checks that bookings,
+// availability and conflict checks respect them.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const inventory = await import('./build/inventory.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const at = (time) => new Date(`2030-04-01T${time}:00Z`);
+const rooms = { resource_type_id: 'room', resource_type_name: 'Treatment Room', quantity: 1, available: 2 };
+
+function use(start, end, quantity = 1) {
+  return { resource_type_id: 'room', quantity, start_time: at(start), end_time: at(end) };
+}
+
+test('back-to-back uses share a unit', () => {
+  const uses = [use('09:00', '10:00'), use('10:00', '11:00')];
+  assert.deepStrictEqual(inventory.findResourceShortages([rooms], uses, at('09:30'), at('10:30')), []);
+  assert.strictEqual(inventory.resourceCapacity([rooms], uses, at('09:30'), at('10:30')), 1);
+});
+
+test('overlapping uses at the busiest moment exhaust the units', () => {
+  const uses = [use('09:00', '10:00'), use('10:00', '11:00'), use('09:45', '10:15')];
+  const shortages = inventory.findResourceShortages([rooms], uses, at('09:30'), at('10:30'));
+  assert.strictEqual(shortages.length, 1);
+  assert.strictEqual(shortages[0].in_use, 2);
+  assert.strictEqual(inventory.describeResourceShortage(shortages[0]), 'All 2 Treatment Room unit(s) are in use (2 taken, 1 needed)');
+  assert.strictEqual(inventory.resourceCapacity([rooms], uses, at('10:30'), at('11:00')), 1);
+});
+
+test('services without requirements are never short', () => {
+  assert.deepStrictEqual(inventory.findResourceShortages([], [use('09:00', '10:00')], at('09:00'), at('10:00')), []);
+  assert.strictEqual(inventory.resourceCapacity([], [], at('09:00'), at('10:00')), Infinity);
+});
+
+test('a business without units of a type reports none available', () => {
+  const laser = { resource_type_id: 'laser', resource_type_name: 'Laser Machine', quantity: 1, available: 0 };
+  const [shortage] = inventory.findResourceShortages([laser], [], at('09:00'), at('10:00'));
+  assert.strictEqual(inventory.describeResourceShortage(shortage), 'No Laser Machine is available');
+});
+
+// Data-layer checks against a seeded clinic, open Mondays 08:00-17:00
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Resource Test', 'UTC', now]
+  );
+  await pool.query(
+    `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+     VALUES ($1, 1, '08:00', '17:00', false)`,
+    [businessId]
+  );
+
+  const customers = [];
+  for (let i = 0; i < 3; i++) {
+    customers.push(await db.createCustomer(businessId, {
+      first_name: 'Resource',
+      last_name: `Customer ${i}`,
+      email: `resource-${businessId.slice(0, 8)}-${i}@example.com`,
+      phone: `555-040-00${String(i).padStart(2, '0')}`,
+    }));
+  }
+
+  const services = {};
+  for (const name of ['Facial', 'Laser Treatment']) {
+    services[name] = (await pool.query(
+      `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+       VALUES ($1, $2, 60, 9000, true, 5) RETURNING *`,
+      [businessId, name]
+    )).rows[0];
+  }
+
+  const staff = [];
+  for (let i = 0; i < 3; i++) {
+    const member = (await pool.query(
+      `INSERT INTO staff (business_id, first_name, last_name, is_active)
+       VALUES ($1, 'Therapist', $2, true) RETURNING *`,
+      [businessId, String(i)]
+    )).rows[0];
+    for (const service of Object.values(services)) {
+      await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [member.id, service.id]);
+    }
+    await pool.query(
+      `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+       VALUES ($1, 1, '08:00', '17:00', true)`,
+      [member.id]
+    );
+    staff.push(member);
+  }
+
+  await db.addResource(businessId, { resource_type: 'Treatment Room', name: 'Room 1' });
+  await db.addResource(businessId, { resource_type: 'Treatment Room', name: 'Room 2' });
+  await db.addResource(businessId, { resource_type: 'Laser Machine', name: 'Laser' });
+  await db.setServiceResourceRequirement(businessId, services.Facial.id, 'Treatment Room', 1);
+  await db.setServiceResourceRequirement(businessId, services['Laser Treatment'].id, 'Treatment Room', 1);
+  await db.setServiceResourceRequirement(businessId, services['Laser Treatment'].id, 'Laser Machine', 1);
+
+  return { customers, services, staff };
+}
+
+function book(customerIndex, serviceName, staffIndex, start, end) {
+  const { customers, services, staff } = seeded;
+  return db.createAppointment(businessId, {
+    customer_id: customers[customerIndex].id,
+    service_id: services[serviceName].id,
+    staff_id: staff[staffIndex].id,
+    start_time: start,
+    end_time: end,
+  });
+}
+
+if (process.env.DATABASE_URL) {
+  test('the inventory lists types, units and the services needing them', async () => {
+    const types = await db.listResources(businessId);
+    const room = types.find((type) => type.name === 'Treatment Room');
+    assert.strictEqual(room.resources.length, 2);
+    assert.strictEqual(room.required_by.length, 2);
+  });
+
+  test('the laser machine cannot be booked twice at once', async () => {
+    await book(0, 'Laser Treatment', 0, '2030-04-01T10:00:00Z', '2030-04-01T11:00:00Z');
+    await assert.rejects(
+      () => book(1, 'Laser Treatment', 1, '2030-04-01T10:30:00Z', '2030-04-01T11:30:00Z'),
+      (error) => error.code === 'SLOT_TAKEN'
+    );
+  });
+
+  test('the third overlapping booking finds no free room', async () => {
+    await book(1, 'Facial', 1, '2030-04-01T10:00:00Z', '2030-04-01T11:00:00Z');
+
+    const { customers, services, staff } = seeded;
+    const check = await db.checkAppointmentConflict(
+      businessId, services.Facial.id, staff[2].id, customers[2].id, '2030-04-01T10:00:00Z', '2030-04-01T11:00:00Z'
+    );
+    assert.ok(check.conflicts.some((conflict) => conflict.type === 'RESOURCE_UNAVAILABLE'));
+    await assert.rejects(
+      () => book(2, 'Facial', 2, '2030-04-01T10:00:00Z', '2030-04-01T11:00:00Z'),
+      (error) => error.code === 'SLOT_TAKEN'
+    );
+  });
+
+  test('availability skips slots without a free room', async () => {
+    const slots = await db.getAvailableTimeSlots(businessId, seeded.services.Facial.id, '2030-04-01');
+    const starts = slots.map((slot) => slot.start_time);
+    assert.ok(!starts.includes('2030-04-01T10:00:00+00:00'));
+    assert.ok(starts.includes('2030-04-01T11:00:00+00:00'));
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} resource tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Resource tests failed to run:', error);
+  process.exit(1);
+});
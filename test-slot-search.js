@@ -0,0 +1,204 @@
+#!/usr/bin/env node
+
+// First-available search test suite
+// Checks the time-of-day and weekday filters and how slots found across
+// several days and staff members are ranked.
+//
+// Usage: npm run build && node test-slot-search.js
+//
+// With DATABASE_URL set it also seeds a spa with two therapists and searches
+// their schedules over two weeks.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const slotSearch = await import('./build/slotSearch.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+function candidate(start, idleMinutes) {
+  const startTime = new Date(start);
+  return {
+    date: start.slice(0, 10),
+    start_time: startTime,
+    end_time: new Date(startTime.getTime() + 60 * 60000),
+    time_of_day: slotSearch.timeOfDay(start.slice(11, 19)),
+    available_staff: [
+      { id: 'a', name: 'A', idle_minutes: idleMinutes + 30 },
+      { id: 'b', name: 'B', idle_minutes: idleMinutes },
+    ],
+    available_slots: 2,
+  };
+}
+
+test('start times fall in morning, afternoon or evening', () => {
+  assert.strictEqual(slotSearch.timeOfDay('09:30:00'), 'morning');
+  assert.strictEqual(slotSearch.timeOfDay('12:00:00'), 'afternoon');
+  assert.strictEqual(slotSearch.timeOfDay('16:59:00'), 'afternoon');
+  assert.strictEqual(slotSearch.timeOfDay('17:00:00'), 'evening');
+  assert.ok(slotSearch.matchesTimeOfDay('18:00:00', { times_of_day: ['evening'] }));
+  assert.ok(!slotSearch.matchesTimeOfDay('10:00:00', { times_of_day: ['afternoon', 'evening'] }));
+  assert.ok(slotSearch.matchesTimeOfDay('10:00:00', {}));
+});
+
+test('weekday filters use day names', () => {
+  assert.ok(slotSearch.matchesWeekday(6, { weekdays: ['saturday'] }));
+  assert.ok(!slotSearch.matchesWeekday(1, { weekdays: ['saturday', 'sunday'] }));
+  assert.ok(slotSearch.matchesWeekday(1, { weekdays: [] }));
+});
+
+test('earliest order is chronological', () => {
+  const slots = [candidate('2030-06-04T10:00:00Z', 0), candidate('2030-06-03T15:00:00Z', 90), candidate('2030-06-03T09:00:00Z', 60)];
+  const ranked = slotSearch.rankSlots(slots, 'earliest', 2);
+  assert.deepStrictEqual(ranked.map((slot) => slot.start_time.toISOString()), ['2030-06-03T09:00:00.000Z', '2030-06-03T15:00:00.000Z']);
+});
+
+test('best order packs slots next to earlier bookings', () => {
+  const slots = [candidate('2030-06-03T09:00:00Z', 60), candidate('2030-06-04T10:00:00Z', 0), candidate('2030-06-03T15:00:00Z', 0)];
+  const ranked = slotSearch.rankSlots(slots, 'best', 3);
+  assert.deepStrictEqual(
+    ranked.map((slot) => slot.start_time.toISOString()),
+    ['2030-06-03T15:00:00.000Z', '2030-06-04T10:00:00.000Z', '2030-06-03T09:00:00.000Z']
+  );
+  assert.strictEqual(ranked[0].available_staff[0].id, 'b');
+});
+
+// Data-layer checks against a seeded spa, open Monday to Saturday 09:00-19:00
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Search Test', 'UTC', now]
+  );
+  for (let day = 1; day <= 6; day++) {
+    await pool.query(
+      `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+       VALUES ($1, $2, '09:00', '19:00', false)`,
+      [businessId, day]
+    );
+  }
+
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Search',
+    last_name: 'Customer',
+    email: `search-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-060-0000',
+  });
+
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Massage', 60, 8000, true, 2) RETURNING *`,
+    [businessId]
+  )).rows[0];
+
+  const staff = [];
+  for (const [name, days] of [['Dana', [1, 2, 3]], ['Eli', [6]]]) {
+    const member = (await pool.query(
+      `INSERT INTO staff (business_id, first_name, last_name, is_active)
+       VALUES ($1, $2, 'Therapist', true) RETURNING *`,
+      [businessId, name]
+    )).rows[0];
+    await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [member.id, service.id]);
+    for (const day of days) {
+      await pool.query(
+        `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+         VALUES ($1, $2, '09:00', '19:00', true)`,
+        [member.id, day]
+      );
+    }
+    staff.push(member);
+  }
+
+  // Dana is off on the first Monday and booked first thing on the Tuesday
+  await pool.query(
+    `INSERT INTO staff_time_off (staff_id, title, date, is_all_day) VALUES ($1, 'Holiday', '2030-06-03', true)`,
+    [staff[0].id]
+  );
+  await db.createAppointment(businessId, {
+    customer_id: customer.id,
+    service_id: service.id,
+    staff_id: staff[0].id,
+    start_time: '2030-06-04T09:00:00Z',
+    end_time: '2030-06-04T10:00:00Z',
+  });
+
+  return { customer, service, staff };
+}
+
+if (process.env.DATABASE_URL) {
+  test('the earliest slot skips time off and bookings', async () => {
+    const result = await db.findAvailableSlots(businessId, { service_id: seeded.service.id, start_date: '2030-06-03', limit: 1 });
+    assert.strictEqual(result.slots.length, 1);
+    assert.strictEqual(result.slots[0].start_time.toISOString(), '2030-06-04T10:00:00.000Z');
+    assert.deepStrictEqual(result.slots[0].available_staff.map((staff) => staff.id), [seeded.staff[0].id]);
+  });
+
+  test('weekday and time-of-day filters narrow the search', async () => {
+    const result = await db.findAvailableSlots(businessId, {
+      service_id: seeded.service.id,
+      start_date: '2030-06-03',
+      end_date: '2030-06-16',
+      weekdays: ['saturday'],
+      times_of_day: ['evening'],
+      limit: 10,
+    });
+    assert.deepStrictEqual(
+      result.slots.map((slot) => slot.start_time.toISOString()),
+      ['2030-06-08T17:00:00.000Z', '2030-06-08T17:30:00.000Z', '2030-06-08T18:00:00.000Z',
+        '2030-06-15T17:00:00.000Z', '2030-06-15T17:30:00.000Z', '2030-06-15T18:00:00.000Z']
+    );
+    assert.ok(result.slots.every((slot) => slot.available_staff[0].id === seeded.staff[1].id));
+  });
+
+  test('a staff member who does not provide the service is refused', async () => {
+    await assert.rejects(
+      () => db.findAvailableSlots(businessId, { service_id: seeded.service.id, staff_id: randomUUID() }),
+      /does not provide/
+    );
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} slot search tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Slot search tests failed to run:', error);
+  process.exit(1);
+});
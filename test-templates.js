@@ -0,0 +1,217 @@
+#!/usr/bin/env node
+
+// Customer message template test suite
+// Checks template variables, filters, date patterns and sections, template
+// validation, locale fallback and the built-in default messages.
+//
+// Usage: npm run build && node test-templates.js
+//
+// With DATABASE_URL set it also saves templates for a seeded business and
+// previews them against a real appointment through the tools.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const templates = await import('./build/templates.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const context = {
+  customer: { first_name: 'Jane', last_name: 'Doe', name: 'Jane Doe' },
+  service: { name: 'Haircut', duration_minutes: 30, price: '$30.00' },
+  staff: { name: 'Sam Lee', first_name: 'Sam' },
+  business: { name: 'Salon Nova', phone: null, email: 'hello@nova.example' },
+  appointment: { id: 'a1', status: 'scheduled', notes: null },
+  start_time: new Date('2030-05-03T10:00:00Z'),
+  end_time: new Date('2030-05-03T10:30:00Z'),
+  time_zone: 'Europe/Madrid',
+};
+
+test('variables and filters are filled in', () => {
+  const text = templates.renderTemplate(
+    'Hi {{ customer.first_name }}, {{service.name | upper}} - call {{business.phone | default:"us"}}{{unknown.value}}.',
+    context
+  );
+  assert.strictEqual(text, 'Hi Jane, HAIRCUT - call us.');
+});
+
+test('dates follow the pattern in the business timezone and locale', () => {
+  const { start_time, time_zone } = context;
+  assert.strictEqual(templates.formatDatePattern(start_time, 'yyyy-MM-dd HH:mm', time_zone), '2030-05-03 12:00');
+  assert.strictEqual(templates.formatDatePattern(start_time, "EEEE d MMMM 'at' h:mm a", time_zone), 'Friday 3 May at 12:00 PM');
+  assert.strictEqual(templates.formatDatePattern(start_time, 'EEEE d. MMMM', time_zone, 'de'), 'Freitag 3. Mai');
+  assert.strictEqual(templates.renderTemplate('{{start_time | date:"d/M/yy"}}', context), '3/5/30');
+});
+
+test('sections show text only when their value is set', () => {
+  const template = '{{service.name}}{{#staff.name}} with {{staff.name}}{{/staff.name}}{{^appointment.notes}} (no notes){{/appointment.notes}}';
+  assert.strictEqual(templates.renderTemplate(template, context), 'Haircut with Sam Lee (no notes)');
+  assert.strictEqual(templates.renderTemplate(template, { ...context, staff: { name: null, first_name: null } }), 'Haircut (no notes)');
+});
+
+test('templates with unknown variables or filters are rejected', () => {
+  assert.deepStrictEqual(templates.validateTemplate('Hi {{customer.first_name | date:"d MMM"}}'), []);
+  assert.deepStrictEqual(templates.validateTemplate('Hi {{customer.nickname}} {{start_time | shout}}'), [
+    'Unknown variable: customer.nickname',
+    'Unknown filter: shout',
+  ]);
+  assert.deepStrictEqual(templates.validateTemplate('{{#staff.name}}with {{staff.name}}'), [
+    'Every {{#section}} or {{^section}} needs a matching {{/section}}',
+  ]);
+});
+
+test('templates are chosen by locale, then fall back to the defaults', () => {
+  assert.strictEqual(templates.normalizeLocale('pt-br'), 'pt-BR');
+  assert.strictEqual(templates.normalizeLocale('not a locale'), null);
+  assert.deepStrictEqual(templates.localeFallbacks('pt-BR', null, 'es', 'en'), ['pt-BR', 'pt', 'es', 'en']);
+
+  const saved = [
+    { id: 't1', kind: 'reminder', channel: 'sms', locale: 'pt', subject: null, body: 'Lembrete: {{service.name}} {{start_time | date:"EEE d MMM"}}' },
+    { id: 't2', kind: 'reminder', channel: 'email', locale: 'es', subject: 'Recordatorio', body: 'Hola {{customer.first_name}}' },
+  ];
+  const locales = templates.localeFallbacks('pt-BR', 'es');
+  const sms = templates.renderMessage('reminder', 'sms', context, { templates: saved, locales });
+  assert.deepStrictEqual({ ...sms, body: undefined }, { subject: null, body: undefined, locale: 'pt', template_id: 't1' });
+  assert.match(sms.body, /^Lembrete: Haircut sex\.? 3 mai/);
+
+  const email = templates.renderMessage('reminder', 'email', context, { templates: saved, locales });
+  assert.strictEqual(email.template_id, 't2');
+  const push = templates.renderMessage('reminder', 'push', context, { templates: saved, locales });
+  assert.strictEqual(push.template_id, null);
+  assert.strictEqual(push.locale, 'en');
+});
+
+test('built-in messages name the service, staff and local time', () => {
+  const email = templates.renderMessage('reminder', 'email', context);
+  assert.strictEqual(email.subject, 'Reminder: your appointment at Salon Nova');
+  assert.ok(email.body.includes('Haircut with Sam Lee'), email.body);
+  assert.ok(email.body.includes('Friday 3 May 2030 at 12:00'), email.body);
+  assert.strictEqual(templates.renderMessage('confirmation', 'sms', context).subject, null);
+});
+
+// Tool-level checks against a seeded appointment
+let registry;
+let db;
+const businessId = randomUUID();
+let appointmentId;
+
+function session() {
+  return { businessId, businessLocked: true };
+}
+
+async function call(name, args) {
+  return registry.callTool(name, args, session());
+}
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Templates Test', 'Europe/Madrid', now]
+  );
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Corte', 30, 2500, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Lucía',
+    last_name: 'Ruiz',
+    email: `lucia-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-090-1122',
+  });
+  await db.updateCustomer(businessId, customer.id, { locale: 'es-ES' });
+  const appointment = (await pool.query(
+    `INSERT INTO appointments (business_id, customer_id, service_id, start_time, end_time, status)
+     VALUES ($1, $2, $3, '2031-06-06T08:00:00Z', '2031-06-06T08:30:00Z', 'scheduled') RETURNING *`,
+    [businessId, customer.id, service.id]
+  )).rows[0];
+  return appointment.id;
+}
+
+if (process.env.DATABASE_URL) {
+  test('without templates the built-in default is previewed', async () => {
+    const result = await call('preview_message_template', { appointment_id: appointmentId, kind: 'confirmation' });
+    assert.ok(!result.isError, result.content[0].text);
+    assert.strictEqual(result.structuredContent.message.template_id, null);
+    assert.ok(result.structuredContent.message.body.includes('at 10:00'), result.structuredContent.message.body);
+  });
+
+  test("a saved template is used for the customer's language", async () => {
+    const saved = await call('save_message_template', {
+      kind: 'confirmation',
+      channel: 'email',
+      locale: 'es',
+      subject: 'Cita confirmada',
+      body: 'Hola {{customer.first_name}}, tu {{service.name}} es el {{start_time | date:"EEEE d \'de\' MMMM \'a las\' HH:mm"}}.',
+    });
+    assert.ok(!saved.isError, saved.content[0].text);
+
+    const result = await call('preview_message_template', { appointment_id: appointmentId, kind: 'confirmation' });
+    const { message } = result.structuredContent;
+    assert.strictEqual(message.template_id, saved.structuredContent.template.id);
+    assert.strictEqual(message.locale, 'es');
+    assert.strictEqual(message.body, 'Hola Lucía, tu Corte es el viernes 6 de junio a las 10:00.');
+
+    const english = await call('preview_message_template', { appointment_id: appointmentId, kind: 'confirmation', locale: 'en' });
+    assert.strictEqual(english.structuredContent.message.template_id, null);
+  });
+
+  test('drafts are previewed and invalid templates are rejected', async () => {
+    const draft = await call('preview_message_template', {
+      appointment_id: appointmentId,
+      kind: 'reminder',
+      channel: 'sms',
+      body: '{{business.name | upper}}: {{start_time | date:"d/M HH:mm"}}',
+    });
+    assert.strictEqual(draft.structuredContent.message.body, 'TEMPLATES TEST: 6/6 10:00');
+
+    const invalid = await call('save_message_template', { kind: 'reminder', channel: 'sms', locale: 'es', body: 'Hola {{customer.nickname}}' });
+    assert.ok(invalid.isError);
+    assert.strictEqual(invalid.structuredContent.error.code, 'TEMPLATE_INVALID');
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      const tools = await import('./build/tools/index.js');
+      tools.registerCoreTools();
+      registry = tools;
+      appointmentId = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping tool checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} message template tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Message template tests failed to run:', error);
+  process.exit(1);
+});
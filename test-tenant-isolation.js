@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+
+// Tenant isolation test suite
+// Seeds two businesses and verifies that one business can never read or modify
+// the other's appointments, customers or staff through the data layer.
+//
+// Usage: npm run build && DATABASE_URL=postgresql://... node test-tenant-isolation.js
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ Missing DATABASE_URL environment variable');
+  process.exit(1);
+}
+
+const db = await import('./build/database.js');
+const { pool } = db;
+
+const businessA = randomUUID();
+const businessB = randomUUID();
+
+async function seedBusiness(businessId, label) {
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, created_at, updated_at) VALUES ($1, $2, $3, $3)',
+    [businessId, `Isolation Test ${label}`, now]
+  );
+
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Isolation',
+    last_name: `Customer ${label}`,
+    email: `isolation-${label.toLowerCase()}@example.com`,
+    phone: `555-000-000${label === 'A' ? 1 : 2}`,
+  });
+
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, $2, 60, 5000, true) RETURNING *`,
+    [businessId, `Isolation Service ${label}`]
+  )).rows[0];
+
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Isolation', $2, true) RETURNING *`,
+    [businessId, `Staff ${label}`]
+  )).rows[0];
+
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+
+  const appointment = (await pool.query(
+    `INSERT INTO appointments (business_id, customer_id, service_id, staff_id, start_time, end_time, duration_minutes, price_cents, status)
+     VALUES ($1, $2, $3, $4, NOW() + INTERVAL '2 days', NOW() + INTERVAL '2 days 1 hour', 60, 5000, 'scheduled')
+     RETURNING *`,
+    [businessId, customer.id, service.id, staff.id]
+  )).rows[0];
+
+  return { customer, service, staff, appointment };
+}
+
+async function cleanup() {
+  await pool.query('DELETE FROM businesses WHERE id = ANY($1)', [[businessA, businessB]]);
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+let a;
+let b;
+
+test('own records are readable', async () => {
+  const appointment = await db.getAppointment(businessA, a.appointment.id);
+  assert.strictEqual(appointment.id, a.appointment.id);
+  const customer = await db.getCustomer(businessA, a.customer.id);
+  assert.strictEqual(customer.id, a.customer.id);
+  const staff = await db.getStaffMember(businessA, a.staff.id);
+  assert.strictEqual(staff.staff_id, a.staff.id);
+});
+
+test('appointments of another business are not found', async () => {
+  await assert.rejects(() => db.getAppointment(businessA, b.appointment.id), /not found/);
+  const appointments = await db.getAppointments(businessA, { customer_id: b.customer.id });
+  assert.strictEqual(appointments.length, 0);
+  const history = await db.getCustomerAppointments(businessA, b.customer.id);
+  assert.strictEqual(history.length, 0);
+});
+
+test('customers of another business are not found', async () => {
+  await assert.rejects(() => db.getCustomer(businessA, b.customer.id), /not found/);
+  const matches = await db.searchCustomers(businessA, 'Customer B');
+  assert.strictEqual(matches.length, 0);
+  await assert.rejects(() => db.updateCustomer(businessA, b.customer.id, { notes: 'tampered' }), /not found/);
+});
+
+test('staff of another business are not found', async () => {
+  await assert.rejects(() => db.getStaffMember(businessA, b.staff.id), /not found/);
+  const staff = await db.getStaff(businessA);
+  assert.ok(staff.every((member) => member.id !== b.staff.id));
+});
+
+test('lifecycle operations cannot touch another business', async () => {
+  await assert.rejects(() => db.cancelAppointment(businessA, b.appointment.id, 'test', 'test'), /not found/);
+  await assert.rejects(() => db.confirmAppointment(businessA, b.appointment.id, 'test'), /not found/);
+  await assert.rejects(() => db.deleteAppointment(businessA, b.appointment.id), /not found/);
+  await assert.rejects(() => db.getBookingConfirmation(businessA, b.appointment.id), /not found/);
+  await assert.rejects(() => db.getCustomerStatistics(businessA, b.customer.id), /not found/);
+});
+
+test('bookings cannot reference another business', async () => {
+  await assert.rejects(
+    () => db.createBookingValidated(businessA, a.customer.id, b.service.id, b.staff.id, new Date().toISOString()),
+    /not found/
+  );
+});
+
+test('appointments and reviews cannot use another business\'s customer or staff', async () => {
+  const booking = {
+    customer_id: a.customer.id,
+    service_id: a.service.id,
+    staff_id: a.staff.id,
+    start_time: '2031-02-03T10:00:00Z',
+    end_time: '2031-02-03T11:00:00Z',
+  };
+  await assert.rejects(() => db.createAppointment(businessA, { ...booking, customer_id: b.customer.id }), /Customer not found/);
+  await assert.rejects(() => db.createAppointment(businessA, { ...booking, staff_id: b.staff.id }), /Staff member not found/);
+  const appointments = await db.getAppointments(businessA, { start_date: booking.start_time, end_date: booking.end_time });
+  assert.strictEqual(appointments.length, 0);
+
+  const review = { appointment_id: a.appointment.id, customer_id: a.customer.id, service_id: a.service.id, staff_id: a.staff.id, rating: 5 };
+  await assert.rejects(() => db.createReview(businessA, { ...review, customer_id: b.customer.id }), /Customer not found/);
+  await assert.rejects(() => db.createReview(businessA, { ...review, service_id: b.service.id }), /Service not found/);
+  await assert.rejects(() => db.createReview(businessA, { ...review, staff_id: b.staff.id }), /Staff member not found/);
+});
+
+async function run() {
+  let failures = 0;
+
+  try {
+    a = await seedBusiness(businessA, 'A');
+    b = await seedBusiness(businessB, 'B');
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    await cleanup();
+    await pool.end();
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} tenant isolation tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Tenant isolation tests failed to run:', error);
+  process.exit(1);
+});
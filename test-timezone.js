@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+
+// Timezone and DST edge-case test suite
+// Checks wall-clock <-> UTC conversion around DST transitions and midnight for
+// businesses in New York, Jakarta and Lord Howe Island (30-minute DST shift).
+// Results must not depend on the server's own timezone, so run it under a few:
+//
+// Usage: npm run build && TZ=Pacific/Auckland node test-timezone.js
+//
+// With DATABASE_URL set it also seeds a Jakarta business and checks the
+// weekday and business-hours logic of the data layer near midnight.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const tz = await import('./build/timezone.js');
+
+const NEW_YORK = 'America/New_York';
+const JAKARTA = 'Asia/Jakarta';
+const LORD_HOWE = 'Australia/Lord_Howe';
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const iso = (date) => date.toISOString();
+
+test('offsets follow the tz database', () => {
+  assert.strictEqual(tz.getOffsetMinutes(new Date('2025-01-15T12:00:00Z'), NEW_YORK), -300);
+  assert.strictEqual(tz.getOffsetMinutes(new Date('2025-07-15T12:00:00Z'), NEW_YORK), -240);
+  assert.strictEqual(tz.getOffsetMinutes(new Date('2025-07-15T12:00:00Z'), JAKARTA), 420);
+  assert.strictEqual(tz.getOffsetMinutes(new Date('2025-01-15T12:00:00Z'), LORD_HOWE), 660);
+  assert.strictEqual(tz.getOffsetMinutes(new Date('2025-07-15T12:00:00Z'), LORD_HOWE), 630);
+});
+
+test('spring-forward: times around the gap resolve correctly', () => {
+  // 2025-03-09 02:00 EST -> 03:00 EDT
+  assert.strictEqual(iso(tz.zonedTimeToInstant('2025-03-09', '01:59', NEW_YORK)), '2025-03-09T06:59:00.000Z');
+  assert.strictEqual(iso(tz.zonedTimeToInstant('2025-03-09', '03:00', NEW_YORK)), '2025-03-09T07:00:00.000Z');
+  // 02:30 does not exist and moves forward by the gap
+  assert.strictEqual(iso(tz.zonedTimeToInstant('2025-03-09', '02:30', NEW_YORK)), '2025-03-09T07:30:00.000Z');
+  assert.strictEqual(tz.isExistingLocalTime('2025-03-09', '02:30', NEW_YORK), false);
+  assert.strictEqual(tz.isExistingLocalTime('2025-03-09', '03:30', NEW_YORK), true);
+});
+
+test('fall-back: repeated times resolve to the first occurrence', () => {
+  // 2025-11-02 02:00 EDT -> 01:00 EST, so 01:30 happens twice
+  assert.strictEqual(iso(tz.zonedTimeToInstant('2025-11-02', '01:30', NEW_YORK)), '2025-11-02T05:30:00.000Z');
+  assert.strictEqual(tz.formatInTimeZone(new Date('2025-11-02T06:30:00Z'), NEW_YORK), '2025-11-02T01:30:00-05:00');
+  assert.strictEqual(iso(tz.zonedTimeToInstant('2025-11-02', '02:00', NEW_YORK)), '2025-11-02T07:00:00.000Z');
+});
+
+test('half-hour DST shift on Lord Howe Island', () => {
+  // 2025-10-05 02:00 +10:30 -> 02:30 +11:00
+  assert.strictEqual(tz.isExistingLocalTime('2025-10-05', '02:15', LORD_HOWE), false);
+  assert.strictEqual(tz.formatInTimeZone(tz.zonedTimeToInstant('2025-10-05', '02:30', LORD_HOWE), LORD_HOWE), '2025-10-05T02:30:00+11:00');
+});
+
+test('local days are 23 or 25 hours long across transitions', () => {
+  const hours = ({ start, end }) => (end.getTime() - start.getTime()) / 3600000;
+  assert.strictEqual(hours(tz.getLocalDayRange('2025-03-09', NEW_YORK)), 23);
+  assert.strictEqual(hours(tz.getLocalDayRange('2025-11-02', NEW_YORK)), 25);
+  assert.strictEqual(hours(tz.getLocalDayRange('2025-06-01', NEW_YORK)), 24);
+  assert.strictEqual(iso(tz.getLocalDayRange('2025-06-01', JAKARTA).start), '2025-05-31T17:00:00.000Z');
+});
+
+test('weekday comes from the business-local date near midnight', () => {
+  // Sunday 2025-06-01 18:30 UTC is already Monday 01:30 in Jakarta
+  const parts = tz.getZonedParts(new Date('2025-06-01T18:30:00Z'), JAKARTA);
+  assert.deepStrictEqual(
+    { date: parts.date, time: parts.time, dayOfWeek: parts.dayOfWeek },
+    { date: '2025-06-02', time: '01:30:00', dayOfWeek: 1 }
+  );
+  // Monday 2025-06-02 02:30 UTC is still Sunday evening in New York
+  assert.strictEqual(tz.getZonedParts(new Date('2025-06-02T02:30:00Z'), NEW_YORK).dayOfWeek, 0);
+  assert.strictEqual(tz.getDayOfWeek('2025-06-01'), 0);
+});
+
+test('date-times with offsets are exact; zone-less ones are business-local', () => {
+  assert.strictEqual(iso(tz.parseDateTime('2025-06-02T09:00:00', JAKARTA)), '2025-06-02T02:00:00.000Z');
+  assert.strictEqual(iso(tz.parseDateTime('2025-06-02T09:00:00Z', JAKARTA)), '2025-06-02T09:00:00.000Z');
+  assert.strictEqual(iso(tz.parseDateTime('2025-06-02T09:00:00-04:00', JAKARTA)), '2025-06-02T13:00:00.000Z');
+  assert.strictEqual(iso(tz.parseDateTime('2025-06-02T09:00+0700', NEW_YORK)), '2025-06-02T02:00:00.000Z');
+  assert.throws(() => tz.parseDateTime('next tuesday', NEW_YORK), /Invalid date-time/);
+});
+
+test('formatting carries the offset in effect at that instant', () => {
+  assert.strictEqual(tz.formatInTimeZone(new Date('2025-03-09T06:59:00Z'), NEW_YORK), '2025-03-09T01:59:00-05:00');
+  assert.strictEqual(tz.formatInTimeZone(new Date('2025-03-09T07:00:00Z'), NEW_YORK), '2025-03-09T03:00:00-04:00');
+  assert.strictEqual(tz.formatInTimeZone(new Date('2025-06-01T17:00:00Z'), JAKARTA), '2025-06-02T00:00:00+07:00');
+});
+
+test('unknown zones fall back to UTC', () => {
+  assert.strictEqual(tz.normalizeTimeZone('Mars/Olympus_Mons'), 'UTC');
+  assert.strictEqual(tz.normalizeTimeZone(null), 'UTC');
+  assert.strictEqual(tz.normalizeTimeZone(JAKARTA), JAKARTA);
+});
+
+// Data-layer checks against a seeded Jakarta business
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedJakartaBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Timezone Test Jakarta', JAKARTA, now]
+  );
+  // Open Monday 08:00-17:00 local time only
+  await pool.query(
+    `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+     VALUES ($1, 1, '08:00', '17:00', false)`,
+    [businessId]
+  );
+
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Timezone',
+    last_name: 'Customer',
+    email: `timezone-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-000-0100',
+  });
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Timezone Service', 60, 5000, true, 1) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Timezone', 'Staff', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+  await pool.query(
+    `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+     VALUES ($1, 1, '08:00', '17:00', true)`,
+    [staff.id]
+  );
+
+  return { customer, service, staff };
+}
+
+if (process.env.DATABASE_URL) {
+  test('business timezone is read from the businesses table', async () => {
+    assert.strictEqual(await db.getBusinessTimezone(businessId), JAKARTA);
+  });
+
+  test('business hours use the business-local weekday', async () => {
+    const monday = await db.checkBusinessHours(businessId, '2030-06-03');
+    assert.strictEqual(monday.isOpen, true);
+    assert.strictEqual(monday.opensAt, '2030-06-03T08:00:00+07:00');
+    const sunday = await db.checkBusinessHours(businessId, '2030-06-02');
+    assert.strictEqual(sunday.isOpen, false);
+  });
+
+  test('an 08:00 Jakarta booking passes even though it is Sunday in UTC', async () => {
+    const { service, staff, customer } = seeded;
+    // Monday 08:00 WIB == Monday 01:00 UTC; 2030-06-03 is a Monday
+    const result = await db.checkAppointmentConflict(
+      businessId, service.id, staff.id, customer.id,
+      '2030-06-03T08:00:00+07:00', '2030-06-03T09:00:00+07:00'
+    );
+    const types = result.conflicts.map((conflict) => conflict.type);
+    assert.ok(!types.includes('OUTSIDE_BUSINESS_HOURS'), types.join(', '));
+    assert.ok(!types.includes('NO_BUSINESS_HOURS'), types.join(', '));
+    assert.strictEqual(result.localStartTime, '2030-06-03T08:00:00+07:00');
+  });
+
+  test('zone-less times are read as Jakarta wall-clock time', async () => {
+    const { service, staff, customer } = seeded;
+    const result = await db.checkAppointmentConflict(
+      businessId, service.id, staff.id, customer.id,
+      '2030-06-03T18:00:00', '2030-06-03T19:00:00'
+    );
+    assert.ok(result.conflicts.some((conflict) => conflict.type === 'OUTSIDE_BUSINESS_HOURS'));
+  });
+
+  test('stored appointments round-trip as UTC and fill the local slot', async () => {
+    const { service, staff, customer } = seeded;
+    const appointment = await db.createAppointment(businessId, {
+      customer_id: customer.id,
+      service_id: service.id,
+      staff_id: staff.id,
+      start_time: '2030-06-03T08:00:00',
+      end_time: '2030-06-03T09:00:00',
+    });
+    assert.strictEqual(new Date(appointment.start_time).toISOString(), '2030-06-03T01:00:00.000Z');
+
+    const slots = await db.getAvailableTimeSlots(businessId, service.id, '2030-06-03');
+    assert.strictEqual(slots[0].start_time, '2030-06-03T09:00:00+07:00');
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedJakartaBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} timezone tests passed (server TZ: ${Intl.DateTimeFormat().resolvedOptions().timeZone})`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Timezone tests failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,295 @@
+#!/usr/bin/env node
+
+// Customer verification test suite
+// Checks one-time code hashing, contact-detail masking and the per-session
+// verification state that decides what customer tools may disclose.
+//
+// Usage: npm run build && node test-verification.js
+//
+// With DATABASE_URL set it also seeds a customer with a past booking and runs
+// both verification methods through the tools, capturing the sent codes.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const verification = await import('./build/verification.js');
+const delivery = await import('./build/delivery.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+test('codes are six digits and stored as salted hashes', () => {
+  const code = verification.generateVerificationCode();
+  assert.match(code, /^\d{6}$/);
+
+  const id = randomUUID();
+  const hash = verification.hashVerificationCode(id, code);
+  assert.notStrictEqual(hash, verification.hashVerificationCode(randomUUID(), code));
+  assert.ok(verification.verificationCodeMatches(id, ` ${code} `, hash));
+  assert.ok(!verification.verificationCodeMatches(id, code === '000000' ? '000001' : '000000', hash));
+});
+
+test('contact details are masked and notes dropped', () => {
+  assert.strictEqual(verification.maskEmail('jane.doe@example.com'), 'j***@example.com');
+  assert.strictEqual(verification.maskPhone('555-010-1234'), '***1234');
+  assert.strictEqual(verification.maskPhone(null), null);
+
+  const redacted = verification.redactCustomer({ id: 'c1', first_name: 'Jane', email: 'jane@example.com', phone: '5550101234', notes: 'Allergic to latex' });
+  assert.deepStrictEqual(redacted, { id: 'c1', first_name: 'Jane', email: 'j***@example.com', phone: '***1234', notes: null });
+});
+
+test('verification is per session and per customer', () => {
+  const session = { businessId: randomUUID(), businessLocked: true };
+  assert.ok(!verification.isCustomerVerified(session, 'c1'));
+  assert.throws(() => verification.requireVerifiedCustomer(session, 'c1'), (error) => error.code === 'CUSTOMER_NOT_VERIFIED');
+
+  verification.markCustomerVerified(session, 'c1');
+  assert.ok(verification.isCustomerVerified(session, 'c1'));
+  assert.ok(!verification.isCustomerVerified(session, 'c2'));
+  assert.ok(!verification.isCustomerVerified({ businessLocked: false }, 'c1'));
+});
+
+test('the file adapter appends one JSON line per message', async () => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'outbox-'));
+  try {
+    const file = path.join(directory, 'outbox.jsonl');
+    const adapter = delivery.fileDelivery(file);
+    await adapter.send({ channel: 'sms', to: '5550101234', subject: null, body: 'first', business_id: 'b', customer_id: 'c' });
+    await adapter.send({ channel: 'email', to: 'a@example.com', subject: 'Hi', body: 'second', business_id: 'b', customer_id: null });
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepStrictEqual(lines.map((line) => line.body), ['first', 'second']);
+    assert.ok(lines[0].sent_at);
+  } finally {
+    rmSync(directory, { recursive: true, force: true });
+  }
+});
+
+// Tool-level checks against a seeded customer with a past haircut
+let registry;
+let db;
+const businessId = randomUUID();
+let customerId;
+let appointmentId;
+const sent = [];
+
+function session() {
+  return { businessId, businessLocked: true };
+}
+
+async function call(name, args, toolSession) {
+  return registry.callTool(name, args, toolSession);
+}
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Verification Test', 'UTC', now]
+  );
+  const customer = await db.createCustomer(businessId, {
+    first_name: 'Vera',
+    last_name: 'Fied',
+    email: `vera-${businessId.slice(0, 8)}@example.com`,
+    phone: '555-070-4321',
+  });
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active)
+     VALUES ($1, 'Haircut', 30, 3000, true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  appointmentId = (await pool.query(
+    `INSERT INTO appointments (business_id, customer_id, service_id, start_time, end_time, status, notes)
+     VALUES ($1, $2, $3, '2030-03-04T10:00:00Z', '2030-03-04T10:30:00Z', 'completed', 'Prefers the window seat')
+     RETURNING id`,
+    [businessId, customer.id, service.id]
+  )).rows[0].id;
+  return customer.id;
+}
+
+if (process.env.DATABASE_URL) {
+  test('unverified sessions see masked details and no history', async () => {
+    const details = await call('get_customer', { customer_id: customerId }, session());
+    assert.ok(!details.isError, details.content[0].text);
+    assert.strictEqual(details.structuredContent.verified, false);
+    assert.strictEqual(details.structuredContent.customer.phone, '***4321');
+
+    const history = await call('get_customer_appointments', { customer_id: customerId }, session());
+    assert.ok(history.isError);
+    assert.strictEqual(history.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+  });
+
+  test('an appointment ID or customer filter does not reveal the customer', async () => {
+    const appointment = await call('get_appointment', { id: appointmentId }, session());
+    assert.ok(!appointment.isError, appointment.content[0].text);
+    assert.strictEqual(appointment.structuredContent.verified, false);
+    assert.strictEqual(appointment.structuredContent.appointment.notes, null);
+    assert.ok(appointment.content[0].text.includes('***4321'));
+    assert.ok(!appointment.content[0].text.includes('555-070-4321'));
+    assert.ok(!appointment.content[0].text.includes(`vera-${businessId.slice(0, 8)}`));
+
+    const listing = await call('list_appointments', { customer_id: customerId }, session());
+    assert.strictEqual(listing.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+    const unfiltered = await call('list_appointments', {}, session());
+    assert.ok(!unfiltered.isError, unfiltered.content[0].text);
+    const [listed] = unfiltered.structuredContent.appointments;
+    assert.strictEqual(listed.id, appointmentId);
+    assert.strictEqual(listed.notes, null);
+    assert.ok(unfiltered.content[0].text.includes('verify'));
+  });
+
+  test('unverified sessions cannot change the customer or read their reviews', async () => {
+    const update = await call('update_customer', { customer_id: customerId, email: 'attacker@example.com' }, session());
+    assert.strictEqual(update.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+    const profile = await call(
+      'update_customer_profile',
+      { customer_id: customerId, first_name: 'Vera', last_name: 'Fied', email: 'attacker@example.com', phone: '555-999-0000' },
+      session()
+    );
+    assert.strictEqual(profile.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+    const reviews = await call('get_customer_reviews', { customer_id: customerId }, session());
+    assert.strictEqual(reviews.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+    const notes = await call('create_customer_by_name', { customer_name: 'Fied', notes: 'Call me at 555-999-0000' }, session());
+    assert.strictEqual(notes.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+
+    const customer = await db.getCustomer(businessId, customerId);
+    assert.strictEqual(customer.email, `vera-${businessId.slice(0, 8)}@example.com`);
+    assert.strictEqual(customer.notes ?? null, null);
+  });
+
+  test('finding a customer by name masks their details', async () => {
+    const found = await call('create_customer_if_not_exists', { customer_name: 'Fied' }, session());
+    assert.ok(!found.isError, found.content[0].text);
+    assert.strictEqual(found.structuredContent.created, false);
+    assert.strictEqual(found.structuredContent.verified, false);
+    assert.strictEqual(found.structuredContent.customer.id, customerId);
+    assert.strictEqual(found.structuredContent.customer.phone, '***4321');
+    assert.ok(!found.content[0].text.includes('555-070-4321'));
+
+    const created = await call('create_customer_if_not_exists', { customer_name: 'Newt Comer', phone: '555-070-9999' }, session());
+    assert.strictEqual(created.structuredContent.created, true);
+    assert.strictEqual(created.structuredContent.customer.phone, '555-070-9999');
+  });
+
+  test('a one-time code verifies the session', async () => {
+    const verifiedSession = session();
+    const result = await call('send_verification_code', { customer_id: customerId, channel: 'sms' }, verifiedSession);
+    assert.ok(!result.isError, result.content[0].text);
+    assert.strictEqual(result.structuredContent.sent_to, '***4321');
+    const message = sent.at(-1);
+    assert.strictEqual(message.to, '555-070-4321');
+    const code = /\b(\d{6})\b/.exec(message.body)[1];
+
+    const wrong = await call('verify_customer_code', { customer_id: customerId, code: code === '000000' ? '111111' : '000000' }, verifiedSession);
+    assert.strictEqual(wrong.structuredContent.error.code, 'VERIFICATION_CODE_INVALID');
+    assert.strictEqual(wrong.structuredContent.error.details.attempts_left, 4);
+
+    const right = await call('verify_customer_code', { customer_id: customerId, code }, verifiedSession);
+    assert.ok(!right.isError, right.content[0].text);
+
+    const history = await call('get_customer_appointments', { customer_id: customerId }, verifiedSession);
+    assert.ok(!history.isError, history.content[0].text);
+    assert.strictEqual(history.structuredContent.count, 1);
+    const details = await call('get_customer', { customer_id: customerId }, verifiedSession);
+    assert.strictEqual(details.structuredContent.customer.phone, '555-070-4321');
+    const appointment = await call('get_appointment', { id: appointmentId }, verifiedSession);
+    assert.strictEqual(appointment.structuredContent.appointment.notes, 'Prefers the window seat');
+    assert.strictEqual((await call('list_appointments', { customer_id: customerId }, verifiedSession)).structuredContent.count, 1);
+
+    // Another session is still unverified, and the code cannot be reused
+    const other = await call('get_customer_statistics', { customer_id: customerId }, session());
+    assert.strictEqual(other.structuredContent.error.code, 'CUSTOMER_NOT_VERIFIED');
+    const reused = await call('verify_customer_code', { customer_id: customerId, code }, session());
+    assert.strictEqual(reused.structuredContent.error.code, 'VERIFICATION_CODE_EXPIRED');
+  });
+
+  test('codes cannot be resent within a minute', async () => {
+    const result = await call('send_verification_code', { customer_id: customerId }, session());
+    assert.ok(result.isError);
+    assert.strictEqual(result.structuredContent.error.code, 'VERIFICATION_RECENTLY_SENT');
+  });
+
+  test('matching booking details verify the session', async () => {
+    const bookingSession = session();
+    const wrong = await call(
+      'verify_customer_by_booking',
+      { customer_id: customerId, last_name: 'Fied', appointment_date: '2030-03-04', service_name: 'Massage' },
+      bookingSession
+    );
+    assert.strictEqual(wrong.structuredContent.error.code, 'VERIFICATION_FAILED');
+
+    const right = await call(
+      'verify_customer_by_booking',
+      { customer_id: customerId, last_name: 'fied', appointment_date: '2030-03-04', service_name: 'haircut' },
+      bookingSession
+    );
+    assert.ok(!right.isError, right.content[0].text);
+    assert.strictEqual(right.structuredContent.method, 'booking');
+    const stats = await call('get_customer_statistics', { customer_id: customerId }, bookingSession);
+    assert.ok(!stats.structuredContent.error, stats.content[0].text);
+  });
+
+  test('failed booking checks lock the customer across sessions', async () => {
+    const wrongDetails = { customer_id: customerId, last_name: 'Fied', appointment_date: '2030-03-04', service_name: 'Massage' };
+    // Every guess comes from a fresh session, as from a new SSE connection
+    for (let attemptsLeft = 4; attemptsLeft >= 0; attemptsLeft--) {
+      const wrong = await call('verify_customer_by_booking', wrongDetails, session());
+      assert.strictEqual(wrong.structuredContent.error.code, 'VERIFICATION_FAILED');
+      assert.strictEqual(wrong.structuredContent.error.details.attempts_left, attemptsLeft);
+    }
+
+    const locked = await call(
+      'verify_customer_by_booking',
+      { ...wrongDetails, last_name: 'fied', service_name: 'haircut' },
+      session()
+    );
+    assert.strictEqual(locked.structuredContent.error.code, 'VERIFICATION_LOCKED');
+    assert.ok(new Date(locked.structuredContent.error.details.locked_until) > new Date());
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      const tools = await import('./build/tools/index.js');
+      tools.registerCoreTools();
+      registry = tools;
+      delivery.setDeliveryAdapter({ name: 'capture', send: async (message) => { sent.push(message); } });
+      customerId = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping tool checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} verification tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Verification tests failed to run:', error);
+  process.exit(1);
+});
@@ -0,0 +1,206 @@
+#!/usr/bin/env node
+
+// Multi-service visit test suite
+// Checks that services are laid out back to back with their buffers, with a
+// free staff member per service.
+//
+// Usage: npm run build && node test-visits.js
+//
+// With DATABASE_URL set it also books "cut + colour + blow-dry" visits for a
+// seeded salon and checks option search, all-or-nothing booking and
+// cancellation.
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+const visits = await import('./build/visits.js');
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+const at = (time) => new Date(`2030-05-06T${time}:00Z`);
+const cut = { service_id: 'cut', service_name: 'Cut', duration_minutes: 45, buffer_minutes: 15, staff_ids: ['anna', 'ben'] };
+const colour = { service_id: 'colour', service_name: 'Colour', duration_minutes: 90, buffer_minutes: 0, staff_ids: ['ben'] };
+const blowDry = { service_id: 'blow-dry', service_name: 'Blow-dry', duration_minutes: 30, buffer_minutes: 0, staff_ids: ['anna', 'ben'] };
+
+test('services follow each other after the previous buffer', () => {
+  const plan = visits.planVisit([cut, colour, blowDry], at('09:00'), () => true);
+  assert.deepStrictEqual(
+    plan.map((segment) => [segment.sequence, segment.staff_id, segment.start_time.toISOString(), segment.end_time.toISOString()]),
+    [
+      [1, 'anna', '2030-05-06T09:00:00.000Z', '2030-05-06T09:45:00.000Z'],
+      [2, 'ben', '2030-05-06T10:00:00.000Z', '2030-05-06T11:30:00.000Z'],
+      [3, 'anna', '2030-05-06T11:30:00.000Z', '2030-05-06T12:00:00.000Z'],
+    ]
+  );
+  assert.strictEqual(visits.visitLengthMinutes([cut, colour, blowDry]), 180);
+});
+
+test('each service goes to the first free staff member', () => {
+  const annaBusyEarly = (staffId, service, start) => !(staffId === 'anna' && start < at('10:00'));
+  const plan = visits.planVisit([cut, colour, blowDry], at('09:00'), annaBusyEarly);
+  assert.deepStrictEqual(plan.map((segment) => segment.staff_id), ['ben', 'ben', 'anna']);
+});
+
+test('a service nobody can do makes the start time fail', () => {
+  const benOff = (staffId) => staffId !== 'ben';
+  assert.strictEqual(visits.planVisit([cut, colour], at('09:00'), benOff), null);
+});
+
+// Data-layer checks against a seeded salon, open Mondays 09:00-17:00
+let db;
+const businessId = randomUUID();
+let seeded;
+
+async function seedBusiness() {
+  const { pool } = db;
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Visit Test', 'UTC', now]
+  );
+  await pool.query(
+    `INSERT INTO working_hours (business_id, day_of_week, open_time, close_time, is_closed)
+     VALUES ($1, 1, '09:00', '17:00', false)`,
+    [businessId]
+  );
+
+  const customers = [];
+  for (let i = 0; i < 2; i++) {
+    customers.push(await db.createCustomer(businessId, {
+      first_name: 'Visit',
+      last_name: `Customer ${i}`,
+      email: `visit-${businessId.slice(0, 8)}-${i}@example.com`,
+      phone: `555-050-00${String(i).padStart(2, '0')}`,
+    }));
+  }
+
+  const services = {};
+  for (const [name, duration, buffer] of [['Cut', 45, 15], ['Colour', 90, 0], ['Blow-dry', 30, 0]]) {
+    services[name] = (await pool.query(
+      `INSERT INTO services (business_id, name, duration_minutes, buffer_time_minutes, price_cents, is_active, max_bookings_per_slot)
+       VALUES ($1, $2, $3, $4, 3000, true, 2) RETURNING *`,
+      [businessId, name, duration, buffer]
+    )).rows[0];
+  }
+
+  const staff = {};
+  for (const [name, serviceNames] of [['Anna', ['Cut', 'Blow-dry']], ['Ben', ['Colour', 'Blow-dry']]]) {
+    staff[name] = (await pool.query(
+      `INSERT INTO staff (business_id, first_name, last_name, is_active)
+       VALUES ($1, $2, 'Stylist', true) RETURNING *`,
+      [businessId, name]
+    )).rows[0];
+    for (const serviceName of serviceNames) {
+      await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff[name].id, services[serviceName].id]);
+    }
+    await pool.query(
+      `INSERT INTO staff_working_hours (staff_id, day_of_week, open_time, close_time, is_available)
+       VALUES ($1, 1, '09:00', '17:00', true)`,
+      [staff[name].id]
+    );
+  }
+
+  return { customers, services, staff };
+}
+
+function serviceIds() {
+  const { services } = seeded;
+  return [services.Cut.id, services.Colour.id, services['Blow-dry'].id];
+}
+
+if (process.env.DATABASE_URL) {
+  let visit;
+
+  test('options list a staff member per service', async () => {
+    const result = await db.findVisitTimes(businessId, { service_ids: serviceIds(), date: '2030-05-06', limit: 3 });
+    assert.strictEqual(result.options.length, 3);
+    const [first] = result.options;
+    assert.strictEqual(first[0].start_time.toISOString(), '2030-05-06T09:00:00.000Z');
+    assert.deepStrictEqual(first.map((segment) => segment.staff_id), [seeded.staff.Anna.id, seeded.staff.Ben.id, seeded.staff.Anna.id]);
+  });
+
+  test('a visit books every service with a shared visit ID', async () => {
+    const result = await db.createVisit(businessId, {
+      customer_id: seeded.customers[0].id,
+      service_ids: serviceIds(),
+      start_time: '2030-05-06T09:00:00Z',
+    });
+    visit = result.visit;
+    assert.strictEqual(result.segments.length, 3);
+    assert.ok(result.segments.every((segment) => segment.visit_id === visit.id));
+    assert.strictEqual(new Date(visit.end_time).toISOString(), '2030-05-06T12:00:00.000Z');
+  });
+
+  test('a visit that does not fit books nothing', async () => {
+    // Ben is colouring until 11:30, so a 10:00 colour cannot happen
+    await assert.rejects(
+      () => db.createVisit(businessId, {
+        customer_id: seeded.customers[1].id,
+        service_ids: serviceIds(),
+        start_time: '2030-05-06T09:00:00Z',
+      }),
+      (error) => error.code === 'VISIT_UNAVAILABLE'
+    );
+    const appointments = await db.getCustomerAppointments(businessId, seeded.customers[1].id);
+    assert.strictEqual(appointments.length, 0);
+  });
+
+  test('visits are cancelled as a whole', async () => {
+    const [firstSegment] = (await db.getVisit(businessId, visit.id)).segments;
+    await assert.rejects(
+      () => db.cancelAppointment(businessId, firstSegment.id, 'Only the cut', 'visit-test'),
+      (error) => error.code === 'PART_OF_VISIT'
+    );
+    await assert.rejects(
+      () => db.updateAppointment(
+        businessId, firstSegment.id, seeded.customers[0].id, firstSegment.service_id, firstSegment.staff_id,
+        firstSegment.start_time, firstSegment.end_time, 'cancelled'
+      ),
+      (error) => error.code === 'PART_OF_VISIT'
+    );
+
+    const result = await db.cancelVisit(businessId, visit.id, 'Plans changed', 'visit-test');
+    assert.strictEqual(result.cancelled.length, 3);
+    assert.strictEqual(result.visit.status, 'canceled');
+  });
+}
+
+async function run() {
+  let failures = 0;
+
+  try {
+    if (process.env.DATABASE_URL) {
+      db = await import('./build/database.js');
+      seeded = await seedBusiness();
+    } else {
+      console.log('DATABASE_URL not set; skipping data-layer checks\n');
+    }
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    if (db) {
+      await db.pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+      await db.pool.end();
+    }
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} visit tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Visit tests failed to run:', error);
+  process.exit(1);
+});
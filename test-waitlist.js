@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+
+// Waitlist test suite
+// Fills a slot, puts customers on the waitlist and checks that cancelling or
+// rescheduling offers the freed slot in priority order, that offers hold the
+// slot, and that accepting, leaving and expiry behave.
+//
+// Usage: npm run build && DATABASE_URL=postgresql://... node test-waitlist.js
+
+import assert from 'assert';
+import { randomUUID } from 'crypto';
+
+if (!process.env.DATABASE_URL) {
+  console.error('❌ Missing DATABASE_URL environment variable');
+  process.exit(1);
+}
+
+const db = await import('./build/database.js');
+const { pool } = db;
+
+const businessId = randomUUID();
+
+async function seed() {
+  const now = new Date().toISOString();
+  await pool.query(
+    'INSERT INTO businesses (id, name, timezone, created_at, updated_at) VALUES ($1, $2, $3, $4, $4)',
+    [businessId, 'Waitlist Test', 'UTC', now]
+  );
+
+  const customers = [];
+  for (let i = 0; i < 5; i++) {
+    customers.push(await db.createCustomer(businessId, {
+      first_name: 'Waitlist',
+      last_name: `Customer ${i}`,
+      email: `waitlist-${businessId.slice(0, 8)}-${i}@example.com`,
+      phone: `555-020-00${String(i).padStart(2, '0')}`,
+    }));
+  }
+
+  const service = (await pool.query(
+    `INSERT INTO services (business_id, name, duration_minutes, price_cents, is_active, max_bookings_per_slot)
+     VALUES ($1, 'Popular Cut', 60, 4000, true, 1) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  const staff = (await pool.query(
+    `INSERT INTO staff (business_id, first_name, last_name, is_active)
+     VALUES ($1, 'Waitlist', 'Staff', true) RETURNING *`,
+    [businessId]
+  )).rows[0];
+  await pool.query('INSERT INTO staff_services (staff_id, service_id) VALUES ($1, $2)', [staff.id, service.id]);
+
+  return { customers, service, staff };
+}
+
+async function cleanup() {
+  await pool.query('DELETE FROM businesses WHERE id = $1', [businessId]);
+}
+
+const tests = [];
+function test(name, fn) {
+  tests.push({ name, fn });
+}
+
+let seeded;
+const entries = {};
+
+function book(customer, start, end) {
+  const { service, staff } = seeded;
+  return db.createAppointment(businessId, {
+    customer_id: customer.id,
+    service_id: service.id,
+    staff_id: staff.id,
+    start_time: start,
+    end_time: end,
+  });
+}
+
+test('customers join the waitlist with their constraints', async () => {
+  const { customers, service, staff } = seeded;
+  // Mornings only, so never matches the afternoon slot
+  entries.morning = await db.joinWaitlist(businessId, {
+    customer_id: customers[1].id, service_id: service.id, window_start: '08:00', window_end: '12:00', priority: 10,
+  });
+  entries.regular = await db.joinWaitlist(businessId, {
+    customer_id: customers[2].id, service_id: service.id, earliest_date: '2030-02-01', latest_date: '2030-02-28',
+  });
+  entries.vip = await db.joinWaitlist(businessId, {
+    customer_id: customers[3].id, service_id: service.id, staff_id: staff.id, priority: 5,
+  });
+
+  await assert.rejects(
+    () => db.joinWaitlist(businessId, { customer_id: customers[3].id, service_id: service.id }),
+    (error) => error.code === 'ALREADY_WAITLISTED'
+  );
+});
+
+test('a cancellation offers the slot to the highest-priority match and holds it', async () => {
+  const { customers } = seeded;
+  const appointment = await book(customers[0], '2030-02-04T14:00:00Z', '2030-02-04T15:00:00Z');
+  const result = await db.cancelAppointment(businessId, appointment.id, 'Sick', 'waitlist-test');
+
+  assert.ok(result.waitlist_offer, 'expected an offer');
+  assert.strictEqual(result.waitlist_offer.entry_id, entries.vip.id);
+  entries.vipOffer = result.waitlist_offer;
+
+  // The held slot cannot be taken by someone else
+  await assert.rejects(
+    () => book(customers[4], '2030-02-04T14:00:00Z', '2030-02-04T15:00:00Z'),
+    (error) => error.code === 'SLOT_TAKEN'
+  );
+});
+
+test('leaving passes a pending offer to the next customer', async () => {
+  await db.leaveWaitlist(businessId, entries.vip.id);
+
+  const waiting = await db.listWaitlist(businessId, {});
+  const regular = waiting.find((row) => row.id === entries.regular.id);
+  assert.strictEqual(regular.status, 'offered');
+  assert.ok(regular.offer_id);
+  entries.regularOfferId = regular.offer_id;
+  assert.strictEqual(waiting.find((row) => row.id === entries.morning.id).status, 'waiting');
+});
+
+test('accepting an offer books the held slot', async () => {
+  const { offer, booking } = await db.acceptWaitlistOffer(businessId, entries.regularOfferId);
+  assert.strictEqual(offer.status, 'accepted');
+  assert.ok(booking.appointment_id);
+
+  const appointment = await db.getAppointment(businessId, booking.appointment_id);
+  assert.strictEqual(appointment.customer_id, seeded.customers[2].id);
+  assert.strictEqual(new Date(appointment.start_time).toISOString(), '2030-02-04T14:00:00.000Z');
+
+  await assert.rejects(
+    () => db.acceptWaitlistOffer(businessId, entries.regularOfferId),
+    (error) => error.code === 'OFFER_NOT_PENDING'
+  );
+});
+
+test('a reschedule offers the old slot; expired offers move down the queue', async () => {
+  const { customers, service } = seeded;
+  entries.late = await db.joinWaitlist(businessId, { customer_id: customers[4].id, service_id: service.id });
+
+  const appointment = await book(customers[0], '2030-02-05T09:00:00Z', '2030-02-05T10:00:00Z');
+  const result = await db.rescheduleAppointment(businessId, appointment.id, '2030-02-06T15:00:00Z', '2030-02-06T16:00:00Z', 'waitlist-test');
+  assert.strictEqual(result.waitlist_offer.entry_id, entries.morning.id);
+
+  await pool.query('UPDATE waitlist_offers SET expires_at = $1 WHERE id = $2', [new Date(Date.now() - 1000), result.waitlist_offer.id]);
+  await assert.rejects(
+    () => db.acceptWaitlistOffer(businessId, result.waitlist_offer.id),
+    (error) => error.code === 'OFFER_EXPIRED'
+  );
+
+  const waiting = await db.listWaitlist(businessId, {});
+  assert.strictEqual(waiting.find((row) => row.id === entries.morning.id).status, 'waiting');
+  assert.strictEqual(waiting.find((row) => row.id === entries.late.id).status, 'offered');
+});
+
+async function run() {
+  let failures = 0;
+
+  try {
+    seeded = await seed();
+
+    for (const { name, fn } of tests) {
+      try {
+        await fn();
+        console.log(`✅ ${name}`);
+      } catch (error) {
+        failures++;
+        console.log(`❌ ${name}`);
+        console.log('   ', error.message);
+      }
+    }
+  } finally {
+    await cleanup();
+    await pool.end();
+  }
+
+  console.log(`\n${tests.length - failures}/${tests.length} waitlist tests passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+run().catch((error) => {
+  console.error('Waitlist tests failed to run:', error);
+  process.exit(1);
+});